@@ -3,6 +3,11 @@ import AccountProfileForm from '@/components/AccountProfileForm';
 import AccountSecurity from '@/components/AccountSecurity';
 import { auth } from '@/lib/auth';
 import { getUserWithRBAC } from '@/lib/rbac';
+import {
+  ACCOUNT_REQUIREMENT_MESSAGES,
+  getSecuritySettings,
+  pendingAccountRequirement,
+} from '@/lib/security';
 import { headers } from 'next/headers';
 import { redirect } from 'next/navigation';
 
@@ -27,6 +32,10 @@ export default async function AccountPage({ searchParams }: PageProps) {
   const legacyRole = me.role || '—';
   const twoFactorEnabled = Boolean(me.twoFactorEnabled);
 
+  const settings = await getSecuritySettings();
+  const requirement = pendingAccountRequirement(me, settings);
+  const passwordRequired = requirement === 'password_change' || requirement === 'password_expired';
+
   const awaitedSearchParams = await searchParams;
   const forceParam = awaitedSearchParams?.forcePasswordChange;
   const forcePasswordChange =
@@ -59,7 +68,9 @@ export default async function AccountPage({ searchParams }: PageProps) {
           <AccountSecurity
             email={email}
             initialTwoFactorEnabled={twoFactorEnabled}
-            forcePasswordChange={forcePasswordChange || !!me.mustChangePassword}
+            forcePasswordChange={forcePasswordChange || passwordRequired}
+            requirementMessage={requirement ? ACCOUNT_REQUIREMENT_MESSAGES[requirement] : null}
+            twoFactorRequired={settings.enforceTwoFactorForAll}
           />
         </div>
 
@@ -1,10 +1,17 @@
 import { auth } from '@/lib/auth';
-import { db } from '@/lib/db';
-import { user } from '@/lib/db/schema';
-import { isSuperadminUser } from '@/lib/rbac';
-import { eq } from 'drizzle-orm';
+import { ROLES, getLegacyRole, getUserRoles, isSuperadminUser } from '@/lib/rbac';
 import { NextRequest, NextResponse } from 'next/server';
 
+// `user.role` only counts while legacy role access is on; otherwise the role
+// comes from RBAC grants alone (any active role reads as admin).
+async function resolveRole(userId: string): Promise<string | null> {
+  if (await isSuperadminUser(userId)) return ROLES.SUPERADMIN;
+  const legacyRole = await getLegacyRole(userId);
+  if (legacyRole) return legacyRole;
+  const roles = await getUserRoles(userId);
+  return roles.length > 0 ? ROLES.ADMIN : null;
+}
+
 export async function GET(request: NextRequest) {
   try {
     const session = await auth.api.getSession({ headers: request.headers });
@@ -13,14 +20,8 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const userData = await db.query.user.findFirst({
-      where: (users, { eq }) => eq(users.id, session.user.id),
-    });
-
-    const isSuperadmin = await isSuperadminUser(session.user.id);
-
     return NextResponse.json({
-      role: isSuperadmin ? 'superadmin' : userData?.role || 'admin',
+      role: await resolveRole(session.user.id),
       userId: session.user.id,
     });
   } catch (error: unknown) {
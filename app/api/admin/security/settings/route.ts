@@ -1,11 +1,14 @@
 import { logAuditEvent } from '@/lib/audit';
+import { compileAllowlist, getClientIp, isIpAllowed } from '@/lib/ipAllowlist';
+import { buildLegacyRoleReport } from '@/lib/legacyRoles';
 import {
+  SecuritySettings,
   SecuritySettingsInput,
   ensureSecurityPermissions,
   getSecuritySettings,
   updateSecuritySettings,
 } from '@/lib/security';
-import { ACTIONS, RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import { ACTIONS, RESOURCE_TYPES, requirePermission, requireSuperadmin } from '@/lib/rbac';
 import { NextRequest, NextResponse } from 'next/server';
 
 function normalizeInput(raw: any): SecuritySettingsInput {
@@ -78,9 +81,66 @@ function normalizeInput(raw: any): SecuritySettingsInput {
     }
   }
 
+  if (typeof raw.legacyRoleAccessEnabled === 'boolean') {
+    input.legacyRoleAccessEnabled = raw.legacyRoleAccessEnabled;
+  }
+
   return input;
 }
 
+/**
+ * Reject unparseable allowlist entries, and a save that would shut out the admin
+ * making it. Someone already outside the list (break-glass) can still save.
+ */
+function allowlistError(
+  request: NextRequest,
+  current: SecuritySettings,
+  input: SecuritySettingsInput
+): string | null {
+  const next = compileAllowlist(input.ipAllowlist ?? (current.ipAllowlist as string[]));
+  if (next.invalid.length > 0) {
+    return `Invalid IP allowlist entries: ${next.invalid.join(', ')}`;
+  }
+
+  const enabled = input.ipAllowlistEnabled ?? current.ipAllowlistEnabled;
+  const ip = getClientIp(request.headers);
+  const allowedBefore =
+    !current.ipAllowlistEnabled ||
+    isIpAllowed(ip, compileAllowlist(current.ipAllowlist as string[]));
+  if (enabled && allowedBefore && !isIpAllowed(ip, next)) {
+    return `Your address (${ip || 'unknown'}) is not on the IP allowlist; saving would lock you out`;
+  }
+  return null;
+}
+
+/**
+ * Only a superadmin may switch legacy `user.role` access, and it can only be
+ * turned off once no legacy admin would lose access by it.
+ */
+async function legacyAccessError(
+  request: NextRequest,
+  current: SecuritySettings,
+  input: SecuritySettingsInput
+): Promise<{ error: string; status: number } | null> {
+  const next = input.legacyRoleAccessEnabled;
+  if (next === undefined || next === current.legacyRoleAccessEnabled) return null;
+
+  const superadminCheck = await requireSuperadmin(request);
+  if (!superadminCheck.authorized) {
+    return { error: 'Only a superadmin can change legacy role access', status: 403 };
+  }
+  if (next) return null;
+
+  const report = await buildLegacyRoleReport();
+  if (report.pending > 0) {
+    return {
+      error: `${report.pending} legacy admin${report.pending === 1 ? '' : 's'} would lose access; convert legacy roles first`,
+      status: 409,
+    };
+  }
+  return null;
+}
+
 export async function GET(request: NextRequest) {
   try {
     await ensureSecurityPermissions();
@@ -116,6 +176,15 @@ export async function POST(request: NextRequest) {
     const input = normalizeInput(raw);
 
     const before = await getSecuritySettings();
+    const invalid = allowlistError(request, before, input);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+    const legacyBlocked = await legacyAccessError(request, before, input);
+    if (legacyBlocked) {
+      return NextResponse.json({ error: legacyBlocked.error }, { status: legacyBlocked.status });
+    }
+
     const next = await updateSecuritySettings(input);
 
     await logAuditEvent({
@@ -1,7 +1,9 @@
 import { auth } from '@/lib/auth';
 import {
   ACTIONS,
+  LEGACY_ADMIN_RESOURCES,
   RESOURCE_TYPES,
+  getLegacyRole,
   getUserPermissions,
   getUserRoles,
   getUserWithRBAC,
@@ -25,18 +27,7 @@ function applyLegacyFallback(keys: Set<string>, legacyRole: string | null) {
 
   if (legacyRole !== 'admin') return;
 
-  const adminAccessibleResources = [
-    RESOURCE_TYPES.ADMIN,
-    RESOURCE_TYPES.PROVIDERS,
-    RESOURCE_TYPES.USERS,
-    RESOURCE_TYPES.POSTS,
-    RESOURCE_TYPES.STORIES,
-    RESOURCE_TYPES.ANALYTICS,
-    RESOURCE_TYPES.GENERATE,
-    RESOURCE_TYPES.EXPLORE,
-    RESOURCE_TYPES.UPLOAD,
-  ];
-  for (const res of adminAccessibleResources) {
+  for (const res of LEGACY_ADMIN_RESOURCES) {
     addKey(keys, res, ACTIONS.MANAGE);
   }
 }
@@ -73,16 +64,18 @@ export async function GET(request: NextRequest) {
 
     const userId = session.user.id;
 
-    const [roles, perms, userWithRBAC, superFlag] = await Promise.all([
+    const [roles, perms, userWithRBAC, superFlag, activeLegacyRole] = await Promise.all([
       getUserRoles(userId),
       getUserPermissions(userId),
       getUserWithRBAC(userId),
       isSuperadminUser(userId),
+      getLegacyRole(userId),
     ]);
 
     const roleNames = roles.map((r) => r.name);
     const legacyRole = userWithRBAC?.role || null;
-    const keys = buildPermissionKeys(perms, legacyRole);
+    // The fallback only applies while legacy role access is on
+    const keys = buildPermissionKeys(perms, activeLegacyRole);
 
     return NextResponse.json({
       user: {
@@ -0,0 +1,64 @@
+import { getBudgetStatus, setMonthlyBudget } from '@/lib/generationBudget';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Current month's generation spend and cap. `?userId=` (someone else) requires generate:manage.
+export async function GET(request: NextRequest) {
+  try {
+    const authCheck = await requirePermission(request, RESOURCE_TYPES.GENERATE, 'read');
+    if (!authCheck.authorized) {
+      return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+    }
+    const currentUserId = authCheck.userId as string;
+
+    const targetUserId = request.nextUrl.searchParams.get('userId') || currentUserId;
+    if (targetUserId !== currentUserId) {
+      const manageCheck = await requirePermission(request, RESOURCE_TYPES.GENERATE, 'manage');
+      if (!manageCheck.authorized) {
+        return NextResponse.json({ error: manageCheck.error }, { status: manageCheck.status });
+      }
+    }
+
+    const budget = await getBudgetStatus(targetUserId);
+    return NextResponse.json({ budget });
+  } catch (error: unknown) {
+    console.error('generate/budget GET failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load generation budget';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Body: { userId?, monthlyLimitUsd: number | null, resetToDefault?: boolean }
+export async function PUT(request: NextRequest) {
+  try {
+    const authCheck = await requirePermission(request, RESOURCE_TYPES.GENERATE, 'manage');
+    if (!authCheck.authorized) {
+      return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+    }
+    const currentUserId = authCheck.userId as string;
+
+    const body = await request.json().catch(() => ({}));
+    const userId = typeof body.userId === 'string' && body.userId ? body.userId : currentUserId;
+    const resetToDefault = body.resetToDefault === true;
+    const limitUsd = body.monthlyLimitUsd === null ? null : Number(body.monthlyLimitUsd);
+
+    if (!resetToDefault && limitUsd !== null && !(Number.isFinite(limitUsd) && limitUsd >= 0)) {
+      return NextResponse.json(
+        { error: 'monthlyLimitUsd must be a non-negative number or null' },
+        { status: 400 }
+      );
+    }
+
+    const budget = await setMonthlyBudget({
+      userId,
+      limitUsd,
+      resetToDefault,
+      actorId: currentUserId,
+    });
+    return NextResponse.json({ budget });
+  } catch (error: unknown) {
+    console.error('generate/budget PUT failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to update generation budget';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
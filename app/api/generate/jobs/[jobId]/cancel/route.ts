@@ -0,0 +1,39 @@
+import {
+  canControlGenerationJob,
+  cancelGenerationJob,
+  getGenerationJobRow,
+  toGenerationJob,
+} from '@/lib/generationJobs';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.GENERATE, 'write');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  const { jobId } = await params;
+  try {
+    const existing = await getGenerationJobRow(jobId);
+    if (!existing) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    if (!(await canControlGenerationJob(existing, authCheck.userId as string))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const row = await cancelGenerationJob(jobId);
+    if (!row) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true, job: toGenerationJob(row) });
+  } catch (error: unknown) {
+    console.error('generate/jobs/[jobId]/cancel POST failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to cancel generation job';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { SSE_HEADERS, getGenerationJobRow, streamGenerationJobEvents } from '@/lib/generationJobs';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Reattach to a job's progress stream. `?after=<seq>` skips events already seen.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.GENERATE, 'read');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  const { jobId } = await params;
+  try {
+    const row = await getGenerationJobRow(jobId);
+    if (!row) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    const after = Math.max(
+      Number.parseInt(request.nextUrl.searchParams.get('after') || '0', 10) || 0,
+      0
+    );
+    return new Response(streamGenerationJobEvents(jobId, after, request.signal), {
+      headers: SSE_HEADERS,
+    });
+  } catch (error: unknown) {
+    console.error('generate/jobs/[jobId]/events GET failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to stream job events';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import {
+  canControlGenerationJob,
+  getGenerationJobRow,
+  resumeGenerationJob,
+} from '@/lib/generationJobs';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Resume a failed, cancelled or orphaned job from its last completed batch.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.GENERATE, 'write');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  const { jobId } = await params;
+  try {
+    const row = await getGenerationJobRow(jobId);
+    if (!row) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    if (!(await canControlGenerationJob(row, authCheck.userId as string))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const result = await resumeGenerationJob(jobId);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ ok: true, jobId });
+  } catch (error: unknown) {
+    console.error('generate/jobs/[jobId]/retry POST failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to resume generation job';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { getGenerationJobRow, isJobResumable, toGenerationJob } from '@/lib/generationJobs';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.GENERATE, 'read');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  const { jobId } = await params;
+  try {
+    const row = await getGenerationJobRow(jobId);
+    if (!row) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    const includeDocs = request.nextUrl.searchParams.get('includeDocs') === 'true';
+    return NextResponse.json({
+      job: { ...toGenerationJob(row), resumable: isJobResumable(row) },
+      config: row.config,
+      result: row.result,
+      ...(includeDocs ? { docs: row.docs } : {}),
+    });
+  } catch (error: unknown) {
+    console.error('generate/jobs/[jobId] GET failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load generation job';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { listGenerationJobs } from '@/lib/generationJobs';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+  try {
+    const authCheck = await requirePermission(request, RESOURCE_TYPES.GENERATE, 'read');
+    if (!authCheck.authorized) {
+      return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+    }
+
+    const limit = Math.min(
+      Math.max(Number.parseInt(request.nextUrl.searchParams.get('limit') || '20', 10) || 20, 1),
+      100
+    );
+    const mine = request.nextUrl.searchParams.get('mine') === 'true';
+
+    const jobs = await listGenerationJobs({
+      limit,
+      userId: mine ? authCheck.userId : undefined,
+    });
+    return NextResponse.json({ jobs });
+  } catch (error: unknown) {
+    console.error('generate/jobs GET failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load generation jobs';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
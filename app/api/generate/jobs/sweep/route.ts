@@ -0,0 +1,34 @@
+import { timingSafeEqual } from 'node:crypto';
+import { sweepStaleGenerationJobs } from '@/lib/generationJobs';
+import { NextRequest, NextResponse } from 'next/server';
+
+function requireCronSecret(request: NextRequest): NextResponse | null {
+  const expected = process.env.GENERATION_CRON_SECRET;
+  if (!expected) {
+    return NextResponse.json(
+      { error: 'GENERATION_CRON_SECRET is not configured' },
+      { status: 500 }
+    );
+  }
+  const provided = Buffer.from(request.headers.get('x-cron-secret') || '');
+  const secret = Buffer.from(expected);
+  if (provided.length !== secret.length || !timingSafeEqual(provided, secret)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return null;
+}
+
+// Resume generation jobs left queued or running by a worker that went away
+export async function POST(request: NextRequest) {
+  const authFail = requireCronSecret(request);
+  if (authFail) return authFail;
+
+  try {
+    const result = await sweepStaleGenerationJobs();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: unknown) {
+    console.error('generate/jobs/sweep POST failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to sweep generation jobs';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
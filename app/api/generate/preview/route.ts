@@ -0,0 +1,84 @@
+import { readExistingNames } from '@/lib/generationJobs';
+import { batchSlice } from '@/lib/generator';
+import {
+  batchVariables,
+  formatExistingNames,
+  missingPromptVariables,
+  normalizePromptOptions,
+  promptVariablesIn,
+  renderPrompt,
+  usesExistingNames,
+} from '@/lib/promptVariables';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import type { GenerationConfig } from '@/lib/types';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Rendered prompts returned for the first few batches only.
+const MAX_PREVIEW_BATCHES = 3;
+
+// Existing names echoed back as a sample; the prompt itself gets up to MAX_EXISTING_NAMES.
+const EXISTING_NAMES_SAMPLE = 20;
+
+// Render the user prompt with its variables, without calling the provider. Body: GenerationConfig
+export async function POST(request: NextRequest) {
+  try {
+    const authCheck = await requirePermission(request, RESOURCE_TYPES.GENERATE, 'read');
+    if (!authCheck.authorized) {
+      return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+    }
+
+    const config = (await request.json().catch(() => ({}))) as GenerationConfig;
+    if (typeof config.userPrompt !== 'string') {
+      return NextResponse.json({ error: 'userPrompt is required' }, { status: 400 });
+    }
+    config.count = config.count || 10;
+    config.batchSize = Math.min(config.batchSize || 5, 50);
+
+    // Missing variables are reported rather than rejected, so the editor can show them.
+    const error = normalizePromptOptions(config);
+    const missing = missingPromptVariables(config);
+    if (error && missing.length === 0) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const runValues: Record<string, string> = {};
+    let existingNames: { count: number; sample: string[] } | null = null;
+    let existingNamesError: string | null = null;
+    if (usesExistingNames(config)) {
+      try {
+        const names = await readExistingNames(config);
+        runValues.existing_names = formatExistingNames(names);
+        existingNames = { count: names.length, sample: names.slice(0, EXISTING_NAMES_SAMPLE) };
+      } catch (e: unknown) {
+        existingNamesError = e instanceof Error ? e.message : 'Failed to read existing names';
+      }
+    }
+
+    const batches = Math.ceil(config.count / config.batchSize);
+    const prompts = Array.from({ length: Math.min(batches, MAX_PREVIEW_BATCHES) }, (_, i) => {
+      const batch = i + 1;
+      return {
+        batch,
+        seed: config.seeds?.[i] ?? null,
+        prompt: renderPrompt(config.userPrompt, {
+          ...batchVariables(config, batch, runValues),
+          count: String(batchSlice(config, batch).needed),
+        }),
+      };
+    });
+
+    return NextResponse.json({
+      variables: promptVariablesIn(config.userPrompt),
+      missing,
+      count: config.count,
+      batches,
+      existingNames,
+      existingNamesError,
+      prompts,
+    });
+  } catch (error: unknown) {
+    console.error('generate/preview POST failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to preview prompt';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
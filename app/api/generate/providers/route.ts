@@ -0,0 +1,21 @@
+import { getDefaultProviderId, listProviders } from '@/lib/llm';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+  try {
+    const authCheck = await requirePermission(request, RESOURCE_TYPES.GENERATE, 'read');
+    if (!authCheck.authorized) {
+      return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+    }
+
+    return NextResponse.json({
+      providers: listProviders(),
+      defaultProvider: getDefaultProviderId(),
+    });
+  } catch (error: unknown) {
+    console.error('generate/providers GET failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load providers';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
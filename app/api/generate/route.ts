@@ -1,87 +1,219 @@
-import fs from 'node:fs/promises';
-import path from 'node:path';
-import { writeToFirestore } from '@/lib/firebase';
-import { generateContent } from '@/lib/openai';
-import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
-import { GenerationConfig } from '@/lib/types';
+import { listFirestoreDocIds } from '@/lib/firebase';
+import { DEFAULT_WRITE_MODE } from '@/lib/generatedDocs';
+import { checkGenerationBudget } from '@/lib/generationBudget';
+import {
+  SSE_HEADERS,
+  createGenerationJob,
+  startGenerationJob,
+  streamGenerationJobEvents,
+} from '@/lib/generationJobs';
+import { DEFAULT_CONCURRENCY, DEFAULT_MAX_REPAIR_ATTEMPTS, MAX_CONCURRENCY } from '@/lib/generator';
+import { getProvider } from '@/lib/llm';
+import { DEFAULT_BATCH_RETRIES } from '@/lib/llm/retry';
+import { normalizePromptOptions } from '@/lib/promptVariables';
+import { RESOURCE_TYPES, requireCollectionsPermission } from '@/lib/rbac';
+import {
+  MAX_TRANSLATION_DOCS,
+  defaultTargetCollection,
+  isValidLocale,
+  translationSourceError,
+  translationSystemPrompt,
+} from '@/lib/translation';
+import { GenerationConfig, TranslationOptions, WriteMode } from '@/lib/types';
 import { NextRequest, NextResponse } from 'next/server';
 
+const WRITE_MODES: WriteMode[] = ['skip-existing', 'merge', 'overwrite'];
+const ID_STRATEGIES = ['auto', 'field', 'hash', 'uuid'];
+
+// Fills write defaults in place; returns an error message for invalid id strategies.
+function normalizeWriteOptions(config: GenerationConfig): string | null {
+  config.writeMode = WRITE_MODES.includes(config.writeMode as WriteMode)
+    ? config.writeMode
+    : DEFAULT_WRITE_MODE;
+  config.dryRun = config.dryRun === true;
+
+  if (config.idStrategy && !ID_STRATEGIES.includes(config.idStrategy.type)) {
+    return 'Invalid idStrategy type';
+  }
+  if (config.idStrategy?.type === 'field' && !config.idStrategy.fieldPath?.trim()) {
+    return 'idStrategy.fieldPath is required for field ids';
+  }
+  return null;
+}
+
+// Resolves the provider and model; models are passed through, never remapped.
+function normalizeProviderOptions(config: GenerationConfig): string | null {
+  const provider = getProvider(config.provider);
+  if (!provider) return `Unknown provider: ${config.provider}`;
+  if (!provider.isConfigured()) return `Provider ${provider.id} is not configured`;
+
+  config.provider = provider.id;
+  config.model = config.model?.trim() || provider.defaultModel;
+  if (!config.model) return `No model selected for provider ${provider.id}`;
+
+  const temperature = Number(config.temperature);
+  config.temperature =
+    provider.capabilities.temperature && config.temperature != null && Number.isFinite(temperature)
+      ? Math.min(Math.max(temperature, 0), 2)
+      : undefined;
+  const maxTokens = Number(config.maxTokens);
+  config.maxTokens =
+    provider.capabilities.maxTokens && config.maxTokens != null && maxTokens >= 1
+      ? Math.floor(maxTokens)
+      : undefined;
+  return null;
+}
+
+function clampInt(value: unknown, min: number, max: number, fallback: number) {
+  const n = Number(value ?? fallback);
+  return Number.isFinite(n) ? Math.min(Math.max(Math.floor(n), min), max) : fallback;
+}
+
+// Validated translate-mode options (without the doc id snapshot), or an error message.
+function parseTranslationOptions(config: GenerationConfig): TranslationOptions | string {
+  const options = config.translation;
+  const sourceCollection = options?.sourceCollection?.trim();
+  if (!options || !sourceCollection) return 'translation.sourceCollection is required';
+  const sourceError = translationSourceError(sourceCollection);
+  if (sourceError) return sourceError;
+  const locale = options.locale?.trim();
+  if (!locale || !isValidLocale(locale)) {
+    return 'translation.locale must be a locale like es or pt-BR';
+  }
+  const fields = Array.isArray(options.fields)
+    ? Array.from(new Set(options.fields.map((f) => String(f).trim()).filter(Boolean)))
+    : [];
+  if (fields.length === 0) return 'translation.fields must list at least one field';
+
+  if (options.target === 'map') {
+    if (config.sink === 'file') {
+      return 'Translation maps are merged into the source docs and need the firestore or staging sink';
+    }
+    return { sourceCollection, locale, fields, target: 'map', instructions: options.instructions };
+  }
+
+  const targetCollection =
+    options.targetCollection?.trim() || defaultTargetCollection(sourceCollection, locale);
+  if (targetCollection === sourceCollection) {
+    return 'translation.targetCollection must differ from the source collection';
+  }
+  return {
+    sourceCollection,
+    locale,
+    fields,
+    target: 'collection',
+    targetCollection,
+    instructions: options.instructions,
+  };
+}
+
+// Collections a run reads or writes, as normalization will settle them (for
+// permission conditions): the target, plus the source in translate mode.
+function runCollectionsOf(config: GenerationConfig): string[] {
+  if (config.mode === 'translate') {
+    const parsed = parseTranslationOptions(config);
+    if (typeof parsed !== 'string') {
+      const { sourceCollection, targetCollection } = parsed;
+      return targetCollection ? [targetCollection, sourceCollection] : [sourceCollection];
+    }
+  }
+  return [config.collection || 'generated_content'];
+}
+
+// Translate mode: snapshot the source doc ids and derive the job config from the options.
+async function normalizeTranslationOptions(config: GenerationConfig): Promise<string | null> {
+  const parsed = parseTranslationOptions(config);
+  if (typeof parsed === 'string') return parsed;
+  const { sourceCollection, locale, fields, target } = parsed;
+
+  const docIds = await listFirestoreDocIds(sourceCollection, MAX_TRANSLATION_DOCS);
+  if (docIds.length === 0) return `Source collection ${sourceCollection} is empty`;
+
+  config.translation = {
+    ...parsed,
+    instructions: parsed.instructions?.trim() || undefined,
+    docIds,
+  };
+  config.jobName = config.jobName?.trim() || `translate-${sourceCollection}-${locale}`;
+  config.collection = parsed.targetCollection ?? sourceCollection;
+  config.count = docIds.length;
+  config.systemPrompt = translationSystemPrompt(config.translation);
+  config.userPrompt = `Translate ${fields.join(', ')} of ${sourceCollection} into ${locale}`;
+  config.jsonSchema = { name: 'Translation', schema: { type: 'array', items: { type: 'object' } } };
+  config.variables = undefined;
+  config.seeds = undefined;
+  config.idStrategy = undefined;
+  // Only `translations.{locale}` is written, merged into the existing source docs.
+  if (target === 'map') config.writeMode = 'merge';
+  return null;
+}
+
+// Applies defaults and clamps in place; returns an error message for invalid input.
+function normalizeConfig(config: GenerationConfig): string | null {
+  config.count = config.count || 10;
+  config.batchSize = Math.min(config.batchSize || 5, 50);
+  config.collection = config.collection || 'generated_content';
+  config.sink = config.sink || 'firestore';
+  if (!['firestore', 'file', 'staging'].includes(config.sink)) {
+    return `Unknown sink "${config.sink}"`;
+  }
+  config.maxRepairAttempts = clampInt(config.maxRepairAttempts, 0, 5, DEFAULT_MAX_REPAIR_ATTEMPTS);
+  config.concurrency = clampInt(config.concurrency, 1, MAX_CONCURRENCY, DEFAULT_CONCURRENCY);
+  config.maxBatchRetries = clampInt(config.maxBatchRetries, 0, 10, DEFAULT_BATCH_RETRIES);
+
+  return (
+    normalizeProviderOptions(config) ??
+    normalizeWriteOptions(config) ??
+    normalizePromptOptions(config)
+  );
+}
+
 export async function POST(request: NextRequest) {
   try {
+    const config: GenerationConfig = await request.json();
+    config.mode = config.mode === 'translate' ? 'translate' : 'generate';
+
     // RBAC check
-    const authCheck = await requirePermission(request, RESOURCE_TYPES.GENERATE, 'write');
+    const authCheck = await requireCollectionsPermission(
+      request,
+      RESOURCE_TYPES.GENERATE,
+      'write',
+      runCollectionsOf(config)
+    );
     if (!authCheck.authorized) {
       return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
     }
 
-    const config: GenerationConfig = await request.json();
-
     // Validate required fields
+    if (config.mode === 'translate') {
+      const translationError = await normalizeTranslationOptions(config);
+      if (translationError) {
+        return NextResponse.json({ error: translationError }, { status: 400 });
+      }
+    }
+
     if (!config.systemPrompt || !config.userPrompt || !config.jsonSchema) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
     }
 
-    // Set defaults
-    config.count = config.count || 10;
-    config.batchSize = Math.min(config.batchSize || 5, 50);
-    config.model = config.model || process.env.MODEL || 'gpt-4o-mini';
-    config.collection = config.collection || 'generated_content';
-    config.sink = config.sink || 'firestore';
-
-    const encoder = new TextEncoder();
-    const stream = new ReadableStream({
-      async start(controller) {
-        const sendUpdate = (data: any) => {
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
-        };
-
-        try {
-          sendUpdate({ type: 'started', total: config.count });
-
-          // Generate content
-          const docs = await generateContent(config, (completed, total, message) => {
-            sendUpdate({
-              type: 'progress',
-              completed,
-              total,
-              message,
-            });
-          });
-
-          sendUpdate({ type: 'generated', count: docs.length });
-
-          // Write to sink
-          if (config.sink === 'firestore') {
-            await writeToFirestore(config.collection, docs);
-            sendUpdate({ type: 'saved', sink: 'firestore', collection: config.collection });
-          } else {
-            // Save to file
-            const outDir = process.env.OUT_DIR || './output';
-            await fs.mkdir(outDir, { recursive: true });
-            const filePath = path.join(outDir, `${config.collection}.json`);
-            await fs.writeFile(
-              filePath,
-              JSON.stringify({ collection: config.collection, docs }, null, 2)
-            );
-            sendUpdate({ type: 'saved', sink: 'file', path: filePath });
-          }
-
-          sendUpdate({ type: 'completed', total: docs.length });
-          controller.close();
-        } catch (error: unknown) {
-          const message = error instanceof Error ? error.message : 'Unknown error';
-          sendUpdate({ type: 'error', message });
-          controller.close();
-        }
-      },
-    });
+    const configError = normalizeConfig(config);
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 400 });
+    }
+
+    // Budget is enforced up front and again before every batch
+    const budgetError = await checkGenerationBudget(authCheck.userId ?? null);
+    if (budgetError) {
+      return NextResponse.json({ error: budgetError }, { status: 402 });
+    }
+
+    // The job outlives this request: closing the tab only ends the stream,
+    // the worker keeps going and the client can reattach by job id.
+    const job = await createGenerationJob(config, authCheck.userId ?? null);
+    startGenerationJob(job.id);
 
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        Connection: 'keep-alive',
-      },
+    return new Response(streamGenerationJobEvents(job.id, 0, request.signal), {
+      headers: { ...SSE_HEADERS, 'X-Generation-Job-Id': job.id },
     });
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : 'Failed to generate content';
@@ -0,0 +1,32 @@
+import { requireStagedItemsPermission, updateStagedItem } from '@/lib/generationStaging';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Edit a pending item before it is approved. Body: { data }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ itemId: string }> }
+) {
+  try {
+    const { itemId } = await params;
+    const authCheck = await requireStagedItemsPermission(request, 'write', [itemId]);
+    if (!authCheck.authorized) {
+      return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (body.data === undefined) {
+      return NextResponse.json({ error: 'data is required' }, { status: 400 });
+    }
+
+    const result = await updateStagedItem(itemId, body.data, authCheck.userId as string);
+    if ('error' in result) {
+      const { status, ...rest } = result;
+      return NextResponse.json(rest, { status });
+    }
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    console.error('generate/staging/[itemId] PATCH failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to update staged item';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import {
+  MAX_REVIEW_IDS,
+  approveStagedItems,
+  requireStagedItemsPermission,
+} from '@/lib/generationStaging';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Promote pending items into their target Firestore collections. Body: { ids }
+// Reviewing needs generate:manage, so whoever generated content can't approve it on their own.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const ids = Array.isArray(body.ids)
+      ? body.ids.filter((id: unknown): id is string => typeof id === 'string')
+      : [];
+    if (ids.length === 0 || ids.length > MAX_REVIEW_IDS) {
+      return NextResponse.json(
+        { error: `Between 1 and ${MAX_REVIEW_IDS} item ids are required` },
+        { status: 400 }
+      );
+    }
+
+    const authCheck = await requireStagedItemsPermission(request, 'manage', ids);
+    if (!authCheck.authorized) {
+      return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+    }
+
+    const result = await approveStagedItems(ids, authCheck.userId as string);
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    console.error('generate/staging/approve POST failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to approve staged items';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
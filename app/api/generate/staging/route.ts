@@ -0,0 +1,45 @@
+import { getPendingCounts, listStagedItems } from '@/lib/generationStaging';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import type { StagedItemStatus } from '@/lib/types';
+import { NextRequest, NextResponse } from 'next/server';
+
+const STATUSES: StagedItemStatus[] = ['pending', 'approved', 'rejected'];
+
+// Review queue. Query: status (default pending, `all` for everything), collection, jobId, limit, offset
+export async function GET(request: NextRequest) {
+  try {
+    const search = request.nextUrl.searchParams;
+    const collection = search.get('collection') || undefined;
+    const authCheck = await requirePermission(
+      request,
+      RESOURCE_TYPES.GENERATE,
+      'read',
+      undefined,
+      collection ? { collection } : undefined
+    );
+    if (!authCheck.authorized) {
+      return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+    }
+
+    const statusParam = search.get('status') || 'pending';
+    const status = STATUSES.find((s) => s === statusParam);
+    const limit = Math.min(Math.max(Number(search.get('limit')) || 50, 1), 200);
+    const offset = Math.max(Number(search.get('offset')) || 0, 0);
+
+    const [page, pendingByCollection] = await Promise.all([
+      listStagedItems({
+        status,
+        collection,
+        jobId: search.get('jobId') || undefined,
+        limit,
+        offset,
+      }),
+      getPendingCounts(),
+    ]);
+    return NextResponse.json({ ...page, limit, offset, pendingByCollection });
+  } catch (error: unknown) {
+    console.error('generate/staging GET failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load staged items';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { diffTemplateVersions, getTemplateAccess } from '@/lib/generationTemplates';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import { NextRequest, NextResponse } from 'next/server';
+
+// `?from=N&to=M`; defaults to the current version against the one before it.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.GENERATE, 'read');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  const { templateId } = await params;
+  try {
+    const access = await getTemplateAccess(templateId, authCheck.userId as string);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const search = request.nextUrl.searchParams;
+    const to = Number(search.get('to') || access.row.currentVersion);
+    const from = Number(search.get('from') || to - 1);
+    const changes = await diffTemplateVersions(templateId, from, to);
+    if (!changes) {
+      return NextResponse.json({ error: 'Template version not found' }, { status: 404 });
+    }
+    return NextResponse.json({ from, to, changes });
+  } catch (error: unknown) {
+    console.error('generate/templates/[templateId]/diff GET failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to diff template versions';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
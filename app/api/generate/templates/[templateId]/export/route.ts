@@ -0,0 +1,39 @@
+import { exportTemplate, getTemplate, getTemplateAccess } from '@/lib/generationTemplates';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Download a template version as JSON (importable via POST /api/generate/templates/import).
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.GENERATE, 'read');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  const { templateId } = await params;
+  try {
+    const access = await getTemplateAccess(templateId, authCheck.userId as string);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const versionParam = request.nextUrl.searchParams.get('version');
+    const found = await getTemplate(templateId, versionParam ? Number(versionParam) : undefined);
+    if (!found) {
+      return NextResponse.json({ error: 'Template version not found' }, { status: 404 });
+    }
+
+    const slug = found.template.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    return NextResponse.json(exportTemplate(found.template), {
+      headers: {
+        'Content-Disposition': `attachment; filename="${slug}-v${found.template.version}.json"`,
+      },
+    });
+  } catch (error: unknown) {
+    console.error('generate/templates/[templateId]/export GET failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to export template';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
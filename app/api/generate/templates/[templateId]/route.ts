@@ -0,0 +1,133 @@
+import { logAuditEvent } from '@/lib/audit';
+import {
+  type TemplateInput,
+  deleteTemplate,
+  getTemplate,
+  getTemplateAccess,
+  updateTemplate,
+} from '@/lib/generationTemplates';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import { NextRequest, NextResponse } from 'next/server';
+
+type Params = { params: Promise<{ templateId: string }> };
+
+// Current version, or `?version=N`.
+export async function GET(request: NextRequest, { params }: Params) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.GENERATE, 'read');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  const { templateId } = await params;
+  try {
+    const access = await getTemplateAccess(templateId, authCheck.userId as string);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const versionParam = request.nextUrl.searchParams.get('version');
+    const found = await getTemplate(templateId, versionParam ? Number(versionParam) : undefined);
+    if (!found) {
+      return NextResponse.json({ error: 'Template version not found' }, { status: 404 });
+    }
+    return NextResponse.json({ template: found.template, canEdit: access.canEdit });
+  } catch (error: unknown) {
+    console.error('generate/templates/[templateId] GET failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load template';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+function templatePatchOf(body: Record<string, unknown>): Partial<TemplateInput> {
+  return {
+    name: typeof body.name === 'string' && body.name.trim() ? body.name.trim() : undefined,
+    description: typeof body.description === 'string' ? body.description : undefined,
+    icon: typeof body.icon === 'string' ? body.icon : undefined,
+    visibility:
+      body.visibility === 'shared' || body.visibility === 'private' ? body.visibility : undefined,
+    config:
+      body.config && typeof body.config === 'object'
+        ? (body.config as TemplateInput['config'])
+        : undefined,
+    changeNote: typeof body.changeNote === 'string' ? body.changeNote : undefined,
+  };
+}
+
+// Save a new version. Body: { name?, description?, icon?, visibility?, config?, changeNote? }
+export async function PUT(request: NextRequest, { params }: Params) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.GENERATE, 'write');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+  const userId = authCheck.userId as string;
+
+  const { templateId } = await params;
+  try {
+    const access = await getTemplateAccess(templateId, userId);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const patch = templatePatchOf(await request.json().catch(() => ({})));
+    const publishing = patch.visibility === 'shared' && access.row.visibility !== 'shared';
+    if (!access.canEdit || (publishing && !access.canPublish)) {
+      return NextResponse.json(
+        { error: 'Editing or publishing shared templates requires generate:manage' },
+        { status: 403 }
+      );
+    }
+
+    const template = await updateTemplate(access.row, patch, userId);
+
+    if (template.visibility === 'shared') {
+      await logAuditEvent({
+        userId,
+        action: publishing ? 'GENERATION_TEMPLATE_PUBLISHED' : 'GENERATION_TEMPLATE_UPDATED',
+        message: `${publishing ? 'Published' : 'Updated'} shared template "${template.name}" (v${template.version})`,
+        metadata: { templateId, version: template.version },
+      });
+    }
+
+    return NextResponse.json({ template });
+  } catch (error: unknown) {
+    console.error('generate/templates/[templateId] PUT failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to update template';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.GENERATE, 'write');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+  const userId = authCheck.userId as string;
+
+  const { templateId } = await params;
+  try {
+    const access = await getTemplateAccess(templateId, userId);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+    if (!access.canEdit) {
+      return NextResponse.json(
+        { error: 'Deleting shared templates requires generate:manage' },
+        { status: 403 }
+      );
+    }
+
+    await deleteTemplate(templateId);
+    await logAuditEvent({
+      userId,
+      action: 'GENERATION_TEMPLATE_DELETED',
+      severity: access.row.visibility === 'shared' ? 'medium' : 'info',
+      message: `Deleted ${access.row.visibility} template "${access.row.name}"`,
+      metadata: { templateId, version: access.row.currentVersion },
+    });
+    return NextResponse.json({ ok: true });
+  } catch (error: unknown) {
+    console.error('generate/templates/[templateId] DELETE failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to delete template';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { getTemplateAccess, listTemplateVersions } from '@/lib/generationTemplates';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Version history, newest first, with authors.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.GENERATE, 'read');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  const { templateId } = await params;
+  try {
+    const access = await getTemplateAccess(templateId, authCheck.userId as string);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+    const versions = await listTemplateVersions(templateId);
+    return NextResponse.json({ versions });
+  } catch (error: unknown) {
+    console.error('generate/templates/[templateId]/versions GET failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load template versions';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { cloneBuiltinTemplate } from '@/lib/generationTemplates';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Copy a built-in template into the caller's private library. Body: { builtinId }
+export async function POST(request: NextRequest) {
+  try {
+    const authCheck = await requirePermission(request, RESOURCE_TYPES.GENERATE, 'write');
+    if (!authCheck.authorized) {
+      return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const template = await cloneBuiltinTemplate(
+      String(body.builtinId ?? ''),
+      authCheck.userId as string
+    );
+    if (!template) {
+      return NextResponse.json({ error: 'Built-in template not found' }, { status: 404 });
+    }
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error: unknown) {
+    console.error('generate/templates/clone POST failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to clone template';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { createTemplate, parseTemplateImport } from '@/lib/generationTemplates';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Import a JSON export (see GET /api/generate/templates/:id/export) as a new private template.
+export async function POST(request: NextRequest) {
+  try {
+    const authCheck = await requirePermission(request, RESOURCE_TYPES.GENERATE, 'write');
+    if (!authCheck.authorized) {
+      return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+    }
+
+    const payload = await request.json().catch(() => null);
+    const input = parseTemplateImport(payload);
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 });
+    }
+
+    const template = await createTemplate(input, authCheck.userId as string);
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error: unknown) {
+    console.error('generate/templates/import POST failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to import template';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
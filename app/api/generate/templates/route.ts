@@ -0,0 +1,79 @@
+import { logAuditEvent } from '@/lib/audit';
+import { createTemplate, listBuiltinTemplates, listTemplates } from '@/lib/generationTemplates';
+import { RESOURCE_TYPES, hasPermission, requirePermission } from '@/lib/rbac';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Built-in templates plus the library templates visible to the caller.
+export async function GET(request: NextRequest) {
+  try {
+    const authCheck = await requirePermission(request, RESOURCE_TYPES.GENERATE, 'read');
+    if (!authCheck.authorized) {
+      return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+    }
+    const userId = authCheck.userId as string;
+
+    const [templates, canPublish] = await Promise.all([
+      listTemplates(userId),
+      hasPermission(userId, RESOURCE_TYPES.GENERATE, 'manage'),
+    ]);
+    return NextResponse.json({ builtin: listBuiltinTemplates(), templates, canPublish });
+  } catch (error: unknown) {
+    console.error('generate/templates GET failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load templates';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Body: { name, description?, icon?, visibility?, config, changeNote? }
+export async function POST(request: NextRequest) {
+  try {
+    const authCheck = await requirePermission(request, RESOURCE_TYPES.GENERATE, 'write');
+    if (!authCheck.authorized) {
+      return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+    }
+    const userId = authCheck.userId as string;
+
+    const body = await request.json().catch(() => ({}));
+    if (typeof body.name !== 'string' || !body.name.trim() || typeof body.config !== 'object') {
+      return NextResponse.json({ error: 'name and config are required' }, { status: 400 });
+    }
+
+    const visibility = body.visibility === 'shared' ? 'shared' : 'private';
+    if (
+      visibility === 'shared' &&
+      !(await hasPermission(userId, RESOURCE_TYPES.GENERATE, 'manage'))
+    ) {
+      return NextResponse.json(
+        { error: 'Publishing shared templates requires generate:manage' },
+        { status: 403 }
+      );
+    }
+
+    const template = await createTemplate(
+      {
+        name: body.name.trim(),
+        description: body.description,
+        icon: body.icon,
+        visibility,
+        config: body.config,
+        changeNote: body.changeNote,
+      },
+      userId
+    );
+
+    if (visibility === 'shared') {
+      await logAuditEvent({
+        userId,
+        action: 'GENERATION_TEMPLATE_PUBLISHED',
+        message: `Published shared template "${template.name}"`,
+        metadata: { templateId: template.id, version: template.version },
+      });
+    }
+
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error: unknown) {
+    console.error('generate/templates POST failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to create template';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
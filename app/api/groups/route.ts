@@ -1,28 +1,8 @@
-import { auth } from '@/lib/auth';
-import { db } from '@/lib/db';
 import { initFirebase } from '@/lib/firebase';
+import { ACTIONS, RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
 import admin from 'firebase-admin';
 import { NextRequest, NextResponse } from 'next/server';
 
-// Helper function to check if user is admin or superadmin
-async function checkAdminAccess(request: NextRequest) {
-  const session = await auth.api.getSession({ headers: request.headers });
-
-  if (!session?.user) {
-    return { authorized: false, error: 'Unauthorized' };
-  }
-
-  const currentUser = await db.query.user.findFirst({
-    where: (users, { eq }) => eq(users.id, session.user.id),
-  });
-
-  if (!currentUser || (currentUser.role !== 'admin' && currentUser.role !== 'superadmin')) {
-    return { authorized: false, error: 'Forbidden' };
-  }
-
-  return { authorized: true, user: currentUser };
-}
-
 // Get Matrix access token for a user
 async function getMatrixAccessToken(userId: string): Promise<string | null> {
   try {
@@ -119,13 +99,9 @@ async function createMatrixRoom(
 
 export async function POST(request: NextRequest) {
   try {
-    // Check admin access
-    const accessCheck = await checkAdminAccess(request);
+    const accessCheck = await requirePermission(request, RESOURCE_TYPES.ADMIN, ACTIONS.WRITE);
     if (!accessCheck.authorized) {
-      return NextResponse.json(
-        { error: accessCheck.error },
-        { status: accessCheck.error === 'Unauthorized' ? 401 : 403 }
-      );
+      return NextResponse.json({ error: accessCheck.error }, { status: accessCheck.status });
     }
 
     const body = await request.json();
@@ -243,13 +219,9 @@ export async function POST(request: NextRequest) {
 // Get all groups
 export async function GET(request: NextRequest) {
   try {
-    // Check admin access
-    const accessCheck = await checkAdminAccess(request);
+    const accessCheck = await requirePermission(request, RESOURCE_TYPES.ADMIN, ACTIONS.READ);
     if (!accessCheck.authorized) {
-      return NextResponse.json(
-        { error: accessCheck.error },
-        { status: accessCheck.error === 'Unauthorized' ? 401 : 403 }
-      );
+      return NextResponse.json({ error: accessCheck.error }, { status: accessCheck.status });
     }
 
     initFirebase();
@@ -0,0 +1,26 @@
+import { initFirebase } from '@/lib/firebase';
+import { MAX_METRICS_DAYS, loadNotificationMetrics } from '@/lib/notification_metrics';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import admin from 'firebase-admin';
+import { NextRequest, NextResponse } from 'next/server';
+
+/** Delivery time series and tap-through for the last `days` days. */
+export async function GET(request: NextRequest) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'manage');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  try {
+    initFirebase();
+    const daysRaw = Number.parseInt(request.nextUrl.searchParams.get('days') || '', 10);
+    const days = Math.min(Math.max(Number.isFinite(daysRaw) ? daysRaw : 14, 1), MAX_METRICS_DAYS);
+    const metrics = await loadNotificationMetrics(admin.firestore(), days);
+    return NextResponse.json({ metrics });
+  } catch (error: unknown) {
+    console.error('notifications/analytics GET failed:', error);
+    const message =
+      error instanceof Error ? error.message : 'Failed to load notification analytics';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -26,7 +26,7 @@ export async function POST(
       .collection('notification_queue')
       .where('campaign_kind', '==', 'broadcast')
       .where('campaign_id', '==', broadcastId)
-      .where('status', '==', 'pending')
+      .where('status', 'in', ['pending', 'deferred'])
       .orderBy('scheduled_at', 'asc')
       .limit(limit)
       .get();
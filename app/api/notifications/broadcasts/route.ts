@@ -43,6 +43,8 @@ export async function GET(request: NextRequest) {
         batch_size: data.batch_size || null,
         cursor_last_doc_id: data.cursor_last_doc_id || null,
         total_enqueued: data.total_enqueued || 0,
+        total_scanned: data.total_scanned || 0,
+        segment: data.segment ? { id: data.segment.id, name: data.segment.name } : null,
         created_at: tsToIso(data.created_at),
         updated_at: tsToIso(data.updated_at),
         completed_at: tsToIso(data.completed_at),
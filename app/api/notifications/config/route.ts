@@ -1,12 +1,13 @@
+import { logAuditEvent } from '@/lib/audit';
 import { initFirebase } from '@/lib/firebase';
-import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
-import admin from 'firebase-admin';
-import { NextRequest, NextResponse } from 'next/server';
+import { saveNotificationRouterConfig } from '@/lib/notification_config_versions';
 import {
-  DEFAULT_NOTIFICATION_ROUTER_CONFIG,
+  type NotificationRouterConfig,
   loadNotificationRouterConfig,
-  saveNotificationRouterConfig,
 } from '@/lib/notification_router';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import admin from 'firebase-admin';
+import { NextRequest, NextResponse } from 'next/server';
 
 export async function GET(request: NextRequest) {
   const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'manage');
@@ -43,15 +44,26 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid config payload' }, { status: 400 });
     }
 
-    await saveNotificationRouterConfig(db, patch as any);
-    const config = await loadNotificationRouterConfig(db);
+    const userId = authCheck.userId as string;
+    const { config, version, changes } = await saveNotificationRouterConfig(
+      db,
+      patch as Partial<NotificationRouterConfig>,
+      userId
+    );
 
-    // Ensure the doc exists with defaults if empty patch
-    if (!config) {
-      await saveNotificationRouterConfig(db, DEFAULT_NOTIFICATION_ROUTER_CONFIG);
+    if (changes.length > 0) {
+      await logAuditEvent({
+        userId,
+        action: 'NOTIFICATION_CONFIG_UPDATED',
+        severity: 'medium',
+        message: `Notification config saved as version ${version} (${changes.length} change${changes.length === 1 ? '' : 's'})`,
+        ipAddress: request.headers.get('x-forwarded-for') || null,
+        userAgent: request.headers.get('user-agent') || null,
+        metadata: { version, paths: changes.map((c) => c.path) },
+      });
     }
 
-    return NextResponse.json({ ok: true, config });
+    return NextResponse.json({ ok: true, config, version, changes });
   } catch (error: unknown) {
     console.error('notifications/config PUT failed:', error);
     const message = error instanceof Error ? error.message : 'Failed to save notification config';
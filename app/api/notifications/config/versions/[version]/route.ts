@@ -0,0 +1,88 @@
+import { logAuditEvent } from '@/lib/audit';
+import { initFirebase } from '@/lib/firebase';
+import {
+  getConfigVersion,
+  restoreNotificationRouterConfig,
+} from '@/lib/notification_config_versions';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import admin from 'firebase-admin';
+import { NextRequest, NextResponse } from 'next/server';
+
+function parseVersion(value: string) {
+  const version = Number.parseInt(value, 10);
+  return Number.isFinite(version) && version > 0 ? version : null;
+}
+
+/** One version: its full config and what it changed. */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ version: string }> }
+) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'manage');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  const version = parseVersion((await params).version);
+  if (!version) {
+    return NextResponse.json({ error: 'Invalid version' }, { status: 400 });
+  }
+  try {
+    initFirebase();
+    const detail = await getConfigVersion(admin.firestore(), version);
+    if (!detail) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+    return NextResponse.json({ version: detail });
+  } catch (error: unknown) {
+    console.error('notifications/config/versions GET failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load config version';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/** Restore this version; it is saved again as the newest version. */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ version: string }> }
+) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'manage');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  const version = parseVersion((await params).version);
+  if (!version) {
+    return NextResponse.json({ error: 'Invalid version' }, { status: 400 });
+  }
+  try {
+    initFirebase();
+    const userId = authCheck.userId as string;
+    const result = await restoreNotificationRouterConfig(admin.firestore(), version, userId);
+    if (!result) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    if (result.changes.length > 0) {
+      await logAuditEvent({
+        userId,
+        action: 'NOTIFICATION_CONFIG_RESTORED',
+        severity: 'high',
+        message: `Notification config version ${version} restored as version ${result.version}`,
+        ipAddress: request.headers.get('x-forwarded-for') || null,
+        userAgent: request.headers.get('user-agent') || null,
+        metadata: {
+          restoredFrom: version,
+          version: result.version,
+          paths: result.changes.map((c) => c.path),
+        },
+      });
+    }
+
+    return NextResponse.json({ ok: true, restoredFrom: version, ...result });
+  } catch (error: unknown) {
+    console.error('notifications/config/versions POST failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to restore config version';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { initFirebase } from '@/lib/firebase';
+import { listConfigVersions } from '@/lib/notification_config_versions';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import admin from 'firebase-admin';
+import { NextRequest, NextResponse } from 'next/server';
+
+/** Saved config versions, newest first. */
+export async function GET(request: NextRequest) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'manage');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  try {
+    initFirebase();
+    const limitRaw = Number.parseInt(request.nextUrl.searchParams.get('limit') || '', 10);
+    const limit = Math.min(Math.max(Number.isFinite(limitRaw) ? limitRaw : 50, 1), 200);
+    const versions = await listConfigVersions(admin.firestore(), limit);
+    return NextResponse.json({ versions });
+  } catch (error: unknown) {
+    console.error('notifications/config/versions GET failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load config versions';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { initFirebase } from '@/lib/firebase';
+import {
+  type DeadLetterAction,
+  applyDeadLetterAction,
+  listDeadLetterGroups,
+  listDeadLetterItems,
+} from '@/lib/notification_dead_letter';
+import { INVALID_TOKEN_ERROR_CODES } from '@/lib/notification_router';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import admin from 'firebase-admin';
+import { NextRequest, NextResponse } from 'next/server';
+
+const ACTIONS: DeadLetterAction[] = ['retry', 'discard', 'clear_tokens'];
+
+function clampLimit(value: unknown, fallback: number, max: number) {
+  const n = Number.parseInt(String(value ?? ''), 10);
+  return Math.min(Math.max(Number.isFinite(n) ? n : fallback, 1), max);
+}
+
+/** Failed items grouped by error code; `?code=` also returns that group's items. */
+export async function GET(request: NextRequest) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'manage');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  try {
+    initFirebase();
+    const db = admin.firestore();
+    const code = request.nextUrl.searchParams.get('code');
+    const limit = clampLimit(request.nextUrl.searchParams.get('limit'), 50, 200);
+
+    const [summary, items] = await Promise.all([
+      listDeadLetterGroups(db),
+      code ? listDeadLetterItems(db, code, limit) : Promise.resolve(null),
+    ]);
+    return NextResponse.json({ ...summary, items });
+  } catch (error: unknown) {
+    console.error('notifications/dead-letter GET failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load dead letters';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/** Bulk action over one error-code group: `{ code, action, limit? }`. */
+export async function POST(request: NextRequest) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'manage');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  try {
+    const body = await request.json();
+    const code = String(body?.code || '').trim();
+    const action = body?.action as DeadLetterAction;
+    if (!code) {
+      return NextResponse.json({ error: 'code is required' }, { status: 400 });
+    }
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+    if (action === 'clear_tokens' && !INVALID_TOKEN_ERROR_CODES.includes(code)) {
+      return NextResponse.json(
+        { error: 'clear_tokens only applies to invalid-token error codes' },
+        { status: 400 }
+      );
+    }
+
+    initFirebase();
+    const result = await applyDeadLetterAction(admin.firestore(), {
+      code,
+      action,
+      limit: clampLimit(body?.limit, 400, 2000),
+      userId: authCheck.userId as string,
+    });
+    return NextResponse.json({ ok: true, code, action, ...result });
+  } catch (error: unknown) {
+    console.error('notifications/dead-letter POST failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to apply dead-letter action';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
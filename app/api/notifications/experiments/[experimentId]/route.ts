@@ -0,0 +1,45 @@
+import { initFirebase } from '@/lib/firebase';
+import { ACTIVITY_SOURCES, experimentResults, getExperiment } from '@/lib/notification_experiments';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import admin from 'firebase-admin';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Variant comparison: `?hours=24` sets the engagement window after delivery,
+ * `?source=water` overrides the activity matched to the notification type.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ experimentId: string }> }
+) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'manage');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  const { experimentId } = await params;
+  try {
+    initFirebase();
+    const db = admin.firestore();
+    const experiment = await getExperiment(db, experimentId);
+    if (!experiment) {
+      return NextResponse.json({ error: 'Experiment not found' }, { status: 404 });
+    }
+
+    const hours = Math.min(
+      Math.max(Number.parseInt(request.nextUrl.searchParams.get('hours') || '24', 10) || 24, 1),
+      24 * 14
+    );
+    const source = request.nextUrl.searchParams.get('source') || experiment.activity_source;
+    if (source && !ACTIVITY_SOURCES[source]) {
+      return NextResponse.json({ error: `Unknown activity source: ${source}` }, { status: 400 });
+    }
+
+    const variants = await experimentResults(db, experiment, { hours, source });
+    return NextResponse.json({ experiment, hours, source, variants });
+  } catch (error: unknown) {
+    console.error('notifications/experiments GET failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load experiment results';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
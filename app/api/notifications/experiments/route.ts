@@ -0,0 +1,30 @@
+import { initFirebase } from '@/lib/firebase';
+import { ACTIVITY_SOURCES, listExperiments } from '@/lib/notification_experiments';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import admin from 'firebase-admin';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'manage');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  try {
+    initFirebase();
+    const limit = Math.min(
+      Math.max(Number.parseInt(request.nextUrl.searchParams.get('limit') || '30', 10) || 30, 1),
+      100
+    );
+    const experiments = await listExperiments(admin.firestore(), limit);
+    const activitySources = Object.entries(ACTIVITY_SOURCES).map(([id, source]) => ({
+      id,
+      label: source.label,
+    }));
+    return NextResponse.json({ experiments, activitySources });
+  } catch (error: unknown) {
+    console.error('notifications/experiments GET failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load experiments';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
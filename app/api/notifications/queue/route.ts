@@ -1,14 +1,24 @@
 import { initFirebase } from '@/lib/firebase';
 import {
-  computeNextUtcForLocalTime,
-  loadNotificationRouterConfig,
-} from '@/lib/notification_router';
+  type NotificationVariant,
+  createExperiment,
+  experimentsRef,
+  normalizeVariants,
+  variantQueueFields,
+} from '@/lib/notification_experiments';
+import { loadNotificationRouterConfig } from '@/lib/notification_router';
+import { nextLocalOccurrenceUtc, scheduleZoneFromDoc } from '@/lib/notification_schedule';
+import { getSegment } from '@/lib/notification_segments';
+import { type NotificationTemplate, getTemplate } from '@/lib/notification_templates';
 import { dicebearAvatarUrl } from '@/lib/privacy';
 import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
 import admin from 'firebase-admin';
 import { NextRequest, NextResponse } from 'next/server';
 
-type Audience = { mode: 'users'; userIds: string[] } | { mode: 'all' };
+type Audience =
+  | { mode: 'users'; userIds: string[] }
+  | { mode: 'all' }
+  | { mode: 'segment'; segmentId: string };
 
 type Schedule =
   | { mode: 'now' }
@@ -60,6 +70,8 @@ function queueDocToItem(d: admin.firestore.QueryDocumentSnapshot) {
     sender_name: data.sender_name || null,
     campaign_kind: data.campaign_kind || null,
     campaign_id: data.campaign_id || null,
+    experiment_id: data.experiment_id || null,
+    variant_id: data.variant_id || null,
     repeat: data.repeat || null,
     interval_days: data.interval_days || null,
     days_of_week: data.days_of_week || null,
@@ -73,6 +85,14 @@ function queueDocToItem(d: admin.firestore.QueryDocumentSnapshot) {
     error_code: data.error_code || null,
     skipped_reason: data.skipped_reason || null,
     retry_after_ms: data.retry_after_ms || null,
+    deferred_reason: data.deferred_reason || null,
+    deferred_until: tsToIso(data.deferred_until),
+    capped_reason: data.capped_reason || null,
+    template_id: data.template_id || null,
+    template_locale: data.template_locale || null,
+    attempts: typeof data.attempts === 'number' ? data.attempts : null,
+    next_retry_at: tsToIso(data.next_retry_at),
+    dead_lettered_at: tsToIso(data.dead_lettered_at),
   };
 }
 
@@ -88,7 +108,7 @@ export async function GET(request: NextRequest) {
 
     const statusRaw = (request.nextUrl.searchParams.get('status') || 'pending').toLowerCase();
     const status = statusRaw === 'all' ? 'all' : statusRaw;
-    const allowed = new Set(['pending', 'sent', 'failed', 'skipped', 'all']);
+    const allowed = new Set(['pending', 'deferred', 'capped', 'sent', 'failed', 'skipped', 'all']);
     if (!allowed.has(status)) {
       return NextResponse.json({ error: 'Invalid status filter' }, { status: 400 });
     }
@@ -141,9 +161,40 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const title = String(body?.title || '').trim();
-    const messageBody = String(body?.body || '').trim();
-    const type = String(body?.type || '').trim();
+
+    // A/B copy: variant A doubles as the base title/body.
+    let variants: NotificationVariant[] | null = null;
+    if (body?.variants != null) {
+      const parsed = normalizeVariants(body.variants);
+      if ('error' in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      variants = parsed.variants;
+    }
+
+    // Templates render per recipient at send time; the default locale is the stored fallback.
+    let template: NotificationTemplate | null = null;
+    if (body?.templateId) {
+      if (variants) {
+        return NextResponse.json(
+          { error: 'templateId cannot be combined with variants' },
+          { status: 400 }
+        );
+      }
+      template = await getTemplate(db, String(body.templateId));
+      if (!template) {
+        return NextResponse.json({ error: 'Template not found' }, { status: 400 });
+      }
+    }
+    const fallbackCopy = template ? template.locales[template.defaultLocale] : null;
+
+    const title = variants
+      ? variants[0].title
+      : (fallbackCopy?.title ?? String(body?.title || '').trim());
+    const messageBody = variants
+      ? variants[0].body
+      : (fallbackCopy?.body ?? String(body?.body || '').trim());
+    const type = String(body?.type || template?.type || '').trim();
     const data = body?.data && typeof body.data === 'object' ? body.data : undefined;
 
     const audience = body?.audience as Audience;
@@ -177,9 +228,36 @@ export async function POST(request: NextRequest) {
     const senderAvatar =
       String(body?.sender_avatar || '').trim() || dicebearAvatarUrl('iki_admin');
 
+    // Segments are snapshotted onto the broadcast; membership is evaluated as it expands.
+    let segment: { id: string; name: string; filters: unknown } | null = null;
+    if (audience.mode === 'segment') {
+      const saved = audience.segmentId ? await getSegment(db, String(audience.segmentId)) : null;
+      if (!saved) {
+        return NextResponse.json({ error: 'Segment not found' }, { status: 400 });
+      }
+      segment = { id: saved.id, name: saved.name, filters: saved.filters };
+    }
+
+    const experimentRef = variants ? experimentsRef(db).doc() : null;
+    const startExperiment = (broadcastId: string | null) =>
+      experimentRef && variants
+        ? createExperiment(db, {
+            ref: experimentRef,
+            name: title,
+            type,
+            category,
+            variants,
+            audienceMode: audience.mode,
+            broadcastId,
+            userId: authCheck.userId as string,
+          })
+        : Promise.resolve(null);
+
     // Build recipients list or broadcast job
-    if (audience.mode === 'all') {
-      const ref = await db.collection('notification_broadcasts').add({
+    if (audience.mode === 'all' || segment) {
+      const ref = db.collection('notification_broadcasts').doc();
+      await startExperiment(ref.id);
+      await ref.set({
         status: 'pending',
         category,
         title,
@@ -195,8 +273,21 @@ export async function POST(request: NextRequest) {
         batch_size: 300,
         cursor_last_doc_id: null,
         total_enqueued: 0,
+        segment,
+        experiment_id: experimentRef?.id ?? null,
+        variants,
+        template_id: template?.id ?? null,
       });
-      return NextResponse.json({ ok: true, mode: 'broadcast', broadcastId: ref.id });
+      return NextResponse.json({
+        ok: true,
+        mode: 'broadcast',
+        broadcastId: ref.id,
+        experimentId: experimentRef?.id ?? null,
+      });
+    }
+
+    if (audience.mode !== 'users') {
+      return NextResponse.json({ error: 'Invalid audience.mode' }, { status: 400 });
     }
 
     const userIds = Array.from(
@@ -206,6 +297,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No users selected' }, { status: 400 });
     }
 
+    await startExperiment(null);
+
     const now = new Date();
     let created = 0;
 
@@ -221,6 +314,7 @@ export async function POST(request: NextRequest) {
         const ud = userSnap.data() || {};
         const tzOffsetMinutes =
           typeof ud.tz_offset_minutes === 'number' ? ud.tz_offset_minutes : 0;
+        const zone = scheduleZoneFromDoc(ud);
 
         let scheduledAt = now;
         if (schedule.mode === 'at_utc') {
@@ -230,9 +324,9 @@ export async function POST(request: NextRequest) {
           }
           scheduledAt = dt;
         } else if (schedule.mode === 'at_user_local') {
-          scheduledAt = computeNextUtcForLocalTime({
+          scheduledAt = nextLocalOccurrenceUtc({
             now,
-            tzOffsetMinutes,
+            zone,
             hour: clamp(schedule.hour, 0, 23),
             minute: clamp(schedule.minute, 0, 59),
           });
@@ -253,8 +347,13 @@ export async function POST(request: NextRequest) {
           created_at: admin.firestore.FieldValue.serverTimestamp(),
           updated_at: admin.firestore.FieldValue.serverTimestamp(),
           tz_offset_minutes: tzOffsetMinutes,
+          time_zone: zone.timeZone ?? null,
           dedupe_key: `admin:${qref.id}`,
           dedupe_window_ms: 2 * 60_000,
+          ...(template ? { template_id: template.id } : {}),
+          ...(experimentRef && variants
+            ? variantQueueFields(experimentRef.id, variants, userId)
+            : {}),
         };
         if (schedule.mode === 'at_user_local') {
           base.hour = clamp(schedule.hour, 0, 23);
@@ -286,7 +385,12 @@ export async function POST(request: NextRequest) {
       await batch.commit();
     }
 
-    return NextResponse.json({ ok: true, mode: 'users', created });
+    return NextResponse.json({
+      ok: true,
+      mode: 'users',
+      created,
+      experimentId: experimentRef?.id ?? null,
+    });
   } catch (error: unknown) {
     console.error('notifications/queue failed:', error);
     const message = error instanceof Error ? error.message : 'Failed to enqueue notifications';
@@ -7,8 +7,19 @@ import {
   loadNotificationRouterConfig,
   processQueueBatch,
 } from '@/lib/notification_router';
+import { variantQueueFields } from '@/lib/notification_experiments';
+import { nextLocalOccurrenceUtc, scheduleZoneFromDoc } from '@/lib/notification_schedule';
+import { filterUsersBySegment } from '@/lib/notification_segments';
+import { parseSimulationHours, simulateNotificationRun } from '@/lib/notification_simulation';
 import { dicebearAvatarUrl } from '@/lib/privacy';
 
+// `dryRun` (body or query) switches to a simulation over `hours`; null for a real run.
+function dryRunHours(request: NextRequest, body: { dryRun?: unknown; hours?: unknown } | null) {
+  const flag = body?.dryRun ?? request.nextUrl.searchParams.get('dryRun');
+  if (flag !== true && flag !== '1' && flag !== 'true') return null;
+  return parseSimulationHours(body?.hours ?? request.nextUrl.searchParams.get('hours'));
+}
+
 export async function POST(request: NextRequest) {
   const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'manage');
   if (!authCheck.authorized) {
@@ -26,6 +37,13 @@ export async function POST(request: NextRequest) {
     const limitRaw = body?.limit ?? request.nextUrl.searchParams.get('limit') ?? 100;
     const limit = Math.min(Math.max(parseInt(String(limitRaw), 10) || 100, 1), 500);
 
+    // Dry run: report what the next `hours` would send, without sending or writing.
+    const hours = dryRunHours(request, body);
+    if (hours !== null) {
+      const simulation = await simulateNotificationRun({ db, config, hours, limit });
+      return NextResponse.json({ ok: true, dryRun: true, ...simulation });
+    }
+
     const results: Record<string, unknown> = { task, limit };
 
     async function processBroadcasts(batchSize: number) {
@@ -101,12 +119,18 @@ export async function POST(request: NextRequest) {
           continue;
         }
 
+        // Segment broadcasts walk the same user cursor and keep only current members.
+        const recipients = bd.segment?.filters
+          ? await filterUsersBySegment(db, usersSnap.docs, bd.segment.filters)
+          : usersSnap.docs;
+
         const batch = db.batch();
         let created = 0;
-        for (const u of usersSnap.docs) {
+        for (const u of recipients) {
           const userId = u.id;
           const ud = u.data() || {};
           const tzOffsetMinutes = typeof ud.tz_offset_minutes === 'number' ? ud.tz_offset_minutes : 0;
+          const zone = scheduleZoneFromDoc(ud);
 
           let scheduledAt = new Date();
           if (schedule.mode === 'at_utc') {
@@ -114,17 +138,7 @@ export async function POST(request: NextRequest) {
           } else if (schedule.mode === 'at_user_local') {
             const hour = Math.min(Math.max(parseInt(String(schedule.hour ?? 8), 10) || 8, 0), 23);
             const minute = Math.min(Math.max(parseInt(String(schedule.minute ?? 0), 10) || 0, 0), 59);
-            const nowDate = new Date();
-            const nowUtcMs = nowDate.getTime();
-            const nowLocalMs = nowUtcMs + tzOffsetMinutes * 60_000;
-            const nowLocal = new Date(nowLocalMs);
-            let candidateLocal = new Date(
-              Date.UTC(nowLocal.getUTCFullYear(), nowLocal.getUTCMonth(), nowLocal.getUTCDate(), hour, minute, 0, 0)
-            );
-            if (candidateLocal.getTime() <= nowLocal.getTime()) {
-              candidateLocal = new Date(candidateLocal.getTime() + 24 * 60 * 60_000);
-            }
-            scheduledAt = new Date(candidateLocal.getTime() - tzOffsetMinutes * 60_000);
+            scheduledAt = nextLocalOccurrenceUtc({ now: new Date(), zone, hour, minute });
           }
 
           const qref = db.collection('notification_queue').doc();
@@ -144,11 +158,16 @@ export async function POST(request: NextRequest) {
             created_at: admin.firestore.FieldValue.serverTimestamp(),
             updated_at: admin.firestore.FieldValue.serverTimestamp(),
             tz_offset_minutes: tzOffsetMinutes,
+            time_zone: zone.timeZone ?? null,
             hour: schedule.mode === 'at_user_local' ? schedule.hour : undefined,
             minute: schedule.mode === 'at_user_local' ? schedule.minute : undefined,
             dedupe_key: `broadcast:${b.id}:${userId}`,
             dedupe_window_ms: 2 * 60_000,
+            template_id: bd.template_id || null,
           };
+          if (bd.experiment_id && Array.isArray(bd.variants)) {
+            Object.assign(docPayload, variantQueueFields(bd.experiment_id, bd.variants, userId));
+          }
 
           if (recurrence && recurrence.mode && recurrence.mode !== 'none') {
             docPayload.repeat =
@@ -181,6 +200,7 @@ export async function POST(request: NextRequest) {
           {
             cursor_last_doc_id: lastDocId,
             total_enqueued: (bd.total_enqueued || 0) + created,
+            total_scanned: (bd.total_scanned || 0) + usersSnap.size,
             updated_at: admin.firestore.FieldValue.serverTimestamp(),
           },
           { merge: true }
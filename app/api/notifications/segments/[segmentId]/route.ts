@@ -0,0 +1,107 @@
+import { initFirebase } from '@/lib/firebase';
+import {
+  estimateSegmentSize,
+  getSegment,
+  normalizeSegmentFilters,
+  saveSegment,
+  segmentsRef,
+} from '@/lib/notification_segments';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import admin from 'firebase-admin';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ segmentId: string }> }
+) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'manage');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  const { segmentId } = await params;
+  try {
+    initFirebase();
+    const segment = await getSegment(admin.firestore(), segmentId);
+    if (!segment) {
+      return NextResponse.json({ error: 'Segment not found' }, { status: 404 });
+    }
+    return NextResponse.json({ segment });
+  } catch (error: unknown) {
+    console.error('notifications/segments GET failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load segment';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ segmentId: string }> }
+) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'manage');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  const { segmentId } = await params;
+  try {
+    initFirebase();
+    const db = admin.firestore();
+    const existing = await getSegment(db, segmentId);
+    if (!existing) {
+      return NextResponse.json({ error: 'Segment not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const name = body?.name === undefined ? existing.name : String(body.name).trim();
+    if (!name) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+    const normalized = normalizeSegmentFilters(body?.filters ?? existing.filters);
+    if ('error' in normalized) {
+      return NextResponse.json({ error: normalized.error }, { status: 400 });
+    }
+
+    const segment = await saveSegment(db, {
+      segmentId,
+      name,
+      description:
+        body?.description === undefined ? existing.description : String(body.description).trim(),
+      filters: normalized.filters,
+      userId: authCheck.userId as string,
+      estimate: await estimateSegmentSize(db, normalized.filters),
+    });
+    return NextResponse.json({ segment });
+  } catch (error: unknown) {
+    console.error('notifications/segments PUT failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to save segment';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ segmentId: string }> }
+) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'manage');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  const { segmentId } = await params;
+  try {
+    initFirebase();
+    const ref = segmentsRef(admin.firestore()).doc(segmentId);
+    const snap = await ref.get();
+    if (!snap.exists) {
+      return NextResponse.json({ error: 'Segment not found' }, { status: 404 });
+    }
+    // Broadcasts keep a snapshot of the filters, so in-flight sends are unaffected.
+    await ref.delete();
+    return NextResponse.json({ ok: true });
+  } catch (error: unknown) {
+    console.error('notifications/segments DELETE failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to delete segment';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { initFirebase } from '@/lib/firebase';
+import {
+  estimateSegmentSize,
+  getSegment,
+  normalizeSegmentFilters,
+  segmentsRef,
+} from '@/lib/notification_segments';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import admin from 'firebase-admin';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Estimated audience size for `{ filters }` (unsaved) or `{ segmentId }`.
+ * Estimates for saved segments are kept on the segment as `last_estimate`.
+ */
+export async function POST(request: NextRequest) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'manage');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  try {
+    initFirebase();
+    const db = admin.firestore();
+    const body = await request.json().catch(() => ({}));
+    const segmentId = body?.segmentId ? String(body.segmentId) : null;
+
+    let rawFilters: unknown = body?.filters;
+    if (segmentId) {
+      const segment = await getSegment(db, segmentId);
+      if (!segment) {
+        return NextResponse.json({ error: 'Segment not found' }, { status: 404 });
+      }
+      rawFilters = segment.filters;
+    }
+
+    const normalized = normalizeSegmentFilters(rawFilters);
+    if ('error' in normalized) {
+      return NextResponse.json({ error: normalized.error }, { status: 400 });
+    }
+
+    const estimate = await estimateSegmentSize(db, normalized.filters);
+    if (segmentId) {
+      await segmentsRef(db).doc(segmentId).set({ last_estimate: estimate }, { merge: true });
+    }
+    return NextResponse.json({ estimate });
+  } catch (error: unknown) {
+    console.error('notifications/segments/estimate failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to estimate segment';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
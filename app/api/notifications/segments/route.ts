@@ -0,0 +1,61 @@
+import { initFirebase } from '@/lib/firebase';
+import {
+  estimateSegmentSize,
+  listSegments,
+  normalizeSegmentFilters,
+  saveSegment,
+} from '@/lib/notification_segments';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import admin from 'firebase-admin';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'manage');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  try {
+    initFirebase();
+    const segments = await listSegments(admin.firestore());
+    return NextResponse.json({ segments });
+  } catch (error: unknown) {
+    console.error('notifications/segments GET failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load segments';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'manage');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  try {
+    const body = await request.json();
+    const name = String(body?.name || '').trim();
+    if (!name) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+    const normalized = normalizeSegmentFilters(body?.filters);
+    if ('error' in normalized) {
+      return NextResponse.json({ error: normalized.error }, { status: 400 });
+    }
+
+    initFirebase();
+    const db = admin.firestore();
+    const segment = await saveSegment(db, {
+      name,
+      description: String(body?.description || '').trim(),
+      filters: normalized.filters,
+      userId: authCheck.userId as string,
+      estimate: await estimateSegmentSize(db, normalized.filters),
+    });
+    return NextResponse.json({ segment }, { status: 201 });
+  } catch (error: unknown) {
+    console.error('notifications/segments POST failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to save segment';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
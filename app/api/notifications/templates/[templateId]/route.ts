@@ -0,0 +1,96 @@
+import { initFirebase } from '@/lib/firebase';
+import {
+  deleteTemplate,
+  getTemplate,
+  normalizeTemplateInput,
+  saveTemplate,
+} from '@/lib/notification_templates';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import admin from 'firebase-admin';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'manage');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  const { templateId } = await params;
+  try {
+    initFirebase();
+    const template = await getTemplate(admin.firestore(), templateId);
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+    return NextResponse.json({ template });
+  } catch (error: unknown) {
+    console.error('notifications/templates GET failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load template';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'manage');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  const { templateId } = await params;
+  try {
+    initFirebase();
+    const db = admin.firestore();
+    if (!(await getTemplate(db, templateId))) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    const normalized = normalizeTemplateInput(await request.json());
+    if ('error' in normalized) {
+      return NextResponse.json({ error: normalized.error }, { status: 400 });
+    }
+
+    const template = await saveTemplate(
+      db,
+      templateId,
+      normalized.template,
+      authCheck.userId as string
+    );
+    return NextResponse.json({ template });
+  } catch (error: unknown) {
+    console.error('notifications/templates PUT failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to save template';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'manage');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  const { templateId } = await params;
+  try {
+    initFirebase();
+    const db = admin.firestore();
+    if (!(await getTemplate(db, templateId))) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+    // Queued items that reference it fall back to the title/body stored on the queue doc.
+    await deleteTemplate(db, templateId);
+    return NextResponse.json({ ok: true });
+  } catch (error: unknown) {
+    console.error('notifications/templates DELETE failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to delete template';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { initFirebase } from '@/lib/firebase';
+import {
+  type NotificationTemplate,
+  getTemplate,
+  normalizeLocale,
+  normalizeTemplateInput,
+  renderTemplate,
+  templateVariablesFor,
+  userLocale,
+} from '@/lib/notification_templates';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import admin from 'firebase-admin';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Render a saved template (`templateId`) or an unsaved draft (`template`) for
+ * one user, exactly as the router would at send time. `locale` overrides the
+ * user's language.
+ */
+export async function POST(request: NextRequest) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'manage');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  try {
+    const body = await request.json();
+    const userId = String(body?.userId || '').trim();
+    if (!userId) {
+      return NextResponse.json({ error: 'userId is required' }, { status: 400 });
+    }
+
+    initFirebase();
+    const db = admin.firestore();
+
+    let template: NotificationTemplate | null;
+    if (body?.templateId) {
+      template = await getTemplate(db, String(body.templateId));
+      if (!template) {
+        return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+      }
+    } else {
+      const normalized = normalizeTemplateInput(body?.template);
+      if ('error' in normalized) {
+        return NextResponse.json({ error: normalized.error }, { status: 400 });
+      }
+      template = {
+        ...normalized.template,
+        id: 'draft',
+        created_by: null,
+        created_at: null,
+        updated_by: null,
+        updated_at: null,
+      };
+    }
+
+    const userDoc = await db.collection('users').doc(userId).get();
+    if (!userDoc.exists) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    const user = userDoc.data() || {};
+    const locale = normalizeLocale(body?.locale) ?? userLocale(user);
+
+    return NextResponse.json({
+      preview: renderTemplate(template, user, locale),
+      userLocale: userLocale(user),
+      variables: templateVariablesFor(user),
+    });
+  } catch (error: unknown) {
+    console.error('notifications/templates/preview POST failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to preview template';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
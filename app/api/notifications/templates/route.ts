@@ -0,0 +1,57 @@
+import { initFirebase } from '@/lib/firebase';
+import {
+  TEMPLATE_VARIABLES,
+  listTemplates,
+  normalizeTemplateInput,
+  saveTemplate,
+} from '@/lib/notification_templates';
+import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
+import admin from 'firebase-admin';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'manage');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  try {
+    initFirebase();
+    const templates = await listTemplates(admin.firestore());
+    return NextResponse.json({
+      templates,
+      variables: TEMPLATE_VARIABLES.map(({ name, label }) => ({ name, label })),
+    });
+  } catch (error: unknown) {
+    console.error('notifications/templates GET failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load templates';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'manage');
+  if (!authCheck.authorized) {
+    return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+  }
+
+  try {
+    const normalized = normalizeTemplateInput(await request.json());
+    if ('error' in normalized) {
+      return NextResponse.json({ error: normalized.error }, { status: 400 });
+    }
+
+    initFirebase();
+    const template = await saveTemplate(
+      admin.firestore(),
+      null,
+      normalized.template,
+      authCheck.userId as string
+    );
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error: unknown) {
+    console.error('notifications/templates POST failed:', error);
+    const message = error instanceof Error ? error.message : 'Failed to save template';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,12 +1,9 @@
-import { db } from '@/lib/db';
-import { user } from '@/lib/db/schema';
-import { getUserSession, initializeRBAC } from '@/lib/rbac';
-import { eq } from 'drizzle-orm';
+import { ACTIONS, RESOURCE_TYPES, getUserSession, hasPermission, initializeRBAC } from '@/lib/rbac';
 import { NextRequest, NextResponse } from 'next/server';
 
 // Initialize RBAC system (run once)
 // This endpoint is accessible to any authenticated user with legacy admin/superadmin role
-// to allow initial setup
+// to allow initial setup (or admin write access once legacy roles are turned off)
 export async function POST(request: NextRequest) {
   try {
     // Check if user is authenticated (but don't require RBAC permissions yet)
@@ -15,12 +12,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Check legacy role system for authorization
-    const userData = await db.query.user.findFirst({
-      where: eq(user.id, session.user.id),
-    });
-
-    if (!userData || (userData.role !== 'superadmin' && userData.role !== 'admin')) {
+    // Legacy admins pass before any RBAC role exists
+    if (!(await hasPermission(session.user.id, RESOURCE_TYPES.ADMIN, ACTIONS.WRITE))) {
       return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
     }
 
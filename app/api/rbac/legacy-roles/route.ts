@@ -0,0 +1,47 @@
+import { buildLegacyRoleReport, convertLegacyRoles } from '@/lib/legacyRoles';
+import { requireSuperadmin } from '@/lib/rbac';
+import { NextRequest, NextResponse } from 'next/server';
+
+// GET migration report: legacy user.role access versus RBAC alone (superadmin only)
+export async function GET(request: NextRequest) {
+  try {
+    const superadminCheck = await requireSuperadmin(request);
+    if (!superadminCheck.authorized) {
+      return NextResponse.json(
+        { error: superadminCheck.error },
+        { status: superadminCheck.status }
+      );
+    }
+
+    const report = await buildLegacyRoleReport();
+    return NextResponse.json({ report });
+  } catch (error: unknown) {
+    console.error('Error building legacy role report:', error);
+    const message = error instanceof Error ? error.message : 'Failed to build legacy role report';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// CONVERT legacy roles into equivalent RBAC role assignments (superadmin only)
+export async function POST(request: NextRequest) {
+  try {
+    const superadminCheck = await requireSuperadmin(request);
+    if (!superadminCheck.authorized || !superadminCheck.userId) {
+      return NextResponse.json(
+        { error: superadminCheck.error },
+        { status: superadminCheck.status }
+      );
+    }
+
+    const result = await convertLegacyRoles(superadminCheck.userId);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: unknown) {
+    console.error('Error converting legacy roles:', error);
+    const message = error instanceof Error ? error.message : 'Failed to convert legacy roles';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
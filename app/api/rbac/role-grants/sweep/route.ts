@@ -0,0 +1,31 @@
+import { timingSafeEqual } from 'node:crypto';
+import { sweepRoleGrants } from '@/lib/roleGrants';
+import { NextRequest, NextResponse } from 'next/server';
+
+function requireCronSecret(request: NextRequest): NextResponse | null {
+  const expected = process.env.RBAC_CRON_SECRET;
+  if (!expected) {
+    return NextResponse.json({ error: 'RBAC_CRON_SECRET is not configured' }, { status: 500 });
+  }
+  const provided = Buffer.from(request.headers.get('x-cron-secret') || '');
+  const secret = Buffer.from(expected);
+  if (provided.length !== secret.length || !timingSafeEqual(provided, secret)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return null;
+}
+
+// Remove expired role grants and warn holders whose grants expire soon
+export async function POST(request: NextRequest) {
+  const authFail = requireCronSecret(request);
+  if (authFail) return authFail;
+
+  try {
+    const result = await sweepRoleGrants();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: unknown) {
+    console.error('Error sweeping role grants:', error);
+    const message = error instanceof Error ? error.message : 'Failed to sweep role grants';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { getUserSession, requireSuperadmin } from '@/lib/rbac';
+import { approveRoleRequest, closeRoleRequest } from '@/lib/roleGrants';
+import { NextRequest, NextResponse } from 'next/server';
+
+// APPROVE or DENY (superadmin only), or CANCEL (requester only) a pending request
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ requestId: string }> }
+) {
+  try {
+    const { requestId } = await params;
+    const body = await request.json();
+    const { action } = body;
+    const note = typeof body.note === 'string' ? body.note.trim().slice(0, 1000) : undefined;
+
+    if (action === 'cancel') {
+      const session = await getUserSession(request);
+      if (!session) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+      const result = await closeRoleRequest(requestId, session.user.id, 'cancelled');
+      if ('error' in result) {
+        return NextResponse.json({ error: result.error }, { status: result.status });
+      }
+      return NextResponse.json({ success: true, request: result.request });
+    }
+
+    if (action !== 'approve' && action !== 'deny') {
+      return NextResponse.json(
+        { error: "Action must be 'approve', 'deny' or 'cancel'" },
+        { status: 400 }
+      );
+    }
+
+    const superadminCheck = await requireSuperadmin(request);
+    if (!superadminCheck.authorized || !superadminCheck.userId) {
+      return NextResponse.json(
+        { error: superadminCheck.error },
+        { status: superadminCheck.status }
+      );
+    }
+
+    const result =
+      action === 'approve'
+        ? await approveRoleRequest(requestId, superadminCheck.userId, note)
+        : await closeRoleRequest(requestId, superadminCheck.userId, 'denied', note);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, request: result.request });
+  } catch (error: unknown) {
+    console.error('Error reviewing role request:', error);
+    const message = error instanceof Error ? error.message : 'Failed to review role request';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
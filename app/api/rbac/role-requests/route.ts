@@ -0,0 +1,73 @@
+import { getUserSession, isSuperadminUser } from '@/lib/rbac';
+import {
+  ROLE_REQUEST_STATUSES,
+  type RoleRequestStatus,
+  createRoleRequest,
+  listRoleRequests,
+} from '@/lib/roleGrants';
+import { NextRequest, NextResponse } from 'next/server';
+
+// GET role requests: every request for superadmins, otherwise the caller's own
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getUserSession(request);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const statusParam = searchParams.get('status');
+    const status = ROLE_REQUEST_STATUSES.includes(statusParam as RoleRequestStatus)
+      ? (statusParam as RoleRequestStatus)
+      : undefined;
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || 100, 1), 500);
+    const isSuperadmin = await isSuperadminUser(session.user.id);
+
+    const requests = await listRoleRequests({
+      userId: isSuperadmin ? undefined : session.user.id,
+      status,
+      limit,
+    });
+
+    return NextResponse.json({ requests, canReview: isSuperadmin });
+  } catch (error: unknown) {
+    console.error('Error fetching role requests:', error);
+    const message = error instanceof Error ? error.message : 'Failed to fetch role requests';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// REQUEST a role for a limited number of hours
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getUserSession(request);
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { roleId, durationHours, justification } = body;
+    if (!roleId || typeof justification !== 'string') {
+      return NextResponse.json(
+        { error: 'Role ID, duration and justification are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await createRoleRequest({
+      userId: session.user.id,
+      roleId,
+      durationHours: Number(durationHours),
+      justification,
+    });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, request: result.request });
+  } catch (error: unknown) {
+    console.error('Error creating role request:', error);
+    const message = error instanceof Error ? error.message : 'Failed to create role request';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { db } from '@/lib/db';
 import { resourcePermission } from '@/lib/db/schema';
+import { parsePermissionConditions } from '@/lib/permissionConditions';
 import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
 import { eq } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
@@ -52,6 +53,10 @@ export async function POST(
         { status: 400 }
       );
     }
+    const parsedConditions = parsePermissionConditions(conditions);
+    if ('error' in parsedConditions) {
+      return NextResponse.json({ error: parsedConditions.error }, { status: 400 });
+    }
 
     const newPermission = await db
       .insert(resourcePermission)
@@ -61,7 +66,7 @@ export async function POST(
         resourceType,
         resourceId: resourceId || null,
         permissions,
-        conditions: conditions || null,
+        conditions: parsedConditions.conditions,
       })
       .returning();
 
@@ -94,7 +99,13 @@ export async function PATCH(
 
     const updateData: any = {};
     if (permissions !== undefined) updateData.permissions = permissions;
-    if (conditions !== undefined) updateData.conditions = conditions;
+    if (conditions !== undefined) {
+      const parsedConditions = parsePermissionConditions(conditions);
+      if ('error' in parsedConditions) {
+        return NextResponse.json({ error: parsedConditions.error }, { status: 400 });
+      }
+      updateData.conditions = parsedConditions.conditions;
+    }
 
     await db
       .update(resourcePermission)
@@ -1,6 +1,7 @@
 import { db } from '@/lib/db';
 import { role, user, userRole } from '@/lib/db/schema';
-import { RESOURCE_TYPES, requirePermission, requireSuperadmin } from '@/lib/rbac';
+import { RESOURCE_TYPES, activeRoleGrant, requirePermission, requireSuperadmin } from '@/lib/rbac';
+import { auditRoleGrant } from '@/lib/roleGrants';
 import { and, eq } from 'drizzle-orm';
 import { NextRequest, NextResponse } from 'next/server';
 
@@ -36,6 +37,13 @@ export async function GET(
   }
 }
 
+// Optional expiry for a time-bound grant; undefined when it is not a future date
+function parseGrantExpiry(value: unknown): Date | null | undefined {
+  if (!value) return null;
+  const date = new Date(value as string);
+  return date.getTime() > Date.now() ? date : undefined;
+}
+
 // ASSIGN role to user
 export async function POST(
   request: NextRequest,
@@ -54,6 +62,10 @@ export async function POST(
     if (!roleId) {
       return NextResponse.json({ error: 'Role ID is required' }, { status: 400 });
     }
+    const grantExpiresAt = parseGrantExpiry(expiresAt);
+    if (grantExpiresAt === undefined) {
+      return NextResponse.json({ error: 'expiresAt must be a future date' }, { status: 400 });
+    }
 
     // Validate role + protect superadmin role assignment
     const roleData = await db.select().from(role).where(eq(role.id, roleId)).limit(1);
@@ -72,11 +84,11 @@ export async function POST(
       assignedBy = superadminCheck.userId;
     }
 
-    // Check if role assignment already exists
+    // Check if role assignment already exists (a lapsed grant can be renewed)
     const existing = await db
       .select()
       .from(userRole)
-      .where(and(eq(userRole.userId, userId), eq(userRole.roleId, roleId)))
+      .where(and(eq(userRole.userId, userId), eq(userRole.roleId, roleId), activeRoleGrant()))
       .limit(1);
 
     if (existing.length > 0) {
@@ -84,15 +96,30 @@ export async function POST(
     }
 
     // Assign role
-    await db.insert(userRole).values({
+    await db
+      .insert(userRole)
+      .values({ userId, roleId, assignedBy, expiresAt: grantExpiresAt })
+      .onConflictDoUpdate({
+        target: [userRole.userId, userRole.roleId],
+        set: {
+          assignedBy,
+          assignedAt: new Date(),
+          expiresAt: grantExpiresAt,
+          expiryNotifiedAt: null,
+        },
+      });
+
+    await auditRoleGrant({
+      grantedBy: assignedBy ?? null,
       userId,
       roleId,
-      assignedBy,
-      expiresAt: expiresAt ? new Date(expiresAt) : null,
+      roleName: roleData[0].name,
+      expiresAt: grantExpiresAt,
     });
 
-    // Keep legacy role in sync for superadmin (bootstrap + middleware)
-    if (isSuperadminRole) {
+    // Keep legacy role in sync for superadmin (bootstrap + middleware). Time-bound
+    // grants are left out: the legacy role never expires.
+    if (isSuperadminRole && !grantExpiresAt) {
       await db
         .update(user)
         .set({ role: 'superadmin', updatedAt: new Date() })
@@ -143,7 +170,10 @@ export async function DELETE(
         return NextResponse.json({ error: superadminCheck.error }, { status: superadminCheck.status });
       }
 
-      const superadminCount = await db.select().from(userRole).where(eq(userRole.roleId, roleId));
+      const superadminCount = await db
+        .select()
+        .from(userRole)
+        .where(and(eq(userRole.roleId, roleId), activeRoleGrant()));
 
       if (superadminCount.length <= 1) {
         return NextResponse.json({ error: 'Cannot remove the last superadmin' }, { status: 400 });
@@ -158,7 +188,9 @@ export async function DELETE(
         .select()
         .from(userRole)
         .innerJoin(role, eq(userRole.roleId, role.id))
-        .where(and(eq(userRole.userId, userId), eq(role.name, 'superadmin')))
+        .where(
+          and(eq(userRole.userId, userId), eq(role.name, 'superadmin'), activeRoleGrant())
+        )
         .limit(1);
 
       if (remainingSuperadmin.length === 0) {
@@ -1,8 +1,83 @@
 import { initFirebase } from '@/lib/firebase';
+import {
+  getUserDevices,
+  maskToken,
+  removeDevice,
+  removeDeviceTokens,
+  userDevicesFromDoc,
+} from '@/lib/notification_devices';
+import { INVALID_TOKEN_ERROR_CODES } from '@/lib/notification_router';
+import { appUserPermissionContext } from '@/lib/permissionContext';
 import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
 import admin from 'firebase-admin';
 import { NextRequest, NextResponse } from 'next/server';
 
+// List the user's push devices (tokens masked)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const { userId } = await params;
+  try {
+    const authCheck = await requirePermission(
+      request,
+      RESOURCE_TYPES.FCM,
+      'read',
+      userId,
+      appUserPermissionContext(userId, 'users')
+    );
+    if (!authCheck.authorized) {
+      return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+    }
+
+    initFirebase();
+    const devices = await getUserDevices(admin.firestore(), userId);
+    return NextResponse.json({
+      devices: devices.map(({ token, ...device }) => ({ ...device, token: maskToken(token) })),
+    });
+  } catch (error: unknown) {
+    console.error('Error loading FCM devices:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load devices';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Remove one push device (?deviceId=)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const { userId } = await params;
+  try {
+    const authCheck = await requirePermission(
+      request,
+      RESOURCE_TYPES.FCM,
+      'write',
+      userId,
+      appUserPermissionContext(userId, 'users')
+    );
+    if (!authCheck.authorized) {
+      return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
+    }
+
+    const deviceId = request.nextUrl.searchParams.get('deviceId');
+    if (!deviceId) {
+      return NextResponse.json({ error: 'deviceId is required' }, { status: 400 });
+    }
+
+    initFirebase();
+    const removed = await removeDevice(admin.firestore(), userId, deviceId);
+    if (removed === 0) {
+      return NextResponse.json({ error: 'Device not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Error removing FCM device:', error);
+    const message = error instanceof Error ? error.message : 'Failed to remove device';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
 // Send FCM message to user
 export async function POST(
   request: NextRequest,
@@ -11,7 +86,13 @@ export async function POST(
   const { userId } = await params;
   try {
     // RBAC check: sending push is privileged.
-    const authCheck = await requirePermission(request, RESOURCE_TYPES.FCM, 'write', userId);
+    const authCheck = await requirePermission(
+      request,
+      RESOURCE_TYPES.FCM,
+      'write',
+      userId,
+      appUserPermissionContext(userId, ['users', 'admin_notifications'])
+    );
     if (!authCheck.authorized) {
       return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
     }
@@ -33,11 +114,10 @@ export async function POST(
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
-    const userData = userDoc.data()!;
-    // Check for both fcm_token (Flutter app) and fcmToken (legacy)
-    const fcmToken = userData.fcm_token || userData.fcmToken || userData.device_token;
+    // Every registered device, including the legacy single-token fields
+    const tokens = userDevicesFromDoc(userDoc.data() || {}).map((d) => d.token);
 
-    if (!fcmToken) {
+    if (tokens.length === 0) {
       return NextResponse.json(
         { error: 'User does not have an FCM token registered' },
         { status: 400 }
@@ -46,7 +126,7 @@ export async function POST(
 
     // Send notification
     const message = {
-      token: fcmToken,
+      tokens,
       notification: {
         title,
         body: messageBody,
@@ -73,7 +153,25 @@ export async function POST(
       },
     };
 
-    const response = await messaging.send(message);
+    const response = await messaging.sendEachForMulticast(message);
+
+    // Prune devices FCM no longer accepts; the rest keep receiving
+    const invalidTokens = tokens.filter((_, i) =>
+      INVALID_TOKEN_ERROR_CODES.includes(response.responses[i]?.error?.code ?? '')
+    );
+    if (invalidTokens.length > 0) {
+      await removeDeviceTokens(db, userId, invalidTokens);
+    }
+    if (response.successCount === 0) {
+      const firstError = response.responses.find((r) => r.error)?.error;
+      return NextResponse.json(
+        { error: firstError?.message || 'Failed to send notification' },
+        { status: invalidTokens.length === tokens.length ? 400 : 500 }
+      );
+    }
+    const messageIds = response.responses
+      .map((r) => r.messageId)
+      .filter((id): id is string => Boolean(id));
 
     // Log the notification
     await db.collection('admin_notifications').add({
@@ -82,38 +180,22 @@ export async function POST(
       body: messageBody,
       data: customData,
       sentAt: admin.firestore.FieldValue.serverTimestamp(),
-      messageId: response,
+      messageId: messageIds[0],
+      messageIds,
+      devicesSent: response.successCount,
+      devicesTotal: tokens.length,
       sentBy: 'admin', // You can add admin user ID here
     });
 
     return NextResponse.json({
       success: true,
       message: 'Notification sent successfully',
-      messageId: response,
+      messageId: messageIds[0],
+      devicesSent: response.successCount,
+      devicesTotal: tokens.length,
     });
   } catch (error: unknown) {
     console.error('Error sending FCM message:', error);
-
-    // Handle invalid token error
-    const errorObj =
-      error && typeof error === 'object' ? (error as { code?: string; message?: string }) : null;
-    if (
-      errorObj?.code === 'messaging/invalid-registration-token' ||
-      errorObj?.code === 'messaging/registration-token-not-registered'
-    ) {
-      // Remove invalid token from user document
-      try {
-        const db = admin.firestore();
-        await db.collection('users').doc(userId).update({
-          fcm_token: admin.firestore.FieldValue.delete(),
-          fcmToken: admin.firestore.FieldValue.delete(),
-          device_token: admin.firestore.FieldValue.delete(),
-        });
-      } catch (updateError) {
-        console.error('Error removing invalid token:', updateError);
-      }
-    }
-
     const message = error instanceof Error ? error.message : 'Failed to send notification';
     return NextResponse.json({ error: message }, { status: 500 });
   }
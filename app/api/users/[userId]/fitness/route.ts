@@ -1,4 +1,5 @@
 import { initFirebase } from '@/lib/firebase';
+import { appUserPermissionContext } from '@/lib/permissionContext';
 import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
 import admin from 'firebase-admin';
 import { NextRequest, NextResponse } from 'next/server';
@@ -10,7 +11,13 @@ export async function GET(
   try {
     const { userId } = await params;
 
-    const authCheck = await requirePermission(request, RESOURCE_TYPES.FITNESS, 'read', userId);
+    const authCheck = await requirePermission(
+      request,
+      RESOURCE_TYPES.FITNESS,
+      'read',
+      userId,
+      appUserPermissionContext(userId, ['users', 'fitness', 'outdoor_exercises'])
+    );
     if (!authCheck.authorized) {
       return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
     }
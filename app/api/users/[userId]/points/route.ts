@@ -1,4 +1,5 @@
 import { initFirebase } from '@/lib/firebase';
+import { appUserPermissionContext } from '@/lib/permissionContext';
 import { RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
 import admin from 'firebase-admin';
 import { NextRequest, NextResponse } from 'next/server';
@@ -11,7 +12,13 @@ export async function GET(
   try {
     const { userId } = await params;
 
-    const authCheck = await requirePermission(request, RESOURCE_TYPES.POINTS, 'read', userId);
+    const authCheck = await requirePermission(
+      request,
+      RESOURCE_TYPES.POINTS,
+      'read',
+      userId,
+      appUserPermissionContext(userId, 'users')
+    );
     if (!authCheck.authorized) {
       return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
     }
@@ -56,7 +63,13 @@ export async function PATCH(
   try {
     const { userId } = await params;
 
-    const authCheck = await requirePermission(request, RESOURCE_TYPES.POINTS, 'write', userId);
+    const authCheck = await requirePermission(
+      request,
+      RESOURCE_TYPES.POINTS,
+      'write',
+      userId,
+      appUserPermissionContext(userId, 'users')
+    );
     if (!authCheck.authorized) {
       return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
     }
@@ -1,4 +1,5 @@
 import { initFirebase } from '@/lib/firebase';
+import { appUserPermissionContext } from '@/lib/permissionContext';
 import { ACTIONS, RESOURCE_TYPES, requirePermission } from '@/lib/rbac';
 import admin from 'firebase-admin';
 import { NextRequest, NextResponse } from 'next/server';
@@ -12,7 +13,13 @@ export async function GET(
     const { userId } = await params;
 
     // RBAC check - check if user has permission to read this specific user or users in general
-    const authCheck = await requirePermission(request, RESOURCE_TYPES.USERS, 'read', userId);
+    const authCheck = await requirePermission(
+      request,
+      RESOURCE_TYPES.USERS,
+      'read',
+      userId,
+      appUserPermissionContext(userId, 'users')
+    );
     if (!authCheck.authorized) {
       return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
     }
@@ -68,7 +75,13 @@ export async function PATCH(
     const { userId } = await params;
 
     // RBAC check
-    const authCheck = await requirePermission(request, RESOURCE_TYPES.USERS, 'write', userId);
+    const authCheck = await requirePermission(
+      request,
+      RESOURCE_TYPES.USERS,
+      'write',
+      userId,
+      appUserPermissionContext(userId, 'users')
+    );
     if (!authCheck.authorized) {
       return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
     }
@@ -181,7 +194,13 @@ export async function DELETE(
     const { userId } = await params;
 
     // RBAC check
-    const authCheck = await requirePermission(request, RESOURCE_TYPES.USERS, ACTIONS.DELETE, userId);
+    const authCheck = await requirePermission(
+      request,
+      RESOURCE_TYPES.USERS,
+      ACTIONS.DELETE,
+      userId,
+      appUserPermissionContext(userId, 'users')
+    );
     if (!authCheck.authorized) {
       return NextResponse.json({ error: authCheck.error }, { status: authCheck.status });
     }
@@ -1,11 +1,42 @@
 'use client';
 
 import ConfigEditor from '@/components/ConfigEditor';
-import ProgressPanel from '@/components/ProgressPanel';
+import GenerationJobHistory from '@/components/GenerationJobHistory';
+import ProgressPanel, {
+  SINK_LABELS,
+  type BatchStatus,
+  type GenerationProgress,
+  type ValidationIssue,
+  type WriteSummary,
+} from '@/components/ProgressPanel';
+import TemplateLibrary from '@/components/TemplateLibrary';
 import TemplateSelector from '@/components/TemplateSelector';
+import type { DocDiff, WriteReport } from '@/lib/generatedDocs';
+import type { GenerationBudgetStatus } from '@/lib/generationBudget';
 import { templates } from '@/lib/templates';
-import { GenerationConfig, Template } from '@/lib/types';
-import { useState } from 'react';
+import { GenerationConfig, GenerationUsage, SinkType, Template } from '@/lib/types';
+import Link from 'next/link';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// The stream events the page reacts to (see GenerationJobEvent); others are ignored.
+type StreamEvent = { jobId?: string; usage?: GenerationUsage } & (
+  | { type: 'queued' | 'started'; completed?: number; total?: number }
+  | { type: 'progress'; completed: number; total: number; message?: string }
+  | { type: 'completed'; total: number; dryRun?: boolean }
+  | { type: 'cancelled' }
+  | { type: 'error'; message: string }
+  | {
+      type: 'validation';
+      batch: number;
+      index: number;
+      status: ValidationIssue['status'];
+      errors?: string[];
+    }
+  | { type: 'batch_retry'; batch: number; attempt: number; error?: string }
+  | { type: 'batch'; batch: number; status: BatchStatus['status']; retries: number; error?: string }
+  | { type: 'report'; report: WriteReport; diff?: DocDiff[]; dryRun?: boolean }
+  | { type: 'saved'; sink: SinkType; staged?: number; collection?: string; path?: string }
+);
 
 const defaultConfig: GenerationConfig = {
   jobName: 'custom-generation',
@@ -29,95 +60,238 @@ const defaultConfig: GenerationConfig = {
   model: 'gpt-5',
 };
 
+const ACTIVE_JOB_STORAGE_KEY = 'iki-gen:activeGenerationJob';
+
 export default function GeneratePage() {
   const [config, setConfig] = useState<GenerationConfig>(defaultConfig);
-  const [selectedTemplateId, setSelectedTemplateId] = useState<string>('custom');
+  const [selectedTemplate, setSelectedTemplate] = useState<Template | null>(null);
+  const [libraryTemplates, setLibraryTemplates] = useState<Template[]>([]);
+  const [builtinTemplates, setBuiltinTemplates] = useState<Template[]>(templates);
+  const [canPublish, setCanPublish] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [progress, setProgress] = useState({
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [progress, setProgress] = useState<GenerationProgress>({
     completed: 0,
     total: 0,
     message: '',
-    status: 'idle' as 'idle' | 'running' | 'completed' | 'error',
+    status: 'idle',
   });
+  const [validationIssues, setValidationIssues] = useState<ValidationIssue[]>([]);
+  const [writeSummary, setWriteSummary] = useState<WriteSummary | null>(null);
+  const [usage, setUsage] = useState<GenerationUsage | null>(null);
+  const [batchStatuses, setBatchStatuses] = useState<Record<number, BatchStatus>>({});
+  const [budget, setBudget] = useState<GenerationBudgetStatus | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
 
   const handleTemplateSelect = (template: Template) => {
-    setSelectedTemplateId(template.id);
+    setSelectedTemplate(template);
     setConfig({
       ...defaultConfig,
       ...template.config,
     } as GenerationConfig);
   };
 
-  const handleGenerate = async () => {
-    setIsGenerating(true);
-    setProgress({ completed: 0, total: config.count, message: 'Starting...', status: 'running' });
+  const loadTemplates = useCallback(async () => {
+    const res = await fetch('/api/generate/templates', { cache: 'no-store' });
+    if (!res.ok) return;
+    const json = await res.json();
+    setBuiltinTemplates(json.builtin || templates);
+    setLibraryTemplates(json.templates || []);
+    setCanPublish(Boolean(json.canPublish));
+  }, []);
 
-    try {
-      const response = await fetch('/api/generate', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(config),
-      });
+  useEffect(() => {
+    void loadTemplates().catch(() => undefined);
+  }, [loadTemplates]);
+
+  const handleLibraryChanged = (template?: Template) => {
+    void loadTemplates().catch(() => undefined);
+    setSelectedTemplate(template ?? null);
+  };
 
-      if (!response.ok) throw new Error('Generation failed');
+  const applyEvent = useCallback((data: StreamEvent) => {
+    if (data.jobId) {
+      setJobId(data.jobId);
+      window.localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, data.jobId);
+    }
+    if (data.usage) setUsage(data.usage);
 
+    if (data.type === 'queued' || data.type === 'started') {
+      setProgress((prev) => ({
+        completed: data.completed ?? prev.completed,
+        total: data.total ?? prev.total,
+        message: data.type === 'queued' ? 'Queued...' : 'Running...',
+        status: 'running',
+      }));
+    } else if (data.type === 'progress') {
+      setProgress({
+        completed: data.completed,
+        total: data.total,
+        message: data.message || '',
+        status: 'running',
+      });
+    } else if (data.type === 'completed') {
+      window.localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+      setProgress({
+        completed: data.total,
+        total: data.total,
+        message: data.dryRun ? 'Dry run completed, nothing written' : 'Generation completed!',
+        status: 'completed',
+      });
+    } else if (data.type === 'cancelled') {
+      window.localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+      setProgress((prev) => ({ ...prev, message: 'Job cancelled', status: 'cancelled' }));
+    } else if (data.type === 'error') {
+      window.localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+      setProgress((prev) => ({ ...prev, message: data.message, status: 'error' }));
+    } else if (data.type === 'validation') {
+      setValidationIssues((prev) => [
+        ...prev,
+        { batch: data.batch, index: data.index, status: data.status, errors: data.errors || [] },
+      ]);
+    } else if (data.type === 'batch_retry') {
+      setBatchStatuses((prev) => ({
+        ...prev,
+        [data.batch]: { status: 'retrying', retries: data.attempt, error: data.error },
+      }));
+    } else if (data.type === 'batch') {
+      setBatchStatuses((prev) => ({
+        ...prev,
+        [data.batch]: { status: data.status, retries: data.retries, error: data.error },
+      }));
+    } else if (data.type === 'report') {
+      setWriteSummary({ report: data.report, diff: data.diff || [], dryRun: data.dryRun });
+    } else if (data.type === 'saved') {
+      setProgress((prev) => ({
+        ...prev,
+        message:
+          data.sink === 'staging'
+            ? `Staged ${data.staged} items for review (${data.collection})`
+            : `Saved to ${data.sink}: ${data.collection || data.path}`,
+      }));
+    }
+  }, []);
+
+  // Read an SSE response to the end, buffering partial lines between chunks.
+  const followStream = useCallback(
+    async (response: Response) => {
       const reader = response.body?.getReader();
       const decoder = new TextDecoder();
+      let buffer = '';
 
       while (reader) {
         const { done, value } = await reader.read();
         if (done) break;
 
-        const text = decoder.decode(value);
-        const lines = text.split('\n');
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
 
         for (const line of lines) {
           if (line.startsWith('data: ')) {
-            const data = JSON.parse(line.slice(6));
-
-            if (data.type === 'progress') {
-              setProgress({
-                completed: data.completed,
-                total: data.total,
-                message: data.message || '',
-                status: 'running',
-              });
-            } else if (data.type === 'completed') {
-              setProgress({
-                completed: data.total,
-                total: data.total,
-                message: 'Generation completed!',
-                status: 'completed',
-              });
-            } else if (data.type === 'error') {
-              setProgress({
-                completed: 0,
-                total: config.count,
-                message: data.message,
-                status: 'error',
-              });
-            } else if (data.type === 'saved') {
-              setProgress((prev) => ({
-                ...prev,
-                message: `Saved to ${data.sink}: ${data.collection || data.path}`,
-              }));
-            }
+            applyEvent(JSON.parse(line.slice(6)));
           }
         }
       }
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      setProgress({
-        completed: 0,
-        total: config.count,
-        message: errorMessage,
-        status: 'error',
-      });
-    } finally {
-      setIsGenerating(false);
+    },
+    [applyEvent]
+  );
+
+  const runStream = useCallback(
+    async (open: (signal: AbortSignal) => Promise<Response>) => {
+      streamAbortRef.current?.abort();
+      const controller = new AbortController();
+      streamAbortRef.current = controller;
+      setIsGenerating(true);
+
+      try {
+        const response = await open(controller.signal);
+        if (!response.ok) {
+          const body = await response.json().catch(() => ({}));
+          throw new Error(body?.error || 'Generation failed');
+        }
+        await followStream(response);
+      } catch (error: unknown) {
+        if (controller.signal.aborted) return;
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        setProgress((prev) => ({ ...prev, message: errorMessage, status: 'error' }));
+      } finally {
+        if (streamAbortRef.current === controller) {
+          streamAbortRef.current = null;
+          setIsGenerating(false);
+          setHistoryRefreshKey((k) => k + 1);
+        }
+      }
+    },
+    [followStream]
+  );
+
+  const handleGenerate = async () => {
+    setJobId(null);
+    setValidationIssues([]);
+    setWriteSummary(null);
+    setUsage(null);
+    setBatchStatuses({});
+    setProgress({ completed: 0, total: config.count, message: 'Starting...', status: 'running' });
+    await runStream((signal) =>
+      fetch('/api/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(config),
+        signal,
+      })
+    );
+  };
+
+  const handleAttach = useCallback(
+    async (id: string) => {
+      setJobId(id);
+      setValidationIssues([]);
+      setWriteSummary(null);
+      setUsage(null);
+      setBatchStatuses({});
+      setProgress({ completed: 0, total: 0, message: 'Reattaching...', status: 'running' });
+      await runStream((signal) =>
+        fetch(`/api/generate/jobs/${encodeURIComponent(id)}/events`, { signal })
+      );
+    },
+    [runStream]
+  );
+
+  const handleCancel = async (id: string) => {
+    await fetch(`/api/generate/jobs/${encodeURIComponent(id)}/cancel`, { method: 'POST' });
+    setHistoryRefreshKey((k) => k + 1);
+  };
+
+  const handleRetry = async (id: string) => {
+    const res = await fetch(`/api/generate/jobs/${encodeURIComponent(id)}/retry`, {
+      method: 'POST',
+    });
+    if (res.ok) {
+      await handleAttach(id);
+    } else {
+      const body = await res.json().catch(() => ({}));
+      setProgress((prev) => ({ ...prev, message: body?.error || 'Retry failed', status: 'error' }));
     }
   };
 
+  // Reload after every run (historyRefreshKey) so the spend stays current.
+  // biome-ignore lint/correctness/useExhaustiveDependencies: historyRefreshKey is a reload trigger
+  useEffect(() => {
+    fetch('/api/generate/budget', { cache: 'no-store' })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((json) => setBudget(json?.budget ?? null))
+      .catch(() => setBudget(null));
+  }, [historyRefreshKey]);
+
+  // Pick up a job that was still running when the tab was closed.
+  useEffect(() => {
+    const stored = window.localStorage.getItem(ACTIVE_JOB_STORAGE_KEY);
+    if (stored) void handleAttach(stored);
+    return () => streamAbortRef.current?.abort();
+  }, [handleAttach]);
+
   return (
     <main className="page-container relative">
       <div className="container-standard relative">
@@ -129,7 +303,10 @@ export default function GeneratePage() {
             </h1>
             <p className="body-md text-iki-white/60 max-w-3xl">
               Generate structured content for Iki. Pick a template, review your schema and prompts, then
-              run generation and watch progress in real time.
+              run generation and watch progress in real time.{' '}
+              <Link href="/generate/review" className="text-light-green hover:underline">
+                Open the review queue
+              </Link>
             </p>
           </div>
 
@@ -138,8 +315,12 @@ export default function GeneratePage() {
             <div className="card-compact card-hover">
               <div className="text-xs text-iki-white/50 font-medium">Output</div>
               <div className="mt-1 text-sm text-iki-white font-semibold">
-                {config.sink === 'firestore' ? 'Firestore' : 'File'} ·{' '}
-                <span className="text-iki-white/70">{config.collection}</span>
+                {SINK_LABELS[config.sink]} ·{' '}
+                <span className="text-iki-white/70">
+                  {config.mode === 'translate' && config.translation
+                    ? `${config.translation.sourceCollection || '?'} → ${config.translation.locale || '?'}`
+                    : config.collection}
+                </span>
               </div>
               <div className="mt-2 text-xs text-iki-white/50">
                 Job: <span className="text-iki-white/70">{config.jobName}</span>
@@ -179,11 +360,21 @@ export default function GeneratePage() {
 
         {/* Templates */}
         <TemplateSelector
-          templates={templates}
+          templates={[...builtinTemplates, ...libraryTemplates]}
           onSelect={handleTemplateSelect}
-          selectedTemplateId={selectedTemplateId}
+          selectedTemplateId={selectedTemplate?.id ?? 'custom'}
         />
 
+        <div className="mt-6">
+          <TemplateLibrary
+            config={config}
+            selected={selectedTemplate}
+            canPublish={canPublish}
+            onChanged={handleLibraryChanged}
+            onLoadVersion={handleTemplateSelect}
+          />
+        </div>
+
         {/* Main Content */}
         <div className="mt-8 grid lg:grid-cols-12 gap-6 items-start">
           <div className="lg:col-span-7 xl:col-span-8">
@@ -196,9 +387,27 @@ export default function GeneratePage() {
               progress={progress}
               isGenerating={isGenerating}
               onGenerate={handleGenerate}
+              jobId={jobId}
+              validationIssues={validationIssues}
+              writeSummary={writeSummary}
+              usage={usage}
+              batchStatuses={batchStatuses}
+              budget={budget}
+              onAttach={handleAttach}
+              onCancel={handleCancel}
             />
           </div>
         </div>
+
+        <div className="mt-8">
+          <GenerationJobHistory
+            refreshKey={historyRefreshKey}
+            activeJobId={jobId}
+            onAttach={handleAttach}
+            onRetry={handleRetry}
+            onCancel={handleCancel}
+          />
+        </div>
       </div>
     </main>
   );
@@ -0,0 +1,26 @@
+import StagingReviewQueue from '@/components/StagingReviewQueue';
+import Link from 'next/link';
+
+export default function GenerateReviewPage() {
+  return (
+    <main className="page-container relative">
+      <div className="container-standard relative">
+        <div className="pt-6 pb-8">
+          <div className="flex flex-col gap-3">
+            <h1 className="heading-lg font-goldplay text-iki-white">
+              Content <span className="text-gradient-green">Review</span>
+            </h1>
+            <p className="body-md text-iki-white/60 max-w-3xl">
+              Browse, edit, reject or approve generated items before they go live.{' '}
+              <Link href="/generate" className="text-light-green hover:underline">
+                Back to the generator
+              </Link>
+            </p>
+          </div>
+        </div>
+
+        <StagingReviewQueue />
+      </div>
+    </main>
+  );
+}
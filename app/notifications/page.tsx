@@ -1,14 +1,29 @@
 'use client';
 
-import type { NotificationRouterConfig } from '@/lib/notification_router';
+import type { NotificationPriority, NotificationRouterConfig } from '@/lib/notification_router';
+import type { NotificationTemplate } from '@/lib/notification_templates';
 import { NOTIFICATION_TYPES } from '@/lib/notification_types';
 import Avatar from '@/components/Avatar';
+import NotificationAnalyticsPanel from '@/components/NotificationAnalyticsPanel';
+import NotificationConfigHistoryPanel from '@/components/NotificationConfigHistoryPanel';
+import NotificationDeadLetterPanel from '@/components/NotificationDeadLetterPanel';
+import NotificationDryRunPanel from '@/components/NotificationDryRunPanel';
+import NotificationExperimentsPanel from '@/components/NotificationExperimentsPanel';
+import NotificationTemplatesPanel from '@/components/NotificationTemplatesPanel';
+import SegmentAudiencePicker from '@/components/SegmentAudiencePicker';
 import { getUserAvatarSeed, getUserLabel, getUserSecondaryLabel, shortId } from '@/lib/privacy';
 import { usePrivacyMode } from '@/lib/usePrivacyMode';
 import { Bell, Loader2, Pencil, PlayCircle, RefreshCw, Save, Send, Trash2 } from 'lucide-react';
-import { Fragment, useEffect, useMemo, useState } from 'react';
-
-type QueueStats = { pending: number; sent: number; failed: number; skipped: number };
+import { Fragment, useCallback, useEffect, useMemo, useState } from 'react';
+
+type QueueStats = {
+  pending: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+  deferred: number;
+  capped: number;
+};
 type ConfigSummary = {
   globalEnabled: boolean;
   processingEnabled: boolean;
@@ -18,10 +33,10 @@ type ConfigSummary = {
   firstTimeEnabled: boolean;
   recurringEnabled: boolean;
 };
-type QueueStatusFilter = 'pending' | 'sent' | 'failed' | 'skipped' | 'all';
+type QueueStatusFilter = 'pending' | 'deferred' | 'capped' | 'sent' | 'failed' | 'skipped' | 'all';
 type QueueItem = {
   id: string;
-  status: 'pending' | 'sent' | 'failed' | 'skipped';
+  status: 'pending' | 'deferred' | 'capped' | 'sent' | 'failed' | 'skipped';
   category: string | null;
   type: string | null;
   title: string;
@@ -42,6 +57,11 @@ type QueueItem = {
   days_of_week: number[] | null;
   remaining_occurrences: number | null;
   retry_after_ms: number | null;
+  deferred_reason: string | null;
+  deferred_until: string | null;
+  capped_reason: string | null;
+  attempts: number | null;
+  next_retry_at: string | null;
 };
 
 type BroadcastRow = {
@@ -50,6 +70,7 @@ type BroadcastRow = {
   title: string;
   type: string;
   total_enqueued?: number;
+  segment?: { id: string; name: string } | null;
   created_at?: string | null;
   [key: string]: unknown;
 };
@@ -67,6 +88,7 @@ type ComposeResult = {
   mode?: 'broadcast' | 'users';
   broadcastId?: string;
   created?: number;
+  experimentId?: string | null;
   [key: string]: unknown;
 };
 
@@ -106,11 +128,21 @@ export default function NotificationsControlPage() {
   const [running, setRunning] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<
-    'overview' | 'routing' | 'composer' | 'broadcasts'
+    | 'overview'
+    | 'routing'
+    | 'composer'
+    | 'broadcasts'
+    | 'experiments'
+    | 'templates'
+    | 'dead_letter'
+    | 'analytics'
   >('composer');
-  const [routingTab, setRoutingTab] = useState<'engagement' | 'connect'>('engagement');
+  const [routingTab, setRoutingTab] = useState<'engagement' | 'connect' | 'delivery' | 'history'>(
+    'engagement'
+  );
   const [connectEditing, setConnectEditing] = useState(false);
   const [engagementEditing, setEngagementEditing] = useState(false);
+  const [deliveryEditing, setDeliveryEditing] = useState(false);
 
   const [stats, setStats] = useState<QueueStats | null>(null);
   const [configSummary, setConfigSummary] = useState<ConfigSummary | null>(null);
@@ -131,8 +163,15 @@ export default function NotificationsControlPage() {
   // Composer state
   const [composeTitle, setComposeTitle] = useState('');
   const [composeBody, setComposeBody] = useState('');
+  // Extra A/B variants; the main title/body above is variant A.
+  const [composeVariants, setComposeVariants] = useState<{ title: string; body: string }[]>([]);
   const [composeType, setComposeType] = useState('iki_home');
-  const [composeAudienceMode, setComposeAudienceMode] = useState<'all' | 'users'>('users');
+  const [composeTemplateId, setComposeTemplateId] = useState('');
+  const [templates, setTemplates] = useState<NotificationTemplate[] | null>(null);
+  const [composeAudienceMode, setComposeAudienceMode] = useState<'all' | 'users' | 'segment'>(
+    'users'
+  );
+  const [composeSegmentId, setComposeSegmentId] = useState<string | null>(null);
   const [composeUserQuery, setComposeUserQuery] = useState('');
   const [composeUsers, setComposeUsers] = useState<UserRow[]>([]);
   const [composeUsersCursor, setComposeUsersCursor] = useState<string | null>(null);
@@ -339,6 +378,35 @@ export default function NotificationsControlPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [activeTab]);
 
+  const loadTemplates = useCallback(async () => {
+    try {
+      const res = await fetch('/api/notifications/templates', { cache: 'no-store' });
+      const json = (await res.json()) as { error?: string; templates?: NotificationTemplate[] };
+      if (!res.ok) throw new Error(json.error || 'Failed to load templates');
+      setTemplates(json.templates || []);
+    } catch (e: unknown) {
+      setError(errorMessage(e, 'Failed to load templates'));
+    }
+  }, []);
+
+  useEffect(() => {
+    // Composer and engagement routing both pick from the template library.
+    if ((activeTab === 'composer' || activeTab === 'routing') && templates === null) {
+      loadTemplates();
+    }
+  }, [activeTab, templates, loadTemplates]);
+
+  function selectComposeTemplate(templateId: string) {
+    setComposeTemplateId(templateId);
+    const template = templates?.find((t) => t.id === templateId);
+    if (!template) return;
+    const copy = template.locales[template.defaultLocale];
+    setComposeTitle(copy?.title ?? '');
+    setComposeBody(copy?.body ?? '');
+    if (template.type) setComposeType(template.type);
+    setComposeVariants([]);
+  }
+
   async function setBroadcastStatus(id: string, status: 'pending' | 'cancelled') {
     setError(null);
     try {
@@ -423,10 +491,24 @@ export default function NotificationsControlPage() {
         title: composeTitle,
         body: composeBody,
         type: composeType,
+        templateId: composeTemplateId || undefined,
+        variants:
+          composeVariants.length > 0
+            ? [
+                { id: 'A', title: composeTitle, body: composeBody },
+                ...composeVariants.map((v, i) => ({
+                  id: String.fromCharCode(66 + i),
+                  title: v.title,
+                  body: v.body,
+                })),
+              ]
+            : undefined,
         audience:
           composeAudienceMode === 'all'
             ? { mode: 'all' }
-            : { mode: 'users', userIds: selectedUserIds },
+            : composeAudienceMode === 'segment'
+              ? { mode: 'segment', segmentId: composeSegmentId }
+              : { mode: 'users', userIds: selectedUserIds },
         schedule:
           composeScheduleMode === 'now'
             ? { mode: 'now' }
@@ -566,8 +648,60 @@ export default function NotificationsControlPage() {
           >
             Campaigns
           </button>
+          <button
+            type="button"
+            onClick={() => setActiveTab('experiments')}
+            className={`px-6 py-3 rounded-t-lg font-medium transition-colors ${
+              activeTab === 'experiments'
+                ? 'bg-iki-grey/50 border-b-2 border-light-green text-light-green'
+                : 'text-iki-white/60 hover:text-iki-white/80'
+            }`}
+          >
+            A/B tests
+          </button>
+          <button
+            type="button"
+            onClick={() => setActiveTab('templates')}
+            className={`px-6 py-3 rounded-t-lg font-medium transition-colors ${
+              activeTab === 'templates'
+                ? 'bg-iki-grey/50 border-b-2 border-light-green text-light-green'
+                : 'text-iki-white/60 hover:text-iki-white/80'
+            }`}
+          >
+            Templates
+          </button>
+          <button
+            type="button"
+            onClick={() => setActiveTab('dead_letter')}
+            className={`px-6 py-3 rounded-t-lg font-medium transition-colors ${
+              activeTab === 'dead_letter'
+                ? 'bg-iki-grey/50 border-b-2 border-light-green text-light-green'
+                : 'text-iki-white/60 hover:text-iki-white/80'
+            }`}
+          >
+            Dead letters
+          </button>
+          <button
+            type="button"
+            onClick={() => setActiveTab('analytics')}
+            className={`px-6 py-3 rounded-t-lg font-medium transition-colors ${
+              activeTab === 'analytics'
+                ? 'bg-iki-grey/50 border-b-2 border-light-green text-light-green'
+                : 'text-iki-white/60 hover:text-iki-white/80'
+            }`}
+          >
+            Analytics
+          </button>
         </div>
 
+        {activeTab === 'experiments' && <NotificationExperimentsPanel />}
+
+        {activeTab === 'templates' && <NotificationTemplatesPanel />}
+
+        {activeTab === 'dead_letter' && <NotificationDeadLetterPanel />}
+
+        {activeTab === 'analytics' && <NotificationAnalyticsPanel />}
+
         {activeTab === 'overview' && (
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             <div className="glass-card p-6 lg:col-span-2">
@@ -580,6 +714,8 @@ export default function NotificationsControlPage() {
                   <Stat label="Sent" value={stats.sent} tone="success" />
                   <Stat label="Failed" value={stats.failed} tone="danger" />
                   <Stat label="Skipped" value={stats.skipped} tone="muted" />
+                  <Stat label="Deferred (quiet hours)" value={stats.deferred} tone="warning" />
+                  <Stat label="Capped" value={stats.capped} tone="muted" />
                 </div>
               )}
 
@@ -645,7 +781,8 @@ export default function NotificationsControlPage() {
                   <div>
                     <h3 className="section-title mb-1">Queue items</h3>
                     <p className="section-subtitle">
-                      Latest items in the queue (pending/sent/failed/skipped). Click a row for details.
+                      Latest items in the queue (pending/deferred/capped/sent/failed/skipped). Click
+                      a row for details.
                     </p>
                   </div>
 
@@ -657,6 +794,8 @@ export default function NotificationsControlPage() {
                       disabled={queueLoading}
                     >
                       <option value="pending">Pending</option>
+                      <option value="deferred">Deferred</option>
+                      <option value="capped">Capped</option>
                       <option value="failed">Failed</option>
                       <option value="sent">Sent</option>
                       <option value="skipped">Skipped</option>
@@ -703,7 +842,7 @@ export default function NotificationsControlPage() {
                         queueItems.map((q) => {
                           const expanded = !!queueExpanded[q.id];
                           const badge =
-                            q.status === 'pending'
+                            q.status === 'pending' || q.status === 'deferred'
                               ? 'border-orange-400/30 bg-orange-400/10 text-orange-200'
                               : q.status === 'sent'
                                 ? 'border-light-green/30 bg-light-green/10 text-light-green'
@@ -800,14 +939,22 @@ export default function NotificationsControlPage() {
                                         <div className="text-sm text-iki-white/80 whitespace-pre-wrap">
                                           {q.body || '—'}
                                         </div>
-                                        {(q.error || q.skipped_reason) && (
+                                        {(q.error ||
+                                          q.skipped_reason ||
+                                          q.deferred_reason ||
+                                          q.capped_reason) && (
                                           <div className="mt-3 text-xs font-mono text-iki-white/70 whitespace-pre-wrap bg-iki-grey/30 border border-iki-white/10 rounded-xl p-3">
                                             {JSON.stringify(
                                               {
                                                 error: q.error,
                                                 error_code: q.error_code,
+                                                attempts: q.attempts,
+                                                next_retry_at: q.next_retry_at,
                                                 skipped_reason: q.skipped_reason,
                                                 retry_after_ms: q.retry_after_ms,
+                                                deferred_reason: q.deferred_reason,
+                                                deferred_until: q.deferred_until,
+                                                capped_reason: q.capped_reason,
                                               },
                                               null,
                                               2
@@ -945,6 +1092,10 @@ export default function NotificationsControlPage() {
                 <div className="text-iki-white/70 font-tsukimi text-sm">Loading…</div>
               )}
             </div>
+
+            <div className="lg:col-span-3">
+              <NotificationDryRunPanel />
+            </div>
           </div>
         )}
 
@@ -973,8 +1124,32 @@ export default function NotificationsControlPage() {
               >
                 Connect
               </button>
+              <button
+                type="button"
+                onClick={() => setRoutingTab('delivery')}
+                className={`px-4 py-2 rounded-t-lg font-medium transition-colors ${
+                  routingTab === 'delivery'
+                    ? 'bg-iki-grey/50 border-b-2 border-light-green text-light-green'
+                    : 'text-iki-white/60 hover:text-iki-white/80'
+                }`}
+              >
+                Delivery rules
+              </button>
+              <button
+                type="button"
+                onClick={() => setRoutingTab('history')}
+                className={`px-4 py-2 rounded-t-lg font-medium transition-colors ${
+                  routingTab === 'history'
+                    ? 'bg-iki-grey/50 border-b-2 border-light-green text-light-green'
+                    : 'text-iki-white/60 hover:text-iki-white/80'
+                }`}
+              >
+                History
+              </button>
             </div>
 
+            {routingTab === 'history' && <NotificationConfigHistoryPanel onRestored={setConfig} />}
+
             {routingTab === 'connect' && (
               <div className="glass-card p-6">
                 <div className="flex items-start justify-between gap-4 mb-3">
@@ -1109,6 +1284,218 @@ export default function NotificationsControlPage() {
               </div>
             )}
 
+            {routingTab === 'delivery' && (
+              <div className="glass-card p-6">
+                <div className="flex items-start justify-between gap-4 mb-3">
+                  <div>
+                    <h3 className="section-title">Delivery rules</h3>
+                    <p className="section-subtitle">
+                      Quiet hours, per-user frequency caps, and category priority for every send.
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    className="btn-secondary flex items-center gap-2"
+                    onClick={() => setDeliveryEditing((v) => !v)}
+                    disabled={!config}
+                    title={deliveryEditing ? 'Lock' : 'Edit'}
+                  >
+                    <Pencil className="w-4 h-4" />
+                    {deliveryEditing ? 'Done' : 'Edit'}
+                  </button>
+                </div>
+
+                {!config ? (
+                  <div className="text-iki-white/70 font-tsukimi text-sm">Loading…</div>
+                ) : (
+                  <div className="space-y-5">
+                    {!deliveryEditing && (
+                      <div className="text-xs text-iki-white/60 font-tsukimi">
+                        Locked by default — click the pencil to edit, then Save.
+                      </div>
+                    )}
+                    <ToggleRow
+                      label="Quiet hours"
+                      description="Sends due in this window (user local time) are deferred to its end, not dropped"
+                      value={config.quietHours.enabled}
+                      onChange={(v) =>
+                        setConfig({ ...config, quietHours: { ...config.quietHours, enabled: v } })
+                      }
+                      disabled={!deliveryEditing}
+                    />
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <TimeField
+                        label="Quiet from"
+                        value={timeToString(config.quietHours.start)}
+                        onChange={(t) =>
+                          setConfig({
+                            ...config,
+                            quietHours: { ...config.quietHours, start: parseTime(t) },
+                          })
+                        }
+                        disabled={!deliveryEditing}
+                      />
+                      <TimeField
+                        label="Quiet until"
+                        value={timeToString(config.quietHours.end)}
+                        onChange={(t) =>
+                          setConfig({
+                            ...config,
+                            quietHours: { ...config.quietHours, end: parseTime(t) },
+                          })
+                        }
+                        disabled={!deliveryEditing}
+                      />
+                    </div>
+                    <ToggleRow
+                      label="Quiet hours apply to high priority"
+                      description="If off, high-priority categories (e.g. Connect) still deliver at night"
+                      value={config.quietHours.includeHighPriority}
+                      onChange={(v) =>
+                        setConfig({
+                          ...config,
+                          quietHours: { ...config.quietHours, includeHighPriority: v },
+                        })
+                      }
+                      disabled={!deliveryEditing}
+                    />
+
+                    <div className="border-t border-iki-white/10 pt-4 space-y-3">
+                      <ToggleRow
+                        label="Frequency caps"
+                        description="Max sends per user across all categories; capped items get status “capped”"
+                        value={config.frequencyCaps.enabled}
+                        onChange={(v) =>
+                          setConfig({
+                            ...config,
+                            frequencyCaps: { ...config.frequencyCaps, enabled: v },
+                          })
+                        }
+                        disabled={!deliveryEditing}
+                      />
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <NumberField
+                          label="Per local day (0 = no cap)"
+                          value={config.frequencyCaps.perDay}
+                          onChange={(n) =>
+                            setConfig({
+                              ...config,
+                              frequencyCaps: { ...config.frequencyCaps, perDay: n },
+                            })
+                          }
+                          disabled={!deliveryEditing}
+                        />
+                        <NumberField
+                          label="Per week, Mon–Sun (0 = no cap)"
+                          value={config.frequencyCaps.perWeek}
+                          onChange={(n) =>
+                            setConfig({
+                              ...config,
+                              frequencyCaps: { ...config.frequencyCaps, perWeek: n },
+                            })
+                          }
+                          disabled={!deliveryEditing}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="border-t border-iki-white/10 pt-4 space-y-3">
+                      <ToggleRow
+                        label="Retry transient failures"
+                        description="FCM outages and rate limits are retried with doubling delays; other errors fail at once"
+                        value={config.retryPolicy.enabled}
+                        onChange={(v) =>
+                          setConfig({
+                            ...config,
+                            retryPolicy: { ...config.retryPolicy, enabled: v },
+                          })
+                        }
+                        disabled={!deliveryEditing}
+                      />
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <NumberField
+                          label="Max attempts (incl. first send)"
+                          value={config.retryPolicy.maxAttempts}
+                          onChange={(n) =>
+                            setConfig({
+                              ...config,
+                              retryPolicy: { ...config.retryPolicy, maxAttempts: Math.max(1, n) },
+                            })
+                          }
+                          disabled={!deliveryEditing}
+                        />
+                        <NumberField
+                          label="First retry after (minutes)"
+                          value={Math.round(config.retryPolicy.baseDelayMs / 60_000)}
+                          onChange={(n) =>
+                            setConfig({
+                              ...config,
+                              retryPolicy: { ...config.retryPolicy, baseDelayMs: n * 60_000 },
+                            })
+                          }
+                          disabled={!deliveryEditing}
+                        />
+                        <NumberField
+                          label="Longest delay (minutes)"
+                          value={Math.round(config.retryPolicy.maxDelayMs / 60_000)}
+                          onChange={(n) =>
+                            setConfig({
+                              ...config,
+                              retryPolicy: { ...config.retryPolicy, maxDelayMs: n * 60_000 },
+                            })
+                          }
+                          disabled={!deliveryEditing}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="border-t border-iki-white/10 pt-4">
+                      <div className="text-sm font-tsukimi text-iki-white/80 mb-1">
+                        Category priority
+                      </div>
+                      <div className="text-xs text-iki-white/60 font-tsukimi mb-3">
+                        High skips frequency caps (its sends still count). Each run sends high, then
+                        normal, then low.
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        {(
+                          [
+                            ['connect', 'Connect'],
+                            ['admin', 'Admin / broadcasts'],
+                            ['engagement', 'Engagement'],
+                          ] as const
+                        ).map(([key, label]) => (
+                          <label key={key} className="block">
+                            <div className="text-xs text-iki-white/70 font-tsukimi mb-1">
+                              {label}
+                            </div>
+                            <select
+                              className="w-full bg-iki-grey/30 border border-iki-white/10 rounded-xl px-3 py-2 text-iki-white font-tsukimi text-sm"
+                              value={config.categoryPriority[key] ?? 'normal'}
+                              onChange={(e) =>
+                                setConfig({
+                                  ...config,
+                                  categoryPriority: {
+                                    ...config.categoryPriority,
+                                    [key]: e.target.value as NotificationPriority,
+                                  },
+                                })
+                              }
+                              disabled={!deliveryEditing}
+                            >
+                              <option value="high">High</option>
+                              <option value="normal">Normal</option>
+                              <option value="low">Low</option>
+                            </select>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
             {routingTab === 'engagement' && (
               <div className="glass-card p-6">
                 <div className="flex items-start justify-between gap-4 mb-3">
@@ -1257,6 +1644,17 @@ export default function NotificationsControlPage() {
                         <TemplateEditor
                           title="First-time intros"
                           templates={config.engagement.templates.intro}
+                          library={templates || []}
+                          templateIds={config.engagement.templateIds.intro}
+                          onTemplateIdsChange={(intro) =>
+                            setConfig({
+                              ...config,
+                              engagement: {
+                                ...config.engagement,
+                                templateIds: { ...config.engagement.templateIds, intro },
+                              },
+                            })
+                          }
                           onChange={(intro) =>
                             setConfig({
                               ...config,
@@ -1271,6 +1669,17 @@ export default function NotificationsControlPage() {
                         <TemplateEditor
                           title="Recurring nudges"
                           templates={config.engagement.templates.recurring}
+                          library={templates || []}
+                          templateIds={config.engagement.templateIds.recurring}
+                          onTemplateIdsChange={(recurring) =>
+                            setConfig({
+                              ...config,
+                              engagement: {
+                                ...config.engagement,
+                                templateIds: { ...config.engagement.templateIds, recurring },
+                              },
+                            })
+                          }
                           onChange={(recurring) =>
                             setConfig({
                               ...config,
@@ -1306,6 +1715,28 @@ export default function NotificationsControlPage() {
 
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
               <div className="lg:col-span-2 space-y-4">
+                <label className="block">
+                  <div className="text-xs text-iki-white/70 font-tsukimi mb-1">Template</div>
+                  <select
+                    className="w-full bg-iki-grey/30 border border-iki-white/10 rounded-xl px-3 py-2 text-iki-white font-tsukimi text-sm"
+                    value={composeTemplateId}
+                    onChange={(e) => selectComposeTemplate(e.target.value)}
+                  >
+                    <option value="">Free text</option>
+                    {(templates || []).map((t) => (
+                      <option key={t.id} value={t.id}>
+                        {t.name} ({Object.keys(t.locales).join(', ')})
+                      </option>
+                    ))}
+                  </select>
+                  {composeTemplateId && (
+                    <div className="mt-1 text-xs text-iki-white/60 font-tsukimi">
+                      Rendered per recipient at send time (variables and language); the copy below
+                      is the default locale. Edit it in the Templates tab.
+                    </div>
+                  )}
+                </label>
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                   <label className="block">
                     <div className="text-xs text-iki-white/70 font-tsukimi mb-1">Title</div>
@@ -1314,6 +1745,7 @@ export default function NotificationsControlPage() {
                       value={composeTitle}
                       onChange={(e) => setComposeTitle(e.target.value)}
                       placeholder="e.g. Hydration check"
+                      readOnly={Boolean(composeTemplateId)}
                     />
                   </label>
                   <label className="block">
@@ -1341,9 +1773,64 @@ export default function NotificationsControlPage() {
                     value={composeBody}
                     onChange={(e) => setComposeBody(e.target.value)}
                     placeholder="Message text..."
+                    readOnly={Boolean(composeTemplateId)}
                   />
                 </label>
 
+                {composeVariants.map((v, i) => {
+                  const id = String.fromCharCode(66 + i);
+                  const update = (patch: Partial<{ title: string; body: string }>) =>
+                    setComposeVariants((prev) =>
+                      prev.map((x, j) => (j === i ? { ...x, ...patch } : x))
+                    );
+                  return (
+                    <div key={id} className="border border-iki-white/10 rounded-xl p-3 space-y-2">
+                      <div className="flex items-center justify-between">
+                        <div className="text-xs text-iki-white/70 font-tsukimi">Variant {id}</div>
+                        <button
+                          type="button"
+                          className="text-xs text-iki-white/60 hover:text-red-200 font-tsukimi"
+                          onClick={() =>
+                            setComposeVariants((prev) => prev.filter((_, j) => j !== i))
+                          }
+                        >
+                          Remove
+                        </button>
+                      </div>
+                      <input
+                        aria-label={`Variant ${id} title`}
+                        className="w-full bg-iki-grey/30 border border-iki-white/10 rounded-xl px-3 py-2 text-iki-white font-tsukimi text-sm"
+                        value={v.title}
+                        onChange={(e) => update({ title: e.target.value })}
+                        placeholder="Title"
+                      />
+                      <textarea
+                        aria-label={`Variant ${id} body`}
+                        className="w-full min-h-[70px] bg-iki-grey/30 border border-iki-white/10 rounded-xl px-3 py-2 text-iki-white font-tsukimi text-sm"
+                        value={v.body}
+                        onChange={(e) => update({ body: e.target.value })}
+                        placeholder="Message text..."
+                      />
+                    </div>
+                  );
+                })}
+                <div className="flex items-center gap-3">
+                  <button
+                    type="button"
+                    className="btn-secondary"
+                    disabled={composeVariants.length >= 4 || Boolean(composeTemplateId)}
+                    onClick={() => setComposeVariants((prev) => [...prev, { title: '', body: '' }])}
+                  >
+                    {composeVariants.length === 0 ? 'A/B test copy' : 'Add variant'}
+                  </button>
+                  {composeVariants.length > 0 && (
+                    <div className="text-xs text-iki-white/60 font-tsukimi">
+                      Recipients are split evenly by a hash of their user id; the title/body above
+                      is variant A. Compare results in the A/B tests tab.
+                    </div>
+                  )}
+                </div>
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                   <label className="block">
                     <div className="text-xs text-iki-white/70 font-tsukimi mb-1">Send time</div>
@@ -1484,6 +1971,17 @@ export default function NotificationsControlPage() {
                       >
                         All users
                       </button>
+                      <button
+                        type="button"
+                        className={`px-3 py-1.5 rounded-lg border text-xs font-tsukimi font-semibold ${
+                          composeAudienceMode === 'segment'
+                            ? 'border-light-green/40 bg-light-green/15 text-light-green'
+                            : 'border-iki-white/15 bg-iki-grey/25 text-iki-white/70'
+                        }`}
+                        onClick={() => setComposeAudienceMode('segment')}
+                      >
+                        Segment
+                      </button>
                     </div>
                   </div>
 
@@ -1560,6 +2058,13 @@ export default function NotificationsControlPage() {
                     </div>
                   )}
 
+                  {composeAudienceMode === 'segment' && (
+                    <SegmentAudiencePicker
+                      segmentId={composeSegmentId}
+                      onSelect={setComposeSegmentId}
+                    />
+                  )}
+
                   {composeAudienceMode === 'all' && (
                     <div className="text-xs text-iki-white/60 font-tsukimi">
                       This will create a broadcast job and the cron/runner will expand it into queue
@@ -1572,7 +2077,12 @@ export default function NotificationsControlPage() {
                   <button
                     onClick={sendCustom}
                     className="btn-primary flex items-center gap-2"
-                    disabled={composeSending || !composeTitle.trim() || !composeBody.trim()}
+                    disabled={
+                      composeSending ||
+                      !composeTitle.trim() ||
+                      !composeBody.trim() ||
+                      (composeAudienceMode === 'segment' && !composeSegmentId)
+                    }
                   >
                     {composeSending ? (
                       <Loader2 className="w-4 h-4 animate-spin" />
@@ -1586,6 +2096,7 @@ export default function NotificationsControlPage() {
                       {composeResult.mode === 'broadcast'
                         ? `Broadcast created: ${composeResult.broadcastId}`
                         : `Created: ${composeResult.created}`}
+                      {composeResult.experimentId && ` · A/B test ${composeResult.experimentId}`}
                     </div>
                   )}
                 </div>
@@ -1638,7 +2149,11 @@ export default function NotificationsControlPage() {
                       </div>
                       <div className="mt-1 text-[11px] text-iki-white/50 font-mono">
                         audience:{' '}
-                        {composeAudienceMode === 'all' ? 'all' : `${selectedUserIds.length} users`}
+                        {composeAudienceMode === 'all'
+                          ? 'all'
+                          : composeAudienceMode === 'segment'
+                            ? `segment ${composeSegmentId || '…'}`
+                            : `${selectedUserIds.length} users`}
                       </div>
                     </div>
                   </div>
@@ -1730,6 +2245,11 @@ export default function NotificationsControlPage() {
                               </td>
                               <td className="px-3 py-2 max-w-[420px] truncate" title={b.title}>
                                 {b.title}
+                                {b.segment && (
+                                  <div className="text-[11px] text-iki-white/50">
+                                    Segment: {b.segment.name}
+                                  </div>
+                                )}
                               </td>
                               <td className="px-3 py-2 font-mono text-[12px] text-iki-white/60">
                                 {b.type}
@@ -2071,13 +2591,23 @@ function TemplateEditor({
   title,
   templates,
   onChange,
+  library,
+  templateIds,
+  onTemplateIdsChange,
   disabled,
 }: {
   title: string;
   templates: Record<string, { title: string; body: string }>;
   onChange: (t: Record<string, { title: string; body: string }>) => void;
+  library: NotificationTemplate[];
+  templateIds: Record<string, string | undefined>;
+  onTemplateIdsChange: (ids: Record<string, string | undefined>) => void;
   disabled?: boolean;
 }) {
+  // Cleared picks are saved as '' (not dropped) so the config merge overwrites them.
+  const setTemplateId = (key: string, templateId: string) =>
+    onTemplateIdsChange({ ...templateIds, [key]: templateId });
+
   const keys = ['water', 'daily_checkin', 'mood', 'meal_tracking', 'journal', 'gratitude'] as const;
   const labels: Record<string, string> = {
     water: 'Water',
@@ -2090,10 +2620,29 @@ function TemplateEditor({
 
   return (
     <div className="bg-iki-grey/20 border border-iki-white/10 rounded-xl p-4">
-      <div className="text-sm font-tsukimi text-iki-white mb-3">{title}</div>
+      <div className="text-sm font-tsukimi text-iki-white mb-1">{title}</div>
+      <div className="text-xs text-iki-white/60 font-tsukimi mb-3">
+        A library template replaces the fixed copy, which is still sent if the template is deleted.
+      </div>
       <div className="grid grid-cols-1 gap-4">
         {keys.map((k) => (
-          <div key={k} className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div key={k} className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <label className="block">
+              <div className="text-xs text-iki-white/70 font-tsukimi mb-1">{labels[k]} template</div>
+              <select
+                className="w-full bg-iki-grey/30 border border-iki-white/10 rounded-xl px-3 py-2 text-iki-white font-tsukimi text-sm"
+                value={templateIds[k] ?? ''}
+                onChange={(e) => setTemplateId(k, e.target.value)}
+                disabled={disabled}
+              >
+                <option value="">Fixed copy</option>
+                {library.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.name}
+                  </option>
+                ))}
+              </select>
+            </label>
             <label className="block">
               <div className="text-xs text-iki-white/70 font-tsukimi mb-1">{labels[k]} title</div>
               <input
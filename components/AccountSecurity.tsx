@@ -12,6 +12,10 @@ interface AccountSecurityProps {
   email: string;
   initialTwoFactorEnabled?: boolean;
   forcePasswordChange?: boolean;
+  // Why the proxy sent the user here, if it did.
+  requirementMessage?: string | null;
+  // 2FA is mandatory under the security settings, so it cannot be turned off.
+  twoFactorRequired?: boolean;
 }
 
 interface Enable2FAResponse {
@@ -23,6 +27,8 @@ export default function AccountSecurity({
   email,
   initialTwoFactorEnabled,
   forcePasswordChange,
+  requirementMessage,
+  twoFactorRequired,
 }: AccountSecurityProps) {
   const { me } = usePermissions();
   const [twoFactorEnabled, setTwoFactorEnabled] = useState<boolean>(
@@ -170,14 +176,20 @@ export default function AccountSecurity({
             When you sign in, you will be asked for a 6-digit code from your authenticator app after your
             password.
           </p>
-          <button
-            type="button"
-            className="btn-secondary body-xs flex items-center gap-2"
-            onClick={startDisable}
-          >
-            <ShieldOff className="w-4 h-4" />
-            Turn off 2FA
-          </button>
+          {twoFactorRequired ? (
+            <p className="body-2xs text-iki-white/60">
+              Two-factor is required for all admins and cannot be turned off.
+            </p>
+          ) : (
+            <button
+              type="button"
+              className="btn-secondary body-xs flex items-center gap-2"
+              onClick={startDisable}
+            >
+              <ShieldOff className="w-4 h-4" />
+              Turn off 2FA
+            </button>
+          )}
         </div>
       );
     }
@@ -366,11 +378,11 @@ export default function AccountSecurity({
       </header>
 
       <div className="space-y-4">
-        {forcePasswordChange && (
+        {(requirementMessage || forcePasswordChange) && (
           <div className="rounded-xl border border-orange-400/40 bg-orange-500/15 px-3 py-2">
             <p className="body-xs text-orange-50">
-              Your administrator requires you to change your password before continuing to use the
-              dashboard.
+              {requirementMessage ||
+                'Your administrator requires you to change your password before continuing to use the dashboard.'}
             </p>
           </div>
         )}
@@ -1,3 +1,5 @@
+import PromptVariablesEditor from '@/components/PromptVariablesEditor';
+import TranslationOptionsEditor, { EMPTY_TRANSLATION } from '@/components/TranslationOptionsEditor';
 import { Input } from '@/components/ui/input';
 import {
   Select,
@@ -7,15 +9,157 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
-import { GenerationConfig } from '@/lib/types';
+import type { ProviderInfo } from '@/lib/llm/types';
+import { GenerationConfig, GenerationMode, IdStrategy, WriteMode } from '@/lib/types';
 import { ChevronDown } from 'lucide-react';
+import { useEffect, useState } from 'react';
 
 interface Props {
   config: GenerationConfig;
   onChange: (config: GenerationConfig) => void;
 }
 
+interface ProviderSettingsProps extends Props {
+  providers: ProviderInfo[];
+  provider?: ProviderInfo;
+}
+
+// Provider and model pickers, plus the sampling options the provider supports.
+function ProviderSettings({ config, onChange, providers, provider }: ProviderSettingsProps) {
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label
+            htmlFor="config-provider"
+            className="block text-xs font-medium text-iki-white/60 mb-2"
+          >
+            Provider
+          </label>
+          <Select
+            value={provider?.id ?? config.provider ?? ''}
+            onValueChange={(value) => {
+              const next = providers.find((p) => p.id === value);
+              onChange({
+                ...config,
+                provider: value,
+                model: next?.defaultModel || next?.models[0] || '',
+              });
+            }}
+          >
+            <SelectTrigger id="config-provider">
+              <SelectValue placeholder="Loading..." />
+            </SelectTrigger>
+            <SelectContent>
+              {providers.map((p) => (
+                <SelectItem key={p.id} value={p.id} disabled={!p.configured}>
+                  {p.label}
+                  {!p.configured && ' (not configured)'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-iki-white/60 mb-2">Model</label>
+          <Input
+            type="text"
+            list="provider-models"
+            value={config.model}
+            onChange={(e) => onChange({ ...config, model: e.target.value })}
+            placeholder={provider?.defaultModel || 'model id'}
+          />
+          <datalist id="provider-models">
+            {provider?.models.map((model) => (
+              <option key={model} value={model} />
+            ))}
+          </datalist>
+        </div>
+      </div>
+
+      {(provider?.capabilities.temperature || provider?.capabilities.maxTokens) && (
+        <div className="grid grid-cols-2 gap-4">
+          {provider.capabilities.temperature && (
+            <div>
+              <label
+                htmlFor="config-temperature"
+                className="block text-xs font-medium text-iki-white/60 mb-2"
+              >
+                Temperature
+              </label>
+              <Input
+                id="config-temperature"
+                type="number"
+                value={config.temperature ?? ''}
+                onChange={(e) =>
+                  onChange({
+                    ...config,
+                    temperature:
+                      e.target.value === '' ? undefined : Number.parseFloat(e.target.value),
+                  })
+                }
+                min="0"
+                max="2"
+                step="0.1"
+                placeholder="provider default"
+              />
+            </div>
+          )}
+          {provider.capabilities.maxTokens && (
+            <div>
+              <label
+                htmlFor="config-max-tokens"
+                className="block text-xs font-medium text-iki-white/60 mb-2"
+              >
+                Max tokens
+              </label>
+              <Input
+                id="config-max-tokens"
+                type="number"
+                value={config.maxTokens ?? ''}
+                onChange={(e) =>
+                  onChange({
+                    ...config,
+                    maxTokens:
+                      e.target.value === '' ? undefined : Number.parseInt(e.target.value),
+                  })
+                }
+                min="1"
+                placeholder="provider default"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {provider && !provider.capabilities.structuredOutput && (
+        <p className="text-xs text-iki-white/50">
+          {provider.label} has no structured output; the schema is enforced by validation and
+          repair only.
+        </p>
+      )}
+    </>
+  );
+}
+
 export default function ConfigEditor({ config, onChange }: Props) {
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [defaultProvider, setDefaultProvider] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/generate/providers', { cache: 'no-store' })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((json) => {
+        if (!json) return;
+        setProviders(json.providers || []);
+        setDefaultProvider(json.defaultProvider ?? null);
+      })
+      .catch(() => {});
+  }, []);
+
+  const provider = providers.find((p) => p.id === (config.provider || defaultProvider));
+  const translating = config.mode === 'translate';
+
   return (
     <div className="space-y-6">
       {/* Basic Settings */}
@@ -28,14 +172,43 @@ export default function ConfigEditor({ config, onChange }: Props) {
           <span className="badge badge-secondary">Basics</span>
         </div>
         <div className="space-y-4">
-          <div>
-            <label className="block text-xs font-medium text-iki-white/60 mb-2">Job name</label>
-            <Input
-              type="text"
-              value={config.jobName}
-              onChange={(e) => onChange({ ...config, jobName: e.target.value })}
-              placeholder="my-generation-job"
-            />
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-iki-white/60 mb-2">Job name</label>
+              <Input
+                type="text"
+                value={config.jobName}
+                onChange={(e) => onChange({ ...config, jobName: e.target.value })}
+                placeholder="my-generation-job"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="config-mode"
+                className="block text-xs font-medium text-iki-white/60 mb-2"
+              >
+                Mode
+              </label>
+              <Select
+                value={config.mode ?? 'generate'}
+                onValueChange={(value) =>
+                  onChange({
+                    ...config,
+                    mode: value as GenerationMode,
+                    translation:
+                      value === 'translate' ? (config.translation ?? EMPTY_TRANSLATION) : undefined,
+                  })
+                }
+              >
+                <SelectTrigger id="config-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="generate">Generate new items</SelectItem>
+                  <SelectItem value="translate">Translate existing collection</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           <div className="grid grid-cols-2 gap-4">
@@ -45,6 +218,7 @@ export default function ConfigEditor({ config, onChange }: Props) {
                 type="number"
                 value={config.count}
                 onChange={(e) => onChange({ ...config, count: Number.parseInt(e.target.value) })}
+                disabled={translating}
                 min="1"
                 max="1000"
               />
@@ -70,6 +244,7 @@ export default function ConfigEditor({ config, onChange }: Props) {
                 type="text"
                 value={config.collection}
                 onChange={(e) => onChange({ ...config, collection: e.target.value })}
+                disabled={translating}
                 placeholder="my_collection"
               />
             </div>
@@ -85,125 +260,281 @@ export default function ConfigEditor({ config, onChange }: Props) {
                 <SelectContent>
                   <SelectItem value="firestore">Firestore</SelectItem>
                   <SelectItem value="file">File</SelectItem>
+                  <SelectItem value="staging">Staging (review first)</SelectItem>
                 </SelectContent>
               </Select>
             </div>
           </div>
 
-          <div>
-            <label className="block text-xs font-medium text-iki-white/60 mb-2">Model</label>
-            <Select
-              value={config.model}
-              onValueChange={(value) => onChange({ ...config, model: value })}
-            >
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="gpt-5">GPT-5 (Latest & Best)</SelectItem>
-                <SelectItem value="gpt-5-turbo">GPT-5 Turbo (Faster)</SelectItem>
-                <SelectItem value="gpt-4o">GPT-4O (Reliable)</SelectItem>
-                <SelectItem value="gpt-4o-mini">GPT-4O Mini (Budget)</SelectItem>
-              </SelectContent>
-            </Select>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label
+                htmlFor="config-repair-attempts"
+                className="block text-xs font-medium text-iki-white/60 mb-2"
+              >
+                Repair attempts
+              </label>
+              <Input
+                id="config-repair-attempts"
+                type="number"
+                value={config.maxRepairAttempts ?? 2}
+                onChange={(e) =>
+                  onChange({ ...config, maxRepairAttempts: Number.parseInt(e.target.value) })
+                }
+                min="0"
+                max="5"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="config-concurrency"
+                className="block text-xs font-medium text-iki-white/60 mb-2"
+              >
+                Parallel batches
+              </label>
+              <Input
+                id="config-concurrency"
+                type="number"
+                value={config.concurrency ?? 3}
+                onChange={(e) =>
+                  onChange({ ...config, concurrency: Number.parseInt(e.target.value) })
+                }
+                min="1"
+                max="8"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="config-batch-retries"
+                className="block text-xs font-medium text-iki-white/60 mb-2"
+              >
+                Retries on 429/5xx
+              </label>
+              <Input
+                id="config-batch-retries"
+                type="number"
+                value={config.maxBatchRetries ?? 3}
+                onChange={(e) =>
+                  onChange({ ...config, maxBatchRetries: Number.parseInt(e.target.value) })
+                }
+                min="0"
+                max="10"
+              />
+            </div>
           </div>
-        </div>
-      </section>
 
-      {/* Prompts */}
-      <section className="card">
-        <div className="flex items-start justify-between gap-4 mb-6">
-          <div>
-            <h3 className="heading-sm font-goldplay text-iki-white">Prompts</h3>
-            <p className="body-sm text-iki-white/60 mt-1">Define behavior and the content you want back.</p>
-          </div>
-          <span className="badge badge-secondary">Text</span>
-        </div>
-        <div className="space-y-5">
-          <div>
-            <label className="block text-xs font-medium text-iki-white/60 mb-2">System prompt</label>
-            <Textarea
-              value={config.systemPrompt}
-              onChange={(e) => onChange({ ...config, systemPrompt: e.target.value })}
-              className="font-mono text-sm"
-              rows={4}
-              placeholder="Define the AI's role and behavior..."
-            />
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor="config-id-strategy"
+                className="block text-xs font-medium text-iki-white/60 mb-2"
+              >
+                Doc IDs
+              </label>
+              <Select
+                value={config.idStrategy?.type ?? 'auto'}
+                onValueChange={(value) =>
+                  onChange({
+                    ...config,
+                    idStrategy:
+                      value === 'field'
+                        ? { type: 'field', fieldPath: '' }
+                        : ({ type: value } as IdStrategy),
+                  })
+                }
+              >
+                <SelectTrigger id="config-id-strategy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Auto (id / name)</SelectItem>
+                  <SelectItem value="field">From field</SelectItem>
+                  <SelectItem value="hash">Content hash</SelectItem>
+                  <SelectItem value="uuid">Random UUID</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label
+                htmlFor="config-write-mode"
+                className="block text-xs font-medium text-iki-white/60 mb-2"
+              >
+                Write mode
+              </label>
+              <Select
+                value={config.writeMode ?? 'merge'}
+                onValueChange={(value) => onChange({ ...config, writeMode: value as WriteMode })}
+              >
+                <SelectTrigger id="config-write-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="merge">Merge into existing</SelectItem>
+                  <SelectItem value="skip-existing">Skip existing</SelectItem>
+                  <SelectItem value="overwrite">Overwrite</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
-          <div>
-            <label className="block text-xs font-medium text-iki-white/60 mb-2">
-              User prompt{' '}
-              <span className="text-iki-white/40 text-xs font-normal ml-2">
-                (use {'{count}'} for batch size)
-              </span>
-            </label>
-            <Textarea
-              value={config.userPrompt}
-              onChange={(e) => onChange({ ...config, userPrompt: e.target.value })}
-              className="font-mono text-sm"
-              rows={6}
-              placeholder="Generate {count} items with..."
+
+          {config.idStrategy?.type === 'field' && (
+            <div>
+              <label
+                htmlFor="config-id-field-path"
+                className="block text-xs font-medium text-iki-white/60 mb-2"
+              >
+                ID field path
+                <span className="text-iki-white/40 text-xs font-normal ml-2">(e.g. meta.slug)</span>
+              </label>
+              <Input
+                id="config-id-field-path"
+                type="text"
+                value={config.idStrategy.fieldPath}
+                onChange={(e) =>
+                  onChange({ ...config, idStrategy: { type: 'field', fieldPath: e.target.value } })
+                }
+                placeholder="name"
+              />
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-iki-white/70">
+            <input
+              type="checkbox"
+              checked={config.dryRun ?? false}
+              onChange={(e) => onChange({ ...config, dryRun: e.target.checked })}
             />
-          </div>
+            Dry run
+            <span className="text-iki-white/40 text-xs">
+              (report new / changed / unchanged docs without writing)
+            </span>
+          </label>
+
+          <ProviderSettings
+            config={config}
+            onChange={onChange}
+            providers={providers}
+            provider={provider}
+          />
         </div>
       </section>
 
-      {/* JSON Schema */}
-      <details className="card group" open>
-        <summary className="list-none cursor-pointer select-none">
-          <div className="flex items-start justify-between gap-4">
+      {translating && (
+        <section className="card">
+          <div className="flex items-start justify-between gap-4 mb-6">
             <div>
-              <h3 className="heading-sm font-goldplay text-iki-white">JSON schema</h3>
+              <h3 className="heading-sm font-goldplay text-iki-white">Translation</h3>
               <p className="body-sm text-iki-white/60 mt-1">
-                Controls the shape of the generated output. Keep it strict and explicit.
+                Localize the docs of an existing collection. Count and collection are set from
+                the source.
               </p>
             </div>
-            <div className="flex items-center gap-2">
-              <span className="badge badge-secondary">Advanced</span>
-              <ChevronDown className="w-4 h-4 text-iki-white/60 transition-transform group-open:rotate-180" />
-            </div>
+            <span className="badge badge-secondary">Locale</span>
           </div>
-        </summary>
+          <TranslationOptionsEditor config={config} onChange={onChange} />
+        </section>
+      )}
 
-        <div className="mt-6 space-y-5">
-          <div>
-            <label className="block text-xs font-medium text-iki-white/60 mb-2">Schema name</label>
-            <Input
-              type="text"
-              value={config.jsonSchema.name}
-              onChange={(e) =>
-                onChange({
-                  ...config,
-                  jsonSchema: { ...config.jsonSchema, name: e.target.value },
-                })
-              }
-            />
+      {!translating && (
+        <>
+        {/* Prompts */}
+        <section className="card">
+          <div className="flex items-start justify-between gap-4 mb-6">
+            <div>
+              <h3 className="heading-sm font-goldplay text-iki-white">Prompts</h3>
+              <p className="body-sm text-iki-white/60 mt-1">Define behavior and the content you want back.</p>
+            </div>
+            <span className="badge badge-secondary">Text</span>
           </div>
-          <div>
-            <label className="block text-xs font-medium text-iki-white/60 mb-2">Schema definition</label>
-            <Textarea
-              value={JSON.stringify(config.jsonSchema.schema, null, 2)}
-              onChange={(e) => {
-                try {
-                  const schema = JSON.parse(e.target.value);
+          <div className="space-y-5">
+            <div>
+              <label className="block text-xs font-medium text-iki-white/60 mb-2">System prompt</label>
+              <Textarea
+                value={config.systemPrompt}
+                onChange={(e) => onChange({ ...config, systemPrompt: e.target.value })}
+                className="font-mono text-sm"
+                rows={4}
+                placeholder="Define the AI's role and behavior..."
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-iki-white/60 mb-2">
+                User prompt{' '}
+                <span className="text-iki-white/40 text-xs font-normal ml-2">
+                  (use {'{count}'} for batch size, {'{existing_names}'} for names already in the
+                  collection, {'{seed}'}, {'{batch}'} or your own {'{variables}'})
+                </span>
+              </label>
+              <Textarea
+                value={config.userPrompt}
+                onChange={(e) => onChange({ ...config, userPrompt: e.target.value })}
+                className="font-mono text-sm"
+                rows={6}
+                placeholder="Generate {count} items with..."
+              />
+            </div>
+            <PromptVariablesEditor config={config} onChange={onChange} />
+          </div>
+        </section>
+
+        {/* JSON Schema */}
+        <details className="card group" open>
+          <summary className="list-none cursor-pointer select-none">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h3 className="heading-sm font-goldplay text-iki-white">JSON schema</h3>
+                <p className="body-sm text-iki-white/60 mt-1">
+                  Controls the shape of the generated output. Keep it strict and explicit.
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="badge badge-secondary">Advanced</span>
+                <ChevronDown className="w-4 h-4 text-iki-white/60 transition-transform group-open:rotate-180" />
+              </div>
+            </div>
+          </summary>
+
+          <div className="mt-6 space-y-5">
+            <div>
+              <label className="block text-xs font-medium text-iki-white/60 mb-2">Schema name</label>
+              <Input
+                type="text"
+                value={config.jsonSchema.name}
+                onChange={(e) =>
                   onChange({
                     ...config,
-                    jsonSchema: { ...config.jsonSchema, schema },
-                  });
-                } catch (err) {
-                  // Invalid JSON, don't update
+                    jsonSchema: { ...config.jsonSchema, name: e.target.value },
+                  })
                 }
-              }}
-              className="font-mono text-xs"
-              rows={16}
-              placeholder={'{\n  "type": "array",\n  "items": {...}\n}'}
-            />
-            <p className="text-xs text-iki-white/45 mt-2">
-              Invalid JSON won&apos;t be applied. Validate before running large generations.
-            </p>
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-iki-white/60 mb-2">Schema definition</label>
+              <Textarea
+                value={JSON.stringify(config.jsonSchema.schema, null, 2)}
+                onChange={(e) => {
+                  try {
+                    const schema = JSON.parse(e.target.value);
+                    onChange({
+                      ...config,
+                      jsonSchema: { ...config.jsonSchema, schema },
+                    });
+                  } catch (err) {
+                    // Invalid JSON, don't update
+                  }
+                }}
+                className="font-mono text-xs"
+                rows={16}
+                placeholder={'{\n  "type": "array",\n  "items": {...}\n}'}
+              />
+              <p className="text-xs text-iki-white/45 mt-2">
+                Invalid JSON won&apos;t be applied. Validate before running large generations.
+              </p>
+            </div>
           </div>
-        </div>
-      </details>
+        </details>
+        </>
+      )}
     </div>
   );
 }
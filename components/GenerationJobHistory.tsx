@@ -0,0 +1,169 @@
+'use client';
+
+import { usePermissions } from '@/components/PermissionsProvider';
+import { Button } from '@/components/ui/button';
+import { RBAC_ACTIONS, RBAC_RESOURCES } from '@/lib/permissions';
+import type { GenerationJob } from '@/lib/types';
+import { RefreshCw } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+
+type JobRow = GenerationJob & { resumable: boolean };
+
+interface Props {
+  refreshKey?: number;
+  activeJobId?: string | null;
+  onAttach: (jobId: string) => void;
+  onRetry: (jobId: string) => void;
+  onCancel: (jobId: string) => void;
+}
+
+function statusClass(status: GenerationJob['status']) {
+  switch (status) {
+    case 'completed':
+      return 'status-success';
+    case 'failed':
+    case 'cancelled':
+      return 'status-error';
+    default:
+      return 'status-info';
+  }
+}
+
+export default function GenerationJobHistory({
+  refreshKey,
+  activeJobId,
+  onAttach,
+  onRetry,
+  onCancel,
+}: Props) {
+  const [jobs, setJobs] = useState<JobRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { can } = usePermissions();
+  const canWrite = can(RBAC_RESOURCES.GENERATE, RBAC_ACTIONS.WRITE);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await fetch('/api/generate/jobs?limit=20', { cache: 'no-store' });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || 'Failed to load job history');
+      }
+      const json = await res.json();
+      setJobs(json.jobs || []);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load job history');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: refreshKey is a reload trigger
+  useEffect(() => {
+    void load();
+  }, [load, refreshKey]);
+
+  return (
+    <section className="card">
+      <div className="flex items-start justify-between gap-4 mb-5">
+        <div>
+          <h3 className="heading-sm font-goldplay text-iki-white">Job history</h3>
+          <p className="body-sm text-iki-white/60 mt-1">
+            Recent generation runs. Running jobs continue server-side; reattach to follow them.
+          </p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => void load()} disabled={loading}>
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-300 mb-4">{error}</p>}
+
+      {!loading && jobs.length === 0 && !error && (
+        <p className="text-sm text-iki-white/50">No generation jobs yet.</p>
+      )}
+
+      {jobs.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-iki-white/50">
+                <th className="py-2 pr-4 font-medium">Job</th>
+                <th className="py-2 pr-4 font-medium">Status</th>
+                <th className="py-2 pr-4 font-medium">Progress</th>
+                <th className="py-2 pr-4 font-medium">Destination</th>
+                <th className="py-2 pr-4 font-medium">Created</th>
+                <th className="py-2 font-medium" />
+              </tr>
+            </thead>
+            <tbody>
+              {jobs.map((job) => {
+                const isActive = job.id === activeJobId;
+                const isLive = job.status === 'queued' || job.status === 'running';
+                return (
+                  <tr key={job.id} className="border-t border-light-green/10 align-top">
+                    <td className="py-3 pr-4">
+                      <div className="text-iki-white font-semibold">{job.jobName}</div>
+                      <div className="text-xs text-iki-white/40 font-mono">{job.id}</div>
+                      {job.error && <div className="text-xs text-red-300 mt-1">{job.error}</div>}
+                    </td>
+                    <td className="py-3 pr-4">
+                      <span className={`badge ${statusClass(job.status)}`}>{job.status}</span>
+                      {job.attempts > 1 && (
+                        <div className="text-xs text-iki-white/40 mt-1">
+                          {job.attempts} attempts
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-3 pr-4 text-iki-white/70">
+                      {job.completed}/{job.total}
+                      <div className="text-xs text-iki-white/40">
+                        batch {job.batchesCompleted}/{job.batchesTotal}
+                      </div>
+                      {job.usage.costUsd > 0 && (
+                        <div className="text-xs text-iki-white/40">
+                          ~${job.usage.costUsd.toFixed(4)}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-3 pr-4 text-iki-white/70">
+                      {job.sink} · {job.collection}
+                      <div className="text-xs text-iki-white/40">
+                        {job.provider} · {job.model}
+                      </div>
+                    </td>
+                    <td className="py-3 pr-4 text-xs text-iki-white/50">
+                      {new Date(job.createdAt).toLocaleString()}
+                    </td>
+                    <td className="py-3">
+                      <div className="flex flex-wrap justify-end gap-2">
+                        {isLive && !isActive && (
+                          <Button variant="ghost" size="sm" onClick={() => onAttach(job.id)}>
+                            Attach
+                          </Button>
+                        )}
+                        {canWrite && job.resumable && (
+                          <Button variant="outline" size="sm" onClick={() => onRetry(job.id)}>
+                            {job.batchesCompleted > 0 ? 'Resume' : 'Retry'}
+                          </Button>
+                        )}
+                        {canWrite && isLive && (
+                          <Button variant="ghost" size="sm" onClick={() => onCancel(job.id)}>
+                            Cancel
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,221 @@
+'use client';
+
+import type { LegacyRoleReport } from '@/lib/legacyRoles';
+import { AlertTriangle, CheckCircle2, RefreshCw, UserCheck } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+
+async function readJson(res: Response, fallback: string) {
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(json.error || fallback);
+  return json;
+}
+
+// `users:read`, `users:write`… grouped as `users: read, write`
+function groupKeys(keys: string[]) {
+  const byResource = new Map<string, string[]>();
+  for (const k of keys) {
+    const [resource, action] = k.split(':');
+    byResource.set(resource, [...(byResource.get(resource) || []), action]);
+  }
+  return Array.from(byResource.entries()).map(([resource, actions]) => ({ resource, actions }));
+}
+
+/**
+ * Migration off the legacy `user.role` column: what each legacy admin can do now
+ * versus under RBAC alone, conversion into RBAC roles, and the switch that turns
+ * the legacy path off.
+ */
+export default function LegacyRoleMigrationPanel() {
+  const [report, setReport] = useState<LegacyRoleReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const json = await readJson(
+        await fetch('/api/rbac/legacy-roles', { cache: 'no-store' }),
+        'Failed to load legacy role report'
+      );
+      setReport(json.report as LegacyRoleReport);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to load legacy role report');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const convert = async () => {
+    if (!report || !confirm(`Assign RBAC roles to ${report.pending} legacy user(s)?`)) return;
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const json = await readJson(
+        await fetch('/api/rbac/legacy-roles', { method: 'POST' }),
+        'Failed to convert legacy roles'
+      );
+      setReport(json.report as LegacyRoleReport);
+      setNotice(`Converted ${json.converted.length} user(s).`);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to convert legacy roles');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const setLegacyAccess = async (enabled: boolean) => {
+    const prompt = enabled
+      ? 'Turn legacy role access back on?'
+      : 'Turn off legacy role access? Permission checks will use RBAC roles only.';
+    if (!confirm(prompt)) return;
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await readJson(
+        await fetch('/api/admin/security/settings', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ legacyRoleAccessEnabled: enabled }),
+        }),
+        'Failed to update legacy role access'
+      );
+      setNotice(
+        enabled
+          ? 'Legacy role access is on.'
+          : 'Legacy role access is off. Other server processes pick this up within 30 seconds.'
+      );
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to update legacy role access');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="p-6 rounded-2xl bg-iki-grey/30 border border-light-green/20 space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="font-semibold text-iki-white">Legacy role migration</h3>
+            <p className="text-sm text-iki-white/60 mt-1">
+              Users whose legacy role is admin get every action on admin, providers, users, posts,
+              stories, analytics, generate, explore and upload; legacy superadmins get everything.
+              This applies whatever their RBAC roles say, until legacy access is turned off.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={load}
+            disabled={loading}
+            className="text-sm text-iki-white/60 hover:text-iki-white flex items-center gap-2 shrink-0"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+
+        {report && (
+          <div className="flex flex-wrap items-center gap-3">
+            <span
+              className={`px-3 py-1 rounded-full text-xs font-medium ${
+                report.legacyRoleAccessEnabled
+                  ? 'bg-yellow-500/20 text-yellow-200'
+                  : 'bg-light-green/20 text-light-green'
+              }`}
+            >
+              Legacy access {report.legacyRoleAccessEnabled ? 'on' : 'off'}
+            </span>
+            <span className="text-sm text-iki-white/80">
+              {report.users.length} legacy user(s), {report.pending} would lose access
+            </span>
+            <div className="flex-1" />
+            {report.pending > 0 && (
+              <button
+                type="button"
+                onClick={convert}
+                disabled={busy}
+                className="px-4 py-2 rounded-full bg-light-green/20 text-light-green text-sm font-medium hover:bg-light-green/30 flex items-center gap-2 disabled:opacity-50"
+              >
+                <UserCheck className="w-4 h-4" />
+                Convert to RBAC roles
+              </button>
+            )}
+            {report.legacyRoleAccessEnabled ? (
+              <button
+                type="button"
+                onClick={() => setLegacyAccess(false)}
+                disabled={busy || report.pending > 0}
+                title={report.pending > 0 ? 'Convert legacy roles first' : undefined}
+                className="px-4 py-2 rounded-full bg-red-500/20 text-red-300 text-sm font-medium hover:bg-red-500/30 disabled:opacity-50"
+              >
+                Turn off legacy access
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setLegacyAccess(true)}
+                disabled={busy}
+                className="px-4 py-2 rounded-full bg-iki-grey/50 border border-light-green/20 text-iki-white/80 text-sm"
+              >
+                Turn legacy access back on
+              </button>
+            )}
+          </div>
+        )}
+        {notice && <p className="text-sm text-light-green">{notice}</p>}
+        {error && <p className="text-sm text-red-300">{error}</p>}
+      </div>
+
+      {report?.users.map((u) => (
+        <div
+          key={u.userId}
+          className="p-4 rounded-2xl bg-iki-grey/30 border border-light-green/20 space-y-2"
+        >
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <div className="font-medium text-iki-white">{u.name}</div>
+              <div className="text-sm text-iki-white/60">{u.email}</div>
+            </div>
+            {u.lost.length > 0 ? (
+              <span className="text-xs text-yellow-200 flex items-center gap-1">
+                <AlertTriangle className="w-4 h-4" />
+                Would lose {u.lost.length} permission(s); gets the {u.suggestedRole} role
+              </span>
+            ) : (
+              <span className="text-xs text-light-green flex items-center gap-1">
+                <CheckCircle2 className="w-4 h-4" />
+                Covered by RBAC
+              </span>
+            )}
+          </div>
+          <div className="text-sm text-iki-white/80">
+            Legacy role <strong>{u.legacyRole}</strong> · RBAC roles{' '}
+            <strong>{u.rbacRoles.length > 0 ? u.rbacRoles.join(', ') : 'none'}</strong>
+          </div>
+          <div className="text-xs text-iki-white/60">
+            Today: {u.today.length} permissions · RBAC only: {u.rbacOnly.length} permissions
+          </div>
+          {u.lost.length > 0 && (
+            <ul className="text-xs text-iki-white/70 space-y-0.5">
+              {groupKeys(u.lost).map((g) => (
+                <li key={g.resource}>
+                  <span className="text-iki-white">{g.resource}</span>: {g.actions.join(', ')}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+'use client';
+
+import type { MetricsBreakdownRow, NotificationMetrics } from '@/lib/notification_metrics';
+import { BarChart3, RefreshCw } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+
+const RANGES = [7, 14, 30];
+
+async function readJson(res: Response, fallback: string) {
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(json.error || fallback);
+  return json;
+}
+
+function formatRate(rate: number | null) {
+  return rate === null ? '—' : `${(rate * 100).toFixed(1)}%`;
+}
+
+function BreakdownTable({
+  title,
+  rows,
+  empty,
+}: {
+  title: string;
+  rows: MetricsBreakdownRow[];
+  empty: string;
+}) {
+  return (
+    <div>
+      <div className="text-xs text-iki-white/60 font-tsukimi mb-2">{title}</div>
+      {rows.length === 0 ? (
+        <div className="text-sm text-iki-white/60 font-tsukimi">{empty}</div>
+      ) : (
+        <div className="overflow-auto max-h-[320px] border border-iki-white/10 rounded-xl">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-iki-white/60 font-tsukimi">
+              <tr>
+                <th className="text-left px-3 py-2">Name</th>
+                <th className="text-right px-3 py-2">Sent</th>
+                <th className="text-right px-3 py-2">Failed</th>
+                <th className="text-right px-3 py-2">Skipped</th>
+                <th className="text-right px-3 py-2">Opened</th>
+                <th className="text-right px-3 py-2">Tap rate</th>
+              </tr>
+            </thead>
+            <tbody className="text-iki-white/80 font-tsukimi">
+              {rows.map((r) => (
+                <tr key={r.key} className="border-t border-iki-white/5">
+                  <td className="px-3 py-2 max-w-[240px]" title={r.key}>
+                    <div className="truncate">{r.label}</div>
+                  </td>
+                  <td className="px-3 py-2 text-right">{r.sent}</td>
+                  <td className="px-3 py-2 text-right">{r.failed}</td>
+                  <td className="px-3 py-2 text-right">{r.skipped + r.capped}</td>
+                  <td className="px-3 py-2 text-right">{r.opened}</td>
+                  <td className="px-3 py-2 text-right text-light-green">{formatRate(r.tapRate)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Daily delivery outcomes, and tap-through per category, type, template and broadcast. */
+export default function NotificationAnalyticsPanel() {
+  const [days, setDays] = useState(14);
+  const [metrics, setMetrics] = useState<NotificationMetrics | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const json = await readJson(
+        await fetch(`/api/notifications/analytics?days=${days}`, { cache: 'no-store' }),
+        'Failed to load notification analytics'
+      );
+      setMetrics(json.metrics as NotificationMetrics);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to load notification analytics');
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const chartData = (metrics?.series || []).map((d) => ({
+    day: d.day.slice(5),
+    sent: d.sent,
+    failed: d.failed,
+    opened: d.opened,
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="glass-card p-6">
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <h3 className="section-title flex items-center gap-2">
+              <BarChart3 className="w-5 h-5 text-light-green" />
+              Delivery
+            </h3>
+            <p className="section-subtitle">
+              Router outcomes per UTC day, with taps acknowledged by the app.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              className="bg-iki-grey/30 border border-iki-white/10 rounded-xl px-3 py-2 text-iki-white font-tsukimi text-sm"
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value))}
+              disabled={loading}
+            >
+              {RANGES.map((d) => (
+                <option key={d} value={d}>
+                  Last {d} days
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={load}
+              className="btn-secondary flex items-center gap-2"
+              disabled={loading}
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        {error && <div className="text-red-200 font-tsukimi text-sm mb-4">{error}</div>}
+
+        {metrics && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4 font-tsukimi">
+              {[
+                ['Sent', metrics.totals.sent],
+                ['Failed', metrics.totals.failed],
+                ['Skipped', metrics.totals.skipped + metrics.totals.capped],
+                ['Opened', metrics.totals.opened],
+                ['Tap rate', formatRate(metrics.totals.tapRate)],
+              ].map(([label, value]) => (
+                <div key={label} className="bg-iki-grey/30 rounded-xl px-4 py-3">
+                  <div className="text-xs text-iki-white/60">{label}</div>
+                  <div className="text-lg text-iki-white">{value}</div>
+                </div>
+              ))}
+            </div>
+            <ResponsiveContainer width="100%" height={240}>
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#ffffff10" />
+                <XAxis dataKey="day" stroke="#ffffff60" style={{ fontSize: '12px' }} />
+                <YAxis stroke="#ffffff60" style={{ fontSize: '12px' }} allowDecimals={false} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: '#1a1a1a',
+                    border: '1px solid #a8d91a40',
+                    borderRadius: '8px',
+                  }}
+                />
+                <Bar dataKey="sent" name="Sent" radius={[4, 4, 0, 0]} fill="#a8d91a" />
+                <Bar dataKey="opened" name="Opened" radius={[4, 4, 0, 0]} fill="#60a5fa" />
+                <Bar dataKey="failed" name="Failed" radius={[4, 4, 0, 0]} fill="#f87171" />
+              </BarChart>
+            </ResponsiveContainer>
+            {(metrics.opens.truncated || metrics.opens.unattributed > 0) && (
+              <div className="text-xs text-yellow-200 font-tsukimi mt-3">
+                {metrics.opens.truncated
+                  ? `Only the first ${metrics.opens.scanned} opens were counted. `
+                  : ''}
+                {metrics.opens.unattributed > 0
+                  ? `${metrics.opens.unattributed} open${metrics.opens.unattributed === 1 ? '' : 's'} could not be matched to a queue item.`
+                  : ''}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {metrics && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="glass-card p-6 space-y-6">
+            <h3 className="section-title">By category and type</h3>
+            <BreakdownTable title="Categories" rows={metrics.categories} empty="No deliveries." />
+            <BreakdownTable title="Types" rows={metrics.types} empty="No deliveries." />
+          </div>
+          <div className="glass-card p-6 space-y-6">
+            <div>
+              <h3 className="section-title">Tap-through</h3>
+              <p className="section-subtitle">
+                The app writes notification_opens/&lt;queue_id&gt; with opened_at when a push is
+                tapped; queue_id is in every push&apos;s data payload.
+              </p>
+            </div>
+            <BreakdownTable
+              title="Templates"
+              rows={metrics.templates}
+              empty="No templated sends."
+            />
+            <BreakdownTable
+              title="Broadcasts"
+              rows={metrics.broadcasts}
+              empty="No broadcast sends."
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+'use client';
+
+import type {
+  ConfigChange,
+  ConfigVersion,
+  ConfigVersionDetail,
+} from '@/lib/notification_config_versions';
+import type { NotificationRouterConfig } from '@/lib/notification_router';
+import { History, Loader2, RefreshCw } from 'lucide-react';
+import { Fragment, useCallback, useEffect, useState } from 'react';
+
+async function readJson(res: Response, fallback: string) {
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(json.error || fallback);
+  return json;
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function ChangeList({ changes }: { changes: ConfigChange[] | null }) {
+  if (!changes) {
+    return <Loader2 className="w-4 h-4 animate-spin text-iki-white/60" />;
+  }
+  if (changes.length === 0) {
+    return <div className="text-xs text-iki-white/60 font-tsukimi">No field changes.</div>;
+  }
+  return (
+    <div className="space-y-1">
+      {changes.map((c) => (
+        <div key={c.path} className="text-[11px] font-mono text-iki-white/70 break-all">
+          <span className="text-iki-white">{c.path}</span>:{' '}
+          <span className="text-red-200/80 line-through">{formatValue(c.before)}</span> →{' '}
+          <span className="text-light-green">{formatValue(c.after)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** Saved versions of the router config, with their diffs and a restore action. */
+export default function NotificationConfigHistoryPanel({
+  onRestored,
+}: {
+  onRestored: (config: NotificationRouterConfig) => void;
+}) {
+  const [versions, setVersions] = useState<ConfigVersion[]>([]);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [changes, setChanges] = useState<ConfigChange[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const json = await readJson(
+        await fetch('/api/notifications/config/versions', { cache: 'no-store' }),
+        'Failed to load config history'
+      );
+      setVersions(json.versions || []);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to load config history');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const toggle = async (version: number) => {
+    if (expanded === version) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(version);
+    setChanges(null);
+    try {
+      const json = await readJson(
+        await fetch(`/api/notifications/config/versions/${version}`, { cache: 'no-store' }),
+        'Failed to load version'
+      );
+      setChanges((json.version as ConfigVersionDetail).changes);
+    } catch (e: unknown) {
+      setChanges([]);
+      setError(e instanceof Error ? e.message : 'Failed to load version');
+    }
+  };
+
+  const restore = async (version: number) => {
+    if (!confirm(`Restore version ${version}? It replaces the current config for every user.`)) {
+      return;
+    }
+    setRestoring(version);
+    setError(null);
+    setNotice(null);
+    try {
+      const json = await readJson(
+        await fetch(`/api/notifications/config/versions/${version}`, { method: 'POST' }),
+        'Failed to restore version'
+      );
+      onRestored(json.config as NotificationRouterConfig);
+      setNotice(
+        json.changes.length > 0
+          ? `Restored version ${version} as version ${json.version}.`
+          : `Version ${version} matches the current config; nothing changed.`
+      );
+      setExpanded(null);
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to restore version');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="section-title">Config history</h3>
+          <p className="section-subtitle">
+            Every save is kept as a version. Restoring one saves it again as the newest version.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={load}
+          className="btn-secondary flex items-center gap-2"
+          disabled={loading}
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {error && <div className="text-red-200 font-tsukimi text-sm mb-4">{error}</div>}
+      {notice && <div className="text-light-green font-tsukimi text-sm mb-4">{notice}</div>}
+
+      {versions.length === 0 && !loading ? (
+        <div className="text-sm text-iki-white/60 font-tsukimi">
+          No versions yet; the next save starts the history.
+        </div>
+      ) : (
+        <div className="overflow-auto border border-iki-white/10 rounded-xl">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-iki-white/60 font-tsukimi">
+              <tr>
+                <th className="text-left px-3 py-2">Version</th>
+                <th className="text-left px-3 py-2">Saved</th>
+                <th className="text-left px-3 py-2">Author</th>
+                <th className="text-right px-3 py-2">Changes</th>
+                <th className="text-right px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="text-iki-white/80 font-tsukimi">
+              {versions.map((v, i) => (
+                <Fragment key={v.version}>
+                  <tr className="border-t border-iki-white/5 align-top">
+                    <td className="px-3 py-2">
+                      <button
+                        type="button"
+                        className="font-mono text-xs hover:text-iki-white"
+                        onClick={() => toggle(v.version)}
+                      >
+                        v{v.version}
+                      </button>
+                      {i === 0 && (
+                        <span className="ml-2 text-[11px] text-light-green">current</span>
+                      )}
+                      {v.restored_from !== null && (
+                        <span className="ml-2 text-[11px] text-yellow-200">
+                          restored from v{v.restored_from}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-xs text-iki-white/60">
+                      {v.created_at ? new Date(v.created_at).toLocaleString() : '—'}
+                    </td>
+                    <td className="px-3 py-2 font-mono text-xs">{v.author_id || '—'}</td>
+                    <td className="px-3 py-2 text-right">{v.change_count}</td>
+                    <td className="px-3 py-2">
+                      <div className="flex justify-end">
+                        {i > 0 && (
+                          <button
+                            type="button"
+                            className="btn-secondary text-xs px-3 py-1 flex items-center gap-1"
+                            disabled={restoring !== null}
+                            onClick={() => restore(v.version)}
+                          >
+                            {restoring === v.version ? (
+                              <Loader2 className="w-3 h-3 animate-spin" />
+                            ) : (
+                              <History className="w-3 h-3" />
+                            )}
+                            Restore
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                  {expanded === v.version && (
+                    <tr className="border-t border-iki-white/5">
+                      <td colSpan={5} className="px-3 py-2 bg-iki-grey/20">
+                        <ChangeList changes={changes} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
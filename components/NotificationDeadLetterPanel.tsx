@@ -0,0 +1,231 @@
+'use client';
+
+import type {
+  DeadLetterAction,
+  DeadLetterGroup,
+  DeadLetterItem,
+} from '@/lib/notification_dead_letter';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { Fragment, useCallback, useEffect, useState } from 'react';
+
+const ACTION_LABELS: Record<DeadLetterAction, string> = {
+  retry: 'Retry all',
+  discard: 'Discard',
+  clear_tokens: 'Clear tokens',
+};
+
+const ACTION_CONFIRM: Record<DeadLetterAction, string> = {
+  retry: 'Requeue every item in this group now?',
+  discard: 'Delete every item in this group? This cannot be undone.',
+  clear_tokens:
+    "Clear these recipients' push tokens (unless they re-registered since) and remove the items?",
+};
+
+async function readJson(res: Response, fallback: string) {
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(json.error || fallback);
+  return json;
+}
+
+function GroupItems({ items }: { items: DeadLetterItem[] | null }) {
+  if (!items) {
+    return <Loader2 className="w-4 h-4 animate-spin text-iki-white/60" />;
+  }
+  if (items.length === 0) {
+    return <div className="text-xs text-iki-white/60 font-tsukimi">No items.</div>;
+  }
+  return (
+    <div className="space-y-1">
+      {items.map((item) => (
+        <div key={item.id} className="text-[11px] text-iki-white/70 font-mono">
+          {item.id} · {item.recipient_id || '—'} · {item.category || '—'}/{item.type || '—'} ·{' '}
+          {item.attempts} attempt{item.attempts === 1 ? '' : 's'} · {item.dead_lettered_at || '—'}
+          {item.error && <span className="text-red-200/80"> · {item.error}</span>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function NotificationDeadLetterPanel() {
+  const [groups, setGroups] = useState<DeadLetterGroup[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [items, setItems] = useState<DeadLetterItem[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [acting, setActing] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadGroups = useCallback(async () => {
+    setLoading(true);
+    try {
+      const json = await readJson(
+        await fetch('/api/notifications/dead-letter', { cache: 'no-store' }),
+        'Failed to load dead letters'
+      );
+      setGroups(json.groups || []);
+      setTruncated(Boolean(json.truncated));
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to load dead letters');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadGroups();
+  }, [loadGroups]);
+
+  const toggle = async (code: string) => {
+    if (expanded === code) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(code);
+    setItems(null);
+    try {
+      const params = new URLSearchParams({ code, limit: '50' });
+      const json = await readJson(
+        await fetch(`/api/notifications/dead-letter?${params}`, { cache: 'no-store' }),
+        'Failed to load items'
+      );
+      setItems(json.items || []);
+    } catch (e: unknown) {
+      setItems([]);
+      setError(e instanceof Error ? e.message : 'Failed to load items');
+    }
+  };
+
+  const act = async (code: string, action: DeadLetterAction) => {
+    if (!confirm(ACTION_CONFIRM[action])) return;
+    setActing(`${code}:${action}`);
+    setError(null);
+    setNotice(null);
+    try {
+      const json = await readJson(
+        await fetch('/api/notifications/dead-letter', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ code, action }),
+        }),
+        'Failed to apply action'
+      );
+      setNotice(
+        action === 'retry'
+          ? `Requeued ${json.requeued} item(s).`
+          : action === 'discard'
+            ? `Discarded ${json.removed} item(s).`
+            : `Cleared ${json.cleared} token(s), kept ${json.kept} re-registered, removed ${json.removed} item(s).`
+      );
+      setExpanded(null);
+      await loadGroups();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to apply action');
+    } finally {
+      setActing(null);
+    }
+  };
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="section-title">Dead letters</h3>
+          <p className="section-subtitle">
+            Pushes that failed for good — permanent FCM errors, or transient ones that used up their
+            retries — grouped by error code.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={loadGroups}
+          className="btn-secondary flex items-center gap-2"
+          disabled={loading}
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {error && <div className="text-red-200 font-tsukimi text-sm mb-4">{error}</div>}
+      {notice && <div className="text-light-green font-tsukimi text-sm mb-4">{notice}</div>}
+      {truncated && (
+        <div className="text-xs text-iki-white/60 font-tsukimi mb-3">
+          Showing counts from the newest 2,000 failures; act on a group to see the rest.
+        </div>
+      )}
+
+      {groups.length === 0 && !loading ? (
+        <div className="text-sm text-iki-white/60 font-tsukimi">No failed notifications.</div>
+      ) : (
+        <div className="overflow-auto border border-iki-white/10 rounded-xl">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-iki-white/60 font-tsukimi">
+              <tr>
+                <th className="text-left px-3 py-2">Error code</th>
+                <th className="text-right px-3 py-2">Items</th>
+                <th className="text-left px-3 py-2">Latest error</th>
+                <th className="text-left px-3 py-2">Newest</th>
+                <th className="text-right px-3 py-2">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="text-iki-white/80 font-tsukimi">
+              {groups.map((g) => (
+                <Fragment key={g.code}>
+                  <tr className="border-t border-iki-white/5 align-top">
+                    <td className="px-3 py-2">
+                      <button
+                        type="button"
+                        className="font-mono text-xs text-left hover:text-iki-white"
+                        onClick={() => toggle(g.code)}
+                      >
+                        {g.code}
+                      </button>
+                      {g.transient && (
+                        <span className="ml-2 text-[11px] text-yellow-200">retries exhausted</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right">{g.count}</td>
+                    <td className="px-3 py-2 max-w-[320px] truncate" title={g.latestError || ''}>
+                      {g.latestError || '—'}
+                    </td>
+                    <td className="px-3 py-2 text-xs text-iki-white/60">{g.newestAt || '—'}</td>
+                    <td className="px-3 py-2">
+                      <div className="flex justify-end gap-2">
+                        {(['retry', 'discard', 'clear_tokens'] as const)
+                          .filter((action) => action !== 'clear_tokens' || g.invalidToken)
+                          .map((action) => (
+                            <button
+                              key={action}
+                              type="button"
+                              className="btn-secondary text-xs px-3 py-1"
+                              disabled={acting !== null}
+                              onClick={() => act(g.code, action)}
+                            >
+                              {acting === `${g.code}:${action}` ? (
+                                <Loader2 className="w-3 h-3 animate-spin" />
+                              ) : (
+                                ACTION_LABELS[action]
+                              )}
+                            </button>
+                          ))}
+                      </div>
+                    </td>
+                  </tr>
+                  {expanded === g.code && (
+                    <tr className="border-t border-iki-white/5">
+                      <td colSpan={5} className="px-3 py-2 bg-iki-grey/20">
+                        <GroupItems items={items} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
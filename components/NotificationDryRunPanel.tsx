@@ -0,0 +1,200 @@
+'use client';
+
+import type {
+  NotificationSimulation,
+  SimulatedDelivery,
+  SimulatedOutcome,
+} from '@/lib/notification_simulation';
+import { FlaskConical, Loader2 } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+const HORIZONS = [6, 24, 72, 168];
+
+const OUTCOME_LABELS: Record<SimulatedOutcome, string> = {
+  send: 'Send',
+  defer: 'Deferred',
+  skip: 'Skipped',
+  cap: 'Capped',
+  fail: 'Fails',
+  hold: 'Held',
+};
+
+const OUTCOME_TONES: Record<SimulatedOutcome, string> = {
+  send: 'text-light-green',
+  defer: 'text-yellow-200',
+  skip: 'text-iki-white/60',
+  cap: 'text-iki-white/60',
+  fail: 'text-red-200',
+  hold: 'text-yellow-200',
+};
+
+async function readJson(res: Response, fallback: string) {
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || !json.ok) throw new Error(json.error || fallback);
+  return json;
+}
+
+function reasonLabel(d: SimulatedDelivery) {
+  if (d.outcome === 'send') {
+    return `${d.devices} device${d.devices === 1 ? '' : 's'}${d.template_locale ? ` · ${d.template_locale}` : ''}`;
+  }
+  if (d.deferred_until) return `${d.reason} until ${new Date(d.deferred_until).toLocaleString()}`;
+  return d.reason || '—';
+}
+
+/** Dry run of the cron over the next hours: who would get what, and what would be skipped. */
+export default function NotificationDryRunPanel() {
+  const [hours, setHours] = useState(24);
+  const [report, setReport] = useState<NotificationSimulation | null>(null);
+  const [filter, setFilter] = useState<SimulatedOutcome | 'all'>('all');
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const simulate = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const json = await readJson(
+        await fetch('/api/notifications/run', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ dryRun: true, hours, limit: 500 }),
+        }),
+        'Simulation failed'
+      );
+      setReport(json as NotificationSimulation);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Simulation failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const rows = useMemo(
+    () => (report?.deliveries || []).filter((d) => filter === 'all' || d.outcome === filter),
+    [report, filter]
+  );
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="section-title">Dry run</h3>
+          <p className="section-subtitle">
+            Replays the queue and new engagement schedules through routing rules. Nothing is sent or
+            written.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            className="bg-iki-grey/30 border border-iki-white/10 rounded-xl px-3 py-2 text-iki-white font-tsukimi text-sm"
+            value={hours}
+            onChange={(e) => setHours(Number(e.target.value))}
+            disabled={running}
+          >
+            {HORIZONS.map((h) => (
+              <option key={h} value={h}>
+                Next {h < 48 ? `${h} hours` : `${h / 24} days`}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={simulate}
+            className="btn-secondary flex items-center gap-2"
+            disabled={running}
+          >
+            {running ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <FlaskConical className="w-4 h-4" />
+            )}
+            Simulate
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="text-red-200 font-tsukimi text-sm mb-4">{error}</div>}
+
+      {report && (
+        <>
+          {report.paused && (
+            <div className="text-yellow-200 font-tsukimi text-sm mb-3">
+              Processing is paused: nothing below goes out until it is switched back on.
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2 mb-3 text-xs font-tsukimi">
+            <button
+              type="button"
+              onClick={() => setFilter('all')}
+              className={`px-3 py-1 rounded-lg border border-iki-white/10 ${filter === 'all' ? 'bg-iki-grey/50 text-iki-white' : 'text-iki-white/60'}`}
+            >
+              All {report.deliveries.length}
+            </button>
+            {(Object.keys(OUTCOME_LABELS) as SimulatedOutcome[]).map((outcome) => (
+              <button
+                key={outcome}
+                type="button"
+                onClick={() => setFilter(outcome)}
+                className={`px-3 py-1 rounded-lg border border-iki-white/10 ${filter === outcome ? 'bg-iki-grey/50 text-iki-white' : 'text-iki-white/60'}`}
+              >
+                {OUTCOME_LABELS[outcome]} {report.totals[outcome]}
+              </button>
+            ))}
+          </div>
+          <div className="text-xs text-iki-white/60 font-tsukimi mb-3">
+            {report.recipients} recipient{report.recipients === 1 ? '' : 's'} until{' '}
+            {new Date(report.until).toLocaleString()} · {report.queue.scanned} queued item
+            {report.queue.scanned === 1 ? '' : 's'}
+            {report.queue.truncated ? ' (limit reached)' : ''} ·{' '}
+            {report.engagement.disabled
+              ? 'engagement off'
+              : `${report.engagement.docs} new engagement item${report.engagement.docs === 1 ? '' : 's'} for ${report.engagement.users} user${report.engagement.users === 1 ? '' : 's'}`}
+          </div>
+
+          {rows.length === 0 ? (
+            <div className="text-sm text-iki-white/60 font-tsukimi">Nothing in this window.</div>
+          ) : (
+            <div className="overflow-auto max-h-[480px] border border-iki-white/10 rounded-xl">
+              <table className="w-full text-sm">
+                <thead className="text-xs text-iki-white/60 font-tsukimi">
+                  <tr>
+                    <th className="text-left px-3 py-2">When</th>
+                    <th className="text-left px-3 py-2">Outcome</th>
+                    <th className="text-left px-3 py-2">Recipient</th>
+                    <th className="text-left px-3 py-2">Type</th>
+                    <th className="text-left px-3 py-2">Title</th>
+                    <th className="text-left px-3 py-2">Detail</th>
+                  </tr>
+                </thead>
+                <tbody className="text-iki-white/80 font-tsukimi">
+                  {rows.map((d) => (
+                    <tr key={`${d.id}:${d.at}`} className="border-t border-iki-white/5 align-top">
+                      <td className="px-3 py-2 text-xs whitespace-nowrap">
+                        {new Date(d.at).toLocaleString()}
+                      </td>
+                      <td className={`px-3 py-2 text-xs ${OUTCOME_TONES[d.outcome]}`}>
+                        {OUTCOME_LABELS[d.outcome]}
+                      </td>
+                      <td className="px-3 py-2 font-mono text-xs">{d.recipient_id || '—'}</td>
+                      <td className="px-3 py-2 text-xs">
+                        {d.category || '—'}/{d.type || '—'}
+                        {d.source === 'engagement' && (
+                          <span className="ml-1 text-iki-white/50">(new)</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 max-w-[280px]" title={d.body}>
+                        <div className="truncate">{d.title || '—'}</div>
+                      </td>
+                      <td className="px-3 py-2 text-xs text-iki-white/60">{reasonLabel(d)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
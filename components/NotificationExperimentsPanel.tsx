@@ -0,0 +1,252 @@
+'use client';
+
+import type { NotificationExperiment, VariantResult } from '@/lib/notification_experiments';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+
+type ActivitySource = { id: string; label: string };
+
+type Results = {
+  experiment: NotificationExperiment;
+  hours: number;
+  source: string | null;
+  variants: VariantResult[];
+};
+
+const INPUT_CLASS =
+  'bg-iki-grey/30 border border-iki-white/10 rounded-xl px-3 py-2 text-iki-white font-tsukimi text-sm';
+
+function percent(rate: number | null) {
+  return rate == null ? '—' : `${(rate * 100).toFixed(1)}%`;
+}
+
+function deliveryRate(counts: VariantResult['counts']) {
+  const done = counts.sent + counts.failed + counts.skipped;
+  return done > 0 ? counts.sent / done : null;
+}
+
+function VariantTable({ results }: { results: Results }) {
+  const best = Math.max(...results.variants.map((v) => v.engagement.rate ?? -1));
+  return (
+    <div className="overflow-auto border border-iki-white/10 rounded-xl">
+      <table className="w-full text-sm">
+        <thead className="text-xs text-iki-white/60 font-tsukimi">
+          <tr>
+            <th className="text-left px-3 py-2">Variant</th>
+            <th className="text-right px-3 py-2">Pending</th>
+            <th className="text-right px-3 py-2">Delivered</th>
+            <th className="text-right px-3 py-2">Failed</th>
+            <th className="text-right px-3 py-2">Skipped</th>
+            <th className="text-right px-3 py-2">Delivery rate</th>
+            <th className="text-right px-3 py-2">Engaged</th>
+            <th className="text-right px-3 py-2">Engagement</th>
+          </tr>
+        </thead>
+        <tbody className="text-iki-white/80 font-tsukimi">
+          {results.variants.map((v) => (
+            <tr key={v.id} className="border-t border-iki-white/5 align-top">
+              <td className="px-3 py-2 max-w-[320px]">
+                <div className="font-semibold">
+                  {v.id}
+                  {v.engagement.rate != null && v.engagement.rate === best && (
+                    <span className="ml-2 text-[11px] text-light-green">leading</span>
+                  )}
+                </div>
+                <div className="text-xs text-iki-white/70 truncate" title={v.title}>
+                  {v.title}
+                </div>
+                <div className="text-[11px] text-iki-white/50 truncate" title={v.body}>
+                  {v.body}
+                </div>
+              </td>
+              <td className="px-3 py-2 text-right">{v.counts.pending}</td>
+              <td className="px-3 py-2 text-right">{v.counts.sent}</td>
+              <td className="px-3 py-2 text-right">{v.counts.failed}</td>
+              <td className="px-3 py-2 text-right">{v.counts.skipped}</td>
+              <td className="px-3 py-2 text-right">{percent(deliveryRate(v.counts))}</td>
+              <td className="px-3 py-2 text-right">
+                {v.engagement.engaged}/{v.engagement.sampled}
+                {v.engagement.maturing > 0 && (
+                  <div className="text-[11px] text-iki-white/50">
+                    +{v.engagement.maturing} in window
+                  </div>
+                )}
+              </td>
+              <td className="px-3 py-2 text-right font-semibold">{percent(v.engagement.rate)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function NotificationExperimentsPanel() {
+  const [experiments, setExperiments] = useState<NotificationExperiment[]>([]);
+  const [sources, setSources] = useState<ActivitySource[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [hours, setHours] = useState(24);
+  const [source, setSource] = useState('');
+  const [results, setResults] = useState<Results | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [resultsLoading, setResultsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadExperiments = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch('/api/notifications/experiments', { cache: 'no-store' });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error || 'Failed to load experiments');
+      setExperiments(json.experiments || []);
+      setSources(json.activitySources || []);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to load experiments');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadResults = useCallback(async () => {
+    if (!selectedId) return;
+    setResultsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ hours: String(hours) });
+      if (source) params.set('source', source);
+      const res = await fetch(`/api/notifications/experiments/${selectedId}?${params}`, {
+        cache: 'no-store',
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error || 'Failed to load results');
+      setResults(json);
+    } catch (e: unknown) {
+      setResults(null);
+      setError(e instanceof Error ? e.message : 'Failed to load results');
+    } finally {
+      setResultsLoading(false);
+    }
+  }, [selectedId, hours, source]);
+
+  useEffect(() => {
+    void loadExperiments();
+  }, [loadExperiments]);
+
+  useEffect(() => {
+    void loadResults();
+  }, [loadResults]);
+
+  const sourceLabel = (id: string | null) =>
+    sources.find((s) => s.id === id)?.label ?? 'no matching activity';
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="section-title">A/B tests</h3>
+          <p className="section-subtitle">
+            Compare copy variants on delivery and on whether recipients used the feature afterwards.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={loadExperiments}
+          className="btn-secondary flex items-center gap-2"
+          disabled={loading}
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {error && <div className="text-red-200 font-tsukimi text-sm mb-4">{error}</div>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-2">
+          {experiments.length === 0 && !loading && (
+            <div className="text-sm text-iki-white/60 font-tsukimi">
+              No A/B sends yet. Add variants in the Send tab.
+            </div>
+          )}
+          {experiments.map((e) => (
+            <button
+              key={e.id}
+              type="button"
+              onClick={() => {
+                setSelectedId(e.id);
+                setSource('');
+              }}
+              className={`w-full text-left px-3 py-2 rounded-xl border font-tsukimi ${
+                selectedId === e.id
+                  ? 'border-light-green/40 bg-light-green/10'
+                  : 'border-iki-white/10 bg-iki-grey/20 hover:bg-iki-grey/30'
+              }`}
+            >
+              <div className="text-sm text-iki-white truncate">{e.name || e.id}</div>
+              <div className="text-[11px] text-iki-white/50 font-mono">
+                {e.type} · {e.variants.length} variants · {e.created_at || '—'}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        <div className="lg:col-span-2 space-y-4">
+          {selectedId && (
+            <div className="flex flex-wrap items-end gap-3">
+              <div>
+                <label
+                  htmlFor="experiment-hours"
+                  className="block text-xs text-iki-white/60 font-tsukimi mb-1"
+                >
+                  Engagement window (hours)
+                </label>
+                <input
+                  id="experiment-hours"
+                  type="number"
+                  min="1"
+                  max="336"
+                  className={`${INPUT_CLASS} w-32`}
+                  value={hours}
+                  onChange={(e) => setHours(Math.max(1, Number.parseInt(e.target.value, 10) || 1))}
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="experiment-source"
+                  className="block text-xs text-iki-white/60 font-tsukimi mb-1"
+                >
+                  Activity
+                </label>
+                <select
+                  id="experiment-source"
+                  className={INPUT_CLASS}
+                  value={source}
+                  onChange={(e) => setSource(e.target.value)}
+                >
+                  <option value="">Match notification type</option>
+                  {sources.map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {s.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {resultsLoading && <Loader2 className="w-4 h-4 animate-spin text-iki-white/60" />}
+            </div>
+          )}
+
+          {results && (
+            <>
+              <div className="text-xs text-iki-white/60 font-tsukimi">
+                Engagement: {sourceLabel(results.source)} within {results.hours}h of delivery,
+                checked on up to 300 delivered recipients per variant. Deliveries still inside the
+                window are not counted yet.
+              </div>
+              <VariantTable results={results} />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,442 @@
+'use client';
+
+import type { NotificationTemplate, RenderedTemplate } from '@/lib/notification_templates';
+import { NOTIFICATION_TYPES } from '@/lib/notification_types';
+import { Loader2, Plus, RefreshCw, Save, Trash2 } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+
+type TemplateVariable = { name: string; label: string };
+
+type LocaleRow = { locale: string; title: string; body: string };
+
+type Draft = {
+  name: string;
+  description: string;
+  type: string;
+  defaultLocale: string;
+  locales: LocaleRow[];
+};
+
+type Preview = {
+  preview: RenderedTemplate;
+  userLocale: string | null;
+  variables: Record<string, string>;
+};
+
+const INPUT_CLASS =
+  'w-full bg-iki-grey/30 border border-iki-white/10 rounded-xl px-3 py-2 text-iki-white font-tsukimi text-sm';
+
+const LABEL_CLASS = 'block text-xs text-iki-white/60 font-tsukimi mb-1';
+
+const EMPTY_DRAFT: Draft = {
+  name: '',
+  description: '',
+  type: 'iki_home',
+  defaultLocale: 'en',
+  locales: [{ locale: 'en', title: '', body: '' }],
+};
+
+function draftFromTemplate(t: NotificationTemplate): Draft {
+  return {
+    name: t.name,
+    description: t.description,
+    type: t.type,
+    defaultLocale: t.defaultLocale,
+    locales: Object.entries(t.locales).map(([locale, copy]) => ({ locale, ...copy })),
+  };
+}
+
+function draftToInput(draft: Draft) {
+  return {
+    name: draft.name,
+    description: draft.description,
+    type: draft.type,
+    defaultLocale: draft.defaultLocale,
+    locales: Object.fromEntries(
+      draft.locales.map((row) => [row.locale.trim(), { title: row.title, body: row.body }])
+    ),
+  };
+}
+
+async function readJson(res: Response, fallback: string) {
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(json.error || fallback);
+  return json;
+}
+
+function LocaleRowsEditor({
+  draft,
+  onChange,
+}: {
+  draft: Draft;
+  onChange: (draft: Draft) => void;
+}) {
+  const updateRow = (index: number, patch: Partial<LocaleRow>) =>
+    onChange({
+      ...draft,
+      locales: draft.locales.map((row, i) => (i === index ? { ...row, ...patch } : row)),
+    });
+
+  return (
+    <div className="space-y-3">
+      {draft.locales.map((row, index) => (
+        <div
+          // biome-ignore lint/suspicious/noArrayIndexKey: rows have no stable id while the locale is edited
+          key={index}
+          className="border border-iki-white/10 rounded-xl p-3 space-y-2"
+        >
+          <div className="flex items-center gap-3">
+            <input
+              aria-label="Locale"
+              className={`${INPUT_CLASS} max-w-[120px] font-mono`}
+              value={row.locale}
+              placeholder="en"
+              onChange={(e) => updateRow(index, { locale: e.target.value })}
+            />
+            <label className="flex items-center gap-2 text-xs text-iki-white/70 font-tsukimi">
+              <input
+                type="radio"
+                name="template-default-locale"
+                checked={draft.defaultLocale === row.locale}
+                onChange={() => onChange({ ...draft, defaultLocale: row.locale })}
+              />
+              Default
+            </label>
+            {draft.locales.length > 1 && (
+              <button
+                type="button"
+                className="ml-auto text-xs text-red-200 font-tsukimi"
+                onClick={() =>
+                  onChange({ ...draft, locales: draft.locales.filter((_, i) => i !== index) })
+                }
+              >
+                Remove
+              </button>
+            )}
+          </div>
+          <input
+            aria-label={`Title (${row.locale || 'locale'})`}
+            className={INPUT_CLASS}
+            value={row.title}
+            placeholder="Title"
+            onChange={(e) => updateRow(index, { title: e.target.value })}
+          />
+          <textarea
+            aria-label={`Body (${row.locale || 'locale'})`}
+            className={`${INPUT_CLASS} min-h-[72px]`}
+            value={row.body}
+            placeholder="Body"
+            onChange={(e) => updateRow(index, { body: e.target.value })}
+          />
+        </div>
+      ))}
+      <button
+        type="button"
+        className="btn-secondary flex items-center gap-2"
+        onClick={() =>
+          onChange({ ...draft, locales: [...draft.locales, { locale: '', title: '', body: '' }] })
+        }
+      >
+        <Plus className="w-4 h-4" />
+        Add locale
+      </button>
+    </div>
+  );
+}
+
+function PreviewBox({ draft }: { draft: Draft }) {
+  const [userId, setUserId] = useState('');
+  const [locale, setLocale] = useState('');
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/notifications/templates/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          userId,
+          locale: locale || undefined,
+          template: draftToInput(draft),
+        }),
+      });
+      setPreview(await readJson(res, 'Failed to preview template'));
+    } catch (e: unknown) {
+      setPreview(null);
+      setError(e instanceof Error ? e.message : 'Failed to preview template');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="border border-iki-white/10 rounded-xl p-4 space-y-3">
+      <div className="text-sm text-iki-white font-tsukimi font-semibold">Preview for a user</div>
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="flex-1 min-w-[200px]">
+          <label htmlFor="template-preview-user" className={LABEL_CLASS}>
+            User ID
+          </label>
+          <input
+            id="template-preview-user"
+            className={`${INPUT_CLASS} font-mono`}
+            value={userId}
+            onChange={(e) => setUserId(e.target.value.trim())}
+          />
+        </div>
+        <div>
+          <label htmlFor="template-preview-locale" className={LABEL_CLASS}>
+            Locale (optional)
+          </label>
+          <input
+            id="template-preview-locale"
+            className={`${INPUT_CLASS} w-28 font-mono`}
+            value={locale}
+            placeholder="user's"
+            onChange={(e) => setLocale(e.target.value.trim())}
+          />
+        </div>
+        <button
+          type="button"
+          className="btn-secondary flex items-center gap-2"
+          disabled={!userId || loading}
+          onClick={run}
+        >
+          {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+          Preview
+        </button>
+      </div>
+      {error && <div className="text-red-200 font-tsukimi text-sm">{error}</div>}
+      {preview && (
+        <div className="space-y-2">
+          <div className="bg-iki-grey/30 rounded-xl px-3 py-2">
+            <div className="text-sm text-iki-white font-semibold">{preview.preview.title}</div>
+            <div className="text-sm text-iki-white/80">{preview.preview.body}</div>
+          </div>
+          <div className="text-[11px] text-iki-white/50 font-mono">
+            rendered {preview.preview.locale} · user language {preview.userLocale || 'unset'} ·{' '}
+            {Object.entries(preview.variables)
+              .map(([name, value]) => `${name}=${value || '∅'}`)
+              .join(' ')}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function NotificationTemplatesPanel() {
+  const [templates, setTemplates] = useState<NotificationTemplate[]>([]);
+  const [variables, setVariables] = useState<TemplateVariable[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    setLoading(true);
+    try {
+      const json = await readJson(
+        await fetch('/api/notifications/templates', { cache: 'no-store' }),
+        'Failed to load templates'
+      );
+      setTemplates(json.templates || []);
+      setVariables(json.variables || []);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to load templates');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadTemplates();
+  }, [loadTemplates]);
+
+  const select = (template: NotificationTemplate | null) => {
+    setSelectedId(template?.id ?? null);
+    setDraft(template ? draftFromTemplate(template) : EMPTY_DRAFT);
+    setError(null);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(
+        selectedId ? `/api/notifications/templates/${selectedId}` : '/api/notifications/templates',
+        {
+          method: selectedId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(draftToInput(draft)),
+        }
+      );
+      const json = await readJson(res, 'Failed to save template');
+      select(json.template);
+      await loadTemplates();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (
+      !selectedId ||
+      !confirm('Delete this template? Queued sends fall back to their stored copy.')
+    )
+      return;
+    setError(null);
+    try {
+      await readJson(
+        await fetch(`/api/notifications/templates/${selectedId}`, { method: 'DELETE' }),
+        'Failed to delete template'
+      );
+      select(null);
+      await loadTemplates();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to delete template');
+    }
+  };
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="section-title">Templates</h3>
+          <p className="section-subtitle">
+            Reusable copy with per-recipient variables and translations, rendered at send time in
+            each user&apos;s language.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={loadTemplates}
+          className="btn-secondary flex items-center gap-2"
+          disabled={loading}
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {error && <div className="text-red-200 font-tsukimi text-sm mb-4">{error}</div>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-2">
+          <button
+            type="button"
+            onClick={() => select(null)}
+            className="btn-secondary w-full flex items-center justify-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            New template
+          </button>
+          {templates.map((t) => (
+            <button
+              key={t.id}
+              type="button"
+              onClick={() => select(t)}
+              className={`w-full text-left px-3 py-2 rounded-xl border font-tsukimi ${
+                selectedId === t.id
+                  ? 'border-light-green/40 bg-light-green/10'
+                  : 'border-iki-white/10 bg-iki-grey/20 hover:bg-iki-grey/30'
+              }`}
+            >
+              <div className="text-sm text-iki-white truncate">{t.name}</div>
+              <div className="text-[11px] text-iki-white/50 font-mono">
+                {t.type || '—'} · {Object.keys(t.locales).join(', ')}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        <div className="lg:col-span-2 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="template-name" className={LABEL_CLASS}>
+                Name
+              </label>
+              <input
+                id="template-name"
+                className={INPUT_CLASS}
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <label htmlFor="template-type" className={LABEL_CLASS}>
+                Default type
+              </label>
+              <select
+                id="template-type"
+                className={INPUT_CLASS}
+                value={draft.type}
+                onChange={(e) => setDraft({ ...draft, type: e.target.value })}
+              >
+                {NOTIFICATION_TYPES.map((t) => (
+                  <option key={t.value} value={t.value}>
+                    {t.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label htmlFor="template-description" className={LABEL_CLASS}>
+              Description
+            </label>
+            <input
+              id="template-description"
+              className={INPUT_CLASS}
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            />
+          </div>
+
+          <div className="text-xs text-iki-white/60 font-tsukimi">
+            Variables:{' '}
+            {variables.map((v) => (
+              <code key={v.name} className="mr-2 text-iki-white/80" title={v.label}>
+                {`{${v.name}}`}
+              </code>
+            ))}
+            — add a fallback with <code className="text-iki-white/80">{'{firstName|there}'}</code>.
+          </div>
+
+          <LocaleRowsEditor draft={draft} onChange={setDraft} />
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              className="btn-primary flex items-center gap-2"
+              disabled={saving}
+              onClick={save}
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              {selectedId ? 'Save template' : 'Create template'}
+            </button>
+            {selectedId && (
+              <button
+                type="button"
+                className="btn-secondary flex items-center gap-2"
+                onClick={remove}
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete
+              </button>
+            )}
+          </div>
+
+          <PreviewBox draft={draft} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,27 +1,297 @@
 'use client';
 
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
-import type { GenerationConfig } from '@/lib/types';
+import type { DocDiff, WriteReport } from '@/lib/generatedDocs';
+import type { GenerationBudgetStatus } from '@/lib/generationBudget';
+import type { GenerationConfig, GenerationUsage, SinkType } from '@/lib/types';
 import { usePermissions } from '@/components/PermissionsProvider';
 import { RBAC_ACTIONS, RBAC_RESOURCES } from '@/lib/permissions';
+import { useState } from 'react';
+
+export const SINK_LABELS: Record<SinkType, string> = {
+  firestore: 'Firestore',
+  file: 'File',
+  staging: 'Staging',
+};
+
+export interface GenerationProgress {
+  completed: number;
+  total: number;
+  message: string;
+  status: 'idle' | 'running' | 'completed' | 'error' | 'cancelled';
+}
+
+export interface ValidationIssue {
+  batch: number;
+  index: number;
+  status: 'repaired' | 'rejected';
+  errors: string[];
+}
+
+export interface WriteSummary {
+  report: WriteReport;
+  diff: DocDiff[];
+  dryRun?: boolean;
+}
+
+export interface BatchStatus {
+  status: 'succeeded' | 'retrying' | 'abandoned';
+  retries: number;
+  error?: string;
+}
 
 interface Props {
   config: GenerationConfig;
-  progress: {
-    completed: number;
-    total: number;
-    message: string;
-    status: 'idle' | 'running' | 'completed' | 'error';
-  };
+  progress: GenerationProgress;
   isGenerating: boolean;
   onGenerate: () => void;
+  jobId?: string | null;
+  validationIssues?: ValidationIssue[];
+  writeSummary?: WriteSummary | null;
+  usage?: GenerationUsage | null;
+  batchStatuses?: Record<number, BatchStatus>;
+  budget?: GenerationBudgetStatus | null;
+  onAttach?: (jobId: string) => void;
+  onCancel?: (jobId: string) => void;
+}
+
+function formatUsd(value: number) {
+  return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+}
+
+const PROGRESS_BADGE: Record<GenerationProgress['status'], string> = {
+  idle: 'status-info',
+  running: 'status-info',
+  completed: 'status-success',
+  error: 'status-error',
+  cancelled: 'status-error',
+};
+
+const PROGRESS_BOX: Record<GenerationProgress['status'], string> = {
+  idle: 'bg-iki-brown/10 border-iki-brown text-iki-brown',
+  running: 'bg-iki-brown/10 border-iki-brown text-iki-brown',
+  completed: 'bg-light-green/10 border-light-green text-light-green glow-green',
+  error: 'bg-red-500/10 border-red-500 text-red-400',
+  cancelled: 'bg-red-500/10 border-red-500 text-red-400',
+};
+
+const BATCH_BADGE: Record<BatchStatus['status'], string> = {
+  succeeded: 'status-success',
+  retrying: 'status-info',
+  abandoned: 'status-error',
+};
+
+function runHint(canGenerate: boolean, budgetExceeded: boolean) {
+  if (!canGenerate) return 'You do not have permission to run generation.';
+  if (budgetExceeded) return 'Monthly generation budget reached. Ask a manager to raise your cap.';
+  return 'Tip: start with a smaller count to validate the schema and prompts.';
+}
+
+function AttachForm({ onAttach }: { onAttach: (jobId: string) => void }) {
+  const [attachId, setAttachId] = useState('');
+  return (
+    <form
+      className="mt-5 flex gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        const id = attachId.trim();
+        if (id) onAttach(id);
+      }}
+    >
+      <Input
+        type="text"
+        value={attachId}
+        onChange={(e) => setAttachId(e.target.value)}
+        placeholder="Reattach to job id..."
+        className="font-mono text-xs"
+      />
+      <Button type="submit" variant="outline" size="sm" disabled={!attachId.trim()}>
+        Attach
+      </Button>
+    </form>
+  );
+}
+
+function RunningStats({ progress }: { progress: GenerationProgress }) {
+  return (
+    <div className="mt-6 grid grid-cols-2 gap-5">
+      <div className="relative p-6 bg-gradient-to-br from-dark-blue/80 to-iki-grey/50 rounded-2xl border-2 border-light-green/30 overflow-hidden">
+        <div className="absolute top-0 right-0 w-16 h-16 bg-light-green/10 rounded-full -mr-8 -mt-8" />
+        <div className="relative z-10">
+          <div className="text-xs text-iki-brown font-bold mb-2">Completed</div>
+          <div className="text-3xl font-black text-light-green">{progress.completed}</div>
+        </div>
+      </div>
+      <div className="relative p-6 bg-gradient-to-br from-dark-blue/80 to-iki-grey/50 rounded-2xl border-2 border-iki-brown/30 overflow-hidden">
+        <div className="absolute top-0 right-0 w-16 h-16 bg-iki-brown/10 rounded-full -mr-8 -mt-8" />
+        <div className="relative z-10">
+          <div className="text-xs text-iki-brown font-bold mb-2">Remaining</div>
+          <div className="text-3xl font-black text-iki-white">
+            {progress.total - progress.completed}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function BudgetMeter({ budget }: { budget: GenerationBudgetStatus }) {
+  return (
+    <div className="mt-4">
+      <div className="flex justify-between text-xs text-iki-white/60 mb-2">
+        <span>Monthly budget</span>
+        <span>
+          {formatUsd(budget.spentUsd)}
+          {budget.limitUsd === null ? ' spent · no cap' : ` / ${formatUsd(budget.limitUsd)}`}
+        </span>
+      </div>
+      {budget.limitUsd !== null && (
+        <Progress
+          value={
+            budget.limitUsd > 0 ? Math.min((budget.spentUsd / budget.limitUsd) * 100, 100) : 100
+          }
+        />
+      )}
+    </div>
+  );
+}
+
+function ValidationSummary({ issues }: { issues: ValidationIssue[] }) {
+  const repairedCount = issues.filter((v) => v.status === 'repaired').length;
+  const rejected = issues.filter((v) => v.status === 'rejected');
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between text-xs font-medium text-iki-white/60 mb-2">
+        <span>Schema validation</span>
+        <span>
+          {repairedCount} repaired · {rejected.length} rejected
+        </span>
+      </div>
+      {rejected.length > 0 && (
+        <ul className="max-h-48 overflow-y-auto space-y-2 text-xs">
+          {rejected.map((issue) => (
+            <li
+              key={`${issue.batch}-${issue.index}`}
+              className="p-3 rounded-xl bg-red-500/10 border border-red-500/30 text-red-300"
+            >
+              <div className="font-bold">
+                Batch {issue.batch}, item {issue.index + 1}
+              </div>
+              {issue.errors.map((err) => (
+                <div key={err} className="font-mono break-all">
+                  {err}
+                </div>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function BatchStrip({ entries }: { entries: [string, BatchStatus][] }) {
+  return (
+    <div className="mt-6">
+      <div className="text-xs font-medium text-iki-white/60 mb-2">Batches</div>
+      <div className="flex flex-wrap gap-1.5">
+        {entries.map(([batch, entry]) => (
+          <span
+            key={batch}
+            title={entry.error ?? `${entry.retries} retries`}
+            className={`badge ${BATCH_BADGE[entry.status]}`}
+          >
+            #{batch}
+            {entry.retries > 0 && ` ↻${entry.retries}`}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function UsageSummary({ usage }: { usage: GenerationUsage }) {
+  return (
+    <div className="mt-6 grid grid-cols-3 gap-3 text-xs">
+      <div>
+        <div className="text-iki-white/50">Prompt tokens</div>
+        <div className="text-iki-white font-bold">{usage.promptTokens.toLocaleString()}</div>
+      </div>
+      <div>
+        <div className="text-iki-white/50">Completion tokens</div>
+        <div className="text-iki-white font-bold">{usage.completionTokens.toLocaleString()}</div>
+      </div>
+      <div>
+        <div className="text-iki-white/50">Est. cost</div>
+        <div className="text-light-green font-bold">{formatUsd(usage.costUsd)}</div>
+      </div>
+    </div>
+  );
+}
+
+function WriteReportSummary({ summary }: { summary: WriteSummary }) {
+  const { report, diff } = summary;
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between text-xs font-medium text-iki-white/60 mb-2">
+        <span>{summary.dryRun ? 'Dry run report' : 'Write report'}</span>
+        <span>
+          {report.toWrite} to write · {report.mode}
+        </span>
+      </div>
+      <div className="flex flex-wrap gap-2 mb-3">
+        <span className="badge status-success">{report.new} new</span>
+        <span className="badge status-info">{report.changed} changed</span>
+        <span className="badge badge-secondary">{report.unchanged} unchanged</span>
+        {report.duplicate > 0 && (
+          <span className="badge status-error">{report.duplicate} duplicate</span>
+        )}
+      </div>
+      {diff.length > 0 && (
+        <ul className="max-h-48 overflow-y-auto space-y-2 text-xs">
+          {diff.map((entry, i) => (
+            <li
+              key={`${entry.id}-${i}`}
+              className="p-3 rounded-xl bg-iki-grey/30 border border-light-green/10"
+            >
+              <div className="flex justify-between gap-2">
+                <span className="font-mono break-all text-iki-white">{entry.id}</span>
+                <span className="text-iki-white/50">{entry.status}</span>
+              </div>
+              {entry.changes?.map((change) => (
+                <div key={change.field} className="font-mono text-iki-white/60 break-all">
+                  {change.field}: {JSON.stringify(change.before)} → {JSON.stringify(change.after)}
+                </div>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
 }
 
-export default function ProgressPanel({ config, progress, isGenerating, onGenerate }: Props) {
+export default function ProgressPanel({
+  config,
+  progress,
+  isGenerating,
+  onGenerate,
+  jobId,
+  validationIssues = [],
+  writeSummary,
+  usage,
+  batchStatuses = {},
+  budget,
+  onAttach,
+  onCancel,
+}: Props) {
   const percentage = progress.total > 0 ? (progress.completed / progress.total) * 100 : 0;
   const { can } = usePermissions();
   const canGenerate = can(RBAC_RESOURCES.GENERATE, RBAC_ACTIONS.WRITE);
+  const budgetExceeded = budget?.exceeded === true;
+  const batchEntries = Object.entries(batchStatuses).sort((a, b) => Number(a[0]) - Number(b[0]));
 
   return (
     <div className="space-y-6 lg:sticky lg:top-24 self-start">
@@ -36,9 +306,7 @@ export default function ProgressPanel({ config, progress, isGenerating, onGenera
                 Sends the configuration to the generator API and streams progress updates.
               </p>
             </div>
-            <span className="badge badge-secondary">
-              {config.sink === 'firestore' ? 'Firestore' : 'File'}
-            </span>
+            <span className="badge badge-secondary">{SINK_LABELS[config.sink]}</span>
           </div>
 
           <div className="mt-4 flex flex-wrap gap-2">
@@ -46,12 +314,14 @@ export default function ProgressPanel({ config, progress, isGenerating, onGenera
             <span className="badge badge-secondary">batch {config.batchSize}</span>
             <span className="badge badge-secondary">{config.model}</span>
             <span className="badge badge-secondary">{config.collection}</span>
+            <span className="badge badge-secondary">{config.writeMode ?? 'merge'}</span>
+            {config.dryRun && <span className="badge status-info">dry run</span>}
           </div>
 
           <div className="mt-6">
             <Button
               onClick={onGenerate}
-              disabled={isGenerating || !canGenerate}
+              disabled={isGenerating || !canGenerate || budgetExceeded}
               size="lg"
               className="w-full"
             >
@@ -64,12 +334,11 @@ export default function ProgressPanel({ config, progress, isGenerating, onGenera
                 'Generate'
               )}
             </Button>
-            <p className="text-xs text-iki-white/50 mt-3">
-              {!canGenerate
-                ? 'You do not have permission to run generation.'
-                : 'Tip: start with a smaller count to validate the schema and prompts.'}
-            </p>
+            <p className="text-xs text-iki-white/50 mt-3">{runHint(canGenerate, budgetExceeded)}</p>
+            {budget && <BudgetMeter budget={budget} />}
           </div>
+
+          {onAttach && <AttachForm onAttach={onAttach} />}
         </div>
       </section>
 
@@ -77,18 +346,13 @@ export default function ProgressPanel({ config, progress, isGenerating, onGenera
       {progress.status !== 'idle' && (
         <section className="card">
           <div className="flex items-center justify-between gap-4 mb-5">
-            <h3 className="heading-sm font-goldplay text-iki-white">Progress</h3>
-            <span
-              className={`badge ${
-                progress.status === 'completed'
-                  ? 'status-success'
-                  : progress.status === 'error'
-                    ? 'status-error'
-                    : 'status-info'
-              }`}
-            >
-              {progress.status}
-            </span>
+            <div>
+              <h3 className="heading-sm font-goldplay text-iki-white">Progress</h3>
+              {jobId && (
+                <p className="text-xs text-iki-white/50 mt-1 font-mono break-all">Job {jobId}</p>
+              )}
+            </div>
+            <span className={`badge ${PROGRESS_BADGE[progress.status]}`}>{progress.status}</span>
           </div>
 
           {/* Progress Bar */}
@@ -103,41 +367,33 @@ export default function ProgressPanel({ config, progress, isGenerating, onGenera
           </div>
 
           {/* Status */}
-          <div
-            className={`p-5 rounded-2xl border-2 ${
-              progress.status === 'completed'
-                ? 'bg-light-green/10 border-light-green text-light-green glow-green'
-                : progress.status === 'error'
-                  ? 'bg-red-500/10 border-red-500 text-red-400'
-                  : 'bg-iki-brown/10 border-iki-brown text-iki-brown'
-            }`}
-          >
+          <div className={`p-5 rounded-2xl border-2 ${PROGRESS_BOX[progress.status]}`}>
             <div className="flex items-center gap-3">
               <span className="font-bold">{progress.message}</span>
             </div>
           </div>
 
-          {/* Stats */}
-          {progress.status === 'running' && (
-            <div className="mt-6 grid grid-cols-2 gap-5">
-              <div className="relative p-6 bg-gradient-to-br from-dark-blue/80 to-iki-grey/50 rounded-2xl border-2 border-light-green/30 overflow-hidden">
-                <div className="absolute top-0 right-0 w-16 h-16 bg-light-green/10 rounded-full -mr-8 -mt-8" />
-                <div className="relative z-10">
-                  <div className="text-xs text-iki-brown font-bold mb-2">Completed</div>
-                  <div className="text-3xl font-black text-light-green">{progress.completed}</div>
-                </div>
-              </div>
-              <div className="relative p-6 bg-gradient-to-br from-dark-blue/80 to-iki-grey/50 rounded-2xl border-2 border-iki-brown/30 overflow-hidden">
-                <div className="absolute top-0 right-0 w-16 h-16 bg-iki-brown/10 rounded-full -mr-8 -mt-8" />
-                <div className="relative z-10">
-                  <div className="text-xs text-iki-brown font-bold mb-2">Remaining</div>
-                  <div className="text-3xl font-black text-iki-white">
-                    {progress.total - progress.completed}
-                  </div>
-                </div>
-              </div>
-            </div>
+          {validationIssues.length > 0 && <ValidationSummary issues={validationIssues} />}
+
+          {batchEntries.length > 0 && <BatchStrip entries={batchEntries} />}
+
+          {usage && <UsageSummary usage={usage} />}
+
+          {writeSummary && <WriteReportSummary summary={writeSummary} />}
+
+          {progress.status === 'running' && jobId && onCancel && canGenerate && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full mt-4"
+              onClick={() => onCancel(jobId)}
+            >
+              Cancel job
+            </Button>
           )}
+
+          {/* Stats */}
+          {progress.status === 'running' && <RunningStats progress={progress} />}
         </section>
       )}
 
@@ -162,7 +418,14 @@ export default function ProgressPanel({ config, progress, isGenerating, onGenera
           </li>
           <li className="flex items-start gap-4 p-3 rounded-xl hover:bg-light-green/5 transition-colors">
             <span className="text-light-green mt-0.5 font-black text-lg">→</span>
-            <span>Firestore sink writes directly to your Firebase project</span>
+            <span>
+              Firestore sink writes directly to your Firebase project; staging holds items for
+              review first
+            </span>
+          </li>
+          <li className="flex items-start gap-4 p-3 rounded-xl hover:bg-light-green/5 transition-colors">
+            <span className="text-light-green mt-0.5 font-black text-lg">→</span>
+            <span>Jobs keep running if you close the tab; reattach from the job history</span>
           </li>
         </ul>
       </section>
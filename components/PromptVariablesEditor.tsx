@@ -0,0 +1,156 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { BUILTIN_PROMPT_VARIABLES, promptVariablesIn } from '@/lib/promptVariables';
+import type { GenerationConfig } from '@/lib/types';
+import { useState } from 'react';
+
+interface Props {
+  config: GenerationConfig;
+  onChange: (config: GenerationConfig) => void;
+}
+
+type Preview = {
+  missing: string[];
+  count: number;
+  batches: number;
+  existingNames: { count: number; sample: string[] } | null;
+  existingNamesError: string | null;
+  prompts: { batch: number; seed: string | null; prompt: string }[];
+};
+
+export default function PromptVariablesEditor({ config, onChange }: Props) {
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const custom = promptVariablesIn(config.userPrompt).filter(
+    (name) => !BUILTIN_PROMPT_VARIABLES.includes(name)
+  );
+  const seedsText = (config.seeds ?? []).join('\n');
+
+  const setVariable = (name: string, value: string) =>
+    onChange({ ...config, variables: { ...config.variables, [name]: value } });
+
+  const setSeeds = (text: string) => {
+    const seeds = text.split('\n');
+    onChange({ ...config, seeds: seeds.some((s) => s.trim()) ? seeds : undefined });
+  };
+
+  const loadPreview = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/generate/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(config),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error || 'Failed to preview prompt');
+      setPreview(body);
+    } catch (err: unknown) {
+      setPreview(null);
+      setError(err instanceof Error ? err.message : 'Failed to preview prompt');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {custom.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {custom.map((name) => (
+            <div key={name}>
+              <label
+                htmlFor={`prompt-variable-${name}`}
+                className="block text-xs font-medium text-iki-white/60 mb-2"
+              >
+                <span className="font-mono">{`{${name}}`}</span>
+              </label>
+              <Input
+                id={`prompt-variable-${name}`}
+                type="text"
+                value={config.variables?.[name] ?? ''}
+                onChange={(e) => setVariable(name, e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="prompt-seeds" className="block text-xs font-medium text-iki-white/60 mb-2">
+          Seeds{' '}
+          <span className="text-iki-white/40 text-xs font-normal ml-2">
+            (one per line; one batch each, available as {'{seed}'})
+          </span>
+        </label>
+        <Textarea
+          id="prompt-seeds"
+          value={seedsText}
+          onChange={(e) => setSeeds(e.target.value)}
+          className="font-mono text-sm"
+          rows={3}
+          placeholder={'cardiovascular\nrespiratory\nmusculoskeletal'}
+        />
+        {config.seeds && (
+          <p className="text-xs text-iki-white/45 mt-2">
+            {config.seeds.filter((s) => s.trim()).length} seeds x batch size {config.batchSize}{' '}
+            items; the item count is derived from the seeds.
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Button variant="outline" size="sm" disabled={loading} onClick={() => void loadPreview()}>
+          Preview prompt
+        </Button>
+        {error && <span className="text-xs text-red-300">{error}</span>}
+      </div>
+
+      {preview && (
+        <div className="space-y-3">
+          {preview.missing.length > 0 && (
+            <p className="text-xs text-red-300">
+              No value for {preview.missing.map((name) => `{${name}}`).join(', ')}
+            </p>
+          )}
+          {preview.existingNames && (
+            <p className="text-xs text-iki-white/50">
+              {preview.existingNames.count} existing names found
+              {preview.existingNames.sample.length > 0 &&
+                `: ${preview.existingNames.sample.join(', ')}${
+                  preview.existingNames.count > preview.existingNames.sample.length ? ', ...' : ''
+                }`}
+            </p>
+          )}
+          {preview.existingNamesError && (
+            <p className="text-xs text-red-300">
+              Could not read existing names: {preview.existingNamesError}
+            </p>
+          )}
+          <p className="text-xs text-iki-white/50">
+            {preview.count} items in {preview.batches} batches
+            {preview.batches > preview.prompts.length &&
+              `, showing the first ${preview.prompts.length}`}
+          </p>
+          {preview.prompts.map((p) => (
+            <div key={p.batch}>
+              <div className="text-xs text-iki-white/50 mb-1">
+                Batch {p.batch}
+                {p.seed && ` · ${p.seed}`}
+              </div>
+              <pre className="text-xs font-mono text-iki-white/70 whitespace-pre-wrap bg-dark-blue/40 border border-light-green/10 rounded-xl p-3 max-h-64 overflow-auto">
+                {p.prompt}
+              </pre>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
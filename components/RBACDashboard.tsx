@@ -3,8 +3,10 @@
 import {
   Check,
   CheckCircle2,
+  Clock,
   Edit,
   Filter,
+  History,
   Key,
   Plus,
   Save,
@@ -17,7 +19,10 @@ import {
   XCircle,
 } from 'lucide-react';
 import { useEffect, useState } from 'react';
+import LegacyRoleMigrationPanel from '@/components/LegacyRoleMigrationPanel';
 import { usePermissions } from '@/components/PermissionsProvider';
+import ResourcePermissionsEditor from '@/components/ResourcePermissionsEditor';
+import RoleRequestsPanel from '@/components/RoleRequestsPanel';
 import { RBAC_ACTIONS, RBAC_RESOURCES } from '@/lib/permissions';
 
 interface Role {
@@ -26,6 +31,8 @@ interface Role {
   description: string | null;
   isSystem: boolean;
   permissions?: Permission[];
+  // Set on a user's roles when the grant is time-bound
+  grantExpiresAt?: string | null;
 }
 
 interface Permission {
@@ -47,7 +54,9 @@ interface AdminUser {
 }
 
 export default function RBACDashboard() {
-  const [activeTab, setActiveTab] = useState<'users' | 'roles' | 'permissions'>('users');
+  const [activeTab, setActiveTab] = useState<
+    'users' | 'roles' | 'permissions' | 'requests' | 'legacy'
+  >('users');
   const [users, setUsers] = useState<AdminUser[]>([]);
   const [roles, setRoles] = useState<Role[]>([]);
   const [permissions, setPermissions] = useState<Permission[]>([]);
@@ -141,6 +150,7 @@ export default function RBACDashboard() {
         const data = await res.json();
         setPermissions(data.permissions || []);
       }
+      // The requests and legacy tabs load their own data
 
       // Always fetch permissions when showing create role modal
       if (showCreateRoleModal && permissions.length === 0) {
@@ -384,6 +394,32 @@ export default function RBACDashboard() {
           <Key className="w-4 h-4" />
           Permissions ({permissions.length})
         </button>
+        <button
+          type="button"
+          onClick={() => setActiveTab('requests')}
+          className={`px-6 py-3 rounded-t-lg font-medium transition-colors flex items-center gap-2 ${
+            activeTab === 'requests'
+              ? 'bg-iki-grey/50 border-b-2 border-light-green text-light-green'
+              : 'text-iki-white/60 hover:text-iki-white/80'
+          }`}
+        >
+          <Clock className="w-4 h-4" />
+          Access requests
+        </button>
+        {isSuperadmin && (
+          <button
+            type="button"
+            onClick={() => setActiveTab('legacy')}
+            className={`px-6 py-3 rounded-t-lg font-medium transition-colors flex items-center gap-2 ${
+              activeTab === 'legacy'
+                ? 'bg-iki-grey/50 border-b-2 border-light-green text-light-green'
+                : 'text-iki-white/60 hover:text-iki-white/80'
+            }`}
+          >
+            <History className="w-4 h-4" />
+            Legacy roles
+          </button>
+        )}
       </div>
 
       {/* Error State */}
@@ -463,8 +499,14 @@ export default function RBACDashboard() {
                       {user.roles.map((role) => (
                         <span
                           key={role.id}
-                          className="px-3 py-1 rounded-full bg-light-green/20 text-light-green text-xs font-medium"
+                          className="px-3 py-1 rounded-full bg-light-green/20 text-light-green text-xs font-medium flex items-center gap-1"
+                          title={
+                            role.grantExpiresAt
+                              ? `Expires ${new Date(role.grantExpiresAt).toLocaleString()}`
+                              : undefined
+                          }
                         >
+                          {role.grantExpiresAt && <Clock className="w-3 h-3" />}
                           {role.name}
                         </span>
                       ))}
@@ -567,6 +609,12 @@ export default function RBACDashboard() {
                       </div>
                     </div>
                   </div>
+
+                  {/* Resource Permissions */}
+                  <div>
+                    <h4 className="font-semibold text-iki-white mb-4">Resource Permissions</h4>
+                    <ResourcePermissionsEditor userId={selectedUser.id} canWrite={canAdminWrite} />
+                  </div>
                 </div>
               </div>
             </div>
@@ -1100,6 +1148,12 @@ export default function RBACDashboard() {
         </div>
       )}
 
+      {/* Access Requests Tab */}
+      {activeTab === 'requests' && <RoleRequestsPanel currentUserId={me?.user?.id} />}
+
+      {/* Legacy Roles Tab (Superadmin only) */}
+      {activeTab === 'legacy' && isSuperadmin && <LegacyRoleMigrationPanel />}
+
       {/* Permissions Tab */}
       {activeTab === 'permissions' && (
         <div className="space-y-4">
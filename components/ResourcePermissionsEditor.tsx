@@ -0,0 +1,297 @@
+'use client';
+
+import { parsePermissionConditions } from '@/lib/permissionConditions';
+import { RBAC_ACTIONS, RBAC_RESOURCES } from '@/lib/permissions';
+import { CheckCircle2, Plus, Save, Trash2, XCircle } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+
+interface ResourcePermission {
+  id: string;
+  resourceType: string;
+  resourceId: string | null;
+  permissions: string[];
+  conditions: unknown;
+}
+
+const CONDITION_EXAMPLE = `{
+  "all": [
+    { "attr": "user.country", "op": "eq", "value": "KE" },
+    { "time": { "from": "08:00", "to": "18:00", "timeZone": "Africa/Nairobi" } }
+  ]
+}`;
+
+async function readJson(res: Response, fallback: string) {
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(json.error || fallback);
+  return json;
+}
+
+function conditionsText(conditions: unknown) {
+  return conditions ? JSON.stringify(conditions, null, 2) : '';
+}
+
+// Parse the textarea: invalid JSON and invalid conditions both come back as an error
+function checkConditions(text: string): { conditions: unknown } | { error: string } {
+  if (!text.trim()) return { conditions: null };
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { error: 'Conditions must be valid JSON' };
+  }
+  return parsePermissionConditions(raw);
+}
+
+function ConditionsField({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}) {
+  const check = checkConditions(value);
+  return (
+    <div className="space-y-1">
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        rows={value ? Math.min(value.split('\n').length + 1, 10) : 3}
+        placeholder={`No conditions. For example:\n${CONDITION_EXAMPLE}`}
+        spellCheck={false}
+        className="w-full px-3 py-2 rounded-lg bg-iki-grey/50 border border-light-green/20 text-iki-white font-mono text-xs placeholder-iki-white/30"
+      />
+      {'error' in check ? (
+        <p className="text-xs text-red-300 flex items-center gap-1">
+          <XCircle className="w-3 h-3" />
+          {check.error}
+        </p>
+      ) : (
+        value.trim() && (
+          <p className="text-xs text-light-green flex items-center gap-1">
+            <CheckCircle2 className="w-3 h-3" />
+            Valid conditions
+          </p>
+        )
+      )}
+    </div>
+  );
+}
+
+/**
+ * A user's resource-specific grants, with conditions (user.country, collection,
+ * time windows…) validated as they are typed.
+ */
+export default function ResourcePermissionsEditor({
+  userId,
+  canWrite,
+}: {
+  userId: string;
+  canWrite: boolean;
+}) {
+  const [grants, setGrants] = useState<ResourcePermission[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [resourceType, setResourceType] = useState<string>(RBAC_RESOURCES.USERS);
+  const [resourceId, setResourceId] = useState('');
+  const [actions, setActions] = useState<string[]>([RBAC_ACTIONS.READ]);
+  const [newConditions, setNewConditions] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const json = await readJson(
+        await fetch(`/api/rbac/users/${userId}/permissions`, { cache: 'no-store' }),
+        'Failed to load resource permissions'
+      );
+      const list = (json.permissions || []) as ResourcePermission[];
+      setGrants(list);
+      setDrafts(Object.fromEntries(list.map((g) => [g.id, conditionsText(g.conditions)])));
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to load resource permissions');
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const run = async (request: () => Promise<Response>, fallback: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await readJson(await request(), fallback);
+      await load();
+      return true;
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : fallback);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const create = async () => {
+    const check = checkConditions(newConditions);
+    if ('error' in check) return;
+    const ok = await run(
+      () =>
+        fetch(`/api/rbac/users/${userId}/permissions`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            resourceType,
+            resourceId: resourceId.trim() || null,
+            permissions: actions,
+            conditions: check.conditions,
+          }),
+        }),
+      'Failed to create permission'
+    );
+    if (ok) {
+      setResourceId('');
+      setNewConditions('');
+    }
+  };
+
+  const saveConditions = (grant: ResourcePermission) => {
+    const check = checkConditions(drafts[grant.id] || '');
+    if ('error' in check) return;
+    void run(
+      () =>
+        fetch(`/api/rbac/users/${userId}/permissions`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ permissionId: grant.id, conditions: check.conditions }),
+        }),
+      'Failed to update permission'
+    );
+  };
+
+  const remove = (grant: ResourcePermission) => {
+    if (!confirm(`Remove ${grant.resourceType} access for this user?`)) return;
+    void run(
+      () =>
+        fetch(`/api/rbac/users/${userId}/permissions?permissionId=${grant.id}`, {
+          method: 'DELETE',
+        }),
+      'Failed to delete permission'
+    );
+  };
+
+  const toggleAction = (action: string) =>
+    setActions((prev) =>
+      prev.includes(action) ? prev.filter((a) => a !== action) : [...prev, action]
+    );
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-iki-white/60">
+        Grants on one resource type, optionally one resource ID. Conditions limit when a grant
+        applies; see docs/RBAC.md for the attributes each route provides.
+      </p>
+      {error && <p className="text-sm text-red-300">{error}</p>}
+
+      {grants.length === 0 && (
+        <p className="text-sm text-iki-white/60">No resource-specific permissions.</p>
+      )}
+      {grants.map((grant) => {
+        const draft = drafts[grant.id] ?? '';
+        const changed = draft !== conditionsText(grant.conditions);
+        return (
+          <div
+            key={grant.id}
+            className="p-3 rounded-lg bg-iki-grey/50 border border-light-green/20 space-y-2"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <div className="text-sm text-iki-white">
+                <span className="font-medium">{grant.resourceType}</span>
+                <span className="text-iki-white/60">
+                  {' '}
+                  · {grant.resourceId || 'any ID'} · {grant.permissions.join(', ')}
+                </span>
+              </div>
+              {canWrite && (
+                <div className="flex items-center gap-1">
+                  {changed && (
+                    <button
+                      type="button"
+                      onClick={() => saveConditions(grant)}
+                      disabled={busy || 'error' in checkConditions(draft)}
+                      className="p-2 hover:bg-light-green/20 rounded-lg transition-colors disabled:opacity-40"
+                      title="Save conditions"
+                    >
+                      <Save className="w-4 h-4 text-light-green" />
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => remove(grant)}
+                    disabled={busy}
+                    className="p-2 hover:bg-red-500/20 rounded-lg transition-colors"
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-400" />
+                  </button>
+                </div>
+              )}
+            </div>
+            <ConditionsField
+              value={draft}
+              onChange={(value) => setDrafts((prev) => ({ ...prev, [grant.id]: value }))}
+              disabled={!canWrite}
+            />
+          </div>
+        );
+      })}
+
+      {canWrite && (
+        <div className="p-3 rounded-lg border border-dashed border-light-green/30 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={resourceType}
+              onChange={(e) => setResourceType(e.target.value)}
+              className="px-3 py-2 rounded-lg bg-iki-grey/50 border border-light-green/20 text-iki-white text-sm"
+            >
+              {Object.values(RBAC_RESOURCES).map((r) => (
+                <option key={r} value={r}>
+                  {r}
+                </option>
+              ))}
+            </select>
+            <input
+              value={resourceId}
+              onChange={(e) => setResourceId(e.target.value)}
+              placeholder="Resource ID (optional)"
+              className="px-3 py-2 rounded-lg bg-iki-grey/50 border border-light-green/20 text-iki-white text-sm placeholder-iki-white/40"
+            />
+          </div>
+          <div className="flex items-center gap-4 text-sm text-iki-white/80">
+            {Object.values(RBAC_ACTIONS).map((action) => (
+              <label key={action} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={actions.includes(action)}
+                  onChange={() => toggleAction(action)}
+                />
+                {action}
+              </label>
+            ))}
+          </div>
+          <ConditionsField value={newConditions} onChange={setNewConditions} />
+          <button
+            type="button"
+            onClick={create}
+            disabled={busy || actions.length === 0 || 'error' in checkConditions(newConditions)}
+            className="px-3 py-1 rounded-lg bg-light-green/20 text-light-green text-sm font-medium hover:bg-light-green/30 transition-colors flex items-center gap-2 disabled:opacity-40"
+          >
+            <Plus className="w-4 h-4" />
+            Add permission
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+'use client';
+
+import type { RoleRequestItem, RoleRequestStatus } from '@/lib/roleGrants';
+import { Check, Clock, RefreshCw, X } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+
+// Mirrors ROLE_REQUEST_MAX_HOURS; lib/roleGrants is server-only.
+const MAX_HOURS = 72;
+
+const STATUS_STYLES: Record<RoleRequestStatus, string> = {
+  pending: 'bg-yellow-500/20 text-yellow-200',
+  approved: 'bg-light-green/20 text-light-green',
+  denied: 'bg-red-500/20 text-red-300',
+  cancelled: 'bg-iki-white/10 text-iki-white/60',
+};
+
+async function readJson(res: Response, fallback: string) {
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(json.error || fallback);
+  return json;
+}
+
+function formatTime(ms: number) {
+  return new Date(ms).toLocaleString();
+}
+
+/** Just-in-time elevation: ask for a role for a few hours; superadmins approve or deny. */
+export default function RoleRequestsPanel({ currentUserId }: { currentUserId?: string }) {
+  const [requests, setRequests] = useState<RoleRequestItem[]>([]);
+  const [roles, setRoles] = useState<{ id: string; name: string }[]>([]);
+  const [canReview, setCanReview] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [roleId, setRoleId] = useState('');
+  const [hours, setHours] = useState(4);
+  const [justification, setJustification] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [requestsJson, rolesJson] = await Promise.all([
+        readJson(
+          await fetch('/api/rbac/role-requests', { cache: 'no-store' }),
+          'Failed to load role requests'
+        ),
+        readJson(await fetch('/api/rbac/roles'), 'Failed to fetch roles'),
+      ]);
+      setRequests(requestsJson.requests || []);
+      setCanReview(!!requestsJson.canReview);
+      setRoles(rolesJson.roles || []);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to load role requests');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const submit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await readJson(
+        await fetch('/api/rbac/role-requests', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ roleId, durationHours: hours, justification }),
+        }),
+        'Failed to request role'
+      );
+      setJustification('');
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to request role');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const review = async (id: string, action: 'approve' | 'deny' | 'cancel') => {
+    const note =
+      action === 'cancel'
+        ? undefined
+        : window.prompt(`Note for this ${action === 'approve' ? 'approval' : 'denial'} (optional)`);
+    if (note === null) return;
+    setBusyId(id);
+    setError(null);
+    try {
+      await readJson(
+        await fetch(`/api/rbac/role-requests/${id}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action, note }),
+        }),
+        'Failed to update request'
+      );
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to update request');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="p-6 rounded-2xl bg-iki-grey/30 border border-light-green/20 space-y-4">
+        <div>
+          <h3 className="font-semibold text-iki-white flex items-center gap-2">
+            <Clock className="w-4 h-4 text-light-green" />
+            Request temporary access
+          </h3>
+          <p className="text-sm text-iki-white/60 mt-1">
+            A superadmin must approve the request. The role is removed automatically after the
+            chosen number of hours, and you are emailed shortly before it expires.
+          </p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_140px] gap-3">
+          <select
+            value={roleId}
+            onChange={(e) => setRoleId(e.target.value)}
+            className="px-4 py-2 rounded-xl bg-iki-grey/50 border border-light-green/20 text-iki-white"
+          >
+            <option value="">Select a role…</option>
+            {roles.map((r) => (
+              <option key={r.id} value={r.id}>
+                {r.name}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-iki-white/80">
+            <input
+              type="number"
+              min={1}
+              max={MAX_HOURS}
+              value={hours}
+              onChange={(e) => setHours(Number(e.target.value))}
+              className="w-20 px-3 py-2 rounded-xl bg-iki-grey/50 border border-light-green/20 text-iki-white"
+            />
+            hours
+          </label>
+        </div>
+        <textarea
+          value={justification}
+          onChange={(e) => setJustification(e.target.value)}
+          placeholder="Why do you need this role? (e.g. incident or ticket reference)"
+          rows={3}
+          maxLength={1000}
+          className="w-full px-4 py-2 rounded-xl bg-iki-grey/50 border border-light-green/20 text-iki-white placeholder-iki-white/40"
+        />
+        <button
+          type="button"
+          onClick={submit}
+          disabled={
+            submitting || !roleId || !justification.trim() || hours < 1 || hours > MAX_HOURS
+          }
+          className="px-4 py-2 rounded-full bg-gradient-to-r from-light-green to-[#a8d91a] text-dark-blue font-semibold disabled:opacity-50"
+        >
+          {submitting ? 'Submitting…' : 'Submit request'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-2xl bg-red-500/20 border border-red-500/50 text-red-300">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-iki-white">
+            {canReview ? 'All requests' : 'Your requests'}
+          </h3>
+          <button
+            type="button"
+            onClick={load}
+            disabled={loading}
+            className="text-sm text-iki-white/60 hover:text-iki-white flex items-center gap-2"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+        {requests.length === 0 && !loading && (
+          <p className="text-iki-white/60 text-sm">No role requests yet.</p>
+        )}
+        {requests.map((r) => (
+          <div
+            key={r.id}
+            className="p-4 rounded-2xl bg-iki-grey/30 border border-light-green/20 flex items-start justify-between gap-4"
+          >
+            <div className="space-y-1 min-w-0">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="font-medium text-iki-white">{r.roleName}</span>
+                <span className="text-sm text-iki-white/60">for {r.durationHours}h</span>
+                <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[r.status]}`}>
+                  {r.status}
+                </span>
+              </div>
+              {canReview && (
+                <div className="text-sm text-iki-white/80">
+                  {r.userName} ({r.userEmail})
+                </div>
+              )}
+              <p className="text-sm text-iki-white/70 whitespace-pre-wrap break-words">
+                {r.justification}
+              </p>
+              <div className="text-xs text-iki-white/50">
+                Requested {formatTime(r.createdAt)}
+                {r.grantExpiresAt && ` · Access until ${formatTime(r.grantExpiresAt)}`}
+                {r.reviewNote && ` · Note: ${r.reviewNote}`}
+              </div>
+            </div>
+            {r.status === 'pending' && (
+              <div className="flex items-center gap-2 shrink-0">
+                {canReview && r.userId !== currentUserId && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => review(r.id, 'approve')}
+                      disabled={busyId === r.id}
+                      className="p-2 rounded-full bg-light-green/20 text-light-green hover:bg-light-green/30"
+                      title="Approve"
+                    >
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => review(r.id, 'deny')}
+                      disabled={busyId === r.id}
+                      className="p-2 rounded-full bg-red-500/20 text-red-300 hover:bg-red-500/30"
+                      title="Deny"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+                {r.userId === currentUserId && (
+                  <button
+                    type="button"
+                    onClick={() => review(r.id, 'cancel')}
+                    disabled={busyId === r.id}
+                    className="text-sm text-iki-white/60 hover:text-iki-white"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
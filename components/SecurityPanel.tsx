@@ -184,8 +184,8 @@ export default function SecurityPanel() {
                 Enforce two-factor authentication for all admins
               </span>
               <p className="body-xs text-iki-white/60">
-                When enabled, 2FA should be turned on for every admin account. You can roll out
-                enforcement gradually by monitoring 2FA status in account settings.
+                When enabled, admins without 2FA are sent to their account page to set it up before
+                they can use anything else.
               </p>
             </label>
           </div>
@@ -386,8 +386,8 @@ export default function SecurityPanel() {
                 Enable IP allowlist for admin access
               </span>
               <p className="body-xs text-iki-white/60">
-                When enabled, only requests coming from the IP ranges below should be allowed to
-                access the admin. Enforcement can be wired up at the gateway or middleware layer.
+                When enabled, only requests from the addresses below can reach the admin, sign-in
+                included. Blocked attempts are written to the audit log.
               </p>
             </label>
           </div>
@@ -397,7 +397,7 @@ export default function SecurityPanel() {
             <textarea
               rows={4}
               className="w-full rounded-xl bg-iki-grey/30 border border-light-green/20 text-iki-white placeholder-iki-white/40 focus:outline-none focus:ring-2 focus:ring-light-green/40 px-3 py-2 body-sm"
-              placeholder="203.0.113.5&#10;203.0.113.0/24"
+              placeholder="203.0.113.5&#10;203.0.113.0/24&#10;198.51.100.10-198.51.100.20"
               value={ipAllowlistText}
               onChange={(e) =>
                 setSettings((s) => ({
@@ -411,8 +411,8 @@ export default function SecurityPanel() {
               disabled={loading || saving || !settings.ipAllowlistEnabled}
             />
             <p className="body-xs text-iki-white/50">
-              One IP or CIDR range per line. Enforcement can also be mirrored in your cloud
-              firewall for defense-in-depth.
+              One IP, CIDR block or start-end range per line. Enforcement can also be mirrored in
+              your cloud firewall for defense-in-depth.
             </p>
           </div>
 
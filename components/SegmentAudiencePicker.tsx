@@ -0,0 +1,379 @@
+'use client';
+
+import type {
+  NotificationSegment,
+  SegmentEstimate,
+  SegmentFilters,
+} from '@/lib/notification_segments';
+import { Loader2, Pencil, Plus, RefreshCw, Trash2, Users } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+
+interface Props {
+  segmentId: string | null;
+  onSelect: (segmentId: string | null) => void;
+}
+
+type FormState = {
+  name: string;
+  description: string;
+  countries: string;
+  activityLevels: string;
+  signedUpAfter: string;
+  signedUpBefore: string;
+  pointsMin: string;
+  pointsMax: string;
+  tags: string;
+  activeWithinDays: string;
+  inactiveForDays: string;
+};
+
+const EMPTY_FORM: FormState = {
+  name: '',
+  description: '',
+  countries: '',
+  activityLevels: '',
+  signedUpAfter: '',
+  signedUpBefore: '',
+  pointsMin: '',
+  pointsMax: '',
+  tags: '',
+  activeWithinDays: '',
+  inactiveForDays: '',
+};
+
+const INPUT_CLASS =
+  'w-full bg-iki-grey/30 border border-iki-white/10 rounded-xl px-3 py-2 text-iki-white font-tsukimi text-sm';
+
+function splitList(value: string) {
+  return value
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function formToFilters(form: FormState): SegmentFilters {
+  const num = (v: string) => (v.trim() ? Number(v) : null);
+  return {
+    countries: splitList(form.countries),
+    activityLevels: splitList(form.activityLevels),
+    signedUpAfter: form.signedUpAfter || null,
+    signedUpBefore: form.signedUpBefore || null,
+    pointsMin: num(form.pointsMin),
+    pointsMax: num(form.pointsMax),
+    tags: splitList(form.tags),
+    activeWithinDays: num(form.activeWithinDays),
+    inactiveForDays: num(form.inactiveForDays),
+  };
+}
+
+function segmentToForm(segment: NotificationSegment): FormState {
+  const f = segment.filters;
+  const str = (v: number | null | undefined) => (v == null ? '' : String(v));
+  return {
+    name: segment.name,
+    description: segment.description,
+    countries: (f.countries ?? []).join(', '),
+    activityLevels: (f.activityLevels ?? []).join(', '),
+    signedUpAfter: f.signedUpAfter ? f.signedUpAfter.slice(0, 10) : '',
+    signedUpBefore: f.signedUpBefore ? f.signedUpBefore.slice(0, 10) : '',
+    pointsMin: str(f.pointsMin),
+    pointsMax: str(f.pointsMax),
+    tags: (f.tags ?? []).join(', '),
+    activeWithinDays: str(f.activeWithinDays),
+    inactiveForDays: str(f.inactiveForDays),
+  };
+}
+
+function describeEstimate(estimate: SegmentEstimate | null) {
+  if (!estimate) return 'Not estimated yet';
+  const prefix = estimate.exact ? '' : '~';
+  const basis = estimate.exact
+    ? `of ${estimate.total} users`
+    : `extrapolated from ${estimate.scanned} of ${estimate.total} users`;
+  return `${prefix}${estimate.estimated} recipients (${basis})`;
+}
+
+async function requestJson<T>(url: string, init: RequestInit, fallback: string): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' },
+    cache: 'no-store',
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(json.error || fallback);
+  return json as T;
+}
+
+function FilterField({
+  id,
+  label,
+  children,
+}: {
+  id: string;
+  label: string;
+  children: (id: string) => React.ReactNode;
+}) {
+  return (
+    <div>
+      <label htmlFor={id} className="block text-xs text-iki-white/60 font-tsukimi mb-1">
+        {label}
+      </label>
+      {children(id)}
+    </div>
+  );
+}
+
+export default function SegmentAudiencePicker({ segmentId, onSelect }: Props) {
+  const [segments, setSegments] = useState<NotificationSegment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<'new' | string | null>(null);
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [draftEstimate, setDraftEstimate] = useState<SegmentEstimate | null>(null);
+
+  const selected = segments.find((s) => s.id === segmentId) ?? null;
+
+  const loadSegments = useCallback(async () => {
+    setLoading(true);
+    try {
+      const json = await requestJson<{ segments?: NotificationSegment[] }>(
+        '/api/notifications/segments',
+        { method: 'GET' },
+        'Failed to load segments'
+      );
+      setSegments(json.segments || []);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to load segments');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadSegments();
+  }, [loadSegments]);
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const estimateSelected = () =>
+    run(async () => {
+      if (!selected) return;
+      const { estimate } = await requestJson<{ estimate: SegmentEstimate }>(
+        '/api/notifications/segments/estimate',
+        { method: 'POST', body: JSON.stringify({ segmentId: selected.id }) },
+        'Failed to estimate segment'
+      );
+      setSegments((prev) =>
+        prev.map((s) => (s.id === selected.id ? { ...s, last_estimate: estimate } : s))
+      );
+    });
+
+  const estimateDraft = () =>
+    run(async () => {
+      const { estimate } = await requestJson<{ estimate: SegmentEstimate }>(
+        '/api/notifications/segments/estimate',
+        { method: 'POST', body: JSON.stringify({ filters: formToFilters(form) }) },
+        'Failed to estimate segment'
+      );
+      setDraftEstimate(estimate);
+    });
+
+  const saveDraft = () =>
+    run(async () => {
+      const isNew = editing === 'new';
+      const { segment } = await requestJson<{ segment: NotificationSegment }>(
+        isNew ? '/api/notifications/segments' : `/api/notifications/segments/${editing}`,
+        {
+          method: isNew ? 'POST' : 'PUT',
+          body: JSON.stringify({
+            name: form.name,
+            description: form.description,
+            filters: formToFilters(form),
+          }),
+        },
+        'Failed to save segment'
+      );
+      setEditing(null);
+      setDraftEstimate(null);
+      await loadSegments();
+      onSelect(segment.id);
+    });
+
+  const removeSelected = () =>
+    run(async () => {
+      if (!selected || !window.confirm(`Delete segment "${selected.name}"?`)) return;
+      await requestJson(
+        `/api/notifications/segments/${selected.id}`,
+        { method: 'DELETE' },
+        'Failed to delete segment'
+      );
+      onSelect(null);
+      await loadSegments();
+    });
+
+  const startEditing = (target: NotificationSegment | null) => {
+    setEditing(target ? target.id : 'new');
+    setForm(target ? segmentToForm(target) : EMPTY_FORM);
+    setDraftEstimate(null);
+  };
+
+  const field = (key: keyof FormState) => ({
+    value: form[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) =>
+      setForm((prev) => ({ ...prev, [key]: e.target.value })),
+    className: INPUT_CLASS,
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <select
+          aria-label="Segment"
+          className={INPUT_CLASS}
+          value={segmentId ?? ''}
+          onChange={(e) => onSelect(e.target.value || null)}
+          disabled={loading}
+        >
+          <option value="">{loading ? 'Loading segments…' : 'Choose a saved segment…'}</option>
+          {segments.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.name}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          className="btn-secondary flex items-center gap-1"
+          onClick={() => startEditing(null)}
+        >
+          <Plus className="w-4 h-4" />
+          New
+        </button>
+      </div>
+
+      {selected && editing === null && (
+        <div className="border border-iki-white/10 rounded-xl p-3 text-xs font-tsukimi space-y-2">
+          {selected.description && <div className="text-iki-white/70">{selected.description}</div>}
+          <div className="flex items-center gap-2 text-iki-white/80">
+            <Users className="w-4 h-4" />
+            {describeEstimate(selected.last_estimate)}
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              className="btn-secondary flex items-center gap-1"
+              disabled={busy}
+              onClick={estimateSelected}
+            >
+              <RefreshCw className={`w-3 h-3 ${busy ? 'animate-spin' : ''}`} />
+              Re-estimate
+            </button>
+            <button
+              type="button"
+              className="btn-secondary flex items-center gap-1"
+              onClick={() => startEditing(selected)}
+            >
+              <Pencil className="w-3 h-3" />
+              Edit
+            </button>
+            <button
+              type="button"
+              className="btn-secondary flex items-center gap-1"
+              disabled={busy}
+              onClick={removeSelected}
+            >
+              <Trash2 className="w-3 h-3" />
+              Delete
+            </button>
+          </div>
+        </div>
+      )}
+
+      {editing !== null && (
+        <div className="border border-iki-white/10 rounded-xl p-3 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <FilterField id="segment-name" label="Name">
+              {(id) => <input id={id} {...field('name')} placeholder="Active in Kenya" />}
+            </FilterField>
+            <FilterField id="segment-description" label="Description">
+              {(id) => <input id={id} {...field('description')} />}
+            </FilterField>
+            <FilterField id="segment-countries" label="Countries (comma separated)">
+              {(id) => <input id={id} {...field('countries')} placeholder="Kenya, Nigeria" />}
+            </FilterField>
+            <FilterField id="segment-activity" label="Activity levels (comma separated)">
+              {(id) => (
+                <input id={id} {...field('activityLevels')} placeholder="active, moderate" />
+              )}
+            </FilterField>
+            <FilterField id="segment-signed-up-after" label="Signed up after">
+              {(id) => <input id={id} type="date" {...field('signedUpAfter')} />}
+            </FilterField>
+            <FilterField id="segment-signed-up-before" label="Signed up before">
+              {(id) => <input id={id} type="date" {...field('signedUpBefore')} />}
+            </FilterField>
+            <FilterField id="segment-points-min" label="Points min">
+              {(id) => <input id={id} type="number" {...field('pointsMin')} />}
+            </FilterField>
+            <FilterField id="segment-points-max" label="Points max">
+              {(id) => <input id={id} type="number" {...field('pointsMax')} />}
+            </FilterField>
+            <FilterField id="segment-tags" label="Onboarding tags (any of)">
+              {(id) => <input id={id} {...field('tags')} placeholder="Meditation, Running" />}
+            </FilterField>
+            <div className="grid grid-cols-2 gap-3">
+              <FilterField id="segment-active-within" label="Active within (days)">
+                {(id) => <input id={id} type="number" min="1" {...field('activeWithinDays')} />}
+              </FilterField>
+              <FilterField id="segment-inactive-for" label="Inactive for (days)">
+                {(id) => <input id={id} type="number" min="1" {...field('inactiveForDays')} />}
+              </FilterField>
+            </div>
+          </div>
+
+          {draftEstimate && (
+            <div className="flex items-center gap-2 text-xs text-iki-white/80 font-tsukimi">
+              <Users className="w-4 h-4" />
+              {describeEstimate(draftEstimate)}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <button type="button" className="btn-secondary" disabled={busy} onClick={estimateDraft}>
+              {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Estimate size'}
+            </button>
+            <button
+              type="button"
+              className="btn-primary"
+              disabled={busy || !form.name.trim()}
+              onClick={saveDraft}
+            >
+              Save segment
+            </button>
+            <button type="button" className="btn-secondary" onClick={() => setEditing(null)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="text-xs text-red-300 font-tsukimi">{error}</div>}
+
+      <div className="text-xs text-iki-white/60 font-tsukimi">
+        Segments are sent as a broadcast: membership is checked against each user&apos;s current
+        profile as the cron/runner expands it.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,387 @@
+'use client';
+
+import { usePermissions } from '@/components/PermissionsProvider';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { RBAC_ACTIONS, RBAC_RESOURCES } from '@/lib/permissions';
+import type { StagedItem, StagedItemStatus } from '@/lib/types';
+import { RefreshCw } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+
+const PAGE_SIZE = 50;
+const ALL_COLLECTIONS = '__all__';
+
+type StatusFilter = StagedItemStatus | 'all';
+
+function statusClass(status: StagedItemStatus) {
+  switch (status) {
+    case 'approved':
+      return 'status-success';
+    case 'rejected':
+      return 'status-error';
+    default:
+      return 'status-info';
+  }
+}
+
+function preview(data: unknown) {
+  const text = JSON.stringify(data);
+  return text.length > 160 ? `${text.slice(0, 157)}...` : text;
+}
+
+// Returns a summary line for the result banner.
+async function postReview(action: 'approve' | 'reject', ids: string[], reason: string) {
+  const res = await fetch(`/api/generate/staging/${action}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ids, reason: reason || null }),
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.error || `Failed to ${action} items`);
+  return action === 'approve'
+    ? `Approved ${body.approved} items in ${body.batches} batches`
+    : `Rejected ${body.rejected} items`;
+}
+
+function ItemEditor({
+  item,
+  onSaved,
+  onClose,
+}: {
+  item: StagedItem;
+  onSaved: (item: StagedItem) => void;
+  onClose: () => void;
+}) {
+  const [text, setText] = useState(() => JSON.stringify(item.data, null, 2));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const save = async () => {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      setErrors(['Not valid JSON']);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/generate/staging/${encodeURIComponent(item.id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ data }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setErrors(body.issues?.length ? body.issues : [body.error || 'Failed to save item']);
+        return;
+      }
+      onSaved(body.item);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={12}
+        className="font-mono text-xs"
+      />
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-300 space-y-1">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <Button size="sm" disabled={saving} onClick={() => void save()}>
+          Save
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function StagingReviewQueue() {
+  const [items, setItems] = useState<StagedItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pendingByCollection, setPendingByCollection] = useState<Record<string, number>>({});
+  const [status, setStatus] = useState<StatusFilter>('pending');
+  const [collection, setCollection] = useState(ALL_COLLECTIONS);
+  const [offset, setOffset] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const { can } = usePermissions();
+  const canWrite = can(RBAC_RESOURCES.GENERATE, RBAC_ACTIONS.WRITE);
+  // Approving or rejecting is a separate review step that generate:write alone doesn't grant.
+  const canReview = can(RBAC_RESOURCES.GENERATE, RBAC_ACTIONS.MANAGE);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        status,
+        limit: String(PAGE_SIZE),
+        offset: String(offset),
+      });
+      if (collection !== ALL_COLLECTIONS) params.set('collection', collection);
+      const res = await fetch(`/api/generate/staging?${params}`, { cache: 'no-store' });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error || 'Failed to load review queue');
+      setItems(json.items || []);
+      setTotal(json.total || 0);
+      setPendingByCollection(json.pendingByCollection || {});
+      setSelected(new Set());
+    } catch (err: unknown) {
+      setMessage({
+        text: err instanceof Error ? err.message : 'Failed to load review queue',
+        error: true,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [status, collection, offset]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const review = async (action: 'approve' | 'reject') => {
+    const ids = Array.from(selected);
+    const reason =
+      action === 'reject' ? window.prompt(`Reject ${ids.length} items? Optional reason:`, '') : '';
+    if (reason === null) return;
+
+    setBusy(true);
+    setMessage(null);
+    try {
+      setMessage({ text: await postReview(action, ids, reason), error: false });
+    } catch (err: unknown) {
+      setMessage({ text: err instanceof Error ? err.message : 'Request failed', error: true });
+    } finally {
+      setBusy(false);
+      await load();
+    }
+  };
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const pendingIds = items.filter((i) => i.status === 'pending').map((i) => i.id);
+  const allSelected = pendingIds.length > 0 && pendingIds.every((id) => selected.has(id));
+  const collections = Object.keys(pendingByCollection).sort();
+
+  return (
+    <section className="card">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-5">
+        <div>
+          <h3 className="heading-sm font-goldplay text-iki-white">Review queue</h3>
+          <p className="body-sm text-iki-white/60 mt-1">
+            Items generated with the staging sink. Approved items are written to their Firestore
+            collection; every approval is recorded in the audit log.
+          </p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => void load()} disabled={loading}>
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <Select
+          value={status}
+          onValueChange={(value) => {
+            setStatus(value as StatusFilter);
+            setOffset(0);
+          }}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="approved">Approved</SelectItem>
+            <SelectItem value="rejected">Rejected</SelectItem>
+            <SelectItem value="all">All</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value={collection}
+          onValueChange={(value) => {
+            setCollection(value);
+            setOffset(0);
+          }}
+        >
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_COLLECTIONS}>All collections</SelectItem>
+            {collections.map((c) => (
+              <SelectItem key={c} value={c}>
+                {c} ({pendingByCollection[c]} pending)
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {canReview && (
+          <div className="flex gap-2 ml-auto">
+            <Button
+              size="sm"
+              disabled={busy || selected.size === 0}
+              onClick={() => void review('approve')}
+            >
+              Approve {selected.size > 0 ? selected.size : ''}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={busy || selected.size === 0}
+              onClick={() => void review('reject')}
+            >
+              Reject
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {message && (
+        <p className={`text-sm mb-4 ${message.error ? 'text-red-300' : 'text-iki-white/60'}`}>
+          {message.text}
+        </p>
+      )}
+
+      {!loading && items.length === 0 && (
+        <p className="text-sm text-iki-white/50">Nothing to review.</p>
+      )}
+
+      {items.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-iki-white/50">
+                <th className="py-2 pr-3 font-medium">
+                  {canReview && (
+                    <input
+                      type="checkbox"
+                      aria-label="Select all pending items"
+                      checked={allSelected}
+                      onChange={() => setSelected(allSelected ? new Set() : new Set(pendingIds))}
+                    />
+                  )}
+                </th>
+                <th className="py-2 pr-4 font-medium">Doc</th>
+                <th className="py-2 pr-4 font-medium">Status</th>
+                <th className="py-2 pr-4 font-medium">Data</th>
+                <th className="py-2 font-medium" />
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item) => (
+                <tr key={item.id} className="border-t border-light-green/10 align-top">
+                  <td className="py-3 pr-3">
+                    {canReview && item.status === 'pending' && (
+                      <input
+                        type="checkbox"
+                        aria-label={`Select ${item.docId}`}
+                        checked={selected.has(item.id)}
+                        onChange={() => toggle(item.id)}
+                      />
+                    )}
+                  </td>
+                  <td className="py-3 pr-4">
+                    <div className="text-iki-white font-semibold font-mono">{item.docId}</div>
+                    <div className="text-xs text-iki-white/40">
+                      {item.collection} · {item.jobName || item.jobId || 'deleted job'}
+                    </div>
+                  </td>
+                  <td className="py-3 pr-4">
+                    <span className={`badge ${statusClass(item.status)}`}>{item.status}</span>
+                    {item.editedAt && <div className="text-xs text-iki-white/40 mt-1">edited</div>}
+                    {item.rejectReason && (
+                      <div className="text-xs text-red-300 mt-1">{item.rejectReason}</div>
+                    )}
+                  </td>
+                  <td className="py-3 pr-4 text-xs text-iki-white/70 font-mono break-all">
+                    {editingId === item.id ? (
+                      <ItemEditor
+                        item={item}
+                        onClose={() => setEditingId(null)}
+                        onSaved={(saved) => {
+                          setItems((prev) =>
+                            prev.map((i) => (i.id === saved.id ? { ...i, ...saved } : i))
+                          );
+                          setEditingId(null);
+                        }}
+                      />
+                    ) : (
+                      preview(item.data)
+                    )}
+                  </td>
+                  <td className="py-3">
+                    {canWrite && item.status === 'pending' && editingId !== item.id && (
+                      <Button variant="ghost" size="sm" onClick={() => setEditingId(item.id)}>
+                        Edit
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between mt-4 text-xs text-iki-white/50">
+          <span>
+            {offset + 1}-{Math.min(offset + PAGE_SIZE, total)} of {total}
+          </span>
+          <div className="flex gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={offset === 0}
+              onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+            >
+              Previous
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={offset + PAGE_SIZE >= total}
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,358 @@
+'use client';
+
+import { usePermissions } from '@/components/PermissionsProvider';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RBAC_ACTIONS, RBAC_RESOURCES } from '@/lib/permissions';
+import type {
+  GenerationConfig,
+  Template,
+  TemplateChange,
+  TemplateVersion,
+  TemplateVisibility,
+} from '@/lib/types';
+import { Download, Upload } from 'lucide-react';
+import { type ChangeEvent, useEffect, useRef, useState } from 'react';
+
+interface Props {
+  config: GenerationConfig;
+  selected: Template | null;
+  canPublish: boolean;
+  // Called after any change to the library, with the template to select (if any).
+  onChanged: (template?: Template) => void;
+  // Load a specific version of the selected template into the editor.
+  onLoadVersion: (template: Template) => void;
+}
+
+type Diff = { version: number; changes: TemplateChange[] };
+
+async function requestJson(url: string, init?: RequestInit) {
+  const res = await fetch(url, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.error || 'Request failed');
+  return body;
+}
+
+function formatValue(value: unknown) {
+  const text = JSON.stringify(value);
+  return text && text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+const changeStyles: Record<TemplateChange['kind'], { marker: string; className: string }> = {
+  added: { marker: '+', className: 'text-light-green' },
+  removed: { marker: '-', className: 'text-red-300' },
+  changed: { marker: '~', className: 'text-iki-brown' },
+};
+
+function DiffList({ diff }: { diff: Diff }) {
+  return (
+    <div className="mt-4">
+      <div className="text-xs text-iki-white/50 font-medium mb-2">
+        Changes in v{diff.version} (vs v{diff.version - 1})
+      </div>
+      {diff.changes.length === 0 ? (
+        <p className="text-sm text-iki-white/50">No changes.</p>
+      ) : (
+        <ul className="space-y-1 text-xs font-mono">
+          {diff.changes.map((change) => {
+            const style = changeStyles[change.kind];
+            const values =
+              change.kind === 'changed'
+                ? `${formatValue(change.before)} → ${formatValue(change.after)}`
+                : formatValue(change.kind === 'added' ? change.after : change.before);
+            return (
+              <li key={change.path} className="text-iki-white/70">
+                <span className={style.className}>{style.marker}</span> {change.path} {values}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default function TemplateLibrary({
+  config,
+  selected,
+  canPublish,
+  onChanged,
+  onLoadVersion,
+}: Props) {
+  const [name, setName] = useState('');
+  const [changeNote, setChangeNote] = useState('');
+  const [visibility, setVisibility] = useState<TemplateVisibility>('private');
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [diff, setDiff] = useState<Diff | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { can } = usePermissions();
+  const canWrite = can(RBAC_RESOURCES.GENERATE, RBAC_ACTIONS.WRITE);
+
+  const libraryTemplate = selected?.source === 'library' ? selected : null;
+  const templatePath = libraryTemplate
+    ? `/api/generate/templates/${encodeURIComponent(libraryTemplate.id)}`
+    : null;
+
+  useEffect(() => {
+    setName(selected && selected.id !== 'custom' ? selected.name : '');
+    setVisibility(selected?.visibility ?? 'private');
+    setChangeNote('');
+    setDiff(null);
+  }, [selected]);
+
+  useEffect(() => {
+    if (!templatePath) {
+      setVersions([]);
+      return;
+    }
+    fetch(`${templatePath}/versions`, { cache: 'no-store' })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((json) => setVersions(json?.versions || []))
+      .catch(() => setVersions([]));
+  }, [templatePath]);
+
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      setMessage({ text: await action(), error: false });
+    } catch (err: unknown) {
+      setMessage({ text: err instanceof Error ? err.message : 'Request failed', error: true });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const payload = () => ({
+    name: name.trim() || config.jobName,
+    visibility,
+    config,
+    changeNote: changeNote.trim() || undefined,
+  });
+
+  const saveAsNew = () =>
+    run(async () => {
+      const { template } = await requestJson('/api/generate/templates', {
+        method: 'POST',
+        body: JSON.stringify(payload()),
+      });
+      onChanged(template);
+      return `Saved "${template.name}"`;
+    });
+
+  const saveVersion = () =>
+    run(async () => {
+      if (!templatePath) return '';
+      const { template } = await requestJson(templatePath, {
+        method: 'PUT',
+        body: JSON.stringify(payload()),
+      });
+      onChanged(template);
+      return `Saved version ${template.version}`;
+    });
+
+  const cloneBuiltin = () =>
+    run(async () => {
+      if (!selected) return '';
+      const { template } = await requestJson('/api/generate/templates/clone', {
+        method: 'POST',
+        body: JSON.stringify({ builtinId: selected.id }),
+      });
+      onChanged(template);
+      return `Cloned into "${template.name}"`;
+    });
+
+  const remove = () =>
+    run(async () => {
+      if (!templatePath || !libraryTemplate) return '';
+      if (!window.confirm(`Delete "${libraryTemplate.name}" and all of its versions?`)) return '';
+      await requestJson(templatePath, { method: 'DELETE' });
+      onChanged();
+      return `Deleted "${libraryTemplate.name}"`;
+    });
+
+  const importFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    void run(async () => {
+      const { template } = await requestJson('/api/generate/templates/import', {
+        method: 'POST',
+        body: await file.text(),
+      });
+      onChanged(template);
+      return `Imported "${template.name}"`;
+    });
+  };
+
+  const loadVersion = (version: number) =>
+    run(async () => {
+      if (!templatePath) return '';
+      const { template } = await requestJson(`${templatePath}?version=${version}`);
+      onLoadVersion(template);
+      return `Loaded version ${version} into the editor`;
+    });
+
+  const showDiff = (version: number) =>
+    run(async () => {
+      if (!templatePath) return '';
+      const json = await requestJson(`${templatePath}/diff?to=${version}`);
+      setDiff({ version, changes: json.changes || [] });
+      return '';
+    });
+
+  return (
+    <section className="card">
+      <div className="flex items-start justify-between gap-4 mb-5">
+        <div>
+          <h3 className="heading-sm font-goldplay text-iki-white">Template library</h3>
+          <p className="body-sm text-iki-white/60 mt-1">
+            Save the current configuration as a reusable template. Every save of an existing
+            template creates a new version.
+          </p>
+        </div>
+        {canWrite && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={importFile}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={busy}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload className="w-4 h-4" />
+              Import
+            </Button>
+          </>
+        )}
+      </div>
+
+      {canWrite && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Template name"
+          />
+          <Input
+            value={changeNote}
+            onChange={(e) => setChangeNote(e.target.value)}
+            placeholder="Change note (optional)"
+          />
+          <Select
+            value={visibility}
+            onValueChange={(value) => setVisibility(value as TemplateVisibility)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="private">Private (only me)</SelectItem>
+              {canPublish && <SelectItem value="shared">Shared with all admins</SelectItem>}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 mt-4">
+        {canWrite && (
+          <Button size="sm" disabled={busy} onClick={() => void saveAsNew()}>
+            Save as new template
+          </Button>
+        )}
+        {canWrite && libraryTemplate && (
+          <Button variant="outline" size="sm" disabled={busy} onClick={() => void saveVersion()}>
+            Save new version
+          </Button>
+        )}
+        {canWrite && selected?.source === 'builtin' && (
+          <Button variant="outline" size="sm" disabled={busy} onClick={() => void cloneBuiltin()}>
+            Clone built-in
+          </Button>
+        )}
+        {templatePath && (
+          <Button variant="ghost" size="sm" asChild>
+            <a href={`${templatePath}/export`} download>
+              <Download className="w-4 h-4" />
+              Export
+            </a>
+          </Button>
+        )}
+        {canWrite && libraryTemplate && (
+          <Button variant="ghost" size="sm" disabled={busy} onClick={() => void remove()}>
+            Delete
+          </Button>
+        )}
+      </div>
+
+      {message?.text && (
+        <p className={`text-sm mt-3 ${message.error ? 'text-red-300' : 'text-iki-white/60'}`}>
+          {message.text}
+        </p>
+      )}
+
+      {versions.length > 0 && (
+        <div className="mt-6">
+          <div className="text-xs text-iki-white/50 font-medium mb-2">Version history</div>
+          <ul className="space-y-2">
+            {versions.map((v) => (
+              <li
+                key={v.version}
+                className="flex items-start justify-between gap-4 border-t border-light-green/10 pt-2"
+              >
+                <div className="text-sm">
+                  <span className="badge badge-secondary mr-2">v{v.version}</span>
+                  <span className="text-iki-white">{v.changeNote || v.name}</span>
+                  <div className="text-xs text-iki-white/40 mt-1">
+                    {v.authorName || v.authorId || 'unknown'} ·{' '}
+                    {new Date(v.createdAt).toLocaleString()}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={busy}
+                    onClick={() => void loadVersion(v.version)}
+                  >
+                    Load
+                  </Button>
+                  {v.version > 1 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={busy}
+                      onClick={() => void showDiff(v.version)}
+                    >
+                      Diff
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {diff && <DiffList diff={diff} />}
+    </section>
+  );
+}
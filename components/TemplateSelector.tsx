@@ -80,11 +80,18 @@ export default function TemplateSelector({ templates, onSelect, selectedTemplate
                   </div>
                 </div>
 
-                {isSelected ? (
-                  <span className="badge badge-primary self-start">Selected</span>
-                ) : (
-                  <span className="badge badge-secondary self-start">Use</span>
-                )}
+                <div className="flex flex-col items-end gap-1 self-start">
+                  {isSelected ? (
+                    <span className="badge badge-primary">Selected</span>
+                  ) : (
+                    <span className="badge badge-secondary">Use</span>
+                  )}
+                  {template.source === 'library' && (
+                    <span className="text-[10px] text-iki-white/45">
+                      v{template.version} · {template.visibility}
+                    </span>
+                  )}
+                </div>
               </div>
             </div>
           </button>
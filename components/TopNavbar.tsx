@@ -36,6 +36,17 @@ const navItems: NavItem[] = [
   { href: '/notifications', label: 'Alerts', icon: <Bell className="w-4 h-4" /> },
 ];
 
+const PAGE_TITLES: Record<string, string> = {
+  '/': 'Insights',
+  '/users': 'Users',
+  '/generate': 'Generator',
+  '/generate/review': 'Review',
+  '/notifications': 'Alerts',
+  '/admin': 'Admin',
+  '/rbac': 'Access',
+  '/superadmin': 'Super',
+};
+
 export default function TopNavbar() {
   const pathname = usePathname();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -77,16 +88,7 @@ export default function TopNavbar() {
     };
   }, [mobileMenuOpen]);
 
-  const getPageTitle = () => {
-    if (pathname === '/') return 'Insights';
-    if (pathname === '/users') return 'Users';
-    if (pathname === '/generate') return 'Generator';
-    if (pathname === '/notifications') return 'Alerts';
-    if (pathname === '/admin') return 'Admin';
-    if (pathname === '/rbac') return 'Access';
-    if (pathname === '/superadmin') return 'Super';
-    return 'Admin';
-  };
+  const getPageTitle = () => PAGE_TITLES[pathname] ?? 'Admin';
 
   const settingsItems: NavItem[] = [
     ...(can(RBAC_RESOURCES.ADMIN, RBAC_ACTIONS.READ)
@@ -0,0 +1,155 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { defaultTargetCollection } from '@/lib/translation';
+import type { GenerationConfig, TranslationOptions } from '@/lib/types';
+
+interface Props {
+  config: GenerationConfig;
+  onChange: (config: GenerationConfig) => void;
+}
+
+export const EMPTY_TRANSLATION: TranslationOptions = {
+  sourceCollection: '',
+  locale: '',
+  fields: [],
+  target: 'collection',
+};
+
+export default function TranslationOptionsEditor({ config, onChange }: Props) {
+  const options = config.translation ?? EMPTY_TRANSLATION;
+  const update = (patch: Partial<TranslationOptions>) =>
+    onChange({ ...config, translation: { ...options, ...patch } });
+
+  const defaultTarget =
+    options.sourceCollection && options.locale
+      ? defaultTargetCollection(options.sourceCollection, options.locale)
+      : 'source_collection_es';
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label
+            htmlFor="translation-source"
+            className="block text-xs font-medium text-iki-white/60 mb-2"
+          >
+            Source collection
+          </label>
+          <Input
+            id="translation-source"
+            type="text"
+            value={options.sourceCollection}
+            onChange={(e) => update({ sourceCollection: e.target.value })}
+            placeholder="mindfulness_exercises"
+          />
+        </div>
+        <div>
+          <label
+            htmlFor="translation-locale"
+            className="block text-xs font-medium text-iki-white/60 mb-2"
+          >
+            Target locale
+          </label>
+          <Input
+            id="translation-locale"
+            type="text"
+            value={options.locale}
+            onChange={(e) => update({ locale: e.target.value })}
+            placeholder="es, pt-BR..."
+          />
+        </div>
+      </div>
+
+      <div>
+        <label
+          htmlFor="translation-fields"
+          className="block text-xs font-medium text-iki-white/60 mb-2"
+        >
+          Fields to translate{' '}
+          <span className="text-iki-white/40 text-xs font-normal ml-2">
+            (comma separated, dot paths allowed; other fields are copied as-is)
+          </span>
+        </label>
+        <Input
+          id="translation-fields"
+          type="text"
+          value={options.fields.join(', ')}
+          onChange={(e) => update({ fields: e.target.value.split(',').map((f) => f.trim()) })}
+          placeholder="name, description, steps"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label
+            htmlFor="translation-target"
+            className="block text-xs font-medium text-iki-white/60 mb-2"
+          >
+            Write to
+          </label>
+          <Select
+            value={options.target}
+            onValueChange={(value) => update({ target: value as TranslationOptions['target'] })}
+          >
+            <SelectTrigger id="translation-target">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="collection">Sibling collection</SelectItem>
+              <SelectItem value="map">translations.{'{locale}'} map</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {options.target === 'collection' && (
+          <div>
+            <label
+              htmlFor="translation-target-collection"
+              className="block text-xs font-medium text-iki-white/60 mb-2"
+            >
+              Target collection
+            </label>
+            <Input
+              id="translation-target-collection"
+              type="text"
+              value={options.targetCollection ?? ''}
+              onChange={(e) => update({ targetCollection: e.target.value })}
+              placeholder={defaultTarget}
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label
+          htmlFor="translation-instructions"
+          className="block text-xs font-medium text-iki-white/60 mb-2"
+        >
+          Instructions (optional)
+        </label>
+        <Textarea
+          id="translation-instructions"
+          value={options.instructions ?? ''}
+          onChange={(e) => update({ instructions: e.target.value })}
+          className="text-sm"
+          rows={3}
+          placeholder="Informal tone. Keep brand names in English."
+        />
+      </div>
+
+      <p className="text-xs text-iki-white/45">
+        Every doc in the source collection is translated (up to 5,000 per job) and keeps its doc id.
+        The map option merges the result into the source docs under{' '}
+        <span className="font-mono">translations.{options.locale || '{locale}'}</span>.
+      </p>
+    </div>
+  );
+}
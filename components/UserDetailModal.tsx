@@ -16,6 +16,7 @@ import {
 import { useState } from 'react';
 import Avatar from './Avatar';
 import UserAnalyticsDashboard from './UserAnalyticsDashboard';
+import UserDevices from './UserDevices';
 
 interface UserDetailModalProps {
   user: User | null;
@@ -237,6 +238,8 @@ export default function UserDetailModal({ user, isOpen, onClose }: UserDetailMod
                 </div>
               </div>
 
+              <UserDevices userId={user.id} />
+
               {/* User ID */}
               <div className="p-4 rounded-xl bg-iki-grey/30 border border-light-green/10">
                 <span className="text-xs font-mono text-iki-white/40">User ID: {user.id}</span>
@@ -0,0 +1,106 @@
+'use client';
+
+import type { UserDevice } from '@/lib/notification_devices';
+import { Loader2, Smartphone, Trash2 } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+
+const PLATFORM_LABELS: Record<UserDevice['platform'], string> = {
+  android: 'Android',
+  ios: 'iOS',
+  web: 'Web',
+  unknown: 'Unknown',
+};
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString() : 'N/A';
+}
+
+/** Push devices registered for a user, backed by /api/users/[userId]/fcm. */
+export default function UserDevices({ userId }: { userId: string }) {
+  const [devices, setDevices] = useState<UserDevice[] | null>(null);
+  const [removing, setRemoving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/users/${userId}/fcm`, { cache: 'no-store' });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error || 'Failed to load devices');
+      setDevices(json.devices || []);
+    } catch (e: unknown) {
+      setDevices([]);
+      setError(e instanceof Error ? e.message : 'Failed to load devices');
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const remove = async (deviceId: string) => {
+    if (!confirm('Remove this device? It stops receiving pushes until the app registers again.'))
+      return;
+    setRemoving(deviceId);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ deviceId });
+      const res = await fetch(`/api/users/${userId}/fcm?${params}`, { method: 'DELETE' });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error || 'Failed to remove device');
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to remove device');
+    } finally {
+      setRemoving(null);
+    }
+  };
+
+  return (
+    <div className="p-4 rounded-xl bg-iki-grey/50 border border-light-green/20">
+      <div className="flex items-center gap-2 mb-3">
+        <Smartphone className="w-4 h-4 text-light-green" />
+        <span className="text-sm font-semibold text-iki-white/60">Push devices</span>
+      </div>
+      {error && <p className="text-sm text-red-200 mb-2">{error}</p>}
+      {devices === null ? (
+        <Loader2 className="w-4 h-4 animate-spin text-iki-white/60" />
+      ) : devices.length === 0 ? (
+        <p className="text-iki-white/80">No devices registered</p>
+      ) : (
+        <div className="space-y-2">
+          {devices.map((d) => (
+            <div
+              key={d.id}
+              className="flex items-center justify-between gap-3 p-3 rounded-lg bg-iki-grey border border-light-green/10"
+            >
+              <div className="min-w-0">
+                <p className="text-sm text-iki-white">
+                  {PLATFORM_LABELS[d.platform]}
+                  {d.legacy && (
+                    <span className="ml-2 text-xs text-iki-white/50">(legacy token)</span>
+                  )}
+                </p>
+                <p className="text-xs text-iki-white/50 font-mono truncate">
+                  {d.token} · last seen {formatDate(d.last_seen_at)}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => remove(d.id)}
+                disabled={removing !== null}
+                className="p-2 rounded-lg hover:bg-iki-grey/70 transition-colors text-iki-white/60 hover:text-red-200"
+                title="Remove device"
+              >
+                {removing === d.id ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Trash2 className="w-4 h-4" />
+                )}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
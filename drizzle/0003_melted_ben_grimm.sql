@@ -0,0 +1,36 @@
+CREATE TABLE "generationJob" (
+	"id" text PRIMARY KEY NOT NULL,
+	"userId" text,
+	"jobName" text NOT NULL,
+	"status" varchar(20) DEFAULT 'queued' NOT NULL,
+	"config" jsonb NOT NULL,
+	"total" integer DEFAULT 0 NOT NULL,
+	"completed" integer DEFAULT 0 NOT NULL,
+	"batchesTotal" integer DEFAULT 0 NOT NULL,
+	"batchesCompleted" integer DEFAULT 0 NOT NULL,
+	"docs" jsonb DEFAULT '[]' NOT NULL,
+	"result" jsonb,
+	"message" text,
+	"error" text,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"startedAt" timestamp,
+	"finishedAt" timestamp,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "generationJobEvent" (
+	"id" text PRIMARY KEY NOT NULL,
+	"jobId" text NOT NULL,
+	"seq" integer NOT NULL,
+	"type" varchar(40) NOT NULL,
+	"payload" jsonb,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "generationJob" ADD CONSTRAINT "generationJob_userId_user_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generationJobEvent" ADD CONSTRAINT "generationJobEvent_jobId_generationJob_id_fk" FOREIGN KEY ("jobId") REFERENCES "public"."generationJob"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "generationJob_userId_idx" ON "generationJob" USING btree ("userId");--> statement-breakpoint
+CREATE INDEX "generationJob_status_idx" ON "generationJob" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "generationJob_createdAt_idx" ON "generationJob" USING btree ("createdAt");--> statement-breakpoint
+CREATE UNIQUE INDEX "generationJobEvent_jobId_seq_idx" ON "generationJobEvent" USING btree ("jobId","seq");
\ No newline at end of file
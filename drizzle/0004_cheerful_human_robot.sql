@@ -0,0 +1,13 @@
+CREATE TABLE "generationBudget" (
+	"userId" text PRIMARY KEY NOT NULL,
+	"monthlyLimitUsd" double precision,
+	"updatedBy" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "generationJob" ADD COLUMN "promptTokens" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "generationJob" ADD COLUMN "completionTokens" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "generationJob" ADD COLUMN "estimatedCostUsd" double precision DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "generationBudget" ADD CONSTRAINT "generationBudget_userId_user_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generationBudget" ADD CONSTRAINT "generationBudget_updatedBy_user_id_fk" FOREIGN KEY ("updatedBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
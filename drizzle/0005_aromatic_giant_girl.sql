@@ -0,0 +1 @@
+ALTER TABLE "generationJob" ADD COLUMN "batchResults" jsonb DEFAULT '{}' NOT NULL;
\ No newline at end of file
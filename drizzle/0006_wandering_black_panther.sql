@@ -0,0 +1,31 @@
+CREATE TABLE "generationTemplate" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text DEFAULT '' NOT NULL,
+	"icon" varchar(20) DEFAULT 'custom' NOT NULL,
+	"visibility" varchar(20) DEFAULT 'private' NOT NULL,
+	"ownerId" text,
+	"currentVersion" integer DEFAULT 1 NOT NULL,
+	"sourceTemplateId" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "generationTemplateVersion" (
+	"id" text PRIMARY KEY NOT NULL,
+	"templateId" text NOT NULL,
+	"version" integer NOT NULL,
+	"name" text NOT NULL,
+	"description" text DEFAULT '' NOT NULL,
+	"config" jsonb NOT NULL,
+	"changeNote" text,
+	"authorId" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "generationTemplate" ADD CONSTRAINT "generationTemplate_ownerId_user_id_fk" FOREIGN KEY ("ownerId") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generationTemplateVersion" ADD CONSTRAINT "generationTemplateVersion_templateId_generationTemplate_id_fk" FOREIGN KEY ("templateId") REFERENCES "public"."generationTemplate"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generationTemplateVersion" ADD CONSTRAINT "generationTemplateVersion_authorId_user_id_fk" FOREIGN KEY ("authorId") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "generationTemplate_ownerId_idx" ON "generationTemplate" USING btree ("ownerId");--> statement-breakpoint
+CREATE INDEX "generationTemplate_visibility_idx" ON "generationTemplate" USING btree ("visibility");--> statement-breakpoint
+CREATE UNIQUE INDEX "generationTemplateVersion_templateId_version_idx" ON "generationTemplateVersion" USING btree ("templateId","version");
\ No newline at end of file
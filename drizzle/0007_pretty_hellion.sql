@@ -0,0 +1,23 @@
+CREATE TABLE "generationStagedItem" (
+	"id" text PRIMARY KEY NOT NULL,
+	"jobId" text,
+	"collection" text NOT NULL,
+	"docId" text NOT NULL,
+	"data" jsonb NOT NULL,
+	"writeMode" varchar(20) DEFAULT 'merge' NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"editedBy" text,
+	"editedAt" timestamp,
+	"reviewedBy" text,
+	"reviewedAt" timestamp,
+	"rejectReason" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "generationStagedItem" ADD CONSTRAINT "generationStagedItem_jobId_generationJob_id_fk" FOREIGN KEY ("jobId") REFERENCES "public"."generationJob"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generationStagedItem" ADD CONSTRAINT "generationStagedItem_editedBy_user_id_fk" FOREIGN KEY ("editedBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generationStagedItem" ADD CONSTRAINT "generationStagedItem_reviewedBy_user_id_fk" FOREIGN KEY ("reviewedBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "generationStagedItem_status_collection_idx" ON "generationStagedItem" USING btree ("status","collection");--> statement-breakpoint
+CREATE INDEX "generationStagedItem_jobId_idx" ON "generationStagedItem" USING btree ("jobId");--> statement-breakpoint
+CREATE UNIQUE INDEX "generationStagedItem_jobId_docId_idx" ON "generationStagedItem" USING btree ("jobId","docId");
\ No newline at end of file
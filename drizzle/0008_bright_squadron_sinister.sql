@@ -0,0 +1,21 @@
+CREATE TABLE "roleRequest" (
+	"id" text PRIMARY KEY NOT NULL,
+	"userId" text NOT NULL,
+	"roleId" text NOT NULL,
+	"durationHours" integer NOT NULL,
+	"justification" text NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"reviewedBy" text,
+	"reviewedAt" timestamp,
+	"reviewNote" text,
+	"grantExpiresAt" timestamp,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "userRole" ADD COLUMN "expiryNotifiedAt" timestamp;--> statement-breakpoint
+ALTER TABLE "roleRequest" ADD CONSTRAINT "roleRequest_userId_user_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "roleRequest" ADD CONSTRAINT "roleRequest_roleId_role_id_fk" FOREIGN KEY ("roleId") REFERENCES "public"."role"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "roleRequest" ADD CONSTRAINT "roleRequest_reviewedBy_user_id_fk" FOREIGN KEY ("reviewedBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "roleRequest_status_idx" ON "roleRequest" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "roleRequest_userId_idx" ON "roleRequest" USING btree ("userId");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "securitySettings" ADD COLUMN "legacyRoleAccessEnabled" boolean DEFAULT true NOT NULL;
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "generationUsage" (
+	"id" text PRIMARY KEY NOT NULL,
+	"jobId" text NOT NULL,
+	"userId" text,
+	"batch" integer NOT NULL,
+	"promptTokens" integer DEFAULT 0 NOT NULL,
+	"completionTokens" integer DEFAULT 0 NOT NULL,
+	"costUsd" double precision DEFAULT 0 NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "generationUsage" ADD CONSTRAINT "generationUsage_jobId_generationJob_id_fk" FOREIGN KEY ("jobId") REFERENCES "public"."generationJob"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generationUsage" ADD CONSTRAINT "generationUsage_userId_user_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "generationUsage_userId_createdAt_idx" ON "generationUsage" USING btree ("userId","createdAt");--> statement-breakpoint
+CREATE INDEX "generationUsage_jobId_idx" ON "generationUsage" USING btree ("jobId");--> statement-breakpoint
+INSERT INTO "generationUsage" ("id", "jobId", "userId", "batch", "promptTokens", "completionTokens", "costUsd", "createdAt")
+SELECT 'backfill_' || "id", "id", "userId", 0, "promptTokens", "completionTokens", "estimatedCostUsd", "createdAt"
+FROM "generationJob"
+WHERE "promptTokens" > 0 OR "completionTokens" > 0 OR "estimatedCostUsd" > 0;
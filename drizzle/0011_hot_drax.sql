@@ -0,0 +1 @@
+ALTER TABLE "generationJob" ADD COLUMN "workerId" text;
\ No newline at end of file
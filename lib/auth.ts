@@ -4,6 +4,7 @@ import { twoFactor } from 'better-auth/plugins/two-factor';
 import { eq } from 'drizzle-orm';
 import { db } from './db';
 import * as schema from './db/schema';
+import { enforceSessionCap } from './security';
 
 export const auth = betterAuth({
   database: drizzleAdapter(db, {
@@ -22,6 +23,13 @@ export const auth = betterAuth({
     'change-me-in-production-min-32-chars',
   baseURL:
     process.env.BETTER_AUTH_URL || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
+  user: {
+    // Exposed on the session so the proxy can enforce password policy without another query.
+    additionalFields: {
+      mustChangePassword: { type: 'boolean', required: false, input: false },
+      passwordChangedAt: { type: 'date', required: false, input: false },
+    },
+  },
   emailAndPassword: {
     enabled: true,
     requireEmailVerification: false, // We'll handle this manually for admin accounts
@@ -33,6 +41,18 @@ export const auth = betterAuth({
     expiresIn: 60 * 60 * 24 * 7, // 7 days
     updateAge: 60 * 60 * 24, // 1 day
   },
+  databaseHooks: {
+    session: {
+      create: {
+        // New sign-ins win: older sessions over `maxActiveSessionsPerUser` are revoked.
+        after: async (created) => {
+          await enforceSessionCap(created.userId, created.id).catch((error: unknown) =>
+            console.error('Failed to enforce session cap', error)
+          );
+        },
+      },
+    },
+  },
   trustedOrigins: process.env.NEXT_PUBLIC_APP_URL
     ? [process.env.NEXT_PUBLIC_APP_URL]
     : ['http://localhost:3000'],
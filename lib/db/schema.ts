@@ -1,5 +1,6 @@
 import {
   boolean,
+  doublePrecision,
   index,
   integer,
   jsonb,
@@ -7,6 +8,7 @@ import {
   primaryKey,
   text,
   timestamp,
+  uniqueIndex,
   varchar,
 } from 'drizzle-orm/pg-core';
 
@@ -180,6 +182,8 @@ export const userRole = pgTable(
     assignedBy: text('assignedBy').references(() => user.id), // Who assigned this role
     assignedAt: timestamp('assignedAt').notNull().defaultNow(),
     expiresAt: timestamp('expiresAt'), // Optional expiration
+    // When the holder was warned that the grant is about to expire
+    expiryNotifiedAt: timestamp('expiryNotifiedAt'),
   },
   (table) => ({
     pk: primaryKey({ columns: [table.userId, table.roleId] }),
@@ -188,6 +192,36 @@ export const userRole = pgTable(
   })
 );
 
+// RoleRequests - Just-in-time elevation: an admin asks for a role for a few hours,
+// a superadmin approves it as a userRole grant with `expiresAt`
+export const roleRequest = pgTable(
+  'roleRequest',
+  {
+    id: text('id').primaryKey(),
+    userId: text('userId')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    roleId: text('roleId')
+      .notNull()
+      .references(() => role.id, { onDelete: 'cascade' }),
+    durationHours: integer('durationHours').notNull(),
+    justification: text('justification').notNull(),
+    // 'pending' | 'approved' | 'denied' | 'cancelled'
+    status: varchar('status', { length: 20 }).notNull().default('pending'),
+    reviewedBy: text('reviewedBy').references(() => user.id, { onDelete: 'set null' }),
+    reviewedAt: timestamp('reviewedAt'),
+    reviewNote: text('reviewNote'),
+    // Expiry of the grant made on approval
+    grantExpiresAt: timestamp('grantExpiresAt'),
+    createdAt: timestamp('createdAt').notNull().defaultNow(),
+    updatedAt: timestamp('updatedAt').notNull().defaultNow(),
+  },
+  (table) => ({
+    statusIdx: index('roleRequest_status_idx').on(table.status),
+    userIdIdx: index('roleRequest_userId_idx').on(table.userId),
+  })
+);
+
 // ResourcePermissions - Granular resource-specific permissions (e.g., specific user, specific collection)
 export const resourcePermission = pgTable(
   'resourcePermission',
@@ -247,6 +281,10 @@ export const securitySettings = pgTable('securitySettings', {
   // 0 = unlimited concurrent sessions
   maxActiveSessionsPerUser: integer('maxActiveSessionsPerUser').notNull().default(0),
 
+  // Whether the legacy `user.role` column still grants access in permission checks.
+  // Turned off once legacy admins have equivalent RBAC roles.
+  legacyRoleAccessEnabled: boolean('legacyRoleAccessEnabled').notNull().default(true),
+
   createdAt: timestamp('createdAt').notNull().defaultNow(),
   updatedAt: timestamp('updatedAt').notNull().defaultNow(),
 });
@@ -277,3 +315,214 @@ export const auditLog = pgTable(
     createdAtIdx: index('auditLog_createdAt_idx').on(table.createdAt),
   })
 );
+
+/**
+ * Content generation jobs.
+ *
+ * Each row is one `/api/generate` run. The worker checkpoints after every
+ * batch (`batchResults` + `docs`), so a failed or interrupted job can be
+ * resumed by re-running only the batches that did not succeed.
+ */
+export const generationJob = pgTable(
+  'generationJob',
+  {
+    id: text('id').primaryKey(),
+    userId: text('userId').references(() => user.id, { onDelete: 'set null' }),
+    jobName: text('jobName').notNull(),
+    // 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+    status: varchar('status', { length: 20 }).notNull().default('queued'),
+    config: jsonb('config').notNull(),
+    total: integer('total').notNull().default(0),
+    completed: integer('completed').notNull().default(0),
+    batchesTotal: integer('batchesTotal').notNull().default(0),
+    batchesCompleted: integer('batchesCompleted').notNull().default(0),
+    // Generated docs so far, ordered by batch: Array<{ id: string; data: unknown }>
+    docs: jsonb('docs').notNull().default('[]'),
+    // Per-batch outcome keyed by 1-based batch number:
+    // { status: 'succeeded' | 'abandoned', count, retries, error? }
+    batchResults: jsonb('batchResults').notNull().default('{}'),
+    // Sink outcome once written, e.g. { sink: 'firestore', collection } or { sink: 'file', path }
+    result: jsonb('result'),
+    message: text('message'),
+    error: text('error'),
+    attempts: integer('attempts').notNull().default(0),
+    // Lease id of the run currently executing the job; null while queued
+    workerId: text('workerId'),
+    // Token usage across all attempts, and its estimated cost (see lib/llm/pricing.ts)
+    promptTokens: integer('promptTokens').notNull().default(0),
+    completionTokens: integer('completionTokens').notNull().default(0),
+    estimatedCostUsd: doublePrecision('estimatedCostUsd').notNull().default(0),
+    startedAt: timestamp('startedAt'),
+    finishedAt: timestamp('finishedAt'),
+    createdAt: timestamp('createdAt').notNull().defaultNow(),
+    updatedAt: timestamp('updatedAt').notNull().defaultNow(),
+  },
+  (table) => ({
+    userIdIdx: index('generationJob_userId_idx').on(table.userId),
+    statusIdx: index('generationJob_status_idx').on(table.status),
+    createdAtIdx: index('generationJob_createdAt_idx').on(table.createdAt),
+  })
+);
+
+/**
+ * Append-only progress events for a generation job.
+ *
+ * SSE streams replay these by `seq`, which is what lets a client reattach to a
+ * running job (or review a finished one) after the original tab is gone.
+ */
+export const generationJobEvent = pgTable(
+  'generationJobEvent',
+  {
+    id: text('id').primaryKey(),
+    jobId: text('jobId')
+      .notNull()
+      .references(() => generationJob.id, { onDelete: 'cascade' }),
+    seq: integer('seq').notNull(),
+    type: varchar('type', { length: 40 }).notNull(),
+    payload: jsonb('payload'),
+    createdAt: timestamp('createdAt').notNull().defaultNow(),
+  },
+  (table) => ({
+    jobSeqIdx: uniqueIndex('generationJobEvent_jobId_seq_idx').on(table.jobId, table.seq),
+  })
+);
+
+/**
+ * Token usage and estimated cost per finished batch attempt.
+ *
+ * Budgets sum these by `createdAt`, so spend lands in the month the tokens
+ * were used even for jobs that are resumed or run across a month boundary.
+ * `userId` is copied from the job so the monthly sum needs no join.
+ */
+export const generationUsage = pgTable(
+  'generationUsage',
+  {
+    id: text('id').primaryKey(),
+    jobId: text('jobId')
+      .notNull()
+      .references(() => generationJob.id, { onDelete: 'cascade' }),
+    userId: text('userId').references(() => user.id, { onDelete: 'set null' }),
+    // 1-based batch number; 0 for totals backfilled from jobs run before this table
+    batch: integer('batch').notNull(),
+    promptTokens: integer('promptTokens').notNull().default(0),
+    completionTokens: integer('completionTokens').notNull().default(0),
+    costUsd: doublePrecision('costUsd').notNull().default(0),
+    createdAt: timestamp('createdAt').notNull().defaultNow(),
+  },
+  (table) => ({
+    userCreatedAtIdx: index('generationUsage_userId_createdAt_idx').on(
+      table.userId,
+      table.createdAt
+    ),
+    jobIdIdx: index('generationUsage_jobId_idx').on(table.jobId),
+  })
+);
+
+/**
+ * Monthly generation spend cap per admin, in estimated USD.
+ *
+ * Admins without a row fall back to `GENERATION_MONTHLY_BUDGET_USD`
+ * (unset = unlimited). Spend is the sum of `generationUsage.costUsd`
+ * recorded in the current calendar month (UTC).
+ */
+export const generationBudget = pgTable('generationBudget', {
+  userId: text('userId')
+    .primaryKey()
+    .references(() => user.id, { onDelete: 'cascade' }),
+  // null = unlimited for this admin, overriding the env default
+  monthlyLimitUsd: doublePrecision('monthlyLimitUsd'),
+  updatedBy: text('updatedBy').references(() => user.id, { onDelete: 'set null' }),
+  createdAt: timestamp('createdAt').notNull().defaultNow(),
+  updatedAt: timestamp('updatedAt').notNull().defaultNow(),
+});
+
+/**
+ * Saved generation templates (the DB-backed counterpart of lib/templates.ts).
+ *
+ * `private` templates are visible to their owner only; `shared` ones to every
+ * admin with generate:read, and only generate:manage can publish or edit them.
+ * Every save appends a row to `generationTemplateVersion`.
+ */
+export const generationTemplate = pgTable(
+  'generationTemplate',
+  {
+    id: text('id').primaryKey(),
+    name: text('name').notNull(),
+    description: text('description').notNull().default(''),
+    icon: varchar('icon', { length: 20 }).notNull().default('custom'),
+    // 'private' | 'shared'
+    visibility: varchar('visibility', { length: 20 }).notNull().default('private'),
+    ownerId: text('ownerId').references(() => user.id, { onDelete: 'set null' }),
+    currentVersion: integer('currentVersion').notNull().default(1),
+    // Built-in template id this one was cloned from, if any
+    sourceTemplateId: text('sourceTemplateId'),
+    createdAt: timestamp('createdAt').notNull().defaultNow(),
+    updatedAt: timestamp('updatedAt').notNull().defaultNow(),
+  },
+  (table) => ({
+    ownerIdIdx: index('generationTemplate_ownerId_idx').on(table.ownerId),
+    visibilityIdx: index('generationTemplate_visibility_idx').on(table.visibility),
+  })
+);
+
+/**
+ * Immutable snapshots of a template. `config` is a Partial<GenerationConfig>.
+ */
+export const generationTemplateVersion = pgTable(
+  'generationTemplateVersion',
+  {
+    id: text('id').primaryKey(),
+    templateId: text('templateId')
+      .notNull()
+      .references(() => generationTemplate.id, { onDelete: 'cascade' }),
+    version: integer('version').notNull(),
+    name: text('name').notNull(),
+    description: text('description').notNull().default(''),
+    config: jsonb('config').notNull(),
+    changeNote: text('changeNote'),
+    authorId: text('authorId').references(() => user.id, { onDelete: 'set null' }),
+    createdAt: timestamp('createdAt').notNull().defaultNow(),
+  },
+  (table) => ({
+    templateVersionIdx: uniqueIndex('generationTemplateVersion_templateId_version_idx').on(
+      table.templateId,
+      table.version
+    ),
+  })
+);
+
+/**
+ * Generated items held for review by the `staging` sink.
+ *
+ * Editors can change `data` or reject items; approving one promotes it into
+ * `collection` in Firestore with the job's write mode.
+ */
+export const generationStagedItem = pgTable(
+  'generationStagedItem',
+  {
+    id: text('id').primaryKey(),
+    jobId: text('jobId').references(() => generationJob.id, { onDelete: 'set null' }),
+    // Target Firestore collection and doc id once approved
+    collection: text('collection').notNull(),
+    docId: text('docId').notNull(),
+    data: jsonb('data').notNull(),
+    writeMode: varchar('writeMode', { length: 20 }).notNull().default('merge'),
+    // 'pending' | 'approved' | 'rejected'
+    status: varchar('status', { length: 20 }).notNull().default('pending'),
+    editedBy: text('editedBy').references(() => user.id, { onDelete: 'set null' }),
+    editedAt: timestamp('editedAt'),
+    reviewedBy: text('reviewedBy').references(() => user.id, { onDelete: 'set null' }),
+    reviewedAt: timestamp('reviewedAt'),
+    rejectReason: text('rejectReason'),
+    createdAt: timestamp('createdAt').notNull().defaultNow(),
+    updatedAt: timestamp('updatedAt').notNull().defaultNow(),
+  },
+  (table) => ({
+    statusCollectionIdx: index('generationStagedItem_status_collection_idx').on(
+      table.status,
+      table.collection
+    ),
+    jobIdIdx: index('generationStagedItem_jobId_idx').on(table.jobId),
+    jobDocIdx: uniqueIndex('generationStagedItem_jobId_docId_idx').on(table.jobId, table.docId),
+  })
+);
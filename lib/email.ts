@@ -16,6 +16,13 @@ export type SendLoginAlertEmailInput = {
   userAgent?: string | null;
 };
 
+export type SendRoleExpiryEmailInput = {
+  to: string;
+  name?: string | null;
+  roleName: string;
+  expiresAt: Date;
+};
+
 type SmtpEnv = {
   host: string;
   port: number;
@@ -185,6 +192,58 @@ export async function sendLoginAlertEmail(input: SendLoginAlertEmailInput) {
   });
 }
 
+export async function sendRoleExpiryEmail(input: SendRoleExpiryEmailInput) {
+  const smtp = getSmtpEnv();
+  if (!smtp) {
+    // Expiry notices are informational; the grant expires either way.
+    console.warn('SMTP is not configured; role expiry email was skipped.');
+    return;
+  }
+
+  const transporter = nodemailer.createTransport({
+    host: smtp.host,
+    port: smtp.port,
+    secure: smtp.secure,
+    auth: {
+      user: smtp.user,
+      pass: smtp.pass,
+    },
+  });
+
+  const subject = `Iki Admin: your ${input.roleName} access expires soon`;
+  const expiresAt = input.expiresAt.toISOString();
+  const greeting = input.name ? `Hi ${input.name},` : 'Hi,';
+
+  const text = [
+    greeting,
+    '',
+    `Your temporary ${input.roleName} role in Iki Admin expires at ${expiresAt} (UTC).`,
+    'Finish any work that needs it before then, or request access again from the RBAC page.',
+  ].join('\n');
+
+  const html = `
+  <div style="font-family: ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial; line-height: 1.5; color: #0b1220;">
+    <h2 style="margin: 0 0 12px;">Temporary access expiring</h2>
+    <p style="margin: 0 0 12px;">${escapeHtml(greeting)}</p>
+    <p style="margin: 0 0 12px;">
+      Your temporary <strong>${escapeHtml(input.roleName)}</strong> role in Iki Admin expires at
+      <strong>${escapeHtml(expiresAt)}</strong> (UTC).
+    </p>
+    <p style="margin: 0;">
+      Finish any work that needs it before then, or request access again from the RBAC page.
+    </p>
+  </div>
+  `;
+
+  await transporter.sendMail({
+    from: smtp.from,
+    to: input.to,
+    subject,
+    text,
+    html,
+  });
+}
+
 function escapeHtml(value: string) {
   return value
     .replaceAll('&', '&amp;')
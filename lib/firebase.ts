@@ -1,4 +1,5 @@
 import admin from 'firebase-admin';
+import type { WriteMode } from './types';
 
 let initialized = false;
 
@@ -42,13 +43,54 @@ export function initFirebase() {
   return admin;
 }
 
+/**
+ * Load the `data` payload of existing docs by id. Missing ids are simply
+ * absent from the returned map.
+ */
+export async function readFirestoreDocs(
+  collection: string,
+  ids: string[]
+): Promise<Map<string, unknown>> {
+  initFirebase();
+  const db = admin.firestore();
+  const found = new Map<string, unknown>();
+  const chunkSize = 300;
+
+  for (let i = 0; i < ids.length; i += chunkSize) {
+    const refs = ids.slice(i, i + chunkSize).map((id) => db.collection(collection).doc(id));
+    if (refs.length === 0) continue;
+    const snaps = await db.getAll(...refs);
+    for (const snap of snaps) {
+      if (snap.exists) found.set(snap.id, snap.get('data'));
+    }
+  }
+
+  return found;
+}
+
+/** Ids of up to `limit` docs in a collection, in id order. */
+export async function listFirestoreDocIds(collection: string, limit: number): Promise<string[]> {
+  initFirebase();
+  const snap = await admin.firestore().collection(collection).select().limit(limit).get();
+  return snap.docs.map((doc) => doc.id);
+}
+
+/** The `data` payload of up to `limit` docs in a collection, in doc id order. */
+export async function listFirestoreDocData(collection: string, limit: number): Promise<unknown[]> {
+  initFirebase();
+  const snap = await admin.firestore().collection(collection).select('data').limit(limit).get();
+  return snap.docs.map((doc) => doc.get('data'));
+}
+
 export async function writeToFirestore(
   collection: string,
-  docs: { id: string; data: any }[]
+  docs: { id: string; data: any }[],
+  options: { mode?: WriteMode; existingIds?: Set<string> } = {}
 ): Promise<void> {
   initFirebase();
   const db = admin.firestore();
   const batchSize = 400;
+  const mode = options.mode ?? 'merge';
 
   for (let i = 0; i < docs.length; i += batchSize) {
     const chunk = docs.slice(i, i + batchSize);
@@ -56,15 +98,20 @@ export async function writeToFirestore(
 
     for (const doc of chunk) {
       const ref = db.collection(collection).doc(doc.id);
-      batch.set(
-        ref,
-        {
-          data: doc.data,
-          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-          createdAt: admin.firestore.FieldValue.serverTimestamp(),
-        },
-        { merge: true }
-      );
+      const now = admin.firestore.FieldValue.serverTimestamp();
+
+      if (mode === 'overwrite') {
+        // Replace the whole doc, including any fields added outside the generator.
+        batch.set(ref, { data: doc.data, updatedAt: now, createdAt: now });
+      } else {
+        // Keep the original creation time when merging into a known doc.
+        const exists = options.existingIds?.has(doc.id) ?? false;
+        batch.set(
+          ref,
+          { data: doc.data, updatedAt: now, ...(exists ? {} : { createdAt: now }) },
+          { merge: true }
+        );
+      }
     }
 
     await batch.commit();
@@ -0,0 +1,183 @@
+import { createHash, randomUUID } from 'node:crypto';
+import type { IdStrategy, WriteMode } from './types';
+
+export type GeneratedDoc = { id: string; data: unknown };
+
+export type DocChangeStatus = 'new' | 'changed' | 'unchanged' | 'duplicate';
+
+export type FieldChange = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+export type DocDiff = {
+  id: string;
+  status: DocChangeStatus;
+  changes?: FieldChange[];
+};
+
+export type WriteReport = {
+  total: number;
+  new: number;
+  changed: number;
+  unchanged: number;
+  duplicate: number;
+  // Docs the chosen write mode will actually write
+  toWrite: number;
+  mode: WriteMode;
+};
+
+export const DEFAULT_WRITE_MODE: WriteMode = 'merge';
+
+// Cap on the per-doc diff we keep on a job / send over SSE.
+export const MAX_DIFF_ENTRIES = 500;
+
+function slugify(value: unknown): string {
+  return String(value).trim().replace(/\s+/g, '-').replace(/\//g, '-').toLowerCase();
+}
+
+function getPath(obj: unknown, path: string): unknown {
+  let current: unknown = obj;
+  for (const key of path.split('.')) {
+    if (current == null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+// JSON.stringify with sorted keys so equal objects hash and compare equal.
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+      .map((k) => `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function contentHash(data: unknown): string {
+  return createHash('sha256').update(stableStringify(data)).digest('hex').slice(0, 20);
+}
+
+/**
+ * Derive a Firestore doc id for a generated item.
+ *
+ * - `auto` (default): first of id / name / condition_name / exercise_name
+ * - `field`: value at a dot path, e.g. `meta.slug`
+ * - `hash`: content hash, so identical items always share an id
+ * - `uuid`: random id, every item is new
+ *
+ * Field-based strategies fall back to `item-N` when the value is missing.
+ */
+export function docIdFor(
+  item: unknown,
+  strategy: IdStrategy | undefined,
+  position: number
+): string {
+  const kind = strategy?.type ?? 'auto';
+
+  if (kind === 'uuid') return randomUUID();
+  if (kind === 'hash') return contentHash(item);
+
+  const value =
+    kind === 'field' && strategy?.type === 'field'
+      ? getPath(item, strategy.fieldPath)
+      : ['id', 'name', 'condition_name', 'exercise_name']
+          .map((key) => getPath(item, key))
+          .find(Boolean);
+
+  if (value === undefined || value === null || String(value).trim() === '') {
+    return `item-${position}`;
+  }
+  return slugify(value);
+}
+
+/**
+ * Collapse docs that share an id within a run. The first occurrence wins;
+ * later ones are returned separately so they can be reported instead of
+ * silently overwriting each other in the same write batch.
+ */
+export function dedupeDocs(docs: GeneratedDoc[]) {
+  const seen = new Set<string>();
+  const unique: GeneratedDoc[] = [];
+  const duplicates: GeneratedDoc[] = [];
+  for (const doc of docs) {
+    if (seen.has(doc.id)) {
+      duplicates.push(doc);
+    } else {
+      seen.add(doc.id);
+      unique.push(doc);
+    }
+  }
+  return { unique, duplicates };
+}
+
+function diffFields(before: unknown, after: unknown): FieldChange[] {
+  const prev = (before && typeof before === 'object' ? before : {}) as Record<string, unknown>;
+  const next = (after && typeof after === 'object' ? after : {}) as Record<string, unknown>;
+  const keys = Array.from(new Set([...Object.keys(prev), ...Object.keys(next)])).sort();
+
+  const changes: FieldChange[] = [];
+  for (const key of keys) {
+    if (stableStringify(prev[key]) !== stableStringify(next[key])) {
+      changes.push({ field: key, before: prev[key], after: next[key] });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Compare generated docs against what is already stored in the target.
+ * `existing` maps doc id -> stored `data` payload for ids that exist.
+ */
+export function buildWritePlan(
+  docs: GeneratedDoc[],
+  existing: Map<string, unknown>,
+  mode: WriteMode
+) {
+  const { unique, duplicates } = dedupeDocs(docs);
+  const diffs: DocDiff[] = [];
+  const toWrite: GeneratedDoc[] = [];
+  const counts = { new: 0, changed: 0, unchanged: 0 };
+
+  for (const doc of unique) {
+    if (!existing.has(doc.id)) {
+      counts.new++;
+      diffs.push({ id: doc.id, status: 'new' });
+      toWrite.push(doc);
+      continue;
+    }
+
+    const changes = diffFields(existing.get(doc.id), doc.data);
+    if (changes.length === 0) {
+      counts.unchanged++;
+      diffs.push({ id: doc.id, status: 'unchanged' });
+      // Overwrite still rewrites timestamps; merge/skip have nothing to do.
+      if (mode === 'overwrite') toWrite.push(doc);
+    } else {
+      counts.changed++;
+      diffs.push({ id: doc.id, status: 'changed', changes });
+      if (mode !== 'skip-existing') toWrite.push(doc);
+    }
+  }
+
+  for (const doc of duplicates) {
+    diffs.push({ id: doc.id, status: 'duplicate' });
+  }
+
+  const report: WriteReport = {
+    total: docs.length,
+    new: counts.new,
+    changed: counts.changed,
+    unchanged: counts.unchanged,
+    duplicate: duplicates.length,
+    toWrite: toWrite.length,
+    mode,
+  };
+
+  return { report, diffs, toWrite };
+}
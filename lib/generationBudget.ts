@@ -0,0 +1,134 @@
+import { logAuditEvent } from '@/lib/audit';
+import { db } from '@/lib/db';
+import { generationBudget, generationUsage } from '@/lib/db/schema';
+import { and, eq, gte, sum } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+
+export interface GenerationBudgetStatus {
+  userId: string;
+  // null = unlimited
+  limitUsd: number | null;
+  spentUsd: number;
+  remainingUsd: number | null;
+  exceeded: boolean;
+  // Where the limit comes from: a per-admin row, the env default, or nothing
+  source: 'user' | 'default' | 'none';
+  periodStart: number;
+}
+
+export function getEnvMonthlyBudget(): number | null {
+  const value = Number(process.env.GENERATION_MONTHLY_BUDGET_USD);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+// Budgets reset at the start of each calendar month (UTC).
+export function currentBudgetPeriodStart(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Record what one batch attempt spent. Stamped with the time it finished, so a
+ * job running over a month boundary or resumed later bills each month for its
+ * own batches.
+ */
+export async function recordBatchUsage(params: {
+  jobId: string;
+  userId: string | null;
+  batch: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}) {
+  if (params.promptTokens === 0 && params.completionTokens === 0 && params.costUsd === 0) return;
+  await db.insert(generationUsage).values({ id: nanoid(), ...params, createdAt: new Date() });
+}
+
+export async function getMonthlySpend(userId: string, now = new Date()): Promise<number> {
+  const [row] = await db
+    .select({ total: sum(generationUsage.costUsd) })
+    .from(generationUsage)
+    .where(
+      and(
+        eq(generationUsage.userId, userId),
+        gte(generationUsage.createdAt, currentBudgetPeriodStart(now))
+      )
+    );
+  return Number(row?.total ?? 0);
+}
+
+export async function getBudgetStatus(userId: string): Promise<GenerationBudgetStatus> {
+  const [row] = await db
+    .select()
+    .from(generationBudget)
+    .where(eq(generationBudget.userId, userId))
+    .limit(1);
+
+  const envLimit = getEnvMonthlyBudget();
+  const limitUsd = row ? row.monthlyLimitUsd : envLimit;
+  const spentUsd = await getMonthlySpend(userId);
+
+  return {
+    userId,
+    limitUsd,
+    spentUsd,
+    remainingUsd: limitUsd === null ? null : Math.max(limitUsd - spentUsd, 0),
+    exceeded: limitUsd !== null && spentUsd >= limitUsd,
+    source: row ? 'user' : envLimit !== null ? 'default' : 'none',
+    periodStart: currentBudgetPeriodStart().getTime(),
+  };
+}
+
+/**
+ * Returns an error message when the admin has used up this month's budget.
+ * Jobs without an owner (system runs) are never capped.
+ */
+export async function checkGenerationBudget(userId: string | null): Promise<string | null> {
+  if (!userId) return null;
+  const status = await getBudgetStatus(userId);
+  if (!status.exceeded) return null;
+  return `Monthly generation budget exceeded ($${status.spentUsd.toFixed(2)} of $${status.limitUsd?.toFixed(2)})`;
+}
+
+/**
+ * Set an admin's monthly limit (`null` = unlimited), or drop the override with
+ * `resetToDefault` so the env default applies again.
+ */
+export async function setMonthlyBudget(params: {
+  userId: string;
+  limitUsd: number | null;
+  resetToDefault?: boolean;
+  actorId: string | null;
+}) {
+  const { userId, limitUsd, resetToDefault, actorId } = params;
+
+  if (resetToDefault) {
+    await db.delete(generationBudget).where(eq(generationBudget.userId, userId));
+  } else {
+    const now = new Date();
+    await db
+      .insert(generationBudget)
+      .values({
+        userId,
+        monthlyLimitUsd: limitUsd,
+        updatedBy: actorId,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .onConflictDoUpdate({
+        target: generationBudget.userId,
+        set: { monthlyLimitUsd: limitUsd, updatedBy: actorId, updatedAt: now },
+      });
+  }
+
+  await logAuditEvent({
+    userId: actorId,
+    action: 'GENERATION_BUDGET_UPDATED',
+    severity: 'medium',
+    message: resetToDefault
+      ? `Reset generation budget for ${userId} to default`
+      : `Set generation budget for ${userId} to ${limitUsd === null ? 'unlimited' : `$${limitUsd}`}`,
+    metadata: { targetUserId: userId, limitUsd, resetToDefault: Boolean(resetToDefault) },
+  });
+
+  return getBudgetStatus(userId);
+}
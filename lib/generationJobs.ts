@@ -0,0 +1,831 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { db } from '@/lib/db';
+import { generationJob, generationJobEvent } from '@/lib/db/schema';
+import { listFirestoreDocData, readFirestoreDocs, writeToFirestore } from '@/lib/firebase';
+import {
+  DEFAULT_WRITE_MODE,
+  type GeneratedDoc,
+  MAX_DIFF_ENTRIES,
+  buildWritePlan,
+} from '@/lib/generatedDocs';
+import { checkGenerationBudget, recordBatchUsage } from '@/lib/generationBudget';
+import { listPendingStagedData, stageDocs } from '@/lib/generationStaging';
+import { batchSlice, resolveProvider, runBatches } from '@/lib/generator';
+import { estimateCost } from '@/lib/llm/pricing';
+import {
+  MAX_EXISTING_NAMES,
+  formatExistingNames,
+  itemNameOf,
+  usesExistingNames,
+} from '@/lib/promptVariables';
+import { ACTIONS, RESOURCE_TYPES, hasPermission } from '@/lib/rbac';
+import { existingTranslation } from '@/lib/translation';
+import type {
+  GenerationConfig,
+  GenerationJob,
+  GenerationJobEvent,
+  GenerationJobStatus,
+} from '@/lib/types';
+import { type SQL, and, asc, desc, eq, gt, inArray, lt, max } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+
+type GenerationJobRow = typeof generationJob.$inferSelect;
+
+export const TERMINAL_JOB_STATUSES: GenerationJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+// A running job whose row hasn't been touched for this long is assumed to have
+// lost its worker (server restart, crashed lambda) and may be resumed.
+const STALE_RUNNING_MS = 2 * 60_000;
+
+// How often a run touches its job row while batches are in flight. A single
+// batch can outlast STALE_RUNNING_MS, so checkpoints alone don't keep it live.
+const HEARTBEAT_MS = 30_000;
+
+// Jobs being executed by this process. Prevents double-starting the same job
+// when a retry races an in-flight worker.
+const activeJobs = new Set<string>();
+
+export function toGenerationJob(row: GenerationJobRow): GenerationJob {
+  const config = (row.config || {}) as Partial<GenerationConfig>;
+  return {
+    id: row.id,
+    jobName: row.jobName,
+    status: row.status as GenerationJobStatus,
+    completed: row.completed,
+    total: row.total,
+    batchesCompleted: row.batchesCompleted,
+    batchesTotal: row.batchesTotal,
+    attempts: row.attempts,
+    provider: config.provider || 'openai',
+    model: config.model || '',
+    usage: {
+      promptTokens: row.promptTokens,
+      completionTokens: row.completionTokens,
+      costUsd: row.estimatedCostUsd,
+    },
+    collection: config.collection || '',
+    sink: config.sink || 'firestore',
+    message: row.message ?? undefined,
+    error: row.error ?? undefined,
+    createdBy: row.userId,
+    createdAt: row.createdAt.getTime(),
+    updatedAt: row.updatedAt.getTime(),
+    finishedAt: row.finishedAt ? row.finishedAt.getTime() : null,
+  };
+}
+
+export function isJobResumable(row: GenerationJobRow): boolean {
+  if (row.status === 'failed' || row.status === 'cancelled') return true;
+  // Completed with partial results: the abandoned batches can be re-run.
+  if (row.status === 'completed') return abandonedBatchesOf(batchResultsOf(row)).length > 0;
+  if (row.status === 'queued' || row.status === 'running') {
+    if (activeJobs.has(row.id)) return false;
+    return Date.now() - row.updatedAt.getTime() > STALE_RUNNING_MS;
+  }
+  return false;
+}
+
+// Only the job's creator, or someone with generate:manage, may cancel or resume it.
+export async function canControlGenerationJob(row: GenerationJobRow, userId: string) {
+  if (row.userId === userId) return true;
+  return hasPermission(userId, RESOURCE_TYPES.GENERATE, ACTIONS.MANAGE);
+}
+
+export async function getGenerationJobRow(jobId: string) {
+  const rows = await db.select().from(generationJob).where(eq(generationJob.id, jobId)).limit(1);
+  return rows[0] ?? null;
+}
+
+export async function listGenerationJobs(params: { limit: number; userId?: string }) {
+  const rows = await db
+    .select()
+    .from(generationJob)
+    .where(params.userId ? eq(generationJob.userId, params.userId) : undefined)
+    .orderBy(desc(generationJob.createdAt))
+    .limit(params.limit);
+  return rows.map((row) => ({ ...toGenerationJob(row), resumable: isJobResumable(row) }));
+}
+
+export async function createGenerationJob(
+  config: GenerationConfig,
+  userId: string | null
+): Promise<GenerationJobRow> {
+  const now = new Date();
+  const [row] = await db
+    .insert(generationJob)
+    .values({
+      id: nanoid(),
+      userId,
+      jobName: config.jobName || 'generation',
+      status: 'queued',
+      config,
+      total: config.count,
+      batchesTotal: Math.ceil(config.count / config.batchSize),
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+  await appendJobEvent(row.id, 'queued', { total: config.count });
+  return row;
+}
+
+async function nextEventSeq(jobId: string): Promise<number> {
+  const [row] = await db
+    .select({ seq: max(generationJobEvent.seq) })
+    .from(generationJobEvent)
+    .where(eq(generationJobEvent.jobId, jobId));
+  return (row?.seq ?? 0) + 1;
+}
+
+export async function appendJobEvent(
+  jobId: string,
+  type: string,
+  payload: Record<string, unknown> = {}
+) {
+  // The worker and the cancel endpoint can append at the same time; the unique
+  // (jobId, seq) index turns that race into a retry instead of a duplicate seq.
+  for (let attempt = 0; ; attempt++) {
+    const seq = await nextEventSeq(jobId);
+    try {
+      await db.insert(generationJobEvent).values({
+        id: nanoid(),
+        jobId,
+        seq,
+        type,
+        payload,
+        createdAt: new Date(),
+      });
+      return;
+    } catch (error) {
+      if (attempt >= 2) throw error;
+    }
+  }
+}
+
+export async function listJobEvents(jobId: string, afterSeq = 0): Promise<GenerationJobEvent[]> {
+  const rows = await db
+    .select()
+    .from(generationJobEvent)
+    .where(and(eq(generationJobEvent.jobId, jobId), gt(generationJobEvent.seq, afterSeq)))
+    .orderBy(asc(generationJobEvent.seq));
+  return rows.map((r) => ({
+    ...((r.payload as Record<string, unknown>) || {}),
+    seq: r.seq,
+    type: r.type,
+    jobId: r.jobId,
+  }));
+}
+
+// `guard` narrows the write to a row its caller still owns, e.g. the run's
+// lease. Returns whether the row was updated.
+async function updateJob(
+  jobId: string,
+  patch: Partial<typeof generationJob.$inferInsert>,
+  guard?: SQL
+) {
+  const rows = await db
+    .update(generationJob)
+    .set({ ...patch, updatedAt: new Date() })
+    .where(and(eq(generationJob.id, jobId), guard))
+    .returning({ id: generationJob.id });
+  return rows.length > 0;
+}
+
+const heldBy = (leaseId: string) => eq(generationJob.workerId, leaseId);
+
+function fileSinkPath(config: GenerationConfig) {
+  const outDir = process.env.OUT_DIR || './output';
+  return { outDir, filePath: path.join(outDir, `${config.collection}.json`) };
+}
+
+async function readFileSinkDocs(filePath: string): Promise<GeneratedDoc[]> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    return Array.isArray(parsed?.docs) ? parsed.docs : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Names already present in the job's target, for the `{existing_names}`
+ * placeholder. For the staging sink this includes items still under review.
+ */
+export async function readExistingNames(config: GenerationConfig): Promise<string[]> {
+  let items: unknown[];
+  if (config.sink === 'file') {
+    items = (await readFileSinkDocs(fileSinkPath(config).filePath)).map((d) => d.data);
+  } else {
+    items = await listFirestoreDocData(config.collection, MAX_EXISTING_NAMES);
+    if (config.sink === 'staging') {
+      items = items.concat(await listPendingStagedData(config.collection, MAX_EXISTING_NAMES));
+    }
+  }
+  return items.map(itemNameOf).filter((name): name is string => name !== null);
+}
+
+/**
+ * Diff generated docs against the sink target and decide what the configured
+ * write mode will write. Used for the pre-write report and for dry runs.
+ */
+export async function planSinkWrite(config: GenerationConfig, docs: GeneratedDoc[]) {
+  const mode = config.writeMode ?? DEFAULT_WRITE_MODE;
+  const ids = Array.from(new Set(docs.map((d) => d.id)));
+
+  let existing: Map<string, unknown>;
+  // Staged docs end up in the Firestore collection once approved, so diff against that.
+  if (config.sink === 'firestore' || config.sink === 'staging') {
+    existing = await readFirestoreDocs(config.collection, ids);
+  } else {
+    const stored = await readFileSinkDocs(fileSinkPath(config).filePath);
+    existing = new Map(stored.map((d) => [d.id, d.data]));
+  }
+
+  const existingIds = new Set(existing.keys());
+  const translation = config.mode === 'translate' ? config.translation : undefined;
+  if (translation?.target === 'map') {
+    existing = new Map(
+      [...existing].map(([id, data]) => [id, existingTranslation(data, translation.locale)])
+    );
+  }
+
+  return { ...buildWritePlan(docs, existing, mode), existingIds };
+}
+
+type SinkWritePlan = Awaited<ReturnType<typeof planSinkWrite>>;
+
+export async function writeToSink(config: GenerationConfig, plan: SinkWritePlan, jobId: string) {
+  const mode = plan.report.mode;
+
+  if (config.sink === 'staging') {
+    return stageDocs(jobId, config, plan.toWrite, mode);
+  }
+
+  if (config.sink === 'firestore') {
+    await writeToFirestore(config.collection, plan.toWrite, {
+      mode,
+      existingIds: plan.existingIds,
+    });
+    return { sink: 'firestore' as const, collection: config.collection };
+  }
+
+  // The file sink mirrors Firestore semantics against the previous file contents.
+  const { outDir, filePath } = fileSinkPath(config);
+  const byId = new Map((await readFileSinkDocs(filePath)).map((d) => [d.id, d]));
+  for (const doc of plan.toWrite) {
+    const previous = byId.get(doc.id);
+    const data =
+      mode === 'merge' && previous && typeof previous.data === 'object'
+        ? { ...(previous.data as object), ...(doc.data as object) }
+        : doc.data;
+    byId.set(doc.id, { id: doc.id, data });
+  }
+
+  await fs.mkdir(outDir, { recursive: true });
+  const docs = Array.from(byId.values());
+  await fs.writeFile(filePath, JSON.stringify({ collection: config.collection, docs }, null, 2));
+  return { sink: 'file' as const, path: filePath };
+}
+
+type BatchResult = {
+  status: 'succeeded' | 'abandoned';
+  count: number;
+  retries: number;
+  error?: string;
+};
+
+type UsageTotals = { promptTokens: number; completionTokens: number; costUsd: number };
+
+function batchResultsOf(row: GenerationJobRow): Map<number, BatchResult> {
+  const stored = (row.batchResults || {}) as Record<string, BatchResult>;
+  const results = new Map(Object.entries(stored).map(([batch, r]) => [Number(batch), r]));
+  if (results.size === 0) {
+    // Jobs checkpointed before per-batch results ran their batches strictly in
+    // order, so everything so far can be attributed to batch 1.
+    const count = ((row.docs as GeneratedDoc[]) || []).length;
+    for (let batch = 1; batch <= row.batchesCompleted; batch++) {
+      results.set(batch, { status: 'succeeded', count: batch === 1 ? count : 0, retries: 0 });
+    }
+  }
+  return results;
+}
+
+// Checkpointed docs are stored flat in batch order; split them back per batch.
+function docsByBatchOf(row: GenerationJobRow, results: Map<number, BatchResult>) {
+  const docs = (row.docs as GeneratedDoc[]) || [];
+  const byBatch = new Map<number, GeneratedDoc[]>();
+  let cursor = 0;
+  for (const [batch, result] of [...results.entries()].sort((a, b) => a[0] - b[0])) {
+    if (result.status !== 'succeeded') continue;
+    byBatch.set(batch, docs.slice(cursor, cursor + result.count));
+    cursor += result.count;
+  }
+  return byBatch;
+}
+
+function abandonedBatchesOf(results: Map<number, BatchResult>): number[] {
+  return [...results.entries()]
+    .filter(([, r]) => r.status === 'abandoned')
+    .map(([batch]) => batch)
+    .sort((a, b) => a - b);
+}
+
+// Diff against the sink, then write (or just report, for dry runs) and complete the job.
+async function finishGenerationJob(
+  jobId: string,
+  leaseId: string,
+  config: GenerationConfig,
+  finalDocs: GeneratedDoc[],
+  summary: { usage: UsageTotals; abandonedBatches: number[] }
+) {
+  const { usage, abandonedBatches } = summary;
+  const partial =
+    abandonedBatches.length > 0 ? ` (${abandonedBatches.length} batches abandoned)` : '';
+
+  const plan = await planSinkWrite(config, finalDocs);
+  const diff = plan.diffs.filter((d) => d.status !== 'unchanged').slice(0, MAX_DIFF_ENTRIES);
+  await appendJobEvent(jobId, 'report', {
+    report: plan.report,
+    diff,
+    dryRun: Boolean(config.dryRun),
+  });
+
+  if (config.dryRun) {
+    const result = {
+      sink: config.sink,
+      collection: config.collection,
+      dryRun: true,
+      report: plan.report,
+      diff,
+    };
+    await updateJob(
+      jobId,
+      {
+        status: 'completed',
+        result,
+        message: `Dry run completed (nothing written)${partial}`,
+        finishedAt: new Date(),
+      },
+      heldBy(leaseId)
+    );
+    await appendJobEvent(jobId, 'completed', {
+      total: finalDocs.length,
+      dryRun: true,
+      usage,
+      abandonedBatches,
+    });
+    return;
+  }
+
+  const saved = await writeToSink(config, plan, jobId);
+  await appendJobEvent(jobId, 'saved', { ...saved, written: plan.report.toWrite });
+
+  await updateJob(
+    jobId,
+    {
+      status: 'completed',
+      result: { ...saved, report: plan.report, diff },
+      message:
+        config.sink === 'staging'
+          ? `Generation completed, ${plan.report.toWrite} items awaiting review${partial}`
+          : `Generation completed${partial}`,
+      finishedAt: new Date(),
+    },
+    heldBy(leaseId)
+  );
+  await appendJobEvent(jobId, 'completed', { total: finalDocs.length, usage, abandonedBatches });
+}
+
+/**
+ * Move a queued job to running under a fresh lease. Only one run can claim it;
+ * every later write is conditioned on still holding the lease, so a worker that
+ * was swept as stale can't overwrite the run that replaced it.
+ */
+async function claimGenerationJob(row: GenerationJobRow): Promise<string | null> {
+  const leaseId = nanoid();
+  const claimed = await updateJob(
+    row.id,
+    {
+      status: 'running',
+      workerId: leaseId,
+      error: null,
+      attempts: row.attempts + 1,
+      startedAt: row.startedAt ?? new Date(),
+      finishedAt: null,
+    },
+    eq(generationJob.status, 'queued')
+  );
+  return claimed ? leaseId : null;
+}
+
+// Mark a run failed, unless a newer run has taken the job over meanwhile.
+async function failGenerationJob(
+  jobId: string,
+  leaseId: string,
+  message: string,
+  usage: UsageTotals
+) {
+  const failed = await updateJob(
+    jobId,
+    {
+      status: 'failed',
+      error: message,
+      finishedAt: new Date(),
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      estimatedCostUsd: usage.costUsd,
+    },
+    heldBy(leaseId)
+  );
+  if (failed) await appendJobEvent(jobId, 'error', { message, usage });
+}
+
+// Why a run must stop before its next batch: 'cancelled', 'lease_lost' when a
+// newer run took the job over, or the owner's budget error. Null to carry on.
+async function stopReasonOf(jobId: string, leaseId: string, userId: string | null) {
+  const current = await getGenerationJobRow(jobId);
+  if (!current || current.status === 'cancelled') return 'cancelled';
+  if (current.workerId !== leaseId) return 'lease_lost';
+  return checkGenerationBudget(userId);
+}
+
+async function runGenerationJob(jobId: string) {
+  const row = await getGenerationJobRow(jobId);
+  if (!row) return;
+
+  const config = row.config as GenerationConfig;
+  const batches = row.batchesTotal || Math.ceil(config.count / config.batchSize);
+  const results = batchResultsOf(row);
+  const docsByBatch = docsByBatchOf(row, results);
+  const pending = Array.from({ length: batches }, (_, i) => i + 1).filter(
+    (batch) => results.get(batch)?.status !== 'succeeded'
+  );
+
+  const flatDocs = () =>
+    [...docsByBatch.entries()]
+      .sort((a, b) => a[0] - b[0])
+      .flatMap(([, batchDocs]) => batchDocs)
+      .slice(0, config.count);
+  const succeededCount = () => [...results.values()].filter((r) => r.status === 'succeeded').length;
+
+  const leaseId = await claimGenerationJob(row);
+  if (!leaseId) return;
+
+  await appendJobEvent(jobId, 'started', {
+    total: config.count,
+    completed: flatDocs().length,
+    pendingBatches: pending,
+  });
+
+  // Counts for this run only; per-item details live in the `validation` events.
+  let repaired = 0;
+  let rejected = 0;
+
+  // Usage accumulates across attempts, so a resumed job keeps its earlier spend.
+  const providerId = resolveProvider(config).id;
+  const usage: UsageTotals = {
+    promptTokens: row.promptTokens,
+    completionTokens: row.completionTokens,
+    costUsd: row.estimatedCostUsd,
+  };
+  const usagePatch = () => ({
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    estimatedCostUsd: usage.costUsd,
+  });
+  const batchUsage = new Map<number, UsageTotals & { priced: boolean }>();
+
+  // Batches finish out of order; checkpoints are chained so each write
+  // snapshots the latest in-memory state and an older one never lands last.
+  let checkpoints = Promise.resolve();
+  const checkpoint = (message: string) => {
+    checkpoints = checkpoints.then(async () => {
+      await updateJob(
+        jobId,
+        {
+          docs: flatDocs(),
+          batchResults: Object.fromEntries(results),
+          completed: flatDocs().length,
+          batchesCompleted: succeededCount(),
+          message,
+          ...usagePatch(),
+        },
+        heldBy(leaseId)
+      );
+    });
+    return checkpoints;
+  };
+
+  // Set when a run stops early, see stopReasonOf.
+  let stopReason: string | null = null;
+
+  const heartbeat = setInterval(() => {
+    updateJob(jobId, {}, heldBy(leaseId)).catch((err) =>
+      console.error(`Generation job ${jobId} heartbeat failed:`, err)
+    );
+  }, HEARTBEAT_MS);
+
+  try {
+    // Resolved once per attempt rather than per batch.
+    const runValues: Record<string, string> = {};
+    if (usesExistingNames(config)) {
+      const names = await readExistingNames(config);
+      runValues.existing_names = formatExistingNames(names);
+      await appendJobEvent(jobId, 'variables', { existingNames: names.length });
+    }
+
+    await runBatches(config, pending, {
+      variables: runValues,
+      // Cancellation and the owner's budget are checked before every batch.
+      // The cancel endpoint has already recorded the `cancelled` event.
+      shouldContinue: async () => {
+        stopReason = await stopReasonOf(jobId, leaseId, row.userId);
+        return !stopReason;
+      },
+      hooksFor: (batch) => {
+        const totals = { promptTokens: 0, completionTokens: 0, costUsd: 0, priced: true };
+        batchUsage.set(batch, totals);
+        return {
+          onValidation: async (report) => {
+            if (report.status === 'rejected') rejected++;
+            else repaired++;
+            await appendJobEvent(jobId, 'validation', { batch, ...report });
+          },
+          onUsage: (callUsage) => {
+            const { costUsd, priced } = estimateCost(providerId, config.model, callUsage);
+            totals.promptTokens += callUsage.inputTokens;
+            totals.completionTokens += callUsage.outputTokens;
+            totals.costUsd += costUsd;
+            totals.priced &&= priced;
+            usage.promptTokens += callUsage.inputTokens;
+            usage.completionTokens += callUsage.outputTokens;
+            usage.costUsd += costUsd;
+          },
+          onRetry: async ({ attempt, delayMs, error }) => {
+            await appendJobEvent(jobId, 'batch_retry', {
+              batch,
+              attempt,
+              delayMs,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          },
+        };
+      },
+      onOutcome: async (outcome) => {
+        const { batch } = outcome;
+        const { needed } = batchSlice(config, batch);
+        let message: string;
+        if (outcome.status === 'succeeded') {
+          docsByBatch.set(batch, outcome.docs);
+          results.set(batch, {
+            status: 'succeeded',
+            count: outcome.docs.length,
+            retries: outcome.retries,
+          });
+          message =
+            outcome.docs.length < needed
+              ? `Batch ${batch}/${batches} (${needed - outcome.docs.length} invalid items dropped)`
+              : `Batch ${batch}/${batches}`;
+        } else {
+          results.set(batch, {
+            status: 'abandoned',
+            count: 0,
+            retries: outcome.retries,
+            error: outcome.error,
+          });
+          message = `Batch ${batch}/${batches} abandoned: ${outcome.error}`;
+        }
+
+        const spent = batchUsage.get(batch);
+        if (spent) {
+          await recordBatchUsage({
+            jobId,
+            userId: row.userId,
+            batch,
+            promptTokens: spent.promptTokens,
+            completionTokens: spent.completionTokens,
+            costUsd: spent.costUsd,
+          });
+        }
+        await checkpoint(message);
+        await appendJobEvent(jobId, 'batch', {
+          batch,
+          status: outcome.status,
+          retries: outcome.retries,
+          count: outcome.status === 'succeeded' ? outcome.docs.length : 0,
+          error: outcome.status === 'abandoned' ? outcome.error : undefined,
+          batchUsage: batchUsage.get(batch),
+        });
+        await appendJobEvent(jobId, 'progress', {
+          completed: flatDocs().length,
+          total: config.count,
+          message,
+          repaired,
+          rejected,
+          batch,
+          batchUsage: batchUsage.get(batch),
+          usage,
+        });
+      },
+    });
+
+    if (stopReason === 'cancelled' || stopReason === 'lease_lost') return;
+    if (stopReason) throw new Error(stopReason);
+
+    const latest = await getGenerationJobRow(jobId);
+    if (!latest || latest.status === 'cancelled' || latest.workerId !== leaseId) return;
+
+    const finalDocs = flatDocs();
+    const abandonedBatches = abandonedBatchesOf(results);
+    if (finalDocs.length === 0 && abandonedBatches.length > 0) {
+      throw new Error(`All batches failed (${abandonedBatches.length} abandoned)`);
+    }
+    await appendJobEvent(jobId, 'generated', {
+      count: finalDocs.length,
+      repaired,
+      rejected,
+      abandonedBatches,
+    });
+
+    await finishGenerationJob(jobId, leaseId, config, finalDocs, { usage, abandonedBatches });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    // Partial docs and tokens spent on failed batches are kept on the job.
+    await checkpoints;
+    await failGenerationJob(jobId, leaseId, message, usage);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Run a job in the background of this server process.
+ *
+ * The promise is intentionally not awaited by callers: progress is persisted
+ * to Postgres and clients follow it through the job event stream.
+ */
+export function startGenerationJob(jobId: string) {
+  if (activeJobs.has(jobId)) return false;
+  activeJobs.add(jobId);
+  runGenerationJob(jobId)
+    .catch((err) => console.error(`Generation job ${jobId} crashed:`, err))
+    .finally(() => activeJobs.delete(jobId));
+  return true;
+}
+
+export async function cancelGenerationJob(jobId: string) {
+  const row = await getGenerationJobRow(jobId);
+  if (!row) return null;
+  if (TERMINAL_JOB_STATUSES.includes(row.status as GenerationJobStatus)) return row;
+
+  await updateJob(jobId, { status: 'cancelled', finishedAt: new Date() });
+  await appendJobEvent(jobId, 'cancelled', { completed: row.completed });
+  return getGenerationJobRow(jobId);
+}
+
+export async function resumeGenerationJob(jobId: string) {
+  const row = await getGenerationJobRow(jobId);
+  if (!row) return { ok: false as const, status: 404, error: 'Job not found' };
+  if (!isJobResumable(row)) {
+    return {
+      ok: false as const,
+      status: 409,
+      error: `Job cannot be resumed (status=${row.status})`,
+    };
+  }
+
+  const budgetError = await checkGenerationBudget(row.userId);
+  if (budgetError) return { ok: false as const, status: 402, error: budgetError };
+
+  // Requeueing drops any stale lease. Conditioned on the row we checked, so a
+  // concurrent resume or sweep requeues it only once.
+  const requeued = await updateJob(
+    jobId,
+    { status: 'queued', workerId: null, error: null, finishedAt: null },
+    eq(generationJob.updatedAt, row.updatedAt)
+  );
+  if (!requeued) {
+    return { ok: false as const, status: 409, error: 'Job was resumed concurrently' };
+  }
+  await appendJobEvent(jobId, 'queued', {
+    total: row.total,
+    completed: row.completed,
+    resumeFromBatch: row.batchesCompleted,
+  });
+  startGenerationJob(jobId);
+  return { ok: true as const };
+}
+
+/**
+ * Restart jobs that lost their worker: queued jobs nothing picked up and running
+ * jobs whose heartbeat stopped, e.g. after a restart or deploy. Each job is
+ * claimed by bumping `updatedAt` and dropping its lease first, so overlapping
+ * sweeps start it only once and a worker that was only stalled stops writing.
+ */
+export async function sweepStaleGenerationJobs(limit = 20) {
+  const rows = await db
+    .select()
+    .from(generationJob)
+    .where(
+      and(
+        inArray(generationJob.status, ['queued', 'running']),
+        lt(generationJob.updatedAt, new Date(Date.now() - STALE_RUNNING_MS))
+      )
+    )
+    .orderBy(asc(generationJob.updatedAt))
+    .limit(limit);
+
+  const resumed: string[] = [];
+  const failed: string[] = [];
+  for (const row of rows) {
+    if (activeJobs.has(row.id)) continue;
+
+    const [claimed] = await db
+      .update(generationJob)
+      .set({ status: 'queued', workerId: null, updatedAt: new Date() })
+      .where(and(eq(generationJob.id, row.id), eq(generationJob.updatedAt, row.updatedAt)))
+      .returning({ updatedAt: generationJob.updatedAt });
+    if (!claimed) continue;
+
+    // Without budget left the job would be picked up again on every sweep.
+    // Only fail it if nothing else has touched the row since this sweep's claim.
+    const budgetError = await checkGenerationBudget(row.userId);
+    if (budgetError) {
+      const stillClaimed = await updateJob(
+        row.id,
+        { status: 'failed', error: budgetError, finishedAt: new Date() },
+        eq(generationJob.updatedAt, claimed.updatedAt)
+      );
+      if (!stillClaimed) continue;
+      await appendJobEvent(row.id, 'error', { message: budgetError });
+      failed.push(row.id);
+      continue;
+    }
+
+    await appendJobEvent(row.id, 'queued', {
+      total: row.total,
+      completed: row.completed,
+      resumeFromBatch: row.batchesCompleted,
+      recovered: true,
+    });
+    startGenerationJob(row.id);
+    resumed.push(row.id);
+  }
+  return { scanned: rows.length, resumed, failed };
+}
+
+/**
+ * Server-sent event stream for a job. Replays events after `afterSeq` and then
+ * polls for new ones until the job reaches a terminal status or the client
+ * disconnects.
+ */
+export function streamGenerationJobEvents(jobId: string, afterSeq: number, signal: AbortSignal) {
+  const encoder = new TextEncoder();
+  const pollMs = 1000;
+
+  return new ReadableStream({
+    async start(controller) {
+      let lastSeq = afterSeq;
+      const send = (data: unknown) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+      };
+      const flush = async () => {
+        for (const event of await listJobEvents(jobId, lastSeq)) {
+          send(event);
+          lastSeq = event.seq;
+        }
+      };
+
+      try {
+        while (!signal.aborted) {
+          await flush();
+
+          const row = await getGenerationJobRow(jobId);
+          if (!row) {
+            send({ type: 'error', jobId, message: 'Job not found' });
+            break;
+          }
+          if (TERMINAL_JOB_STATUSES.includes(row.status as GenerationJobStatus)) {
+            // Pick up anything written between the event read and the status read.
+            await flush();
+            break;
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, pollMs));
+        }
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : 'Stream failed';
+        send({ type: 'error', jobId, message });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+}
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  Connection: 'keep-alive',
+};
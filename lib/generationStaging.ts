@@ -0,0 +1,314 @@
+import { logAuditEvent } from '@/lib/audit';
+import { db } from '@/lib/db';
+import { generationJob, generationStagedItem } from '@/lib/db/schema';
+import { readFirestoreDocs, writeToFirestore } from '@/lib/firebase';
+import type { GeneratedDoc } from '@/lib/generatedDocs';
+import { RESOURCE_TYPES, requireCollectionsPermission } from '@/lib/rbac';
+import { formatSchemaIssues, itemSchemaOf, validateAgainstSchema } from '@/lib/schemaValidation';
+import type { GenerationConfig, StagedItem, StagedItemStatus, WriteMode } from '@/lib/types';
+import { type SQL, and, count, desc, eq, inArray, isNull, sql } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import type { NextRequest } from 'next/server';
+
+type StagedItemRow = typeof generationStagedItem.$inferSelect;
+
+// Items promoted per Firestore write + status update. A failure part-way
+// leaves the remaining items pending so the approval can simply be repeated.
+export const APPROVAL_BATCH_SIZE = 200;
+
+// Upper bound on ids accepted by a single approve / reject request.
+export const MAX_REVIEW_IDS = 1000;
+
+export function toStagedItem(row: StagedItemRow, jobName?: string | null): StagedItem {
+  return {
+    id: row.id,
+    jobId: row.jobId,
+    jobName: jobName ?? null,
+    collection: row.collection,
+    docId: row.docId,
+    data: row.data,
+    writeMode: row.writeMode as WriteMode,
+    status: row.status as StagedItemStatus,
+    editedBy: row.editedBy,
+    editedAt: row.editedAt?.getTime() ?? null,
+    reviewedBy: row.reviewedBy,
+    reviewedAt: row.reviewedAt?.getTime() ?? null,
+    rejectReason: row.rejectReason,
+    createdAt: row.createdAt.getTime(),
+  };
+}
+
+/**
+ * Queue a job's docs for review. Re-running or resuming the same job refreshes
+ * copies that are still pending and unedited; items a reviewer already edited,
+ * approved or rejected are left alone so they are never reviewed or written twice.
+ */
+export async function stageDocs(
+  jobId: string,
+  config: GenerationConfig,
+  docs: GeneratedDoc[],
+  mode: WriteMode
+) {
+  const now = new Date();
+  let staged = 0;
+  for (let i = 0; i < docs.length; i += APPROVAL_BATCH_SIZE) {
+    const chunk = docs.slice(i, i + APPROVAL_BATCH_SIZE);
+    const rows = await db
+      .insert(generationStagedItem)
+      .values(
+        chunk.map((doc) => ({
+          id: nanoid(),
+          jobId,
+          collection: config.collection,
+          docId: doc.id,
+          data: doc.data,
+          writeMode: mode,
+          createdAt: now,
+          updatedAt: now,
+        }))
+      )
+      .onConflictDoUpdate({
+        target: [generationStagedItem.jobId, generationStagedItem.docId],
+        set: {
+          collection: config.collection,
+          data: sql`excluded."data"`,
+          writeMode: mode,
+          updatedAt: now,
+        },
+        where: and(
+          eq(generationStagedItem.status, 'pending'),
+          isNull(generationStagedItem.editedAt)
+        ),
+      })
+      .returning({ id: generationStagedItem.id });
+    staged += rows.length;
+  }
+  return { sink: 'staging' as const, collection: config.collection, staged };
+}
+
+export async function listStagedItems(filters: {
+  status?: StagedItemStatus;
+  collection?: string;
+  jobId?: string;
+  limit: number;
+  offset: number;
+}) {
+  const conditions: SQL[] = [];
+  if (filters.status) conditions.push(eq(generationStagedItem.status, filters.status));
+  if (filters.collection) conditions.push(eq(generationStagedItem.collection, filters.collection));
+  if (filters.jobId) conditions.push(eq(generationStagedItem.jobId, filters.jobId));
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+  const [rows, [{ total }]] = await Promise.all([
+    db
+      .select({ item: generationStagedItem, jobName: generationJob.jobName })
+      .from(generationStagedItem)
+      .leftJoin(generationJob, eq(generationJob.id, generationStagedItem.jobId))
+      .where(where)
+      .orderBy(desc(generationStagedItem.createdAt), generationStagedItem.docId)
+      .limit(filters.limit)
+      .offset(filters.offset),
+    db.select({ total: count() }).from(generationStagedItem).where(where),
+  ]);
+
+  return { items: rows.map((r) => toStagedItem(r.item, r.jobName)), total };
+}
+
+/** Data of items still waiting for review in a collection, newest first. */
+export async function listPendingStagedData(collection: string, limit: number) {
+  const rows = await db
+    .select({ data: generationStagedItem.data })
+    .from(generationStagedItem)
+    .where(
+      and(
+        eq(generationStagedItem.collection, collection),
+        eq(generationStagedItem.status, 'pending')
+      )
+    )
+    .orderBy(desc(generationStagedItem.createdAt))
+    .limit(limit);
+  return rows.map((r) => r.data);
+}
+
+/** Pending item counts per target collection, for the review queue filters. */
+export async function getPendingCounts(): Promise<Record<string, number>> {
+  const rows = await db
+    .select({ collection: generationStagedItem.collection, total: count() })
+    .from(generationStagedItem)
+    .where(eq(generationStagedItem.status, 'pending'))
+    .groupBy(generationStagedItem.collection);
+  return Object.fromEntries(rows.map((r) => [r.collection, r.total]));
+}
+
+/** Distinct target collections of the given staged items. */
+export async function stagedItemCollections(ids: string[]): Promise<string[]> {
+  if (ids.length === 0) return [];
+  const rows = await db
+    .selectDistinct({ collection: generationStagedItem.collection })
+    .from(generationStagedItem)
+    .where(inArray(generationStagedItem.id, ids));
+  return rows.map((r) => r.collection);
+}
+
+/** `requireCollectionsPermission` over the target collections of the given staged items. */
+export async function requireStagedItemsPermission(
+  request: NextRequest,
+  action: string,
+  ids: string[]
+) {
+  const collections = await stagedItemCollections(ids);
+  return requireCollectionsPermission(request, RESOURCE_TYPES.GENERATE, action, collections);
+}
+
+/**
+ * Replace a pending item's data. The edit is validated against the schema of
+ * the job that generated it; returns the validation errors instead of saving
+ * when it doesn't match.
+ */
+export async function updateStagedItem(itemId: string, data: unknown, editorId: string) {
+  const [found] = await db
+    .select({ item: generationStagedItem, config: generationJob.config })
+    .from(generationStagedItem)
+    .leftJoin(generationJob, eq(generationJob.id, generationStagedItem.jobId))
+    .where(eq(generationStagedItem.id, itemId))
+    .limit(1);
+  if (!found) return { error: 'Staged item not found', status: 404 } as const;
+  if (found.item.status !== 'pending') {
+    return { error: `Item is already ${found.item.status}`, status: 409 } as const;
+  }
+
+  const schema = (found.config as GenerationConfig | null)?.jsonSchema?.schema;
+  if (schema) {
+    const issues = validateAgainstSchema(data, itemSchemaOf(schema));
+    if (issues.length > 0) {
+      return {
+        error: 'Item does not match the schema',
+        issues: formatSchemaIssues(issues),
+        status: 400,
+      } as const;
+    }
+  }
+
+  const now = new Date();
+  const [row] = await db
+    .update(generationStagedItem)
+    .set({ data, editedBy: editorId, editedAt: now, updatedAt: now })
+    .where(eq(generationStagedItem.id, itemId))
+    .returning();
+  return { item: toStagedItem(row) };
+}
+
+async function pendingItems(ids: string[]) {
+  if (ids.length === 0) return [];
+  return db
+    .select()
+    .from(generationStagedItem)
+    .where(and(inArray(generationStagedItem.id, ids), eq(generationStagedItem.status, 'pending')));
+}
+
+export async function rejectStagedItems(ids: string[], reviewerId: string, reason?: string | null) {
+  const items = await pendingItems(ids);
+  if (items.length === 0) return { rejected: 0 };
+
+  const now = new Date();
+  await db
+    .update(generationStagedItem)
+    .set({
+      status: 'rejected',
+      reviewedBy: reviewerId,
+      reviewedAt: now,
+      rejectReason: reason || null,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        inArray(
+          generationStagedItem.id,
+          items.map((i) => i.id)
+        ),
+        eq(generationStagedItem.status, 'pending')
+      )
+    );
+
+  await logAuditEvent({
+    userId: reviewerId,
+    action: 'GENERATION_ITEMS_REJECTED',
+    message: `Rejected ${items.length} staged generated items`,
+    metadata: {
+      itemIds: items.map((i) => i.id),
+      docIds: items.map((i) => i.docId),
+      reason: reason || null,
+      rejectedAt: now.toISOString(),
+    },
+  });
+
+  return { rejected: items.length };
+}
+
+/**
+ * Promote pending items into their Firestore collections, in batches of
+ * APPROVAL_BATCH_SIZE per collection and write mode. Each promoted batch is
+ * marked approved and recorded in the audit log with the approver and time.
+ */
+export async function approveStagedItems(ids: string[], approverId: string) {
+  const items = await pendingItems(ids);
+  const groups = new Map<string, StagedItemRow[]>();
+  for (const item of items) {
+    const key = `${item.collection}\u0000${item.writeMode}`;
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+
+  const approved: { collection: string; count: number }[] = [];
+  for (const group of groups.values()) {
+    const { collection, writeMode } = group[0];
+    for (let i = 0; i < group.length; i += APPROVAL_BATCH_SIZE) {
+      const chunk = group.slice(i, i + APPROVAL_BATCH_SIZE);
+      const docs = chunk.map((item) => ({ id: item.docId, data: item.data }));
+      const existing = await readFirestoreDocs(
+        collection,
+        docs.map((d) => d.id)
+      );
+      const toWrite =
+        writeMode === 'skip-existing' ? docs.filter((d) => !existing.has(d.id)) : docs;
+      await writeToFirestore(collection, toWrite, {
+        mode: writeMode as WriteMode,
+        existingIds: new Set(existing.keys()),
+      });
+
+      const now = new Date();
+      await db
+        .update(generationStagedItem)
+        .set({ status: 'approved', reviewedBy: approverId, reviewedAt: now, updatedAt: now })
+        .where(
+          inArray(
+            generationStagedItem.id,
+            chunk.map((item) => item.id)
+          )
+        );
+
+      await logAuditEvent({
+        userId: approverId,
+        action: 'GENERATION_ITEMS_APPROVED',
+        message: `Approved ${chunk.length} generated items into ${collection}`,
+        metadata: {
+          collection,
+          writeMode,
+          itemIds: chunk.map((item) => item.id),
+          docIds: chunk.map((item) => item.docId),
+          jobIds: Array.from(new Set(chunk.map((item) => item.jobId))),
+          skippedExisting: docs.length - toWrite.length,
+          approvedBy: approverId,
+          approvedAt: now.toISOString(),
+        },
+      });
+      approved.push({ collection, count: chunk.length });
+    }
+  }
+
+  return {
+    approved: approved.reduce((sum, a) => sum + a.count, 0),
+    batches: approved.length,
+    // Ids that were not pending (already reviewed, or unknown)
+    skipped: ids.length - items.length,
+  };
+}
@@ -0,0 +1,370 @@
+import { db } from '@/lib/db';
+import { generationTemplate, generationTemplateVersion, user } from '@/lib/db/schema';
+import { RESOURCE_TYPES, hasPermission } from '@/lib/rbac';
+import { templates as builtinTemplates } from '@/lib/templates';
+import type {
+  GenerationConfig,
+  Template,
+  TemplateChange,
+  TemplateIcon,
+  TemplateVersion,
+  TemplateVisibility,
+} from '@/lib/types';
+import { and, desc, eq, or } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+
+type TemplateRow = typeof generationTemplate.$inferSelect;
+
+export const TEMPLATE_EXPORT_FORMAT = 'iki-generation-template';
+const TEMPLATE_EXPORT_VERSION = 1;
+
+const TEMPLATE_ICONS: TemplateIcon[] = [
+  'conditions',
+  'fitness',
+  'nutrition',
+  'mindfulness',
+  'custom',
+];
+
+export type TemplateInput = {
+  name: string;
+  description?: string;
+  icon?: string;
+  visibility?: TemplateVisibility;
+  config: Partial<GenerationConfig>;
+  changeNote?: string | null;
+};
+
+export type TemplateExport = {
+  format: typeof TEMPLATE_EXPORT_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  template: {
+    name: string;
+    description: string;
+    icon: TemplateIcon;
+    version: number;
+    config: Partial<GenerationConfig>;
+  };
+};
+
+function toIcon(value: unknown): TemplateIcon {
+  return TEMPLATE_ICONS.includes(value as TemplateIcon) ? (value as TemplateIcon) : 'custom';
+}
+
+// Job-specific fields that make no sense to persist in a reusable template.
+function templateConfigOf(config: Partial<GenerationConfig>): Partial<GenerationConfig> {
+  const { dryRun: _dryRun, ...rest } = config;
+  return rest;
+}
+
+export function toTemplate(row: TemplateRow, config: unknown, ownerName?: string | null): Template {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    icon: toIcon(row.icon),
+    config: (config || {}) as Partial<GenerationConfig>,
+    source: 'library',
+    visibility: row.visibility as TemplateVisibility,
+    version: row.currentVersion,
+    ownerId: row.ownerId,
+    ownerName: ownerName ?? null,
+    sourceTemplateId: row.sourceTemplateId,
+    updatedAt: row.updatedAt.getTime(),
+  };
+}
+
+export function listBuiltinTemplates(): Template[] {
+  return builtinTemplates.map((t) => ({ ...t, source: 'builtin' as const }));
+}
+
+/** Whether `userId` may see the template at all. */
+export function canReadTemplate(row: TemplateRow, userId: string): boolean {
+  return row.visibility === 'shared' || row.ownerId === userId;
+}
+
+/**
+ * Private templates can be edited by their owner; shared ones only by admins
+ * allowed to publish (generate:manage).
+ */
+export function canEditTemplate(row: TemplateRow, userId: string, canPublish: boolean): boolean {
+  return row.visibility === 'shared' ? canPublish : row.ownerId === userId;
+}
+
+export async function getTemplateRow(templateId: string) {
+  const rows = await db
+    .select()
+    .from(generationTemplate)
+    .where(eq(generationTemplate.id, templateId))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+/**
+ * Load a template for `userId`, resolving whether they may edit it. Private
+ * templates of other admins are reported as not found.
+ */
+export async function getTemplateAccess(templateId: string, userId: string) {
+  const row = await getTemplateRow(templateId);
+  if (!row || !canReadTemplate(row, userId)) {
+    return { ok: false as const, status: 404, error: 'Template not found' };
+  }
+  const canPublish = await hasPermission(userId, RESOURCE_TYPES.GENERATE, 'manage');
+  return { ok: true as const, row, canPublish, canEdit: canEditTemplate(row, userId, canPublish) };
+}
+
+async function getVersionRow(templateId: string, version: number) {
+  const rows = await db
+    .select()
+    .from(generationTemplateVersion)
+    .where(
+      and(
+        eq(generationTemplateVersion.templateId, templateId),
+        eq(generationTemplateVersion.version, version)
+      )
+    )
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+/** Shared templates plus the caller's private ones, newest first, at their current version. */
+export async function listTemplates(userId: string): Promise<Template[]> {
+  const rows = await db
+    .select({
+      template: generationTemplate,
+      config: generationTemplateVersion.config,
+      ownerName: user.name,
+    })
+    .from(generationTemplate)
+    .innerJoin(
+      generationTemplateVersion,
+      and(
+        eq(generationTemplateVersion.templateId, generationTemplate.id),
+        eq(generationTemplateVersion.version, generationTemplate.currentVersion)
+      )
+    )
+    .leftJoin(user, eq(user.id, generationTemplate.ownerId))
+    .where(or(eq(generationTemplate.visibility, 'shared'), eq(generationTemplate.ownerId, userId)))
+    .orderBy(desc(generationTemplate.updatedAt));
+
+  return rows.map((r) => toTemplate(r.template, r.config, r.ownerName));
+}
+
+export async function getTemplate(templateId: string, version?: number) {
+  const row = await getTemplateRow(templateId);
+  if (!row) return null;
+  const versionRow = await getVersionRow(templateId, version ?? row.currentVersion);
+  if (!versionRow) return null;
+  return {
+    row,
+    template: {
+      ...toTemplate(row, versionRow.config),
+      name: versionRow.name,
+      description: versionRow.description,
+      version: versionRow.version,
+    },
+  };
+}
+
+export async function listTemplateVersions(templateId: string): Promise<TemplateVersion[]> {
+  const rows = await db
+    .select({ version: generationTemplateVersion, authorName: user.name })
+    .from(generationTemplateVersion)
+    .leftJoin(user, eq(user.id, generationTemplateVersion.authorId))
+    .where(eq(generationTemplateVersion.templateId, templateId))
+    .orderBy(desc(generationTemplateVersion.version));
+
+  return rows.map(({ version: v, authorName }) => ({
+    version: v.version,
+    name: v.name,
+    description: v.description,
+    config: v.config as Partial<GenerationConfig>,
+    changeNote: v.changeNote,
+    authorId: v.authorId,
+    authorName,
+    createdAt: v.createdAt.getTime(),
+  }));
+}
+
+export async function createTemplate(
+  input: TemplateInput & { sourceTemplateId?: string | null },
+  authorId: string
+): Promise<Template> {
+  const now = new Date();
+  const id = nanoid();
+  const config = templateConfigOf(input.config);
+
+  const row = await db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(generationTemplate)
+      .values({
+        id,
+        name: input.name,
+        description: input.description ?? '',
+        icon: toIcon(input.icon),
+        visibility: input.visibility ?? 'private',
+        ownerId: authorId,
+        currentVersion: 1,
+        sourceTemplateId: input.sourceTemplateId ?? null,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+    await tx.insert(generationTemplateVersion).values({
+      id: nanoid(),
+      templateId: id,
+      version: 1,
+      name: input.name,
+      description: input.description ?? '',
+      config,
+      changeNote: input.changeNote ?? null,
+      authorId,
+      createdAt: now,
+    });
+    return created;
+  });
+
+  return toTemplate(row, config);
+}
+
+/** Save a new version. Name, description and config are snapshotted; icon and visibility are not. */
+export async function updateTemplate(
+  row: TemplateRow,
+  input: Partial<TemplateInput>,
+  authorId: string
+): Promise<Template> {
+  const current = await getVersionRow(row.id, row.currentVersion);
+  const now = new Date();
+  const version = row.currentVersion + 1;
+  const name = input.name ?? row.name;
+  const description = input.description ?? row.description;
+  const config = templateConfigOf(
+    input.config ?? ((current?.config || {}) as Partial<GenerationConfig>)
+  );
+
+  const updated = await db.transaction(async (tx) => {
+    await tx.insert(generationTemplateVersion).values({
+      id: nanoid(),
+      templateId: row.id,
+      version,
+      name,
+      description,
+      config,
+      changeNote: input.changeNote ?? null,
+      authorId,
+      createdAt: now,
+    });
+    const [next] = await tx
+      .update(generationTemplate)
+      .set({
+        name,
+        description,
+        icon: input.icon ? toIcon(input.icon) : row.icon,
+        visibility: input.visibility ?? row.visibility,
+        currentVersion: version,
+        updatedAt: now,
+      })
+      .where(eq(generationTemplate.id, row.id))
+      .returning();
+    return next;
+  });
+
+  return toTemplate(updated, config);
+}
+
+export async function deleteTemplate(templateId: string) {
+  await db.delete(generationTemplate).where(eq(generationTemplate.id, templateId));
+}
+
+export async function cloneBuiltinTemplate(builtinId: string, authorId: string) {
+  const builtin = builtinTemplates.find((t) => t.id === builtinId);
+  if (!builtin) return null;
+  return createTemplate(
+    {
+      name: `${builtin.name} (copy)`,
+      description: builtin.description,
+      icon: builtin.icon,
+      config: builtin.config,
+      changeNote: `Cloned from built-in template "${builtin.id}"`,
+      sourceTemplateId: builtin.id,
+    },
+    authorId
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Structural diff of two JSON values. Objects are compared key by key; arrays
+ * and scalars are compared as a whole (schema `required` lists, enums...).
+ */
+export function diffJson(before: unknown, after: unknown, path = ''): TemplateChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+    return keys.flatMap((key) => {
+      const childPath = path ? `${path}.${key}` : key;
+      if (!(key in before)) return [{ path: childPath, kind: 'added' as const, after: after[key] }];
+      if (!(key in after)) {
+        return [{ path: childPath, kind: 'removed' as const, before: before[key] }];
+      }
+      return diffJson(before[key], after[key], childPath);
+    });
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  return [{ path: path || '(root)', kind: 'changed', before, after }];
+}
+
+export async function diffTemplateVersions(templateId: string, from: number, to: number) {
+  const [a, b] = await Promise.all([
+    getVersionRow(templateId, from),
+    getVersionRow(templateId, to),
+  ]);
+  if (!a || !b) return null;
+  return diffJson(
+    { name: a.name, description: a.description, config: a.config },
+    { name: b.name, description: b.description, config: b.config }
+  );
+}
+
+export function exportTemplate(template: Template): TemplateExport {
+  return {
+    format: TEMPLATE_EXPORT_FORMAT,
+    formatVersion: TEMPLATE_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    template: {
+      name: template.name,
+      description: template.description,
+      icon: template.icon,
+      version: template.version ?? 1,
+      config: template.config,
+    },
+  };
+}
+
+/**
+ * Validate an uploaded export. Returns the template input or an error message.
+ */
+export function parseTemplateImport(payload: unknown): TemplateInput | string {
+  if (!isPlainObject(payload) || payload.format !== TEMPLATE_EXPORT_FORMAT) {
+    return `Not a ${TEMPLATE_EXPORT_FORMAT} export`;
+  }
+  const template = payload.template;
+  if (!isPlainObject(template) || typeof template.name !== 'string' || !template.name.trim()) {
+    return 'Template name is required';
+  }
+  if (!isPlainObject(template.config)) return 'Template config must be an object';
+
+  return {
+    name: template.name.trim(),
+    description: typeof template.description === 'string' ? template.description : '',
+    icon: toIcon(template.icon),
+    config: template.config as Partial<GenerationConfig>,
+    changeNote:
+      typeof template.version === 'number'
+        ? `Imported from export (version ${template.version})`
+        : 'Imported from export',
+  };
+}
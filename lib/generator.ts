@@ -0,0 +1,421 @@
+import { readFirestoreDocs } from './firebase';
+import { type GeneratedDoc, docIdFor } from './generatedDocs';
+import {
+  type CompletionRequest,
+  type CompletionResult,
+  type CompletionUsage,
+  type LLMProvider,
+  getProvider,
+} from './llm';
+import { DEFAULT_BATCH_RETRIES, type RetryInfo, isRetryableError, withRetry } from './llm/retry';
+import { batchVariables, renderPrompt } from './promptVariables';
+import { formatSchemaIssues, itemSchemaOf, validateAgainstSchema } from './schemaValidation';
+import {
+  localizedDoc,
+  translatableFields,
+  translationBatchIds,
+  translationPrompt,
+  translationSchema,
+  translationSourceError,
+  translationSystemPrompt,
+} from './translation';
+import { GenerationConfig, IdStrategy } from './types';
+
+function toDocs(items: unknown[], offset: number, idStrategy?: IdStrategy): GeneratedDoc[] {
+  return items.map((item, i) => ({ id: docIdFor(item, idStrategy, offset + i + 1), data: item }));
+}
+
+export const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+export type ItemValidationReport = {
+  // Position of the item in the model response for this batch
+  index: number;
+  status: 'repaired' | 'rejected';
+  attempts: number;
+  errors: string[];
+};
+
+export type GenerateBatchHooks = {
+  onValidation?: (report: ItemValidationReport) => void | Promise<void>;
+  // Called once per provider call, including failed parses and repairs.
+  onUsage?: (usage: CompletionUsage) => void;
+  // A provider call hit a rate limit / 5xx and will be retried after `delayMs`.
+  onRetry?: (info: RetryInfo) => void | Promise<void>;
+};
+
+export function resolveProvider(config: GenerationConfig): LLMProvider {
+  const provider = getProvider(config.provider);
+  if (!provider) throw new Error(`Unknown LLM provider: ${config.provider}`);
+  return provider;
+}
+
+// Only forward sampling options the provider actually supports.
+function completionOptions(provider: LLMProvider, config: GenerationConfig) {
+  const options: Pick<CompletionRequest, 'temperature' | 'maxTokens'> = {};
+  if (provider.capabilities.temperature && typeof config.temperature === 'number') {
+    options.temperature = config.temperature;
+  }
+  if (provider.capabilities.maxTokens && typeof config.maxTokens === 'number') {
+    options.maxTokens = config.maxTokens;
+  }
+  return options;
+}
+
+// Provider calls back off and retry on rate limits and server errors.
+async function complete(
+  config: GenerationConfig,
+  provider: LLMProvider,
+  request: CompletionRequest,
+  hooks?: GenerateBatchHooks
+): Promise<CompletionResult> {
+  const result = await withRetry(() => provider.complete(request), {
+    retries: config.maxBatchRetries ?? DEFAULT_BATCH_RETRIES,
+    onRetry: hooks?.onRetry,
+  });
+  if (result.usage) hooks?.onUsage?.(result.usage);
+  return result;
+}
+
+function parseItems(text: string): unknown[] {
+  const parsed = JSON.parse(text);
+  return Array.isArray(parsed) ? parsed : [parsed];
+}
+
+// Ask the model for a batch of items. Throws if the response is not valid JSON.
+async function requestItems(
+  config: GenerationConfig,
+  batchPrompt: string,
+  hooks?: GenerateBatchHooks
+): Promise<unknown[]> {
+  const provider = resolveProvider(config);
+  const base = {
+    model: config.model,
+    system: config.systemPrompt,
+    ...completionOptions(provider, config),
+  };
+
+  if (provider.capabilities.structuredOutput) {
+    try {
+      const result = await complete(
+        config,
+        provider,
+        {
+          ...base,
+          prompt: batchPrompt,
+          format: {
+            type: 'schema',
+            name: config.jsonSchema.name || 'generated_item',
+            schema: config.jsonSchema.schema,
+            strict: config.jsonSchema.strict,
+          },
+        },
+        hooks
+      );
+      return parseItems(result.text || '[]');
+    } catch (e: unknown) {
+      if (isRetryableError(e)) throw e;
+      console.warn(
+        'Structured output failed, falling back to plain JSON:',
+        e instanceof Error ? e.message : e
+      );
+    }
+  }
+
+  // No server-side schema enforcement on this path, which is why every item
+  // is validated afterwards.
+  const result = await complete(
+    config,
+    provider,
+    { ...base, prompt: `${batchPrompt}\nReturn JSON array only.`, format: { type: 'text' } },
+    hooks
+  );
+  return parseItems(result.text || '[]');
+}
+
+async function repairItem(
+  config: GenerationConfig,
+  item: unknown,
+  errors: string[],
+  hooks?: GenerateBatchHooks
+): Promise<unknown> {
+  const provider = resolveProvider(config);
+  const itemSchema = itemSchemaOf(config.jsonSchema.schema);
+  const request: CompletionRequest = {
+    model: config.model,
+    system: config.systemPrompt,
+    prompt: [
+      'The following generated item does not match the required JSON schema.',
+      `Validation errors:\n- ${errors.join('\n- ')}`,
+      `Item schema:\n${JSON.stringify(itemSchema)}`,
+      `Item:\n${JSON.stringify(item)}`,
+      'Return only the corrected item as a single JSON object. Keep the content, fix the structure.',
+    ].join('\n\n'),
+    format: { type: 'object', schema: itemSchema },
+    ...(provider.capabilities.temperature ? { temperature: 0 } : {}),
+  };
+  const result = await complete(config, provider, request, hooks);
+
+  return JSON.parse(result.text || '{}');
+}
+
+async function validateOrRepair(
+  config: GenerationConfig,
+  item: unknown,
+  index: number,
+  hooks?: GenerateBatchHooks
+): Promise<unknown | null> {
+  const itemSchema = itemSchemaOf(config.jsonSchema.schema);
+  const maxAttempts = config.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+
+  let current = item;
+  let errors = formatSchemaIssues(validateAgainstSchema(current, itemSchema));
+  if (errors.length === 0) return current;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      current = await repairItem(config, current, errors, hooks);
+      errors = formatSchemaIssues(validateAgainstSchema(current, itemSchema));
+    } catch (e: unknown) {
+      // Retries are exhausted at this point; let the batch fail instead of rejecting the item.
+      if (isRetryableError(e)) throw e;
+      errors = [`repair failed: ${e instanceof Error ? e.message : 'unknown error'}`];
+    }
+    if (errors.length === 0) {
+      await hooks?.onValidation?.({ index, status: 'repaired', attempts: attempt, errors: [] });
+      return current;
+    }
+  }
+
+  await hooks?.onValidation?.({ index, status: 'rejected', attempts: maxAttempts, errors });
+  return null;
+}
+
+/**
+ * Generate a single batch of `needed` schema-valid items.
+ *
+ * Every item is validated against `config.jsonSchema.schema` (the array's
+ * `items` schema). Invalid items are sent back for repair up to
+ * `maxRepairAttempts` times and dropped if they still fail; unparseable
+ * responses and dropped items are regenerated within the same limit, so a
+ * batch may come back short but never contains invalid docs.
+ *
+ * `offset` is the number of docs produced by earlier batches; it only feeds the
+ * fallback `item-N` ids so resumed jobs keep numbering where they left off.
+ * `variables` fill the user prompt's placeholders; `{count}` is always set here.
+ */
+export async function generateBatch(
+  config: GenerationConfig,
+  needed: number,
+  offset = 0,
+  hooks?: GenerateBatchHooks,
+  variables: Record<string, string> = {}
+): Promise<GeneratedDoc[]> {
+  const maxAttempts = config.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+  const valid: unknown[] = [];
+  let itemIndex = 0;
+
+  for (let attempt = 0; attempt <= maxAttempts && valid.length < needed; attempt++) {
+    const remaining = needed - valid.length;
+    const batchPrompt = renderPrompt(config.userPrompt, { ...variables, count: String(remaining) });
+
+    let items: unknown[];
+    try {
+      items = await requestItems(config, batchPrompt, hooks);
+    } catch (e: unknown) {
+      if (attempt >= maxAttempts || isRetryableError(e)) throw e;
+      console.warn('Unparseable batch response, regenerating:', e);
+      continue;
+    }
+
+    for (const item of items.slice(0, remaining)) {
+      const checked = await validateOrRepair(config, item, itemIndex++, hooks);
+      if (checked !== null) valid.push(checked);
+    }
+  }
+
+  return toDocs(valid, offset, config.idStrategy);
+}
+
+// One provider call per source doc, re-asked until the reply matches the field shape.
+async function translateFields(
+  config: GenerationConfig,
+  provider: LLMProvider,
+  picked: Record<string, string | string[]>,
+  hooks?: GenerateBatchHooks
+): Promise<{ translated: Record<string, unknown> | null; attempts: number; errors: string[] }> {
+  const options = config.translation as NonNullable<GenerationConfig['translation']>;
+  const schema = translationSchema(picked);
+  const request: CompletionRequest = {
+    model: config.model,
+    system: translationSystemPrompt(options),
+    prompt: translationPrompt(options, picked),
+    format: provider.capabilities.structuredOutput
+      ? { type: 'schema', name: 'translation', schema, strict: true }
+      : { type: 'object', schema },
+    ...completionOptions(provider, config),
+  };
+  const maxAttempts = config.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+
+  let errors: string[] = [];
+  for (let attempt = 0; attempt <= maxAttempts; attempt++) {
+    try {
+      const result = await complete(config, provider, request, hooks);
+      const parsed = JSON.parse(result.text || '{}');
+      errors = formatSchemaIssues(validateAgainstSchema(parsed, schema));
+      if (errors.length === 0) return { translated: parsed, attempts: attempt, errors };
+    } catch (e: unknown) {
+      if (isRetryableError(e)) throw e;
+      errors = [`unparseable response: ${e instanceof Error ? e.message : 'unknown error'}`];
+    }
+  }
+  return { translated: null, attempts: maxAttempts, errors };
+}
+
+/**
+ * Translate one batch of source docs (translate mode). Each doc's allowlisted
+ * fields are sent as a single object; docs whose reply never matches the field
+ * shape, or that have nothing to translate, are skipped and reported through
+ * `onValidation` like rejected items.
+ */
+export async function translateBatch(
+  config: GenerationConfig,
+  batch: number,
+  hooks?: GenerateBatchHooks
+): Promise<GeneratedDoc[]> {
+  const options = config.translation;
+  if (!options) throw new Error('Translation options are missing');
+  // Re-checked here so jobs queued before the allowlist changed can't read past it.
+  const sourceError = translationSourceError(options.sourceCollection);
+  if (sourceError) throw new Error(sourceError);
+  const provider = resolveProvider(config);
+  const ids = translationBatchIds(config, batch);
+  const source = await readFirestoreDocs(options.sourceCollection, ids);
+
+  const docs: GeneratedDoc[] = [];
+  for (const [index, id] of ids.entries()) {
+    const data = source.get(id);
+    const picked = translatableFields(data, options.fields);
+    if (Object.keys(picked).length === 0) {
+      const reason = source.has(id) ? 'no translatable fields' : 'source doc not found';
+      await hooks?.onValidation?.({
+        index,
+        status: 'rejected',
+        attempts: 0,
+        errors: [`${id}: ${reason}`],
+      });
+      continue;
+    }
+
+    const { translated, attempts, errors } = await translateFields(config, provider, picked, hooks);
+    if (translated) {
+      if (attempts > 0) {
+        await hooks?.onValidation?.({ index, status: 'repaired', attempts, errors: [] });
+      }
+      docs.push(localizedDoc(options, id, data, translated));
+    } else {
+      await hooks?.onValidation?.({
+        index,
+        status: 'rejected',
+        attempts,
+        errors: errors.map((e) => `${id}: ${e}`),
+      });
+    }
+  }
+  return docs;
+}
+
+export const DEFAULT_CONCURRENCY = 3;
+export const MAX_CONCURRENCY = 8;
+
+export type BatchOutcome =
+  | { batch: number; status: 'succeeded'; docs: GeneratedDoc[]; retries: number }
+  | { batch: number; status: 'abandoned'; error: string; retries: number };
+
+/** Item quota and id offset for a 1-based batch number. */
+export function batchSlice(config: GenerationConfig, batch: number) {
+  const offset = (batch - 1) * config.batchSize;
+  return { offset, needed: Math.max(Math.min(config.batchSize, config.count - offset), 0) };
+}
+
+async function runOneBatch(
+  config: GenerationConfig,
+  batch: number,
+  hooks: GenerateBatchHooks,
+  runValues?: Record<string, string>
+): Promise<BatchOutcome> {
+  let retries = 0;
+  const { offset, needed } = batchSlice(config, batch);
+  try {
+    const batchHooks: GenerateBatchHooks = {
+      ...hooks,
+      onRetry: async (info) => {
+        retries++;
+        await hooks.onRetry?.(info);
+      },
+    };
+    const docs =
+      config.mode === 'translate'
+        ? await translateBatch(config, batch, batchHooks)
+        : await generateBatch(
+            config,
+            needed,
+            offset,
+            batchHooks,
+            batchVariables(config, batch, runValues)
+          );
+    return { batch, status: 'succeeded', docs, retries };
+  } catch (e: unknown) {
+    const error = e instanceof Error ? e.message : 'Unknown error';
+    return { batch, status: 'abandoned', error, retries };
+  }
+}
+
+/**
+ * Run the given batches with up to `config.concurrency` in flight.
+ *
+ * Provider calls retry with backoff (see `withRetry`); a batch that still
+ * fails is abandoned and reported, the others carry on, so callers always get
+ * the partial results. `shouldContinue` is checked before each batch starts.
+ * `variables` are run-wide prompt values such as `existing_names`.
+ */
+export async function runBatches(
+  config: GenerationConfig,
+  batches: number[],
+  options: {
+    shouldContinue?: () => Promise<boolean>;
+    hooksFor?: (batch: number) => GenerateBatchHooks;
+    onOutcome?: (outcome: BatchOutcome) => void | Promise<void>;
+    variables?: Record<string, string>;
+  } = {}
+): Promise<BatchOutcome[]> {
+  const queue = [...batches];
+  const outcomes: BatchOutcome[] = [];
+  const concurrency = Math.min(
+    Math.max(config.concurrency ?? DEFAULT_CONCURRENCY, 1),
+    MAX_CONCURRENCY
+  );
+  let stopped = false;
+
+  const worker = async () => {
+    while (!stopped && queue.length > 0) {
+      if (options.shouldContinue && !(await options.shouldContinue())) {
+        stopped = true;
+        return;
+      }
+      const batch = queue.shift();
+      if (batch === undefined) return;
+
+      const outcome = await runOneBatch(
+        config,
+        batch,
+        options.hooksFor?.(batch) ?? {},
+        options.variables
+      );
+      outcomes.push(outcome);
+      await options.onOutcome?.(outcome);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+  return outcomes.sort((a, b) => a.batch - b.batch);
+}
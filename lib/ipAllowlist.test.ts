@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { compileAllowlist, getClientIp, isIpAllowed } from './ipAllowlist';
+
+describe('isIpAllowed', () => {
+  const allowlist = compileAllowlist([
+    '203.0.113.5',
+    '198.51.100.0/24',
+    '192.0.2.10 - 192.0.2.20',
+    '2001:db8::/32',
+    '::ffff:10.0.0.0/104',
+  ]);
+
+  it('matches single addresses, CIDR blocks and ranges', () => {
+    assert.deepEqual(allowlist.invalid, []);
+    assert.equal(isIpAllowed('203.0.113.5', allowlist), true);
+    assert.equal(isIpAllowed('203.0.113.6', allowlist), false);
+    assert.equal(isIpAllowed('198.51.100.255', allowlist), true);
+    assert.equal(isIpAllowed('198.51.101.0', allowlist), false);
+    assert.equal(isIpAllowed('192.0.2.10', allowlist), true);
+    assert.equal(isIpAllowed('192.0.2.20', allowlist), true);
+    assert.equal(isIpAllowed('192.0.2.21', allowlist), false);
+  });
+
+  it('handles IPv6 and IPv4-mapped addresses', () => {
+    assert.equal(isIpAllowed('2001:db8:ffff::1', allowlist), true);
+    assert.equal(isIpAllowed('2001:db9::1', allowlist), false);
+    assert.equal(isIpAllowed('::ffff:203.0.113.5', allowlist), true);
+    assert.equal(isIpAllowed('10.200.0.1', allowlist), true);
+  });
+
+  it('rejects malformed entries and addresses', () => {
+    const { invalid } = compileAllowlist([
+      '256.0.0.1',
+      '10.0.0.0/33',
+      '10.0.0.9-10.0.0.1',
+      '1::2::3',
+      'example.com',
+    ]);
+    assert.equal(invalid.length, 5);
+    assert.equal(isIpAllowed('not-an-ip', allowlist), false);
+    assert.equal(isIpAllowed(null, allowlist), false);
+  });
+});
+
+describe('getClientIp', () => {
+  it('takes the address appended by the outermost trusted proxy', () => {
+    const headers = new Headers({ 'x-forwarded-for': '6.6.6.6, 203.0.113.5, 10.0.0.2' });
+    assert.equal(getClientIp(headers, 1), '10.0.0.2');
+    assert.equal(getClientIp(headers, 2), '203.0.113.5');
+    assert.equal(getClientIp(headers, 5), '6.6.6.6');
+  });
+
+  it('ignores X-Forwarded-For without trusted proxies and strips ports', () => {
+    const headers = new Headers({ 'x-forwarded-for': '6.6.6.6', 'x-real-ip': '[2001:db8::1]:443' });
+    assert.equal(getClientIp(headers, 0, true), '2001:db8::1');
+    assert.equal(
+      getClientIp(new Headers({ 'x-forwarded-for': '203.0.113.5:5678' }), 1),
+      '203.0.113.5'
+    );
+  });
+
+  it('only reads X-Real-IP when a proxy is trusted to set it', () => {
+    const spoofed = new Headers({ 'x-real-ip': '203.0.113.5' });
+    assert.equal(getClientIp(spoofed, 0, false), null);
+    assert.equal(getClientIp(spoofed, 1, false), null);
+    assert.equal(getClientIp(spoofed, 1, true), '203.0.113.5');
+  });
+});
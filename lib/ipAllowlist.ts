@@ -0,0 +1,188 @@
+/**
+ * IP allowlist matching for `securitySettings.ipAllowlist`.
+ *
+ * Entries are single addresses (`203.0.113.5`), CIDR blocks (`203.0.113.0/24`,
+ * `2001:db8::/32`) or inclusive ranges (`203.0.113.10-203.0.113.20`). IPv4-mapped
+ * IPv6 addresses (`::ffff:203.0.113.5`) match their IPv4 form.
+ */
+
+type AllowlistRule = { start: number[]; end: number[] };
+
+export type CompiledAllowlist = {
+  rules: AllowlistRule[];
+  invalid: string[];
+};
+
+// Requests that carry this header or cookie may use the superadmin break-glass path.
+export const BREAK_GLASS_HEADER = 'x-break-glass-token';
+export const BREAK_GLASS_COOKIE = 'iki_break_glass';
+
+function parseIPv4(value: string): number[] | null {
+  const parts = value.split('.');
+  if (parts.length !== 4) return null;
+  const bytes = parts.map((p) => (/^\d{1,3}$/.test(p) ? Number(p) : Number.NaN));
+  return bytes.every((b) => b >= 0 && b <= 255) ? bytes : null;
+}
+
+function parseHextets(value: string): number[] | null {
+  if (value === '') return [];
+  const groups = value.split(':');
+  const out: number[] = [];
+  for (const [i, group] of groups.entries()) {
+    // An embedded IPv4 tail (`::ffff:1.2.3.4`) counts as two hextets.
+    if (i === groups.length - 1 && group.includes('.')) {
+      const v4 = parseIPv4(group);
+      if (!v4) return null;
+      out.push((v4[0] << 8) | v4[1], (v4[2] << 8) | v4[3]);
+    } else if (/^[0-9a-f]{1,4}$/i.test(group)) {
+      out.push(Number.parseInt(group, 16));
+    } else {
+      return null;
+    }
+  }
+  return out;
+}
+
+function parseIPv6(value: string): number[] | null {
+  const halves = value.split('::');
+  if (halves.length > 2) return null;
+  const head = parseHextets(halves[0]);
+  const tail = halves.length === 2 ? parseHextets(halves[1]) : [];
+  if (!head || !tail) return null;
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+  const hextets = [...head, ...Array(missing).fill(0), ...tail];
+  return hextets.flatMap((h) => [h >> 8, h & 0xff]);
+}
+
+/** Bytes of an address: 4 for IPv4 (including IPv4-mapped IPv6), 16 for IPv6. */
+export function parseIp(value: string): number[] | null {
+  const ip = value.trim();
+  if (ip.includes(':')) {
+    const bytes = parseIPv6(ip.replace(/%.*$/, ''));
+    if (!bytes) return null;
+    const mapped =
+      bytes.slice(0, 10).every((b) => b === 0) && bytes[10] === 255 && bytes[11] === 255;
+    return mapped ? bytes.slice(12) : bytes;
+  }
+  return parseIPv4(ip);
+}
+
+function compareBytes(a: number[], b: number[]) {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
+
+function cidrRule(base: number[], prefix: number): AllowlistRule | null {
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > base.length * 8) return null;
+  const start = base.map((byte, i) => {
+    const bits = Math.min(Math.max(prefix - i * 8, 0), 8);
+    return byte & ((0xff << (8 - bits)) & 0xff);
+  });
+  const end = start.map((byte, i) => {
+    const bits = Math.min(Math.max(prefix - i * 8, 0), 8);
+    return byte | (0xff >> bits);
+  });
+  return { start, end };
+}
+
+function parseRule(entry: string): AllowlistRule | null {
+  if (entry.includes('/')) {
+    const [ip, prefix] = entry.split('/');
+    const base = parseIp(ip);
+    // `::ffff:10.0.0.0/104` is written against the IPv6 width; shift it to IPv4.
+    const offset = base?.length === 4 && ip.includes(':') ? 96 : 0;
+    return base && /^\d+$/.test(prefix) ? cidrRule(base, Number(prefix) - offset) : null;
+  }
+  if (entry.includes('-')) {
+    const [from, to] = entry.split('-');
+    const start = parseIp(from);
+    const end = parseIp(to);
+    if (!start || !end || start.length !== end.length) return null;
+    return compareBytes(start, end) <= 0 ? { start, end } : null;
+  }
+  const ip = parseIp(entry);
+  return ip ? { start: ip, end: ip } : null;
+}
+
+export function compileAllowlist(entries: string[]): CompiledAllowlist {
+  const rules: AllowlistRule[] = [];
+  const invalid: string[] = [];
+  for (const raw of entries) {
+    const entry = raw.trim();
+    if (!entry) continue;
+    const rule = parseRule(entry);
+    if (rule) rules.push(rule);
+    else invalid.push(entry);
+  }
+  return { rules, invalid };
+}
+
+export function isIpAllowed(ip: string | null, allowlist: CompiledAllowlist) {
+  const bytes = ip ? parseIp(ip) : null;
+  if (!bytes) return false;
+  return allowlist.rules.some(
+    (r) =>
+      r.start.length === bytes.length &&
+      compareBytes(r.start, bytes) <= 0 &&
+      compareBytes(bytes, r.end) <= 0
+  );
+}
+
+function stripPort(value: string) {
+  const bracketed = value.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) return bracketed[1];
+  // `1.2.3.4:5678`; a bare IPv6 address has more than one colon.
+  return /^[\d.]+:\d+$/.test(value) ? value.split(':')[0] : value;
+}
+
+/**
+ * The client address as seen by the outermost trusted proxy.
+ *
+ * `TRUSTED_PROXY_HOPS` is how many proxies in front of the app append to
+ * `X-Forwarded-For` (default 1, e.g. a single load balancer). Entries to the left
+ * of those are client-supplied and ignored. `X-Real-IP` is only read when
+ * `TRUST_X_REAL_IP=true` says a proxy sets it, since clients can send it too.
+ * Returns null when neither source is trusted, so the allowlist fails closed.
+ */
+export function getClientIp(
+  headers: Headers,
+  trustedHops = trustedProxyHops(),
+  trustRealIp = realIpTrusted()
+): string | null {
+  const forwarded = (headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+  if (trustedHops > 0 && forwarded.length > 0) {
+    return stripPort(forwarded[Math.max(forwarded.length - trustedHops, 0)]);
+  }
+  const realIp = trustRealIp ? headers.get('x-real-ip') : null;
+  return realIp ? stripPort(realIp.trim()) : null;
+}
+
+function trustedProxyHops() {
+  const hops = Number.parseInt(process.env.TRUSTED_PROXY_HOPS || '', 10);
+  return Number.isInteger(hops) && hops >= 0 ? hops : 1;
+}
+
+function realIpTrusted() {
+  return process.env.TRUST_X_REAL_IP === 'true';
+}
+
+/**
+ * Whether the request presents `IP_ALLOWLIST_BREAK_GLASS_TOKEN`, via header or
+ * cookie. Always false when the variable is unset.
+ */
+export function hasBreakGlassToken(headers: Headers, cookie: string | undefined) {
+  const expected = process.env.IP_ALLOWLIST_BREAK_GLASS_TOKEN || '';
+  const provided = headers.get(BREAK_GLASS_HEADER) || cookie || '';
+  if (!expected || provided.length !== expected.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ provided.charCodeAt(i);
+  }
+  return diff === 0;
+}
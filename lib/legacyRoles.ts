@@ -0,0 +1,191 @@
+import { logAuditEvent } from '@/lib/audit';
+import { db } from '@/lib/db';
+import { role, user, userRole } from '@/lib/db/schema';
+import {
+  ACTIONS,
+  RESOURCE_TYPES,
+  ROLES,
+  getUserPermissions,
+  getUserRoles,
+  legacyRoleAllows,
+} from '@/lib/rbac';
+import { auditRoleGrant } from '@/lib/roleGrants';
+import { getSecuritySettings } from '@/lib/security';
+import { inArray } from 'drizzle-orm';
+
+/**
+ * Migration off the legacy `user.role` column.
+ *
+ * While `legacyRoleAccessEnabled` is on, `hasPermission` grants legacy superadmins
+ * everything and legacy admins every action on `LEGACY_ADMIN_RESOURCES`, whatever
+ * their RBAC roles say. The report compares that with what RBAC alone grants, and
+ * conversion assigns the matching RBAC role to everyone who would lose access.
+ */
+
+export type LegacyRoleReportEntry = {
+  userId: string;
+  name: string;
+  email: string;
+  legacyRole: string;
+  rbacRoles: string[];
+  // `resource:action` keys, as in the permissions provider
+  today: string[];
+  rbacOnly: string[];
+  lost: string[];
+  // RBAC role that replaces the legacy one
+  suggestedRole: string;
+};
+
+export type LegacyRoleReport = {
+  legacyRoleAccessEnabled: boolean;
+  users: LegacyRoleReportEntry[];
+  // Users who would lose access if the legacy path were turned off now
+  pending: number;
+  generatedAt: number;
+};
+
+const ALL_RESOURCES: string[] = Object.values(RESOURCE_TYPES);
+const ALL_ACTIONS: string[] = Object.values(ACTIONS);
+
+function key(resource: string, action: string) {
+  return `${resource}:${action}`;
+}
+
+function legacyKeys(legacyRole: string) {
+  const keys = new Set<string>();
+  for (const resource of ALL_RESOURCES) {
+    if (!legacyRoleAllows(legacyRole, resource)) continue;
+    for (const action of ALL_ACTIONS) keys.add(key(resource, action));
+  }
+  return keys;
+}
+
+// Broad access from RBAC roles, with `manage` expanded to every action.
+// Resource-specific grants are left out: they never covered what `user.role` did.
+async function rbacKeys(userId: string, roleNames: string[]) {
+  const keys = new Set<string>();
+  const isSuperadmin = roleNames.includes(ROLES.SUPERADMIN);
+  const { rolePermissions } = isSuperadmin
+    ? { rolePermissions: [] }
+    : await getUserPermissions(userId);
+  for (const resource of ALL_RESOURCES) {
+    for (const action of ALL_ACTIONS) {
+      const granted =
+        isSuperadmin ||
+        rolePermissions.some(
+          (p) => p.resource === resource && (p.action === action || p.action === ACTIONS.MANAGE)
+        );
+      if (granted) keys.add(key(resource, action));
+    }
+  }
+  return keys;
+}
+
+async function reportEntry(u: typeof user.$inferSelect): Promise<LegacyRoleReportEntry> {
+  const legacyRole = u.role as string;
+  const roles = await getUserRoles(u.id);
+  const rbacRoles = roles.map((r) => r.name);
+  const legacy = legacyKeys(legacyRole);
+  const rbac = await rbacKeys(u.id, rbacRoles);
+  const today = new Set([...legacy, ...rbac]);
+
+  return {
+    userId: u.id,
+    name: u.name,
+    email: u.email,
+    legacyRole,
+    rbacRoles,
+    today: Array.from(today).sort(),
+    rbacOnly: Array.from(rbac).sort(),
+    lost: Array.from(legacy)
+      .filter((k) => !rbac.has(k))
+      .sort(),
+    suggestedRole: legacyRole === ROLES.SUPERADMIN ? ROLES.SUPERADMIN : ROLES.ADMIN,
+  };
+}
+
+/** What each user with a legacy admin or superadmin role can do today versus under RBAC alone. */
+export async function buildLegacyRoleReport(): Promise<LegacyRoleReport> {
+  const [settings, legacyUsers] = await Promise.all([
+    getSecuritySettings(),
+    db
+      .select()
+      .from(user)
+      .where(inArray(user.role, [ROLES.SUPERADMIN, ROLES.ADMIN])),
+  ]);
+
+  const users: LegacyRoleReportEntry[] = [];
+  for (const u of legacyUsers) {
+    users.push(await reportEntry(u));
+  }
+  users.sort((a, b) => b.lost.length - a.lost.length || a.email.localeCompare(b.email));
+
+  return {
+    legacyRoleAccessEnabled: settings.legacyRoleAccessEnabled,
+    users,
+    pending: users.filter((u) => u.lost.length > 0).length,
+    generatedAt: Date.now(),
+  };
+}
+
+/**
+ * Give every user who would lose access the RBAC role matching their legacy one,
+ * as a permanent grant. Users whose access is already covered are left alone. A
+ * user can still show as pending afterwards if the role's permissions were narrowed.
+ */
+export async function convertLegacyRoles(actorId: string) {
+  const before = await buildLegacyRoleReport();
+  const toConvert = before.users.filter((u) => u.lost.length > 0);
+  if (toConvert.length === 0) return { converted: [], report: before };
+
+  const roleRows = await db
+    .select()
+    .from(role)
+    .where(inArray(role.name, [ROLES.SUPERADMIN, ROLES.ADMIN]));
+  const roleIds = new Map(roleRows.map((r) => [r.name, r.id]));
+  const missing = toConvert.find((u) => !roleIds.has(u.suggestedRole));
+  if (missing) {
+    return {
+      error: `The ${missing.suggestedRole} role does not exist; initialize RBAC first`,
+      status: 409,
+    } as const;
+  }
+
+  const now = new Date();
+  for (const entry of toConvert) {
+    const roleId = roleIds.get(entry.suggestedRole) as string;
+    // A time-bound grant of the same role becomes permanent, like the legacy role it replaces
+    await db
+      .insert(userRole)
+      .values({ userId: entry.userId, roleId, assignedBy: actorId, assignedAt: now })
+      .onConflictDoUpdate({
+        target: [userRole.userId, userRole.roleId],
+        set: { assignedBy: actorId, assignedAt: now, expiresAt: null, expiryNotifiedAt: null },
+      });
+    await auditRoleGrant({
+      grantedBy: actorId,
+      userId: entry.userId,
+      roleId,
+      roleName: entry.suggestedRole,
+      expiresAt: null,
+    });
+  }
+
+  const report = await buildLegacyRoleReport();
+  await logAuditEvent({
+    userId: actorId,
+    action: 'LEGACY_ROLES_CONVERTED',
+    severity: 'high',
+    message: `Converted ${toConvert.length} legacy role${toConvert.length === 1 ? '' : 's'} to RBAC roles`,
+    metadata: {
+      users: toConvert.map((u) => ({
+        userId: u.userId,
+        legacyRole: u.legacyRole,
+        roleName: u.suggestedRole,
+        lost: u.lost,
+      })),
+      stillPending: report.pending,
+    },
+  });
+  return { converted: toConvert.map((u) => u.userId), report };
+}
@@ -0,0 +1,31 @@
+import { mockProvider } from './mock';
+import { openaiCompatibleProvider, openaiProvider } from './openai';
+import type { LLMProvider, ProviderInfo } from './types';
+
+export type * from './types';
+
+const PROVIDERS: Record<string, LLMProvider> = {
+  [openaiProvider.id]: openaiProvider,
+  [openaiCompatibleProvider.id]: openaiCompatibleProvider,
+  [mockProvider.id]: mockProvider,
+};
+
+export function getDefaultProviderId(): string {
+  const configured = process.env.LLM_PROVIDER;
+  return configured && PROVIDERS[configured] ? configured : openaiProvider.id;
+}
+
+export function getProvider(id?: string | null): LLMProvider | null {
+  return PROVIDERS[id || getDefaultProviderId()] ?? null;
+}
+
+export function listProviders(): ProviderInfo[] {
+  return Object.values(PROVIDERS).map((provider) => ({
+    id: provider.id,
+    label: provider.label,
+    capabilities: provider.capabilities,
+    models: provider.models,
+    defaultModel: provider.defaultModel,
+    configured: provider.isConfigured(),
+  }));
+}
@@ -0,0 +1,100 @@
+import type { JsonSchema } from '../schemaValidation';
+import type { CompletionRequest, CompletionResult, LLMProvider } from './types';
+
+// Largest batch the mock will return for a single request.
+const MAX_MOCK_ITEMS = 50;
+
+let sequence = 0;
+
+/**
+ * Build a value that satisfies `schema`. Deterministic apart from the running
+ * sequence number, which keeps names (and therefore doc ids) unique.
+ */
+// biome-ignore lint/complexity/noExcessiveCognitiveComplexity: one branch per JSON schema type
+function sampleFor(schema: JsonSchema | undefined, key: string, n: number): unknown {
+  if (!schema || typeof schema !== 'object') return `${key} ${n}`;
+  if ('const' in schema) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum[n % schema.enum.length];
+  }
+  const options = schema.anyOf ?? schema.oneOf;
+  if (Array.isArray(options)) return sampleFor(options[0], key, n);
+
+  const type = Array.isArray(schema.type)
+    ? schema.type.find((t: string) => t !== 'null')
+    : schema.type;
+  switch (type) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const [prop, child] of Object.entries<JsonSchema>(schema.properties ?? {})) {
+        result[prop] = sampleFor(child, prop, n);
+      }
+      return result;
+    }
+    case 'array': {
+      const length = Math.max(schema.minItems ?? 1, 1);
+      return Array.from({ length }, (_, i) => sampleFor(schema.items, key, n + i));
+    }
+    case 'integer':
+    case 'number': {
+      const min = typeof schema.minimum === 'number' ? schema.minimum : 0;
+      const max = typeof schema.maximum === 'number' ? schema.maximum : min + 100;
+      const value = min + (n % (max - min + 1));
+      return type === 'integer' ? Math.floor(value) : value;
+    }
+    case 'boolean':
+      return n % 2 === 0;
+    case 'null':
+      return null;
+    default: {
+      const text = `${key.replace(/_/g, ' ')} ${n}`;
+      return text.padEnd(schema.minLength ?? 0, '.').slice(0, schema.maxLength ?? undefined);
+    }
+  }
+}
+
+// The generator substitutes {count} into the prompt; the first number is the batch size.
+function requestedCount(prompt: string): number {
+  const match = prompt.match(/\d+/);
+  const count = match ? Number.parseInt(match[0], 10) : 1;
+  return Math.min(Math.max(count, 1), MAX_MOCK_ITEMS);
+}
+
+function mockComplete(request: CompletionRequest): CompletionResult {
+  const { format } = request;
+  const schema = format.type === 'text' ? undefined : (format.schema as JsonSchema | undefined);
+
+  let value: unknown;
+  if (schema?.type === 'array' || format.type === 'text') {
+    const items = Array.from({ length: requestedCount(request.prompt) }, () =>
+      sampleFor(schema?.items, 'item', ++sequence)
+    );
+    value = items;
+  } else {
+    value = sampleFor(schema, 'item', ++sequence);
+  }
+
+  const text = JSON.stringify(value);
+  return {
+    text,
+    usage: {
+      inputTokens: Math.ceil((request.system.length + request.prompt.length) / 4),
+      outputTokens: Math.ceil(text.length / 4),
+    },
+  };
+}
+
+/**
+ * Offline provider that synthesizes schema-valid items without any network
+ * calls. Used for local development and for exercising the generate route in
+ * tests (`provider: "mock"` or `LLM_PROVIDER=mock`).
+ */
+export const mockProvider: LLMProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  capabilities: { structuredOutput: true, temperature: false, maxTokens: false },
+  models: ['mock-1'],
+  defaultModel: 'mock-1',
+  isConfigured: () => true,
+  complete: async (request) => mockComplete(request),
+};
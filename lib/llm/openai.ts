@@ -0,0 +1,101 @@
+import OpenAI from 'openai';
+import type { CompletionRequest, CompletionResult, LLMProvider } from './types';
+
+let client: OpenAI | null = null;
+
+export function getOpenAI(): OpenAI {
+  if (!client) {
+    client = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+      baseURL: process.env.OPENAI_BASE_URL,
+    });
+  }
+  return client;
+}
+
+function usageOf(usage?: { prompt_tokens?: number; completion_tokens?: number } | null) {
+  if (!usage) return undefined;
+  return { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 };
+}
+
+// Chat completions work for OpenAI and every compatible endpoint.
+async function chatComplete(
+  openai: OpenAI,
+  request: CompletionRequest,
+  options: { structuredOutput: boolean }
+): Promise<CompletionResult> {
+  const { format } = request;
+  let responseFormat: OpenAI.Chat.Completions.ChatCompletionCreateParams['response_format'];
+  if (format.type === 'schema' && options.structuredOutput) {
+    responseFormat = {
+      type: 'json_schema',
+      json_schema: { name: format.name, schema: format.schema as never, strict: format.strict },
+    };
+  } else if (format.type !== 'text') {
+    responseFormat = { type: 'json_object' };
+  }
+
+  const chat = await openai.chat.completions.create({
+    model: request.model,
+    messages: [
+      { role: 'system', content: request.system },
+      { role: 'user', content: request.prompt },
+    ],
+    response_format: responseFormat,
+    temperature: request.temperature,
+    max_completion_tokens: request.maxTokens,
+  });
+
+  return { text: chat.choices[0]?.message?.content ?? '', usage: usageOf(chat.usage) };
+}
+
+export const openaiProvider: LLMProvider = {
+  id: 'openai',
+  label: 'OpenAI',
+  capabilities: { structuredOutput: true, temperature: true, maxTokens: true },
+  models: ['gpt-5', 'gpt-5-mini', 'gpt-4o', 'gpt-4o-mini'],
+  defaultModel: process.env.MODEL || 'gpt-4o-mini',
+  isConfigured: () => Boolean(process.env.OPENAI_API_KEY),
+  complete: (request) => chatComplete(getOpenAI(), request, { structuredOutput: true }),
+};
+
+let compatibleClient: OpenAI | null = null;
+
+function getCompatibleClient(): OpenAI {
+  if (!compatibleClient) {
+    compatibleClient = new OpenAI({
+      apiKey: process.env.LLM_COMPAT_API_KEY || 'not-needed',
+      baseURL: process.env.LLM_COMPAT_BASE_URL,
+    });
+  }
+  return compatibleClient;
+}
+
+const compatibleModels = (process.env.LLM_COMPAT_MODELS || '')
+  .split(',')
+  .map((m) => m.trim())
+  .filter(Boolean);
+
+// Many compatible servers (vLLM, Ollama, LM Studio...) only do json_object.
+const compatibleStructuredOutput = process.env.LLM_COMPAT_STRUCTURED_OUTPUT === 'true';
+
+/**
+ * Any OpenAI-compatible chat completions endpoint, configured through
+ * `LLM_COMPAT_BASE_URL`, `LLM_COMPAT_API_KEY` and `LLM_COMPAT_MODELS`.
+ */
+export const openaiCompatibleProvider: LLMProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible',
+  capabilities: {
+    structuredOutput: compatibleStructuredOutput,
+    temperature: true,
+    maxTokens: true,
+  },
+  models: compatibleModels,
+  defaultModel: compatibleModels[0] ?? '',
+  isConfigured: () => Boolean(process.env.LLM_COMPAT_BASE_URL),
+  complete: (request) =>
+    chatComplete(getCompatibleClient(), request, {
+      structuredOutput: compatibleStructuredOutput,
+    }),
+};
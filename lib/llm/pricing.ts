@@ -0,0 +1,53 @@
+import type { CompletionUsage } from './types';
+
+/** USD per 1M tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Keys are `provider:model`, bare `model`, or `provider:*` as a catch-all.
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'mock:*': { input: 0, output: 0 },
+};
+
+let cachedTable: Record<string, ModelPrice> | null = null;
+
+/**
+ * Default prices merged with `LLM_PRICE_TABLE`, a JSON object using the same
+ * keys, e.g. `{"openai-compatible:*":{"input":0,"output":0}}`.
+ */
+export function getPriceTable(): Record<string, ModelPrice> {
+  if (cachedTable) return cachedTable;
+
+  let overrides: Record<string, ModelPrice> = {};
+  if (process.env.LLM_PRICE_TABLE) {
+    try {
+      overrides = JSON.parse(process.env.LLM_PRICE_TABLE);
+    } catch (error) {
+      console.warn('Ignoring invalid LLM_PRICE_TABLE:', error);
+    }
+  }
+  cachedTable = { ...DEFAULT_PRICES, ...overrides };
+  return cachedTable;
+}
+
+export function getModelPrice(provider: string, model: string): ModelPrice | null {
+  const table = getPriceTable();
+  return table[`${provider}:${model}`] ?? table[model] ?? table[`${provider}:*`] ?? null;
+}
+
+/**
+ * Estimated cost in USD. Unknown models cost 0 and come back with
+ * `priced: false`, which is passed along in the per-batch usage events.
+ */
+export function estimateCost(provider: string, model: string, usage: CompletionUsage) {
+  const price = getModelPrice(provider, model);
+  if (!price) return { costUsd: 0, priced: false };
+  const costUsd = (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+  return { costUsd, priced: true };
+}
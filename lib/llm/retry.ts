@@ -0,0 +1,69 @@
+export const DEFAULT_BATCH_RETRIES = 3;
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30_000;
+
+type ErrorWithStatus = {
+  status?: number;
+  code?: string;
+  headers?: Record<string, string> | Headers;
+};
+
+const RETRYABLE_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN']);
+
+function headerValue(error: ErrorWithStatus, name: string): string | null {
+  const { headers } = error;
+  if (!headers) return null;
+  if (typeof (headers as Headers).get === 'function') return (headers as Headers).get(name);
+  return (headers as Record<string, string>)[name] ?? null;
+}
+
+/**
+ * Rate limits (429), server errors (5xx) and dropped connections are worth
+ * retrying. Anything else (bad request, auth, unparseable output after all
+ * repair attempts) will fail the same way again.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  const { status, code } = error as ErrorWithStatus;
+  if (typeof status === 'number') return status === 429 || status >= 500;
+  if (code && RETRYABLE_CODES.has(code)) return true;
+  return (error as Error).name === 'APIConnectionError';
+}
+
+/**
+ * Exponential backoff with full jitter, capped at 30s. A `retry-after`
+ * header from the provider wins when present.
+ */
+export function backoffDelay(attempt: number, error?: unknown): number {
+  const retryAfter = error && typeof error === 'object' ? headerValue(error, 'retry-after') : null;
+  const seconds = retryAfter ? Number(retryAfter) : Number.NaN;
+  if (Number.isFinite(seconds) && seconds >= 0) return Math.min(seconds * 1000, MAX_DELAY_MS);
+
+  const ceiling = Math.min(BASE_DELAY_MS * 2 ** attempt, MAX_DELAY_MS);
+  return Math.floor(Math.random() * ceiling);
+}
+
+export type RetryInfo = {
+  // 1-based number of the attempt that just failed
+  attempt: number;
+  delayMs: number;
+  error: unknown;
+};
+
+/** Run `fn`, retrying retryable errors up to `retries` extra times. */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: { retries: number; onRetry?: (info: RetryInfo) => void | Promise<void> }
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error: unknown) {
+      if (attempt > options.retries || !isRetryableError(error)) throw error;
+      const delayMs = backoffDelay(attempt - 1, error);
+      await options.onRetry?.({ attempt, delayMs, error });
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Features a provider/backend supports. The generator and the config editor
+ * only use what is advertised here.
+ */
+export interface ProviderCapabilities {
+  /** Server-side JSON schema enforcement (structured output). */
+  structuredOutput: boolean;
+  temperature: boolean;
+  maxTokens: boolean;
+}
+
+/**
+ * `schema` asks the provider to enforce the schema; `object` only asks for a
+ * JSON object and treats the schema as a hint (used for repairs and for
+ * providers without structured output).
+ */
+export type CompletionFormat =
+  | { type: 'schema'; name: string; schema: unknown; strict?: boolean }
+  | { type: 'object'; schema?: unknown }
+  | { type: 'text' };
+
+export interface CompletionRequest {
+  model: string;
+  system: string;
+  prompt: string;
+  format: CompletionFormat;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface CompletionUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CompletionResult {
+  text: string;
+  usage?: CompletionUsage;
+}
+
+export interface LLMProvider {
+  id: string;
+  label: string;
+  capabilities: ProviderCapabilities;
+  /** Suggested models; any model id is accepted and passed through as-is. */
+  models: string[];
+  defaultModel: string;
+  /** False when required credentials / endpoints are missing. */
+  isConfigured(): boolean;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+/** Serializable provider description for the client. */
+export interface ProviderInfo {
+  id: string;
+  label: string;
+  capabilities: ProviderCapabilities;
+  models: string[];
+  defaultModel: string;
+  configured: boolean;
+}
@@ -0,0 +1,187 @@
+import admin from 'firebase-admin';
+import {
+  type NotificationRouterConfig,
+  notificationConfigFromDoc,
+  notificationConfigRef,
+} from './notification_router';
+
+/**
+ * Every save of the router config is kept as a numbered version under
+ * `notification_config/global/versions/<n>`: the full config after the save,
+ * the field-level changes against the one before, and who made it. Restoring
+ * writes an old snapshot back as a new version, so history only grows.
+ */
+
+export type ConfigChange = {
+  // Dotted path into the config, e.g. `engagement.schedule.water.hour`.
+  path: string;
+  before: unknown;
+  after: unknown;
+};
+
+export type ConfigVersion = {
+  version: number;
+  author_id: string | null;
+  created_at: string | null;
+  restored_from: number | null;
+  change_count: number;
+};
+
+export type ConfigVersionDetail = ConfigVersion & {
+  config: NotificationRouterConfig;
+  changes: ConfigChange[];
+};
+
+// Bookkeeping on the config doc itself; never part of a snapshot or a diff.
+const META_FIELDS = ['updated_at', 'updated_by', 'version'];
+
+function versionsRef(db: admin.firestore.Firestore) {
+  return notificationConfigRef(db).collection('versions');
+}
+
+function tsToIso(value: unknown): string | null {
+  const ts = value as admin.firestore.Timestamp | undefined;
+  if (!ts || typeof ts.toDate !== 'function') return null;
+  return ts.toDate().toISOString();
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function withoutMeta<T extends Record<string, unknown>>(data: T) {
+  const out: Record<string, unknown> = { ...data };
+  for (const field of META_FIELDS) delete out[field];
+  return out;
+}
+
+/** What `set(patch, { merge: true })` leaves in the doc: maps merge deeply, anything else replaces. */
+export function mergeConfigPatch(
+  data: Record<string, unknown>,
+  patch: Record<string, unknown>
+): Record<string, unknown> {
+  const out: Record<string, unknown> = { ...data };
+  for (const [key, value] of Object.entries(patch)) {
+    out[key] =
+      isPlainObject(value) && isPlainObject(out[key])
+        ? mergeConfigPatch(out[key] as Record<string, unknown>, value)
+        : value;
+  }
+  return out;
+}
+
+/** Leaf-level differences between two configs; arrays compare as a whole. */
+export function diffConfig(before: unknown, after: unknown, path = ''): ConfigChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+    return keys.flatMap((key) =>
+      diffConfig(before[key], after[key], path ? `${path}.${key}` : key)
+    );
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  // Firestore rejects undefined, so an added or removed key reads as null.
+  return [{ path, before: before ?? null, after: after ?? null }];
+}
+
+function configSnapshot(config: NotificationRouterConfig) {
+  return withoutMeta(config) as NotificationRouterConfig;
+}
+
+function versionFromDoc(data: admin.firestore.DocumentData): ConfigVersion {
+  return {
+    version: Number(data.version) || 0,
+    author_id: data.author_id || null,
+    created_at: tsToIso(data.created_at),
+    restored_from: typeof data.restored_from === 'number' ? data.restored_from : null,
+    change_count: Array.isArray(data.changes) ? data.changes.length : 0,
+  };
+}
+
+/**
+ * Write the next config and record it as a version. `replace` swaps the whole
+ * doc (restores); otherwise `next` is merged like any patch. A save that changes
+ * nothing records no version.
+ */
+async function commitConfig(
+  db: admin.firestore.Firestore,
+  params: {
+    next: Record<string, unknown>;
+    replace: boolean;
+    authorId: string | null;
+    restoredFrom?: number;
+  }
+) {
+  const { next, replace, authorId, restoredFrom } = params;
+  const ref = notificationConfigRef(db);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const data = snap.data() || {};
+    const before = configSnapshot(notificationConfigFromDoc(data));
+    const merged = replace ? next : mergeConfigPatch(withoutMeta(data), next);
+    const after = configSnapshot(notificationConfigFromDoc(merged));
+    const changes = diffConfig(before, after);
+    if (changes.length === 0) {
+      return { config: after, version: Number(data.version) || 0, changes };
+    }
+
+    const version = (Number(data.version) || 0) + 1;
+    const meta = {
+      version,
+      updated_by: authorId,
+      updated_at: admin.firestore.FieldValue.serverTimestamp(),
+    };
+    if (replace) tx.set(ref, { ...next, ...meta });
+    else tx.set(ref, { ...next, ...meta }, { merge: true });
+
+    tx.set(versionsRef(db).doc(String(version)), {
+      version,
+      config: after,
+      changes,
+      author_id: authorId,
+      restored_from: restoredFrom ?? null,
+      created_at: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return { config: after, version, changes };
+  });
+}
+
+export async function saveNotificationRouterConfig(
+  db: admin.firestore.Firestore,
+  patch: Partial<NotificationRouterConfig>,
+  authorId: string | null
+) {
+  // The admin UI posts back the config it loaded, bookkeeping fields included.
+  return commitConfig(db, { next: withoutMeta(patch), replace: false, authorId });
+}
+
+/** Make `version` current again; null when it does not exist. */
+export async function restoreNotificationRouterConfig(
+  db: admin.firestore.Firestore,
+  version: number,
+  authorId: string | null
+) {
+  const snap = await versionsRef(db).doc(String(version)).get();
+  if (!snap.exists) return null;
+  const config = snap.get('config') as Record<string, unknown>;
+  return commitConfig(db, { next: config, replace: true, authorId, restoredFrom: version });
+}
+
+export async function listConfigVersions(db: admin.firestore.Firestore, limit: number) {
+  const snap = await versionsRef(db).orderBy('version', 'desc').limit(limit).get();
+  return snap.docs.map((d) => versionFromDoc(d.data()));
+}
+
+export async function getConfigVersion(
+  db: admin.firestore.Firestore,
+  version: number
+): Promise<ConfigVersionDetail | null> {
+  const snap = await versionsRef(db).doc(String(version)).get();
+  if (!snap.exists) return null;
+  const data = snap.data() || {};
+  return {
+    ...versionFromDoc(data),
+    config: notificationConfigFromDoc(data.config || {}),
+    changes: Array.isArray(data.changes) ? (data.changes as ConfigChange[]) : [],
+  };
+}
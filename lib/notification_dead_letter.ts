@@ -0,0 +1,215 @@
+import admin from 'firebase-admin';
+import { LEGACY_DEVICE_ID, getUserDevices, removeDevice } from './notification_devices';
+import {
+  INVALID_TOKEN_ERROR_CODES,
+  isTransientFcmError,
+  tokenFingerprint,
+} from './notification_router';
+
+/**
+ * Dead letters are queue items left in `failed`: permanent errors, or transient
+ * ones that ran out of retries. They are grouped by `error_code` so one bulk
+ * action can resolve a whole class of failure.
+ */
+
+// Group key for failures written before error codes were recorded.
+export const NO_ERROR_CODE = 'none';
+
+export type DeadLetterAction = 'retry' | 'discard' | 'clear_tokens';
+
+export type DeadLetterGroup = {
+  code: string;
+  count: number;
+  transient: boolean;
+  invalidToken: boolean;
+  latestError: string | null;
+  newestAt: string | null;
+  oldestAt: string | null;
+};
+
+export type DeadLetterItem = {
+  id: string;
+  recipient_id: string | null;
+  category: string | null;
+  type: string | null;
+  title: string;
+  error: string | null;
+  error_code: string | null;
+  attempts: number;
+  campaign_id: string | null;
+  dead_lettered_at: string | null;
+};
+
+// Grouping is an in-memory pass over the newest failures; Firestore cannot group.
+const SCAN_LIMIT = 2000;
+const WRITE_BATCH_SIZE = 400;
+
+function tsToIso(value: unknown): string | null {
+  const ts = value as admin.firestore.Timestamp | undefined;
+  if (!ts || typeof ts.toDate !== 'function') return null;
+  return ts.toDate().toISOString();
+}
+
+function failedQuery(db: admin.firestore.Firestore) {
+  return db.collection('notification_queue').where('status', '==', 'failed');
+}
+
+function groupCode(data: admin.firestore.DocumentData) {
+  return String(data.error_code || '') || NO_ERROR_CODE;
+}
+
+function deadLetterDocToItem(d: admin.firestore.QueryDocumentSnapshot): DeadLetterItem {
+  const data = d.data() || {};
+  return {
+    id: d.id,
+    recipient_id: data.recipient_id || null,
+    category: data.category || null,
+    type: data.type || null,
+    title: data.title || '',
+    error: data.error || null,
+    error_code: data.error_code || null,
+    attempts: typeof data.attempts === 'number' ? data.attempts : 1,
+    campaign_id: data.campaign_id || null,
+    dead_lettered_at: tsToIso(data.dead_lettered_at ?? data.updated_at),
+  };
+}
+
+export async function listDeadLetterGroups(db: admin.firestore.Firestore) {
+  const snap = await failedQuery(db).limit(SCAN_LIMIT).get();
+  const groups = new Map<string, DeadLetterGroup>();
+
+  for (const doc of snap.docs) {
+    const data = doc.data();
+    const code = groupCode(data);
+    const at = tsToIso(data.dead_lettered_at ?? data.updated_at);
+    const group = groups.get(code) ?? {
+      code,
+      count: 0,
+      transient: isTransientFcmError(code),
+      invalidToken: INVALID_TOKEN_ERROR_CODES.includes(code),
+      latestError: null,
+      newestAt: null,
+      oldestAt: null,
+    };
+    group.count++;
+    if (at && (!group.newestAt || at > group.newestAt)) {
+      group.newestAt = at;
+      group.latestError = data.error || null;
+    }
+    if (at && (!group.oldestAt || at < group.oldestAt)) group.oldestAt = at;
+    groups.set(code, group);
+  }
+
+  return {
+    groups: Array.from(groups.values()).sort((a, b) => b.count - a.count),
+    scanned: snap.size,
+    truncated: snap.size >= SCAN_LIMIT,
+  };
+}
+
+async function groupDocs(db: admin.firestore.Firestore, code: string, limit: number) {
+  if (code !== NO_ERROR_CODE) {
+    const snap = await failedQuery(db).where('error_code', '==', code).limit(limit).get();
+    return snap.docs;
+  }
+  const snap = await failedQuery(db).limit(SCAN_LIMIT).get();
+  return snap.docs.filter((d) => groupCode(d.data()) === NO_ERROR_CODE).slice(0, limit);
+}
+
+export async function listDeadLetterItems(
+  db: admin.firestore.Firestore,
+  code: string,
+  limit: number
+) {
+  return (await groupDocs(db, code, limit)).map(deadLetterDocToItem);
+}
+
+async function writeInBatches(
+  db: admin.firestore.Firestore,
+  docs: admin.firestore.QueryDocumentSnapshot[],
+  write: (batch: admin.firestore.WriteBatch, doc: admin.firestore.QueryDocumentSnapshot) => void
+) {
+  for (let i = 0; i < docs.length; i += WRITE_BATCH_SIZE) {
+    const batch = db.batch();
+    for (const doc of docs.slice(i, i + WRITE_BATCH_SIZE)) write(batch, doc);
+    await batch.commit();
+  }
+}
+
+/**
+ * Remove the devices whose tokens failed. Items from before per-device
+ * fingerprints point at the single legacy token. Devices registered since
+ * are kept; the items are removed either way, as they cannot be delivered.
+ */
+async function clearGroupTokens(
+  db: admin.firestore.Firestore,
+  docs: admin.firestore.QueryDocumentSnapshot[]
+) {
+  const failedByRecipient = new Map<string, Set<string> | null>();
+  for (const doc of docs) {
+    const recipientId = String(doc.get('recipient_id') || '');
+    if (!recipientId) continue;
+    const fps = doc.get('failed_token_fps');
+    const known = failedByRecipient.get(recipientId);
+    if (!Array.isArray(fps)) {
+      if (known === undefined) failedByRecipient.set(recipientId, null);
+      continue;
+    }
+    const merged = known ?? new Set<string>();
+    for (const fp of fps) merged.add(String(fp));
+    failedByRecipient.set(recipientId, merged);
+  }
+
+  let cleared = 0;
+  let kept = 0;
+  for (const [recipientId, failedFps] of failedByRecipient) {
+    const devices = await getUserDevices(db, recipientId);
+    const stale = devices.filter((d) =>
+      failedFps ? failedFps.has(tokenFingerprint(d.token)) : d.id === LEGACY_DEVICE_ID
+    );
+    for (const device of stale) cleared += await removeDevice(db, recipientId, device.id);
+    kept += devices.length - stale.length;
+  }
+
+  await writeInBatches(db, docs, (batch, doc) => batch.delete(doc.ref));
+  return { cleared, kept, removed: docs.length };
+}
+
+export async function applyDeadLetterAction(
+  db: admin.firestore.Firestore,
+  params: { code: string; action: DeadLetterAction; limit: number; userId: string }
+) {
+  const { code, action, limit, userId } = params;
+  const docs = await groupDocs(db, code, limit);
+
+  if (action === 'clear_tokens') {
+    return { matched: docs.length, ...(await clearGroupTokens(db, docs)) };
+  }
+
+  if (action === 'discard') {
+    await writeInBatches(db, docs, (batch, doc) => batch.delete(doc.ref));
+    return { matched: docs.length, removed: docs.length };
+  }
+
+  // Retry: back to pending now, with a fresh attempt budget.
+  const now = admin.firestore.Timestamp.fromDate(new Date());
+  await writeInBatches(db, docs, (batch, doc) =>
+    batch.set(
+      doc.ref,
+      {
+        status: 'pending',
+        attempts: 0,
+        scheduled_at: now,
+        error: admin.firestore.FieldValue.delete(),
+        error_code: admin.firestore.FieldValue.delete(),
+        dead_lettered_at: admin.firestore.FieldValue.delete(),
+        failed_token_fps: admin.firestore.FieldValue.delete(),
+        retried_from_dead_letter_at: admin.firestore.FieldValue.serverTimestamp(),
+        retried_by: userId,
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    )
+  );
+  return { matched: docs.length, requeued: docs.length };
+}
@@ -0,0 +1,154 @@
+import admin from 'firebase-admin';
+
+/**
+ * Push devices per user. The app registers each install under `fcm_devices`
+ * on the user doc:
+ *
+ *   fcm_devices.<deviceId> = { token, platform, created_at, last_seen_at }
+ *
+ * The older single-token fields (`fcm_token`, `fcmToken`, `device_token`) are
+ * still read as one extra device until the app stops writing them.
+ */
+
+export type DevicePlatform = 'android' | 'ios' | 'web' | 'unknown';
+
+export type UserDevice = {
+  id: string;
+  token: string;
+  platform: DevicePlatform;
+  created_at: string | null;
+  last_seen_at: string | null;
+  // From the single-token fields rather than `fcm_devices`.
+  legacy: boolean;
+};
+
+// Pseudo device id for the single-token fields.
+export const LEGACY_DEVICE_ID = 'legacy';
+
+const LEGACY_TOKEN_FIELDS = ['fcm_token', 'fcmToken', 'device_token'];
+const PLATFORMS: DevicePlatform[] = ['android', 'ios', 'web'];
+
+function tsToIso(value: unknown): string | null {
+  const ts = value as admin.firestore.Timestamp | undefined;
+  if (!ts || typeof ts.toDate !== 'function') return null;
+  return ts.toDate().toISOString();
+}
+
+function legacyToken(data: Record<string, unknown>): string | null {
+  for (const field of LEGACY_TOKEN_FIELDS) {
+    const token = data[field];
+    if (typeof token === 'string' && token.trim()) return token;
+  }
+  return null;
+}
+
+function normalizePlatform(value: unknown): DevicePlatform {
+  const platform = String(value || '').toLowerCase();
+  return (PLATFORMS as string[]).includes(platform) ? (platform as DevicePlatform) : 'unknown';
+}
+
+function deviceFromEntry(id: string, raw: unknown): UserDevice | null {
+  const entry = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const token = typeof entry.token === 'string' ? entry.token.trim() : '';
+  if (!token) return null;
+  return {
+    id,
+    token,
+    platform: normalizePlatform(entry.platform),
+    created_at: tsToIso(entry.created_at),
+    last_seen_at: tsToIso(entry.last_seen_at),
+    legacy: false,
+  };
+}
+
+/** All devices on a user doc, most recently seen first, one entry per token. */
+export function userDevicesFromDoc(data: Record<string, unknown>): UserDevice[] {
+  const devices: UserDevice[] = [];
+  const seen = new Set<string>();
+
+  const map = data.fcm_devices && typeof data.fcm_devices === 'object' ? data.fcm_devices : {};
+  for (const [id, raw] of Object.entries(map)) {
+    const device = deviceFromEntry(id, raw);
+    if (!device || seen.has(device.token)) continue;
+    seen.add(device.token);
+    devices.push(device);
+  }
+
+  const legacy = legacyToken(data);
+  if (legacy && !seen.has(legacy)) {
+    devices.push({
+      id: LEGACY_DEVICE_ID,
+      token: legacy,
+      platform: 'unknown',
+      created_at: null,
+      last_seen_at: tsToIso(data.fcm_token_updated_at),
+      legacy: true,
+    });
+  }
+
+  return devices.sort((a, b) => (b.last_seen_at || '').localeCompare(a.last_seen_at || ''));
+}
+
+export async function getUserDevices(db: admin.firestore.Firestore, userId: string) {
+  const userDoc = await db.collection('users').doc(userId).get();
+  return userDoc.exists ? userDevicesFromDoc(userDoc.data() || {}) : [];
+}
+
+/** Enough of a token to tell devices apart in the admin UI. */
+export function maskToken(token: string) {
+  return token.length <= 12 ? '…' : `…${token.slice(-8)}`;
+}
+
+async function removeDevices(db: admin.firestore.Firestore, userId: string, devices: UserDevice[]) {
+  if (devices.length === 0) return 0;
+  const del = admin.firestore.FieldValue.delete();
+  const fields: [admin.firestore.FieldPath, unknown][] = [];
+  for (const device of devices) {
+    if (device.legacy) {
+      for (const field of LEGACY_TOKEN_FIELDS) {
+        fields.push([new admin.firestore.FieldPath(field), del]);
+      }
+      fields.push([
+        new admin.firestore.FieldPath('fcm_token_invalidated_at'),
+        admin.firestore.FieldValue.serverTimestamp(),
+      ]);
+    } else {
+      fields.push([new admin.firestore.FieldPath('fcm_devices', device.id), del]);
+    }
+  }
+  const [first, ...rest] = fields;
+  // FieldPath keys keep device ids with dots or slashes from being split.
+  await db
+    .collection('users')
+    .doc(userId)
+    .update(first[0], first[1], ...rest.flat());
+  return devices.length;
+}
+
+/** Drop the devices holding any of `tokens` (e.g. FCM reported them unregistered). */
+export async function removeDeviceTokens(
+  db: admin.firestore.Firestore,
+  userId: string,
+  tokens: string[]
+) {
+  const dead = new Set(tokens);
+  const devices = await getUserDevices(db, userId);
+  return removeDevices(
+    db,
+    userId,
+    devices.filter((d) => dead.has(d.token))
+  );
+}
+
+export async function removeDevice(
+  db: admin.firestore.Firestore,
+  userId: string,
+  deviceId: string
+) {
+  const devices = await getUserDevices(db, userId);
+  return removeDevices(
+    db,
+    userId,
+    devices.filter((d) => d.id === deviceId)
+  );
+}
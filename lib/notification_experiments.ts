@@ -0,0 +1,392 @@
+import { createHash } from 'node:crypto';
+import admin from 'firebase-admin';
+
+/** One copy variant of an A/B send. `weight` is relative; variants default to an even split. */
+export type NotificationVariant = {
+  id: string;
+  title: string;
+  body: string;
+  weight: number;
+};
+
+export type NotificationExperiment = {
+  id: string;
+  name: string;
+  type: string;
+  category: string;
+  variants: NotificationVariant[];
+  audience_mode: string;
+  broadcast_id: string | null;
+  activity_source: string | null;
+  created_by: string | null;
+  created_at: string | null;
+};
+
+export type VariantResult = NotificationVariant & {
+  counts: { pending: number; sent: number; failed: number; skipped: number };
+  engagement: { sampled: number; engaged: number; rate: number | null; maturing: number };
+};
+
+export const MAX_VARIANTS = 5;
+
+const EXPERIMENTS_COLLECTION = 'notification_experiments';
+
+// Sent queue docs checked per variant for downstream engagement.
+const ENGAGEMENT_SAMPLE = 300;
+const ENGAGEMENT_CONCURRENCY = 20;
+
+const HOUR_MS = 60 * 60_000;
+
+type ActivityCheck = (
+  db: admin.firestore.Firestore,
+  userId: string,
+  from: Date,
+  to: Date
+) => Promise<boolean>;
+
+async function anyDocBetween(
+  col: admin.firestore.CollectionReference,
+  field: string,
+  from: Date,
+  to: Date
+) {
+  const snap = await col
+    .where(field, '>=', admin.firestore.Timestamp.fromDate(from))
+    .where(field, '<=', admin.firestore.Timestamp.fromDate(to))
+    .limit(1)
+    .get();
+  return !snap.empty;
+}
+
+// Meals are keyed by date (meals/{uid}/dates/{YYYY-MM-DD}/foods), so this is day-granular.
+async function anyMealBetween(db: admin.firestore.Firestore, userId: string, from: Date, to: Date) {
+  const day = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+  while (day.getTime() <= to.getTime()) {
+    const snap = await db
+      .collection('meals')
+      .doc(userId)
+      .collection('dates')
+      .doc(day.toISOString().split('T')[0])
+      .collection('foods')
+      .limit(1)
+      .get();
+    if (!snap.empty) return true;
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+  return false;
+}
+
+/**
+ * Feature activity that counts as engagement, read from the same Firestore
+ * collections as the per-user analytics routes under app/api/users/[userId].
+ */
+export const ACTIVITY_SOURCES: Record<string, { label: string; check: ActivityCheck }> = {
+  water: {
+    label: 'Water logged',
+    check: (db, uid, from, to) =>
+      anyDocBetween(db.collection('water_logs').doc(uid).collection('logs'), 'timestamp', from, to),
+  },
+  mood: {
+    label: 'Mood logged',
+    check: (db, uid, from, to) =>
+      anyDocBetween(db.collection('users').doc(uid).collection('moods'), 'createdAt', from, to),
+  },
+  journal: {
+    label: 'Journal entry',
+    check: (db, uid, from, to) =>
+      anyDocBetween(
+        db.collection('journals').doc(uid).collection('entries'),
+        'createdAt',
+        from,
+        to
+      ),
+  },
+  gratitude: {
+    label: 'Gratitude entry',
+    check: (db, uid, from, to) =>
+      anyDocBetween(
+        db.collection('gratitude').doc(uid).collection('entries'),
+        'timestamp',
+        from,
+        to
+      ),
+  },
+  mindfulness: {
+    label: 'Mindfulness session',
+    check: (db, uid, from, to) =>
+      anyDocBetween(
+        db.collection('users').doc(uid).collection('mindfulness').doc('data').collection('history'),
+        'completedAt',
+        from,
+        to
+      ),
+  },
+  fitness: {
+    label: 'Workout logged',
+    check: (db, uid, from, to) =>
+      anyDocBetween(
+        db.collection('users').doc(uid).collection('fitness').doc('data').collection('workouts'),
+        'createdAt',
+        from,
+        to
+      ),
+  },
+  nutrition: { label: 'Meal logged', check: anyMealBetween },
+  symptoms: {
+    label: 'Symptom logged',
+    check: (db, uid, from, to) =>
+      anyDocBetween(
+        db.collection('symptoms').doc(uid).collection('entries'),
+        'timestamp',
+        from,
+        to
+      ),
+  },
+};
+
+const TYPE_ACTIVITY: Record<string, string> = {
+  mindscape_mood: 'mood',
+  mindscape_general: 'mood',
+  mindscape_journal: 'journal',
+  mindscape_gratitude: 'gratitude',
+  mindscape_therapy: 'mindfulness',
+  wellsphere_symptoms: 'symptoms',
+};
+
+/** The activity that matches a notification type's target feature, if any. */
+export function defaultActivitySource(type: string): string | null {
+  if (TYPE_ACTIVITY[type]) return TYPE_ACTIVITY[type];
+  const prefix = type.split('_')[0];
+  return ['water', 'fitness', 'nutrition'].includes(prefix) ? prefix : null;
+}
+
+function parseVariant(item: unknown, index: number): NotificationVariant | string {
+  const v = item && typeof item === 'object' ? (item as Record<string, unknown>) : {};
+  const id = String(v.id || String.fromCharCode(65 + index)).trim();
+  const title = String(v.title || '').trim();
+  const body = String(v.body || '').trim();
+  const weight = v.weight === undefined ? 1 : Number(v.weight);
+  if (!title || !body) return `Variant ${id} needs a title and body`;
+  if (!Number.isFinite(weight) || weight <= 0) {
+    return `Variant ${id} weight must be a positive number`;
+  }
+  return { id, title, body, weight };
+}
+
+/** Validate variants from a request body. Ids default to A, B, C... */
+export function normalizeVariants(
+  raw: unknown
+): { variants: NotificationVariant[] } | { error: string } {
+  if (!Array.isArray(raw)) return { error: 'variants must be an array' };
+  if (raw.length < 2 || raw.length > MAX_VARIANTS) {
+    return { error: `Between 2 and ${MAX_VARIANTS} variants are required` };
+  }
+
+  const variants: NotificationVariant[] = [];
+  for (const [index, item] of raw.entries()) {
+    const variant = parseVariant(item, index);
+    if (typeof variant === 'string') return { error: variant };
+    if (variants.some((existing) => existing.id === variant.id)) {
+      return { error: `Duplicate variant id ${variant.id}` };
+    }
+    variants.push(variant);
+  }
+  return { variants };
+}
+
+/**
+ * Deterministic split: the same user always lands in the same variant of an
+ * experiment, whichever path (direct send or broadcast expansion) enqueues them.
+ */
+export function assignVariant(
+  experimentId: string,
+  userId: string,
+  variants: NotificationVariant[]
+): NotificationVariant {
+  const hash = createHash('sha256').update(`${experimentId}:${userId}`).digest();
+  const total = variants.reduce((sum, v) => sum + (v.weight || 1), 0);
+  let point = (hash.readUInt32BE(0) / 0x1_0000_0000) * total;
+  for (const variant of variants) {
+    point -= variant.weight || 1;
+    if (point < 0) return variant;
+  }
+  return variants[variants.length - 1];
+}
+
+/** Queue doc fields for one recipient of an experiment. */
+export function variantQueueFields(
+  experimentId: string,
+  variants: NotificationVariant[],
+  userId: string
+) {
+  const variant = assignVariant(experimentId, userId, variants);
+  return {
+    title: variant.title,
+    body: variant.body,
+    experiment_id: experimentId,
+    variant_id: variant.id,
+  };
+}
+
+function tsToIso(value: unknown): string | null {
+  const ts = value as admin.firestore.Timestamp | undefined;
+  if (!ts || typeof ts.toDate !== 'function') return null;
+  return ts.toDate().toISOString();
+}
+
+function experimentDocToItem(d: admin.firestore.DocumentSnapshot): NotificationExperiment {
+  const data = d.data() || {};
+  return {
+    id: d.id,
+    name: data.name || '',
+    type: data.type || '',
+    category: data.category || 'admin',
+    variants: Array.isArray(data.variants) ? data.variants : [],
+    audience_mode: data.audience_mode || 'users',
+    broadcast_id: data.broadcast_id || null,
+    activity_source: data.activity_source || null,
+    created_by: data.created_by || null,
+    created_at: tsToIso(data.created_at),
+  };
+}
+
+export function experimentsRef(db: admin.firestore.Firestore) {
+  return db.collection(EXPERIMENTS_COLLECTION);
+}
+
+export async function createExperiment(
+  db: admin.firestore.Firestore,
+  params: {
+    ref?: admin.firestore.DocumentReference;
+    name: string;
+    type: string;
+    category: string;
+    variants: NotificationVariant[];
+    audienceMode: string;
+    broadcastId?: string | null;
+    userId: string;
+  }
+) {
+  const ref = params.ref ?? experimentsRef(db).doc();
+  await ref.set({
+    name: params.name,
+    type: params.type,
+    category: params.category,
+    variants: params.variants,
+    audience_mode: params.audienceMode,
+    broadcast_id: params.broadcastId ?? null,
+    activity_source: defaultActivitySource(params.type),
+    created_by: params.userId,
+    created_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  return ref.id;
+}
+
+export async function listExperiments(db: admin.firestore.Firestore, limit = 30) {
+  const snap = await experimentsRef(db).orderBy('created_at', 'desc').limit(limit).get();
+  return snap.docs.map(experimentDocToItem);
+}
+
+export async function getExperiment(
+  db: admin.firestore.Firestore,
+  experimentId: string
+): Promise<NotificationExperiment | null> {
+  const snap = await experimentsRef(db).doc(experimentId).get();
+  return snap.exists ? experimentDocToItem(snap) : null;
+}
+
+async function countVariantStatus(
+  db: admin.firestore.Firestore,
+  experimentId: string,
+  variantId: string,
+  status: string
+) {
+  const query = db
+    .collection('notification_queue')
+    .where('experiment_id', '==', experimentId)
+    .where('variant_id', '==', variantId)
+    .where('status', '==', status);
+  try {
+    const snap = await query.count().get();
+    return snap.data().count;
+  } catch {
+    // Fallback (bounded)
+    const snap = await query.limit(1000).get();
+    return snap.size;
+  }
+}
+
+async function variantEngagement(
+  db: admin.firestore.Firestore,
+  experimentId: string,
+  variantId: string,
+  check: ActivityCheck,
+  hours: number
+): Promise<VariantResult['engagement']> {
+  const snap = await db
+    .collection('notification_queue')
+    .where('experiment_id', '==', experimentId)
+    .where('variant_id', '==', variantId)
+    .where('status', '==', 'sent')
+    .limit(ENGAGEMENT_SAMPLE)
+    .get();
+
+  const now = Date.now();
+  const windows: { userId: string; from: Date; to: Date }[] = [];
+  let maturing = 0;
+  for (const doc of snap.docs) {
+    const data = doc.data();
+    const sentAt = (data.sent_at as admin.firestore.Timestamp | undefined)?.toDate();
+    if (!sentAt || !data.recipient_id) continue;
+    const to = new Date(sentAt.getTime() + hours * HOUR_MS);
+    // Too recent to judge yet; excluded so both variants are compared on full windows.
+    if (to.getTime() > now) {
+      maturing++;
+      continue;
+    }
+    windows.push({ userId: String(data.recipient_id), from: sentAt, to });
+  }
+
+  let engaged = 0;
+  for (let i = 0; i < windows.length; i += ENGAGEMENT_CONCURRENCY) {
+    const results = await Promise.all(
+      windows
+        .slice(i, i + ENGAGEMENT_CONCURRENCY)
+        .map((w) => check(db, w.userId, w.from, w.to).catch(() => false))
+    );
+    engaged += results.filter(Boolean).length;
+  }
+
+  return {
+    sampled: windows.length,
+    engaged,
+    rate: windows.length > 0 ? engaged / windows.length : null,
+    maturing,
+  };
+}
+
+/**
+ * Per-variant delivery counts (from queue statuses) and the share of sent
+ * recipients who used `source` within `hours` of delivery.
+ */
+export async function experimentResults(
+  db: admin.firestore.Firestore,
+  experiment: NotificationExperiment,
+  params: { hours: number; source: string | null }
+): Promise<VariantResult[]> {
+  const activity = params.source ? ACTIVITY_SOURCES[params.source] : undefined;
+
+  return Promise.all(
+    experiment.variants.map(async (variant) => {
+      const [pending, sent, failed, skipped] = await Promise.all(
+        ['pending', 'sent', 'failed', 'skipped'].map((status) =>
+          countVariantStatus(db, experiment.id, variant.id, status)
+        )
+      );
+      const engagement = activity
+        ? await variantEngagement(db, experiment.id, variant.id, activity.check, params.hours)
+        : { sampled: 0, engaged: 0, rate: null, maturing: 0 };
+      return { ...variant, counts: { pending, sent, failed, skipped }, engagement };
+    })
+  );
+}
@@ -0,0 +1,275 @@
+import admin from 'firebase-admin';
+import type { QueueDoc } from './notification_router';
+
+/**
+ * Delivery and tap metrics for the queue.
+ *
+ * Outcomes are counted when the router records them, into one doc per UTC day:
+ *
+ *   notification_metrics/<YYYY-MM-DD> = {
+ *     totals: { sent, failed, ... },
+ *     categories | types | templates | broadcasts: { <key>: { sent, failed, ... } }
+ *   }
+ *
+ * Recurring items never reach `sent` status, so counting queue docs would miss them.
+ *
+ * Taps: every push carries `queue_id` in its data payload, and the app writes
+ * `notification_opens/<queue_id> = { opened_at, recipient_id }` when one is
+ * tapped. Keying by queue id makes the write idempotent; opens are attributed
+ * to category, type, template and broadcast by joining back to the queue doc.
+ */
+
+export type MetricOutcome = 'sent' | 'failed' | 'skipped' | 'deferred' | 'capped' | 'retried';
+
+export const METRIC_OUTCOMES: MetricOutcome[] = [
+  'sent',
+  'failed',
+  'skipped',
+  'deferred',
+  'capped',
+  'retried',
+];
+
+export type MetricCounts = Record<MetricOutcome | 'opened', number>;
+
+export type MetricsDay = MetricCounts & { day: string };
+
+export type MetricsBreakdownRow = MetricCounts & {
+  key: string;
+  label: string;
+  // opened / sent; null until something was sent.
+  tapRate: number | null;
+};
+
+export type NotificationMetrics = {
+  from: string;
+  to: string;
+  series: MetricsDay[];
+  totals: MetricCounts & { tapRate: number | null };
+  categories: MetricsBreakdownRow[];
+  types: MetricsBreakdownRow[];
+  templates: MetricsBreakdownRow[];
+  broadcasts: MetricsBreakdownRow[];
+  opens: { scanned: number; unattributed: number; truncated: boolean };
+};
+
+type Dimension = 'categories' | 'types' | 'templates' | 'broadcasts';
+
+const DIMENSIONS: Dimension[] = ['categories', 'types', 'templates', 'broadcasts'];
+
+// Map key for items without a category or type; Firestore map keys cannot be empty.
+const NONE_KEY = 'none';
+
+export const MAX_METRICS_DAYS = 90;
+
+// Opens read per request; each one costs a queue doc read to attribute it.
+const OPEN_SCAN_LIMIT = 5000;
+const GET_ALL_CHUNK = 300;
+
+const DAY_MS = 24 * 60 * 60_000;
+
+function metricsRef(db: admin.firestore.Firestore) {
+  return db.collection('notification_metrics');
+}
+
+export function opensRef(db: admin.firestore.Firestore) {
+  return db.collection('notification_opens');
+}
+
+export function metricsDayKey(date: Date) {
+  return date.toISOString().split('T')[0];
+}
+
+function emptyCounts(): MetricCounts {
+  return { sent: 0, failed: 0, skipped: 0, deferred: 0, capped: 0, retried: 0, opened: 0 };
+}
+
+function tapRate(counts: MetricCounts) {
+  return counts.sent > 0 ? counts.opened / counts.sent : null;
+}
+
+// Which key of each dimension a queue doc counts under; null when it has none.
+function dimensionKeys(payload: QueueDoc): Record<Dimension, string | null> {
+  return {
+    categories: payload.category || NONE_KEY,
+    types: payload.type || NONE_KEY,
+    templates: payload.template_id || null,
+    broadcasts: payload.campaign_kind === 'broadcast' ? payload.campaign_id || null : null,
+  };
+}
+
+/** Count one router outcome for `payload` on today's metrics doc. */
+export async function recordQueueOutcome(
+  db: admin.firestore.Firestore,
+  payload: QueueDoc,
+  outcome: MetricOutcome,
+  at = new Date()
+) {
+  const increment = { [outcome]: admin.firestore.FieldValue.increment(1) };
+  const doc: Record<string, unknown> = {
+    day: metricsDayKey(at),
+    totals: increment,
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  };
+  for (const [dimension, key] of Object.entries(dimensionKeys(payload))) {
+    if (key) doc[dimension] = { [key]: increment };
+  }
+  await metricsRef(db).doc(metricsDayKey(at)).set(doc, { merge: true });
+}
+
+function addCounts(target: MetricCounts, source: Record<string, unknown> | undefined) {
+  if (!source) return;
+  for (const outcome of METRIC_OUTCOMES) target[outcome] += Number(source[outcome]) || 0;
+}
+
+async function getAllChunked(
+  db: admin.firestore.Firestore,
+  refs: admin.firestore.DocumentReference[]
+) {
+  const snaps: admin.firestore.DocumentSnapshot[] = [];
+  for (let i = 0; i < refs.length; i += GET_ALL_CHUNK) {
+    snaps.push(...(await db.getAll(...refs.slice(i, i + GET_ALL_CHUNK))));
+  }
+  return snaps;
+}
+
+type Breakdown = Map<string, MetricCounts>;
+
+function breakdownRow(breakdown: Breakdown, key: string) {
+  let row = breakdown.get(key);
+  if (!row) {
+    row = emptyCounts();
+    breakdown.set(key, row);
+  }
+  return row;
+}
+
+function breakdownRows(
+  breakdown: Breakdown,
+  labels: Map<string, string> = new Map()
+): MetricsBreakdownRow[] {
+  return Array.from(breakdown.entries())
+    .map(([key, counts]) => ({
+      key,
+      label: labels.get(key) || key,
+      ...counts,
+      tapRate: tapRate(counts),
+    }))
+    .sort((a, b) => b.sent - a.sent || b.opened - a.opened);
+}
+
+// Opens in the window, attributed through their queue docs.
+async function countOpens(
+  db: admin.firestore.Firestore,
+  from: Date,
+  series: Map<string, MetricsDay>,
+  breakdowns: Record<Dimension, Breakdown>
+) {
+  const snap = await opensRef(db)
+    .where('opened_at', '>=', admin.firestore.Timestamp.fromDate(from))
+    .limit(OPEN_SCAN_LIMIT)
+    .get();
+  const queueSnaps = await getAllChunked(
+    db,
+    snap.docs.map((d) => db.collection('notification_queue').doc(d.id))
+  );
+
+  let unattributed = 0;
+  snap.docs.forEach((openDoc, i) => {
+    const openedAt = (openDoc.get('opened_at') as admin.firestore.Timestamp).toDate();
+    const day = series.get(metricsDayKey(openedAt));
+    if (day) day.opened++;
+    const queueSnap = queueSnaps[i];
+    if (!queueSnap.exists) {
+      unattributed++;
+      return;
+    }
+    const keys = dimensionKeys(queueSnap.data() as QueueDoc);
+    for (const dimension of DIMENSIONS) {
+      const key = keys[dimension];
+      if (key) breakdownRow(breakdowns[dimension], key).opened++;
+    }
+  });
+  return { scanned: snap.size, unattributed, truncated: snap.size >= OPEN_SCAN_LIMIT };
+}
+
+// Template names and broadcast titles, for the rows that have them.
+async function loadLabels(
+  db: admin.firestore.Firestore,
+  collection: string,
+  ids: string[],
+  field: string
+) {
+  const labels = new Map<string, string>();
+  const snaps = await getAllChunked(
+    db,
+    ids.map((id) => db.collection(collection).doc(id))
+  );
+  for (const snap of snaps) {
+    const label = snap.exists ? String(snap.get(field) || '') : '';
+    if (label) labels.set(snap.id, label);
+  }
+  return labels;
+}
+
+/** Daily delivery counts and tap-through for the last `days` UTC days, today included. */
+export async function loadNotificationMetrics(
+  db: admin.firestore.Firestore,
+  days: number,
+  now = new Date()
+): Promise<NotificationMetrics> {
+  const dayKeys = Array.from({ length: days }, (_, i) =>
+    metricsDayKey(new Date(now.getTime() - (days - 1 - i) * DAY_MS))
+  );
+  const from = new Date(`${dayKeys[0]}T00:00:00.000Z`);
+
+  const series = new Map<string, MetricsDay>(
+    dayKeys.map((day) => [day, { day, ...emptyCounts() }])
+  );
+  const breakdowns = Object.fromEntries(DIMENSIONS.map((d) => [d, new Map()])) as Record<
+    Dimension,
+    Breakdown
+  >;
+
+  const metricSnaps = await getAllChunked(
+    db,
+    dayKeys.map((day) => metricsRef(db).doc(day))
+  );
+  for (const snap of metricSnaps) {
+    const data = snap.data();
+    if (!data) continue;
+    addCounts(series.get(snap.id) as MetricsDay, data.totals);
+    for (const dimension of DIMENSIONS) {
+      for (const [key, counts] of Object.entries(
+        (data[dimension] || {}) as Record<string, unknown>
+      )) {
+        addCounts(breakdownRow(breakdowns[dimension], key), counts as Record<string, unknown>);
+      }
+    }
+  }
+
+  const opens = await countOpens(db, from, series, breakdowns);
+
+  const totals = emptyCounts();
+  for (const day of series.values()) {
+    addCounts(totals, day);
+    totals.opened += day.opened;
+  }
+
+  const [templateNames, broadcastTitles] = await Promise.all([
+    loadLabels(db, 'notification_templates', Array.from(breakdowns.templates.keys()), 'name'),
+    loadLabels(db, 'notification_broadcasts', Array.from(breakdowns.broadcasts.keys()), 'title'),
+  ]);
+
+  return {
+    from: dayKeys[0],
+    to: dayKeys[dayKeys.length - 1],
+    series: Array.from(series.values()),
+    totals: { ...totals, tapRate: tapRate(totals) },
+    categories: breakdownRows(breakdowns.categories),
+    types: breakdownRows(breakdowns.types),
+    templates: breakdownRows(breakdowns.templates, templateNames),
+    broadcasts: breakdownRows(breakdowns.broadcasts, broadcastTitles),
+    opens,
+  };
+}
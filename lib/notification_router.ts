@@ -1,4 +1,15 @@
+import { createHash } from 'node:crypto';
 import admin from 'firebase-admin';
+import { getUserDevices, removeDeviceTokens, userDevicesFromDoc } from './notification_devices';
+import { recordQueueOutcome } from './notification_metrics';
+import {
+  type ScheduleZone,
+  nextLocalOccurrenceUtc,
+  normalizeTimeZone,
+  scheduleZoneFromDoc,
+  toLocalDateTime,
+} from './notification_schedule';
+import { type NotificationTemplate, renderTemplateForUser } from './notification_templates';
 
 export type EngagementFeatureKey =
   | 'water'
@@ -8,6 +19,12 @@ export type EngagementFeatureKey =
   | 'journal'
   | 'gratitude';
 
+/**
+ * `high` bypasses frequency caps (and quiet hours unless configured otherwise);
+ * within a batch, items are sent high → normal → low.
+ */
+export type NotificationPriority = 'high' | 'normal' | 'low';
+
 export type NotificationRouterConfig = {
   globalEnabled: boolean;
   processingEnabled: boolean;
@@ -34,6 +51,11 @@ export type NotificationRouterConfig = {
       intro: Record<EngagementFeatureKey, { title: string; body: string }>;
       recurring: Record<EngagementFeatureKey, { title: string; body: string }>;
     };
+    // Library templates (notification_templates ids) that override the fixed copy above.
+    templateIds: {
+      intro: Partial<Record<EngagementFeatureKey, string>>;
+      recurring: Partial<Record<EngagementFeatureKey, string>>;
+    };
     recurringRules: Record<
       EngagementFeatureKey,
       {
@@ -45,6 +67,32 @@ export type NotificationRouterConfig = {
       }
     >;
   };
+
+  // Local-clock window (user's tz_offset_minutes) in which sends are deferred to `end`.
+  quietHours: {
+    enabled: boolean;
+    start: { hour: number; minute: number };
+    end: { hour: number; minute: number };
+    includeHighPriority: boolean;
+  };
+
+  // Max sends per user per local day / week (Mon-Sun), across all categories. 0 = no cap.
+  frequencyCaps: {
+    enabled: boolean;
+    perDay: number;
+    perWeek: number;
+  };
+
+  // Priority per queue category; unknown categories are `normal`.
+  categoryPriority: Record<string, NotificationPriority>;
+
+  // Transient FCM failures go back to pending with exponential backoff until maxAttempts.
+  retryPolicy: {
+    enabled: boolean;
+    maxAttempts: number; // total sends, including the first
+    baseDelayMs: number;
+    maxDelayMs: number;
+  };
 };
 
 export const DEFAULT_NOTIFICATION_ROUTER_CONFIG: NotificationRouterConfig = {
@@ -126,6 +174,7 @@ export const DEFAULT_NOTIFICATION_ROUTER_CONFIG: NotificationRouterConfig = {
         },
       },
     },
+    templateIds: { intro: {}, recurring: {} },
     recurringRules: {
       water: { repeat: 'daily' },
       daily_checkin: { repeat: 'daily' },
@@ -135,6 +184,28 @@ export const DEFAULT_NOTIFICATION_ROUTER_CONFIG: NotificationRouterConfig = {
       gratitude: { repeat: 'daily' },
     },
   },
+  quietHours: {
+    enabled: false,
+    start: { hour: 22, minute: 0 },
+    end: { hour: 8, minute: 0 },
+    includeHighPriority: false,
+  },
+  frequencyCaps: {
+    enabled: false,
+    perDay: 3,
+    perWeek: 10,
+  },
+  categoryPriority: {
+    connect: 'high',
+    admin: 'normal',
+    engagement: 'low',
+  },
+  retryPolicy: {
+    enabled: true,
+    maxAttempts: 5,
+    baseDelayMs: 60_000,
+    maxDelayMs: 6 * 60 * 60_000,
+  },
 };
 
 export function notificationConfigRef(db: admin.firestore.Firestore) {
@@ -146,8 +217,12 @@ export async function loadNotificationRouterConfig(
 ): Promise<NotificationRouterConfig> {
   const snap = await notificationConfigRef(db).get();
   if (!snap.exists) return DEFAULT_NOTIFICATION_ROUTER_CONFIG;
-  const data = snap.data() || {};
+  return notificationConfigFromDoc(snap.data() || {});
+}
 
+export function notificationConfigFromDoc(
+  data: admin.firestore.DocumentData
+): NotificationRouterConfig {
   // Shallow merge with defaults to handle partial docs safely.
   return {
     ...DEFAULT_NOTIFICATION_ROUTER_CONFIG,
@@ -180,25 +255,29 @@ export async function loadNotificationRouterConfig(
           ...((data.engagement?.templates?.recurring) || {}),
         },
       },
+      templateIds: {
+        intro: { ...((data.engagement?.templateIds?.intro) || {}) },
+        recurring: { ...((data.engagement?.templateIds?.recurring) || {}) },
+      },
       recurringRules: {
         ...DEFAULT_NOTIFICATION_ROUTER_CONFIG.engagement.recurringRules,
         ...((data.engagement?.recurringRules) || {}),
       },
     },
-  } as NotificationRouterConfig;
-}
-
-export async function saveNotificationRouterConfig(
-  db: admin.firestore.Firestore,
-  patch: Partial<NotificationRouterConfig>
-) {
-  await notificationConfigRef(db).set(
-    {
-      ...patch,
-      updated_at: admin.firestore.FieldValue.serverTimestamp(),
+    quietHours: {
+      ...DEFAULT_NOTIFICATION_ROUTER_CONFIG.quietHours,
+      ...(data.quietHours || {}),
     },
-    { merge: true }
-  );
+    frequencyCaps: {
+      ...DEFAULT_NOTIFICATION_ROUTER_CONFIG.frequencyCaps,
+      ...(data.frequencyCaps || {}),
+    },
+    categoryPriority: {
+      ...DEFAULT_NOTIFICATION_ROUTER_CONFIG.categoryPriority,
+      ...(data.categoryPriority || {}),
+    },
+    retryPolicy: { ...DEFAULT_NOTIFICATION_ROUTER_CONFIG.retryPolicy, ...data.retryPolicy },
+  } as NotificationRouterConfig;
 }
 
 export function stringifyData(input: Record<string, unknown> | undefined): Record<string, string> {
@@ -214,33 +293,13 @@ export function stringifyData(input: Record<string, unknown> | undefined): Recor
 export function computeNextUtcForLocalTime(params: {
   now: Date;
   tzOffsetMinutes: number;
+  // IANA zone; when set (and valid) it wins over the fixed offset, so DST is honoured.
+  timeZone?: string | null;
   hour: number;
   minute: number;
 }): Date {
-  const { now, tzOffsetMinutes, hour, minute } = params;
-  const nowUtcMs = now.getTime();
-  const nowLocalMs = nowUtcMs + tzOffsetMinutes * 60_000;
-  const nowLocal = new Date(nowLocalMs);
-
-  const candidateLocal = new Date(
-    Date.UTC(
-      nowLocal.getUTCFullYear(),
-      nowLocal.getUTCMonth(),
-      nowLocal.getUTCDate(),
-      hour,
-      minute,
-      0,
-      0
-    )
-  );
-
-  let scheduledLocal = candidateLocal;
-  if (scheduledLocal.getTime() <= nowLocal.getTime()) {
-    scheduledLocal = new Date(scheduledLocal.getTime() + 24 * 60 * 60_000);
-  }
-
-  const scheduledUtcMs = scheduledLocal.getTime() - tzOffsetMinutes * 60_000;
-  return new Date(scheduledUtcMs);
+  const { now, tzOffsetMinutes, timeZone, hour, minute } = params;
+  return nextLocalOccurrenceUtc({ now, zone: { timeZone, tzOffsetMinutes }, hour, minute });
 }
 
 export async function getQueueStats(db: admin.firestore.Firestore) {
@@ -261,14 +320,18 @@ export async function getQueueStats(db: admin.firestore.Firestore) {
     }
   }
 
-  const [pending, sent, failed, skipped] = await Promise.all([
+  const [pending, sent, failed, skipped, deferred, capped] = await Promise.all([
     countWhere('status', '==', 'pending'),
     countWhere('status', '==', 'sent'),
     countWhere('status', '==', 'failed'),
     countWhere('status', '==', 'skipped'),
+    countWhere('status', '==', 'deferred'),
+    // Recurring items roll on to their next occurrence as `pending` when capped, so
+    // capped items are counted by reason; a later send clears it again.
+    countWhere('capped_reason', 'in', ['daily_cap', 'weekly_cap']),
   ]);
 
-  return { pending, sent, failed, skipped };
+  return { pending, sent, failed, skipped, deferred, capped };
 }
 
 export type QueueDoc = {
@@ -283,7 +346,15 @@ export type QueueDoc = {
   data?: Record<string, unknown>;
   dedupe_key?: string;
   dedupe_window_ms?: number;
-  status?: 'pending' | 'sent' | 'failed' | 'skipped';
+  experiment_id?: string;
+  variant_id?: string;
+  template_id?: string;
+  campaign_kind?: string;
+  campaign_id?: string;
+  attempts?: number;
+  status?: 'pending' | 'sent' | 'failed' | 'skipped' | 'deferred' | 'capped';
+  // Set when the item (or a recurring item's last occurrence) hit a frequency cap
+  capped_reason?: 'daily_cap' | 'weekly_cap';
   scheduled_at?: admin.firestore.Timestamp;
   repeat?: 'daily' | 'every_n_days' | 'weekdays';
   interval_days?: number;
@@ -293,6 +364,7 @@ export type QueueDoc = {
   hour?: number;
   minute?: number;
   tz_offset_minutes?: number;
+  time_zone?: string;
   last_sent_at?: admin.firestore.Timestamp;
 };
 
@@ -307,72 +379,35 @@ function normalizeDayOfWeekList(value: unknown): number[] {
 function computeNextUtcForWeekdays(params: {
   now: Date;
   tzOffsetMinutes: number;
+  timeZone?: string | null;
   hour: number;
   minute: number;
   daysOfWeek: number[]; // 0=Sun..6=Sat
 }): Date {
-  const { now, tzOffsetMinutes, hour, minute, daysOfWeek } = params;
-  const days = normalizeDayOfWeekList(daysOfWeek);
-  if (days.length === 0) {
-    return computeNextUtcForLocalTime({ now, tzOffsetMinutes, hour, minute });
-  }
-
-  // Convert now to "local-as-UTC"
-  const nowUtcMs = now.getTime();
-  const nowLocalMs = nowUtcMs + tzOffsetMinutes * 60_000;
-  const nowLocal = new Date(nowLocalMs);
-
-  // Candidate at today's local clock time
-  let candidateLocal = new Date(
-    Date.UTC(
-      nowLocal.getUTCFullYear(),
-      nowLocal.getUTCMonth(),
-      nowLocal.getUTCDate(),
-      hour,
-      minute,
-      0,
-      0
-    )
-  );
-
-  // If candidate time already passed in local, start checking from tomorrow
-  if (candidateLocal.getTime() <= nowLocal.getTime()) {
-    candidateLocal = new Date(candidateLocal.getTime() + 24 * 60 * 60_000);
-  }
-
-  // Iterate up to 7 days to find next allowed weekday
-  for (let i = 0; i < 7; i++) {
-    const weekday = candidateLocal.getUTCDay(); // local-as-UTC day
-    if (days.includes(weekday)) {
-      const candidateUtcMs = candidateLocal.getTime() - tzOffsetMinutes * 60_000;
-      return new Date(candidateUtcMs);
-    }
-    candidateLocal = new Date(candidateLocal.getTime() + 24 * 60 * 60_000);
-  }
-
-  // Fallback
-  return computeNextUtcForLocalTime({ now, tzOffsetMinutes, hour, minute });
+  const { now, tzOffsetMinutes, timeZone, hour, minute, daysOfWeek } = params;
+  return nextLocalOccurrenceUtc({
+    now,
+    zone: { timeZone, tzOffsetMinutes },
+    hour,
+    minute,
+    daysOfWeek: normalizeDayOfWeekList(daysOfWeek),
+  });
 }
 
-async function getUserToken(db: admin.firestore.Firestore, userId: string) {
-  const userDoc = await db.collection('users').doc(userId).get();
-  if (!userDoc.exists) return null;
-  const data = userDoc.data() || {};
-  const token = (data.fcm_token || data.fcmToken || data.device_token) as string | undefined;
-  if (!token || typeof token !== 'string' || !token.trim()) return null;
-  return token;
+/** Short, non-reversible token id, so dead-letter clean-up can tell which device failed. */
+export function tokenFingerprint(token: string) {
+  return createHash('sha256').update(token).digest('hex').slice(0, 16);
 }
 
-async function clearUserToken(db: admin.firestore.Firestore, userId: string) {
-  await db.collection('users').doc(userId).set(
-    {
-      fcm_token: admin.firestore.FieldValue.delete(),
-      fcmToken: admin.firestore.FieldValue.delete(),
-      device_token: admin.firestore.FieldValue.delete(),
-      fcm_token_invalidated_at: admin.firestore.FieldValue.serverTimestamp(),
-    },
-    { merge: true }
-  );
+/**
+ * Collapse an all-failed multicast into one error for the retry logic: a
+ * transient failure on any device wins, so the item is retried.
+ */
+function multicastError(response: admin.messaging.BatchResponse) {
+  const errors = response.responses
+    .map((r) => r.error)
+    .filter((e): e is admin.FirebaseError => Boolean(e));
+  return errors.find((e) => isTransientFcmError(e.code)) ?? errors[0];
 }
 
 async function rateLimitConnectIfNeeded(params: {
@@ -381,8 +416,9 @@ async function rateLimitConnectIfNeeded(params: {
   recipientId: string;
   type: string;
   cooldownMs: number;
+  now: Date;
 }): Promise<{ allowed: true } | { allowed: false; retryAfterMs: number }> {
-  const { db, senderId, recipientId, type, cooldownMs } = params;
+  const { db, senderId, recipientId, type, cooldownMs, now } = params;
   const docRef = db
     .collection('connect_notification_rate_limits')
     .doc(`${senderId}-${recipientId}`);
@@ -391,7 +427,6 @@ async function rateLimitConnectIfNeeded(params: {
     const snap = await tx.get(docRef);
     const data = snap.data() || {};
     const last = data[type] as admin.firestore.Timestamp | undefined;
-    const now = new Date();
 
     if (last?.toDate) {
       const lastDate = last.toDate();
@@ -418,156 +453,637 @@ async function rateLimitConnectIfNeeded(params: {
   return result;
 }
 
-type ProcessQueueDocOutcome = {
-  outcome: 'sent' | 'failed' | 'skipped' | 'deferred';
-  countedAs: 'sent' | 'failed' | 'skipped';
-  message?: string;
-};
+const DAY_MS = 24 * 60 * 60_000;
 
-// biome-ignore lint/complexity/noExcessiveCognitiveComplexity: main router logic is intentionally explicit
-async function processQueueDoc(params: {
-  db: admin.firestore.Firestore;
-  messaging: admin.messaging.Messaging;
-  config: NotificationRouterConfig;
-  ref: admin.firestore.DocumentReference;
-  payload: QueueDoc;
-}): Promise<ProcessQueueDocOutcome> {
-  const { db, messaging, config, ref, payload } = params;
-  const category = (payload.category || '').toString();
-  const type = (payload.type || '').toString();
-  const title = (payload.title || '').toString();
-  const body = (payload.body || '').toString();
-  const recipientId = (payload.recipient_id || '').toString();
-  const senderId = (payload.sender_id || '').toString();
+export const PRIORITY_RANK: Record<NotificationPriority, number> = { high: 0, normal: 1, low: 2 };
 
-  // Category gates (leave pending when disabled)
-  if (category === 'connect' && !config.connect.enabled) {
-    return { outcome: 'deferred', countedAs: 'skipped', message: 'Connect processing disabled' };
-  }
-  if (category === 'engagement' && !config.engagement.enabled) {
-    return { outcome: 'deferred', countedAs: 'skipped', message: 'Engagement processing disabled' };
+export function priorityForCategory(
+  config: NotificationRouterConfig,
+  category: string
+): NotificationPriority {
+  return config.categoryPriority[category] ?? 'normal';
+}
+
+/** When `now` falls inside quiet hours (user-local), the UTC instant they end; otherwise null. */
+export function quietHoursEndUtc(params: {
+  now: Date;
+  zone: ScheduleZone;
+  quietHours: NotificationRouterConfig['quietHours'];
+}): Date | null {
+  const { now, zone, quietHours } = params;
+  const start = quietHours.start.hour * 60 + quietHours.start.minute;
+  const end = quietHours.end.hour * 60 + quietHours.end.minute;
+  if (start === end) return null;
+
+  const nowLocal = toLocalDateTime(now, zone);
+  const minuteOfDay = nowLocal.hour * 60 + nowLocal.minute;
+  // start > end means the window wraps midnight (e.g. 22:00-08:00).
+  const inside =
+    start < end
+      ? minuteOfDay >= start && minuteOfDay < end
+      : minuteOfDay >= start || minuteOfDay < end;
+  if (!inside) return null;
+
+  return nextLocalOccurrenceUtc({
+    now,
+    zone,
+    hour: quietHours.end.hour,
+    minute: quietHours.end.minute,
+  });
+}
+
+/** The zone stored on a queue item, or null when the recipient's profile decides. */
+export function queueDocZone(payload: QueueDoc): ScheduleZone | null {
+  if (payload.time_zone || typeof payload.tz_offset_minutes === 'number') {
+    return scheduleZoneFromDoc(payload);
   }
+  return null;
+}
 
-  // Block notorious Connect senders (server-side control)
-  if (
-    category === 'connect' &&
-    senderId &&
-    Array.isArray(config.connect.blockedSenders) &&
-    config.connect.blockedSenders.includes(senderId)
-  ) {
-    await ref.set(
+// Connect pushes are enqueued by the app without a zone; fall back to the profile.
+async function resolveRecipientZone(
+  db: admin.firestore.Firestore,
+  payload: QueueDoc,
+  recipientId: string
+): Promise<ScheduleZone> {
+  const own = queueDocZone(payload);
+  if (own) return own;
+  const userDoc = await db.collection('users').doc(recipientId).get();
+  return scheduleZoneFromDoc(userDoc.data() || {});
+}
+
+export type FrequencyPeriodKeys = { day: string; week: string };
+
+type FrequencySlot =
+  | { allowed: true; keys: FrequencyPeriodKeys }
+  | { allowed: false; reason: 'daily_cap' | 'weekly_cap' };
+
+// Local calendar day and the Monday starting its week, both as YYYY-MM-DD.
+export function frequencyPeriodKeys(now: Date, zone: ScheduleZone): FrequencyPeriodKeys {
+  const local = toLocalDateTime(now, zone);
+  const today = new Date(Date.UTC(local.year, local.month - 1, local.day));
+  const monday = new Date(today.getTime() - ((local.weekday + 6) % 7) * DAY_MS);
+  return {
+    day: today.toISOString().split('T')[0],
+    week: monday.toISOString().split('T')[0],
+  };
+}
+
+export function userCounterRef(db: admin.firestore.Firestore, recipientId: string) {
+  return db.collection('notification_user_counters').doc(recipientId);
+}
+
+/** Sends already counted for the periods in `keys`; a stale period counts as zero. */
+export function counterUsage(data: admin.firestore.DocumentData, keys: FrequencyPeriodKeys) {
+  return {
+    dayCount: data.day_key === keys.day ? Number(data.day_count) || 0 : 0,
+    weekCount: data.week_key === keys.week ? Number(data.week_count) || 0 : 0,
+  };
+}
+
+export function frequencyCapReason(
+  usage: { dayCount: number; weekCount: number },
+  caps: NotificationRouterConfig['frequencyCaps']
+): 'daily_cap' | 'weekly_cap' | null {
+  if (caps.perDay > 0 && usage.dayCount >= caps.perDay) return 'daily_cap';
+  if (caps.perWeek > 0 && usage.weekCount >= caps.perWeek) return 'weekly_cap';
+  return null;
+}
+
+/**
+ * Count one send against the recipient's day/week totals. With `enforce`, refuses
+ * (without counting) once either cap is reached; high-priority sends count but never block.
+ */
+async function reserveFrequencySlot(params: {
+  db: admin.firestore.Firestore;
+  recipientId: string;
+  zone: ScheduleZone;
+  caps: NotificationRouterConfig['frequencyCaps'];
+  now: Date;
+  enforce: boolean;
+}): Promise<FrequencySlot> {
+  const { db, recipientId, zone, caps, now, enforce } = params;
+  const keys = frequencyPeriodKeys(now, zone);
+  const docRef = userCounterRef(db, recipientId);
+
+  return db.runTransaction(async (tx) => {
+    const data = (await tx.get(docRef)).data() || {};
+    const { dayCount, weekCount } = counterUsage(data, keys);
+
+    const reason = enforce ? frequencyCapReason({ dayCount, weekCount }, caps) : null;
+    if (reason) {
+      return { allowed: false as const, reason };
+    }
+
+    tx.set(
+      docRef,
       {
-        status: 'skipped',
-        skipped_reason: 'blocked_sender',
+        day_key: keys.day,
+        day_count: dayCount + 1,
+        week_key: keys.week,
+        week_count: weekCount + 1,
         updated_at: admin.firestore.FieldValue.serverTimestamp(),
       },
       { merge: true }
     );
-    return { outcome: 'skipped', countedAs: 'skipped', message: 'Blocked sender' };
-  }
+    return { allowed: true as const, keys };
+  });
+}
+
+// Give back a reserved slot when the FCM send itself fails.
+async function releaseFrequencySlot(
+  db: admin.firestore.Firestore,
+  recipientId: string,
+  keys: FrequencyPeriodKeys
+) {
+  const docRef = userCounterRef(db, recipientId);
+  await db.runTransaction(async (tx) => {
+    const data = (await tx.get(docRef)).data() || {};
+    const patch: Record<string, unknown> = {};
+    if (data.day_key === keys.day) patch.day_count = Math.max(0, (Number(data.day_count) || 0) - 1);
+    if (data.week_key === keys.week) {
+      patch.week_count = Math.max(0, (Number(data.week_count) || 0) - 1);
+    }
+    if (Object.keys(patch).length > 0) tx.set(docRef, patch, { merge: true });
+  });
+}
+
+export function nextOccurrenceUtc(payload: QueueDoc, now: Date): Date {
+  const intervalDays =
+    payload.repeat === 'every_n_days' &&
+    typeof payload.interval_days === 'number' &&
+    payload.interval_days > 0
+      ? payload.interval_days
+      : 1;
+  return nextLocalOccurrenceUtc({
+    now,
+    zone: scheduleZoneFromDoc(payload),
+    hour: typeof payload.hour === 'number' ? payload.hour : 0,
+    minute: typeof payload.minute === 'number' ? payload.minute : 0,
+    intervalDays,
+    daysOfWeek: payload.repeat === 'weekdays' ? normalizeDayOfWeekList(payload.days_of_week) : [],
+  });
+}
+
+// The next slot of a recurring item, or null for one-offs and once `end_at` is passed.
+export function nextOccurrenceBeforeEnd(payload: QueueDoc, now: Date): Date | null {
+  if (!payload.repeat) return null;
+  const endAtDate = payload.end_at?.toDate ? payload.end_at.toDate() : null;
+  if (endAtDate && now.getTime() >= endAtDate.getTime()) return null;
+  const nextUtc = nextOccurrenceUtc(payload, now);
+  return endAtDate && nextUtc.getTime() > endAtDate.getTime() ? null : nextUtc;
+}
 
-  if (!type || !title || !body || !recipientId) {
+/**
+ * Where a recurring item goes after sending at `now`: its next slot and the
+ * occurrences left, or null when it is done (one-off, count used up, or past `end_at`).
+ */
+export function nextOccurrenceAfterSend(
+  payload: QueueDoc,
+  now: Date
+): { at: Date; remaining?: number } | null {
+  const remaining =
+    typeof payload.remaining_occurrences === 'number' &&
+    Number.isFinite(payload.remaining_occurrences)
+      ? Math.max(0, payload.remaining_occurrences - 1)
+      : undefined;
+  if (remaining === 0) return null;
+  const at = nextOccurrenceBeforeEnd(payload, now);
+  return at ? { at, remaining } : null;
+}
+
+// Capped one-offs stop here; recurring items skip this occurrence and roll to the next one.
+async function markCapped(
+  ref: admin.firestore.DocumentReference,
+  payload: QueueDoc,
+  reason: 'daily_cap' | 'weekly_cap'
+) {
+  const nextUtc = nextOccurrenceBeforeEnd(payload, new Date());
+  if (nextUtc) {
     await ref.set(
       {
-        status: 'failed',
-        error: 'Missing required fields (type/title/body/recipient_id)',
+        status: 'pending',
+        capped_reason: reason,
+        last_capped_at: admin.firestore.FieldValue.serverTimestamp(),
+        scheduled_at: admin.firestore.Timestamp.fromDate(nextUtc),
         updated_at: admin.firestore.FieldValue.serverTimestamp(),
       },
       { merge: true }
     );
-    return { outcome: 'failed', countedAs: 'failed', message: 'Missing required fields' };
+    return;
   }
+  await ref.set(
+    {
+      status: 'capped',
+      capped_reason: reason,
+      updated_at: admin.firestore.FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+}
 
-  // Dedupe (time-windowed)
-  const dedupeKey = (payload.dedupe_key || '').toString().trim();
-  const dedupeWindowMs =
-    typeof payload.dedupe_window_ms === 'number' ? payload.dedupe_window_ms : 0;
-  if (dedupeKey && dedupeWindowMs > 0) {
-    const dedupeRef = db.collection('notification_dedupe').doc(dedupeKey);
-    const existing = await dedupeRef.get();
-    if (existing.exists) {
-      const sentAt = existing.get('sent_at') as admin.firestore.Timestamp | undefined;
-      if (sentAt?.toDate) {
-        const ageMs = Date.now() - sentAt.toDate().getTime();
-        if (ageMs >= 0 && ageMs < dedupeWindowMs) {
-          await ref.set(
-            {
-              status: 'skipped',
-              skipped_reason: 'deduped',
-              updated_at: admin.firestore.FieldValue.serverTimestamp(),
-            },
-            { merge: true }
-          );
-          return { outcome: 'skipped', countedAs: 'skipped', message: 'Deduped' };
-        }
-      }
-    }
+/** FCM/app codes worth retrying; any other failure is permanent on the first attempt. */
+export const TRANSIENT_FCM_ERROR_CODES = [
+  'messaging/internal-error',
+  'messaging/server-unavailable',
+  'messaging/unavailable',
+  'messaging/unknown-error',
+  'messaging/quota-exceeded',
+  'messaging/message-rate-exceeded',
+  'messaging/device-message-rate-exceeded',
+  'app/network-error',
+  'app/network-timeout',
+];
+
+/** Codes meaning the stored token is dead; the token is cleared when they occur. */
+export const INVALID_TOKEN_ERROR_CODES = [
+  'messaging/invalid-registration-token',
+  'messaging/registration-token-not-registered',
+];
+
+export function isTransientFcmError(code: string) {
+  return TRANSIENT_FCM_ERROR_CODES.includes(code);
+}
+
+/** Backoff before retry number `attempt` (1 = first retry): base * 2^(attempt-1), capped. */
+export function retryDelayMs(attempt: number, policy: NotificationRouterConfig['retryPolicy']) {
+  const delay = policy.baseDelayMs * 2 ** Math.max(0, attempt - 1);
+  return Math.min(delay, policy.maxDelayMs);
+}
+
+/** The slice of FCM messaging the router uses; tests and dry runs pass a stub. */
+export type NotificationMessaging = Pick<admin.messaging.Messaging, 'sendEachForMulticast'>;
+
+/** Why config holds a category back (items stay pending), or null when it may send. */
+function categoryHoldReason(config: NotificationRouterConfig, category: string) {
+  if (category === 'connect' && !config.connect.enabled) return 'Connect processing disabled';
+  if (category === 'engagement' && !config.engagement.enabled) {
+    return 'Engagement processing disabled';
   }
+  return null;
+}
+
+function isBlockedSender(
+  config: NotificationRouterConfig,
+  category: string,
+  senderId: string
+) {
+  return (
+    category === 'connect' &&
+    Boolean(senderId) &&
+    Array.isArray(config.connect.blockedSenders) &&
+    config.connect.blockedSenders.includes(senderId)
+  );
+}
+
+function hasRequiredFields(payload: QueueDoc) {
+  return Boolean(payload.type && payload.title && payload.body && payload.recipient_id);
+}
+
+function quietHoursApply(config: NotificationRouterConfig, priority: NotificationPriority) {
+  return (
+    config.quietHours.enabled && (priority !== 'high' || config.quietHours.includeHighPriority)
+  );
+}
+
+/**
+ * The reads and reservations behind the routing gates. The cron backs them with
+ * Firestore (transactions for rate limits and caps); the dry run with in-memory
+ * state, so both paths share one set of gate rules.
+ */
+export type QueueGateState = {
+  recipientZone: () => Promise<ScheduleZone>;
+  // When the dedupe key last went out, or null
+  dedupeSentAt: (key: string) => Promise<Date | null>;
+  // Takes the connect cooldown slot for this sender/recipient/type
+  takeConnectSlot: (params: {
+    senderId: string;
+    recipientId: string;
+    type: string;
+    cooldownMs: number;
+    now: Date;
+  }) => Promise<{ allowed: true } | { allowed: false; retryAfterMs: number }>;
+  deviceTokens: (recipientId: string) => Promise<string[]>;
+  reserveFrequencySlot: (params: {
+    recipientId: string;
+    zone: ScheduleZone;
+    now: Date;
+    enforce: boolean;
+  }) => Promise<FrequencySlot>;
+};
+
+export type QueueGateDecision =
+  | { gate: 'held'; message: string }
+  | { gate: 'blocked_sender' }
+  | { gate: 'missing_fields' }
+  | { gate: 'quiet_hours'; resumeAt: Date }
+  | { gate: 'deduped' }
+  | { gate: 'rate_limited'; retryAfterMs: number }
+  | { gate: 'no_token' }
+  | { gate: 'capped'; reason: 'daily_cap' | 'weekly_cap' }
+  | {
+      gate: 'open';
+      tokens: string[];
+      // Released again if the send fails
+      reservedSlot: FrequencyPeriodKeys | null;
+      dedupe: { key: string; windowMs: number } | null;
+    };
+
+function dedupeWindowOf(payload: QueueDoc) {
+  const key = (payload.dedupe_key || '').toString().trim();
+  const windowMs = typeof payload.dedupe_window_ms === 'number' ? payload.dedupe_window_ms : 0;
+  return key && windowMs > 0 ? { key, windowMs } : null;
+}
 
-  // Connect rate limiting (server-side)
-  if (type.startsWith('connect_') && senderId) {
-    const cooldownMs = config.connect.rateLimitsMs[type] ?? 0;
-    if (cooldownMs > 0) {
-      const rl = await rateLimitConnectIfNeeded({
-        db,
-        senderId,
+// Gates that need no reads: category switches, blocked senders, missing fields.
+function configGate(config: NotificationRouterConfig, payload: QueueDoc): QueueGateDecision | null {
+  const category = (payload.category || '').toString();
+  const held = categoryHoldReason(config, category);
+  if (held) return { gate: 'held', message: held };
+  if (isBlockedSender(config, category, (payload.sender_id || '').toString())) {
+    return { gate: 'blocked_sender' };
+  }
+  if (!hasRequiredFields(payload)) return { gate: 'missing_fields' };
+  return null;
+}
+
+async function sentWithinWindow(
+  dedupe: { key: string; windowMs: number },
+  now: Date,
+  state: QueueGateState
+) {
+  const sentAt = await state.dedupeSentAt(dedupe.key);
+  if (!sentAt) return false;
+  const ageMs = now.getTime() - sentAt.getTime();
+  return ageMs >= 0 && ageMs < dedupe.windowMs;
+}
+
+async function connectRateGate(
+  config: NotificationRouterConfig,
+  payload: QueueDoc,
+  now: Date,
+  state: QueueGateState
+): Promise<QueueGateDecision | null> {
+  const type = (payload.type || '').toString();
+  const senderId = (payload.sender_id || '').toString();
+  if (!type.startsWith('connect_') || !senderId) return null;
+  const cooldownMs = config.connect.rateLimitsMs[type] ?? 0;
+  if (cooldownMs <= 0) return null;
+  const slot = await state.takeConnectSlot({
+    senderId,
+    recipientId: (payload.recipient_id || '').toString(),
+    type,
+    cooldownMs,
+    now,
+  });
+  return slot.allowed ? null : { gate: 'rate_limited', retryAfterMs: slot.retryAfterMs };
+}
+
+/**
+ * Run a queue item through the routing gates as of `now`, in order: category
+ * holds, blocked senders, required fields, quiet hours (defer, never drop),
+ * time-windowed dedupe, connect rate limits, devices and per-user frequency caps.
+ * An `open` decision has taken its rate-limit and cap slots; nothing is sent.
+ */
+export async function evaluateQueueGates(params: {
+  config: NotificationRouterConfig;
+  payload: QueueDoc;
+  now: Date;
+  // Manual sends ignore timing rules (scheduled_at and quiet hours), never frequency caps.
+  ignoreQuietHours?: boolean;
+  state: QueueGateState;
+}): Promise<QueueGateDecision> {
+  const { config, payload, now, ignoreQuietHours = false, state } = params;
+  const rejected = configGate(config, payload);
+  if (rejected) return rejected;
+
+  const recipientId = (payload.recipient_id || '').toString();
+  const priority = priorityForCategory(config, (payload.category || '').toString());
+
+  if (!ignoreQuietHours && quietHoursApply(config, priority)) {
+    const zone = await state.recipientZone();
+    const resumeAt = quietHoursEndUtc({ now, zone, quietHours: config.quietHours });
+    if (resumeAt) return { gate: 'quiet_hours', resumeAt };
+  }
+
+  const dedupe = dedupeWindowOf(payload);
+  if (dedupe && (await sentWithinWindow(dedupe, now, state))) return { gate: 'deduped' };
+
+  const rateLimited = await connectRateGate(config, payload, now, state);
+  if (rateLimited) return rateLimited;
+
+  const tokens = await state.deviceTokens(recipientId);
+  if (tokens.length === 0) return { gate: 'no_token' };
+
+  const slot = config.frequencyCaps.enabled
+    ? await state.reserveFrequencySlot({
         recipientId,
-        type,
-        cooldownMs,
-      });
-      if (!rl.allowed) {
-        await ref.set(
-          {
-            status: 'skipped',
-            skipped_reason: 'rate_limited',
-            retry_after_ms: rl.retryAfterMs,
-            updated_at: admin.firestore.FieldValue.serverTimestamp(),
-          },
-          { merge: true }
-        );
-        return { outcome: 'skipped', countedAs: 'skipped', message: 'Rate limited' };
-      }
+        zone: await state.recipientZone(),
+        now,
+        enforce: priority !== 'high',
+      })
+    : null;
+  if (slot && !slot.allowed) return { gate: 'capped', reason: slot.reason };
+
+  return { gate: 'open', tokens, reservedSlot: slot?.keys ?? null, dedupe };
+}
+
+function firestoreGateState(
+  db: admin.firestore.Firestore,
+  config: NotificationRouterConfig,
+  payload: QueueDoc
+): QueueGateState {
+  const recipientId = (payload.recipient_id || '').toString();
+  let zone: Promise<ScheduleZone> | null = null;
+  return {
+    recipientZone: () => {
+      zone ??= resolveRecipientZone(db, payload, recipientId);
+      return zone;
+    },
+    dedupeSentAt: async (key) => {
+      const existing = await db.collection('notification_dedupe').doc(key).get();
+      const sentAt = existing.get('sent_at') as admin.firestore.Timestamp | undefined;
+      return sentAt?.toDate ? sentAt.toDate() : null;
+    },
+    takeConnectSlot: (slot) => rateLimitConnectIfNeeded({ db, ...slot }),
+    deviceTokens: async (id) => (await getUserDevices(db, id)).map((d) => d.token),
+    reserveFrequencySlot: (slot) =>
+      reserveFrequencySlot({ db, caps: config.frequencyCaps, ...slot }),
+  };
+}
+
+type ProcessQueueDocOutcome = {
+  outcome: 'sent' | 'failed' | 'skipped' | 'deferred' | 'capped' | 'retrying';
+  countedAs: 'sent' | 'failed' | 'skipped' | 'deferred' | 'capped' | 'retried';
+  message?: string;
+};
+
+// Persist a closed gate on the queue item; `held` leaves it untouched for the next run.
+async function applyGateDecision(
+  ref: admin.firestore.DocumentReference,
+  payload: QueueDoc,
+  decision: Exclude<QueueGateDecision, { gate: 'open' }>
+): Promise<ProcessQueueDocOutcome> {
+  const updatedAt = admin.firestore.FieldValue.serverTimestamp();
+  switch (decision.gate) {
+    case 'held':
+      return { outcome: 'deferred', countedAs: 'skipped', message: decision.message };
+    case 'blocked_sender':
+      await ref.set(
+        { status: 'skipped', skipped_reason: 'blocked_sender', updated_at: updatedAt },
+        { merge: true }
+      );
+      return { outcome: 'skipped', countedAs: 'skipped', message: 'Blocked sender' };
+    case 'missing_fields':
+      await ref.set(
+        {
+          status: 'failed',
+          error: 'Missing required fields (type/title/body/recipient_id)',
+          error_code: 'queue/missing-fields',
+          dead_lettered_at: updatedAt,
+          updated_at: updatedAt,
+        },
+        { merge: true }
+      );
+      return { outcome: 'failed', countedAs: 'failed', message: 'Missing required fields' };
+    case 'quiet_hours': {
+      const resumeAt = admin.firestore.Timestamp.fromDate(decision.resumeAt);
+      await ref.set(
+        {
+          status: 'deferred',
+          deferred_reason: 'quiet_hours',
+          deferred_until: resumeAt,
+          scheduled_at: resumeAt,
+          updated_at: updatedAt,
+        },
+        { merge: true }
+      );
+      return { outcome: 'deferred', countedAs: 'deferred', message: 'Deferred (quiet hours)' };
     }
+    case 'deduped':
+      await ref.set(
+        { status: 'skipped', skipped_reason: 'deduped', updated_at: updatedAt },
+        { merge: true }
+      );
+      return { outcome: 'skipped', countedAs: 'skipped', message: 'Deduped' };
+    case 'rate_limited':
+      await ref.set(
+        {
+          status: 'skipped',
+          skipped_reason: 'rate_limited',
+          retry_after_ms: decision.retryAfterMs,
+          updated_at: updatedAt,
+        },
+        { merge: true }
+      );
+      return { outcome: 'skipped', countedAs: 'skipped', message: 'Rate limited' };
+    case 'no_token':
+      await ref.set(
+        {
+          status: 'failed',
+          error: 'Recipient has no FCM token',
+          error_code: 'recipient/no-token',
+          dead_lettered_at: updatedAt,
+          updated_at: updatedAt,
+        },
+        { merge: true }
+      );
+      return { outcome: 'failed', countedAs: 'failed', message: 'Recipient has no FCM token' };
+    case 'capped':
+      await markCapped(ref, payload, decision.reason);
+      return { outcome: 'capped', countedAs: 'capped', message: `Capped (${decision.reason})` };
   }
+}
 
-  const token = await getUserToken(db, recipientId);
-  if (!token) {
-    await ref.set(
-      {
-        status: 'failed',
-        error: 'Recipient has no FCM token',
-        updated_at: admin.firestore.FieldValue.serverTimestamp(),
-      },
-      { merge: true }
-    );
-    return { outcome: 'failed', countedAs: 'failed', message: 'Recipient has no FCM token' };
+type ProcessQueueDocParams = {
+  db: admin.firestore.Firestore;
+  messaging: NotificationMessaging;
+  config: NotificationRouterConfig;
+  ref: admin.firestore.DocumentReference;
+  payload: QueueDoc;
+  // Manual sends ignore timing rules (scheduled_at and quiet hours), never frequency caps.
+  ignoreQuietHours?: boolean;
+  templateCache?: Map<string, NotificationTemplate | null>;
+};
+
+// biome-ignore lint/complexity/noExcessiveCognitiveComplexity: main router logic is intentionally explicit
+async function routeQueueDoc(params: ProcessQueueDocParams): Promise<ProcessQueueDocOutcome> {
+  const { db, messaging, config, ref, payload, ignoreQuietHours = false, templateCache } = params;
+  const type = (payload.type || '').toString();
+  let title = (payload.title || '').toString();
+  let body = (payload.body || '').toString();
+  const recipientId = (payload.recipient_id || '').toString();
+  const senderId = (payload.sender_id || '').toString();
+
+  const decision = await evaluateQueueGates({
+    config,
+    payload,
+    now: new Date(),
+    ignoreQuietHours,
+    state: firestoreGateState(db, config, payload),
+  });
+  if (decision.gate !== 'open') return applyGateDecision(ref, payload, decision);
+  const { tokens, reservedSlot, dedupe } = decision;
+
+  // Templated sends render per recipient; the stored copy is the fallback if the template is gone.
+  const rendered = payload.template_id
+    ? await renderTemplateForUser(db, payload.template_id, recipientId, templateCache)
+    : null;
+  if (rendered) {
+    title = rendered.title;
+    body = rendered.body;
   }
+  const sentFields = {
+    ...(rendered ? { template_locale: rendered.locale } : {}),
+    // A recurring occurrence that went out is no longer counted as capped.
+    ...(payload.capped_reason ? { capped_reason: admin.firestore.FieldValue.delete() } : {}),
+    // A retried item that finally went out should not keep showing its last error.
+    ...(payload.attempts
+      ? {
+          error: admin.firestore.FieldValue.delete(),
+          error_code: admin.firestore.FieldValue.delete(),
+          next_retry_at: admin.firestore.FieldValue.delete(),
+        }
+      : {}),
+  };
 
   const data = stringifyData({
     ...(payload.data || {}),
     type,
+    // The app acks taps under this id (see notification_metrics).
+    queue_id: ref.id,
     recipient_id: recipientId,
     sender_id: senderId || undefined,
     sender_name: payload.sender_name || undefined,
     sender_avatar: payload.sender_avatar || undefined,
   });
 
+  // Tokens FCM rejected as unregistered/invalid; pruned one by one, the other devices stay.
+  let invalidTokens: string[] = [];
   try {
-    await messaging.send({
-      token,
+    const response = await messaging.sendEachForMulticast({
+      tokens,
       notification: { title, body },
       data,
       android: { priority: 'high' as const },
       apns: { payload: { aps: { sound: 'default' } } },
     });
+    invalidTokens = tokens.filter((_, i) =>
+      INVALID_TOKEN_ERROR_CODES.includes(response.responses[i]?.error?.code ?? '')
+    );
+    if (invalidTokens.length > 0) {
+      await removeDeviceTokens(db, recipientId, invalidTokens);
+    }
+    if (response.successCount === 0) throw multicastError(response);
+    const deviceFields = { devices_sent: response.successCount, devices_total: tokens.length };
 
-    if (dedupeKey && dedupeWindowMs > 0) {
+    if (dedupe) {
       await db
         .collection('notification_dedupe')
-        .doc(dedupeKey)
+        .doc(dedupe.key)
         .set(
           {
-            dedupe_key: dedupeKey,
+            dedupe_key: dedupe.key,
             sent_at: admin.firestore.FieldValue.serverTimestamp(),
             type,
             recipient_id: recipientId,
@@ -577,80 +1093,30 @@ async function processQueueDoc(params: {
         );
     }
 
-    const remaining =
-      typeof payload.remaining_occurrences === 'number' ? payload.remaining_occurrences : undefined;
-    const nextRemaining =
-      remaining != null && Number.isFinite(remaining) ? Math.max(0, remaining - 1) : undefined;
-    const endAt = payload.end_at;
-    const endAtDate = endAt?.toDate ? endAt.toDate() : null;
-
-    const shouldStopByCount = remaining != null ? nextRemaining === 0 : false;
-    const shouldStopByEndAt = endAtDate ? Date.now() >= endAtDate.getTime() : false;
-
-    if (payload.repeat && !shouldStopByCount && !shouldStopByEndAt) {
-      const tzOffsetMinutes =
-        typeof payload.tz_offset_minutes === 'number' ? payload.tz_offset_minutes : 0;
-      const hour = typeof payload.hour === 'number' ? payload.hour : 0;
-      const minute = typeof payload.minute === 'number' ? payload.minute : 0;
-
-      let nextUtc: Date;
-      if (payload.repeat === 'daily') {
-        nextUtc = computeNextUtcForLocalTime({
-          now: new Date(),
-          tzOffsetMinutes,
-          hour,
-          minute,
-        });
-      } else if (payload.repeat === 'every_n_days') {
-        const intervalDays =
-          typeof payload.interval_days === 'number' && payload.interval_days > 0
-            ? payload.interval_days
-            : 1;
-        const baseNext = computeNextUtcForLocalTime({
-          now: new Date(),
-          tzOffsetMinutes,
-          hour,
-          minute,
-        });
-        nextUtc = new Date(baseNext.getTime() + (intervalDays - 1) * 24 * 60 * 60_000);
-      } else {
-        const days = normalizeDayOfWeekList(payload.days_of_week);
-        nextUtc = computeNextUtcForWeekdays({
-          now: new Date(),
-          tzOffsetMinutes,
-          hour,
-          minute,
-          daysOfWeek: days,
-        });
-      }
-
-      if (endAtDate && nextUtc.getTime() > endAtDate.getTime()) {
-        await ref.set(
-          {
-            status: 'sent',
-            sent_at: admin.firestore.FieldValue.serverTimestamp(),
-            updated_at: admin.firestore.FieldValue.serverTimestamp(),
-          },
-          { merge: true }
-        );
-      } else {
-        await ref.set(
-          {
-            status: 'pending',
-            last_sent_at: admin.firestore.FieldValue.serverTimestamp(),
-            scheduled_at: admin.firestore.Timestamp.fromDate(nextUtc),
-            updated_at: admin.firestore.FieldValue.serverTimestamp(),
-            ...(nextRemaining != null ? { remaining_occurrences: nextRemaining } : {}),
-          },
-          { merge: true }
-        );
-      }
+    const next = nextOccurrenceAfterSend(payload, new Date());
+    if (next) {
+      await ref.set(
+        {
+          status: 'pending',
+          last_sent_at: admin.firestore.FieldValue.serverTimestamp(),
+          scheduled_at: admin.firestore.Timestamp.fromDate(next.at),
+          updated_at: admin.firestore.FieldValue.serverTimestamp(),
+          ...(next.remaining != null ? { remaining_occurrences: next.remaining } : {}),
+          ...sentFields,
+          ...deviceFields,
+          // Each occurrence gets its own retry budget.
+          ...(payload.attempts ? { attempts: 0 } : {}),
+        },
+        { merge: true }
+      );
     } else {
       await ref.set(
         {
           status: 'sent',
           sent_at: admin.firestore.FieldValue.serverTimestamp(),
           updated_at: admin.firestore.FieldValue.serverTimestamp(),
+          ...sentFields,
+          ...deviceFields,
         },
         { merge: true }
       );
@@ -662,18 +1128,46 @@ async function processQueueDoc(params: {
       error && typeof error === 'object' ? (error as { code?: string; message?: string }) : null;
     const code = errObj?.code || '';
 
-    if (
-      code === 'messaging/invalid-registration-token' ||
-      code === 'messaging/registration-token-not-registered'
-    ) {
-      await clearUserToken(db, recipientId);
+    if (reservedSlot) {
+      await releaseFrequencySlot(db, recipientId, reservedSlot).catch(() => undefined);
+    }
+
+    const message = errObj?.message || (error instanceof Error ? error.message : 'FCM send failed');
+    const attempts = (typeof payload.attempts === 'number' ? payload.attempts : 0) + 1;
+    const policy = config.retryPolicy;
+    if (policy.enabled && isTransientFcmError(code) && attempts < policy.maxAttempts) {
+      const retryAt = new Date(Date.now() + retryDelayMs(attempts, policy));
+      await ref.set(
+        {
+          status: 'pending',
+          attempts,
+          error: message,
+          error_code: code,
+          next_retry_at: admin.firestore.Timestamp.fromDate(retryAt),
+          scheduled_at: admin.firestore.Timestamp.fromDate(retryAt),
+          updated_at: admin.firestore.FieldValue.serverTimestamp(),
+        },
+        { merge: true }
+      );
+      return {
+        outcome: 'retrying',
+        countedAs: 'retried',
+        message: `Retry ${attempts}/${policy.maxAttempts - 1} at ${retryAt.toISOString()}`,
+      };
     }
 
+    // Out of retries or permanent: the item lands in the dead-letter view.
     await ref.set(
       {
         status: 'failed',
-        error: errObj?.message || (error instanceof Error ? error.message : 'FCM send failed'),
+        attempts,
+        error: message,
         error_code: code || null,
+        next_retry_at: admin.firestore.FieldValue.delete(),
+        dead_lettered_at: admin.firestore.FieldValue.serverTimestamp(),
+        ...(invalidTokens.length > 0
+          ? { failed_token_fps: invalidTokens.map(tokenFingerprint) }
+          : {}),
         updated_at: admin.firestore.FieldValue.serverTimestamp(),
       },
       { merge: true }
@@ -686,32 +1180,64 @@ async function processQueueDoc(params: {
   }
 }
 
+async function processQueueDoc(params: ProcessQueueDocParams): Promise<ProcessQueueDocOutcome> {
+  const result = await routeQueueDoc(params);
+  // Category holds leave the item untouched for the next run; they are not an outcome.
+  if (result.outcome !== 'deferred' || result.countedAs !== 'skipped') {
+    await recordQueueOutcome(params.db, params.payload, result.countedAs).catch((error) =>
+      console.error('Failed to record notification metrics', error)
+    );
+  }
+  return result;
+}
+
 export async function processQueueBatch(params: {
   db: admin.firestore.Firestore;
-  messaging: admin.messaging.Messaging;
+  messaging: NotificationMessaging;
   limit: number;
   config: NotificationRouterConfig;
 }) {
   const { db, messaging, limit, config } = params;
   if (!config.globalEnabled || !config.processingEnabled) {
-    return { processed: 0, sent: 0, failed: 0, skipped: 0, paused: true as const };
+    return {
+      processed: 0,
+      sent: 0,
+      failed: 0,
+      skipped: 0,
+      deferred: 0,
+      capped: 0,
+      retried: 0,
+      paused: true as const,
+    };
   }
 
   const now = admin.firestore.Timestamp.fromDate(new Date());
   const snapshot = await db
     .collection('notification_queue')
-    .where('status', '==', 'pending')
+    .where('status', 'in', ['pending', 'deferred'])
     .where('scheduled_at', '<=', now)
     .orderBy('scheduled_at', 'asc')
     .limit(limit)
     .get();
 
+  // Higher priorities go first so they take the frequency-cap slots (sort is stable).
+  const docs = [...snapshot.docs].sort(
+    (a, b) =>
+      PRIORITY_RANK[priorityForCategory(config, String(a.get('category') || ''))] -
+      PRIORITY_RANK[priorityForCategory(config, String(b.get('category') || ''))]
+  );
+
   let processed = 0;
   let sent = 0;
   let failed = 0;
   let skipped = 0;
+  let deferred = 0;
+  let capped = 0;
+  let retried = 0;
+  // One template read per batch, however many recipients share it.
+  const templateCache = new Map<string, NotificationTemplate | null>();
 
-  for (const doc of snapshot.docs) {
+  for (const doc of docs) {
     processed++;
     const payload = doc.data() as QueueDoc;
     const outcome = await processQueueDoc({
@@ -720,18 +1246,22 @@ export async function processQueueBatch(params: {
       config,
       ref: doc.ref,
       payload,
+      templateCache,
     });
     if (outcome.countedAs === 'sent') sent++;
     else if (outcome.countedAs === 'failed') failed++;
+    else if (outcome.countedAs === 'deferred') deferred++;
+    else if (outcome.countedAs === 'capped') capped++;
+    else if (outcome.countedAs === 'retried') retried++;
     else skipped++;
   }
 
-  return { processed, sent, failed, skipped, paused: false as const };
+  return { processed, sent, failed, skipped, deferred, capped, retried, paused: false as const };
 }
 
 export async function processQueueItemById(params: {
   db: admin.firestore.Firestore;
-  messaging: admin.messaging.Messaging;
+  messaging: NotificationMessaging;
   config: NotificationRouterConfig;
   queueId: string;
   force?: boolean;
@@ -764,7 +1294,7 @@ export async function processQueueItemById(params: {
   }
 
   const payload = (snap.data() || {}) as QueueDoc;
-  if (payload.status && payload.status !== 'pending') {
+  if (!['pending', 'deferred', undefined].includes(payload.status)) {
     return {
       ok: false as const,
       paused: false as const,
@@ -792,19 +1322,322 @@ export async function processQueueItemById(params: {
     }
   }
 
-  const outcome = await processQueueDoc({ db, messaging, config, ref, payload });
+  const outcome = await processQueueDoc({
+    db,
+    messaging,
+    config,
+    ref,
+    payload,
+    ignoreQuietHours: force,
+  });
+  const counted = (kind: ProcessQueueDocOutcome['countedAs']) =>
+    outcome.countedAs === kind ? 1 : 0;
   return {
     ok: true as const,
     paused: false as const,
     processed: 1,
-    sent: outcome.countedAs === 'sent' ? 1 : 0,
-    failed: outcome.countedAs === 'failed' ? 1 : 0,
-    skipped: outcome.countedAs === 'skipped' ? 1 : 0,
+    sent: counted('sent'),
+    failed: counted('failed'),
+    skipped: counted('skipped'),
+    deferred: counted('deferred'),
+    capped: counted('capped'),
+    retried: counted('retried'),
     outcome: outcome.outcome,
     message: outcome.message || null,
   };
 }
 
+/** A queue doc the engagement scheduler would write, keyed by its deterministic id. */
+export type PlannedQueueDoc = { id: string; data: admin.firestore.DocumentData };
+
+function planIntroDocs(
+  userId: string,
+  zone: { tzOffsetMinutes: number; timeZone: string | null },
+  config: NotificationRouterConfig,
+  now: Date
+): PlannedQueueDoc[] {
+  const { tzOffsetMinutes, timeZone } = zone;
+  const welcomeAt = new Date(now.getTime() + 2 * 60_000);
+
+  const schedule = config.engagement.schedule;
+  const introTpl = config.engagement.templates.intro;
+  const introTemplateIds = config.engagement.templateIds.intro;
+  const intros = [
+    {
+      id: 'welcome_intro',
+      key: null,
+      type: 'iki_home',
+      title: 'Welcome to IKI!',
+      body: "Let's build healthy habits together. We'll introduce you to some amazing features!",
+      atUtc: welcomeAt,
+    },
+    {
+      id: 'water_intro',
+      key: 'water' as const,
+      type: 'water_general',
+      title: introTpl.water.title,
+      body: introTpl.water.body,
+      atUtc: computeNextUtcForLocalTime({
+        now,
+        tzOffsetMinutes,
+        timeZone,
+        hour: schedule.water.hour,
+        minute: schedule.water.minute,
+      }),
+    },
+    {
+      id: 'daily_checkin_intro',
+      key: 'daily_checkin' as const,
+      type: 'wellsphere_general',
+      title: introTpl.daily_checkin.title,
+      body: introTpl.daily_checkin.body,
+      atUtc: computeNextUtcForLocalTime({
+        now,
+        tzOffsetMinutes,
+        timeZone,
+        hour: schedule.daily_checkin.hour,
+        minute: schedule.daily_checkin.minute,
+      }),
+    },
+    {
+      id: 'mood_intro',
+      key: 'mood' as const,
+      type: 'mindscape_mood',
+      title: introTpl.mood.title,
+      body: introTpl.mood.body,
+      atUtc: computeNextUtcForLocalTime({
+        now,
+        tzOffsetMinutes,
+        timeZone,
+        hour: schedule.mood.hour,
+        minute: schedule.mood.minute,
+      }),
+    },
+    {
+      id: 'meal_tracking_intro',
+      key: 'meal_tracking' as const,
+      type: 'nutrition_general',
+      title: introTpl.meal_tracking.title,
+      body: introTpl.meal_tracking.body,
+      atUtc: computeNextUtcForLocalTime({
+        now,
+        tzOffsetMinutes,
+        timeZone,
+        hour: schedule.meal_tracking.hour,
+        minute: schedule.meal_tracking.minute,
+      }),
+    },
+    {
+      id: 'journal_intro',
+      key: 'journal' as const,
+      type: 'mindscape_journal',
+      title: introTpl.journal.title,
+      body: introTpl.journal.body,
+      atUtc: computeNextUtcForLocalTime({
+        now,
+        tzOffsetMinutes,
+        timeZone,
+        hour: schedule.journal.hour,
+        minute: schedule.journal.minute,
+      }),
+    },
+    {
+      id: 'gratitude_intro',
+      key: 'gratitude' as const,
+      type: 'mindscape_gratitude',
+      title: introTpl.gratitude.title,
+      body: introTpl.gratitude.body,
+      atUtc: computeNextUtcForLocalTime({
+        now,
+        tzOffsetMinutes,
+        timeZone,
+        hour: schedule.gratitude.hour,
+        minute: schedule.gratitude.minute,
+      }),
+    },
+  ];
+
+  return intros.map((intro) => ({
+    id: `intro_${userId}_${intro.id}`,
+    data: {
+      category: 'engagement',
+      type: intro.type,
+      title: intro.title,
+      body: intro.body,
+      recipient_id: userId,
+      status: 'pending',
+      scheduled_at: admin.firestore.Timestamp.fromDate(intro.atUtc),
+      dedupe_key: `intro:${userId}:${intro.id}`,
+      // "send once" effectively
+      dedupe_window_ms: 10 * 365 * 24 * 60 * 60_000,
+      template_id: (intro.key && introTemplateIds[intro.key]) || null,
+    },
+  }));
+}
+
+function planRecurringDocs(
+  userId: string,
+  zone: { tzOffsetMinutes: number; timeZone: string | null },
+  config: NotificationRouterConfig,
+  now: Date
+): PlannedQueueDoc[] {
+  const { tzOffsetMinutes, timeZone } = zone;
+  const schedule = config.engagement.schedule;
+  const recurringTpl = config.engagement.templates.recurring;
+  const recurringRules = config.engagement.recurringRules;
+  const recurringTemplateIds = config.engagement.templateIds.recurring;
+  const recurring = [
+    {
+      id: 'water_advertisement',
+      type: 'water_general',
+      title: recurringTpl.water.title,
+      body: recurringTpl.water.body,
+      key: 'water' as const,
+    },
+    {
+      id: 'daily_checkin_advertisement',
+      type: 'wellsphere_general',
+      title: recurringTpl.daily_checkin.title,
+      body: recurringTpl.daily_checkin.body,
+      key: 'daily_checkin' as const,
+    },
+    {
+      id: 'mood_advertisement',
+      type: 'mindscape_mood',
+      title: recurringTpl.mood.title,
+      body: recurringTpl.mood.body,
+      key: 'mood' as const,
+    },
+    {
+      id: 'meal_tracking_advertisement',
+      type: 'nutrition_general',
+      title: recurringTpl.meal_tracking.title,
+      body: recurringTpl.meal_tracking.body,
+      key: 'meal_tracking' as const,
+    },
+    {
+      id: 'journal_advertisement',
+      type: 'mindscape_journal',
+      title: recurringTpl.journal.title,
+      body: recurringTpl.journal.body,
+      key: 'journal' as const,
+    },
+    {
+      id: 'gratitude_advertisement',
+      type: 'mindscape_gratitude',
+      title: recurringTpl.gratitude.title,
+      body: recurringTpl.gratitude.body,
+      key: 'gratitude' as const,
+    },
+  ];
+
+  return recurring.map((r) => {
+    const rule = recurringRules[r.key] || { repeat: 'daily' };
+    const hour = schedule[r.key].hour;
+    const minute = schedule[r.key].minute;
+
+    let at: Date;
+    if (rule.repeat === 'weekdays') {
+      at = computeNextUtcForWeekdays({
+        now,
+        tzOffsetMinutes,
+        timeZone,
+        hour,
+        minute,
+        daysOfWeek: normalizeDayOfWeekList(rule.daysOfWeek),
+      });
+    } else {
+      at = computeNextUtcForLocalTime({ now, tzOffsetMinutes, timeZone, hour, minute });
+    }
+
+    const docPayload: admin.firestore.DocumentData = {
+      category: 'engagement',
+      type: r.type,
+      title: r.title,
+      body: r.body,
+      recipient_id: userId,
+      status: 'pending',
+      repeat: rule.repeat,
+      hour,
+      minute,
+      tz_offset_minutes: tzOffsetMinutes,
+      time_zone: timeZone,
+      scheduled_at: admin.firestore.Timestamp.fromDate(at),
+      dedupe_key: `recurring:${userId}:${r.id}`,
+      // avoid duplicates from overlapping cron runs, allow daily repeats
+      dedupe_window_ms: 2 * 60_000,
+      template_id: recurringTemplateIds[r.key] || null,
+    };
+
+    if (rule.repeat === 'every_n_days') {
+      docPayload.interval_days =
+        typeof rule.intervalDays === 'number' ? Math.max(1, Math.floor(rule.intervalDays)) : 1;
+    }
+    if (rule.repeat === 'weekdays') {
+      docPayload.days_of_week = normalizeDayOfWeekList(rule.daysOfWeek);
+    }
+    if (typeof rule.occurrences === 'number' && Number.isFinite(rule.occurrences)) {
+      docPayload.remaining_occurrences = Math.max(1, Math.floor(rule.occurrences));
+    }
+
+    return { id: `recurring_${userId}_${r.id}`, data: docPayload };
+  });
+}
+
+/**
+ * The intro and recurring docs the scheduler would create for one user at
+ * `now`; empty when that part is already scheduled or switched off.
+ */
+export function planEngagementQueueDocs(
+  userId: string,
+  data: admin.firestore.DocumentData,
+  config: NotificationRouterConfig,
+  now: Date
+) {
+  const zone = {
+    tzOffsetMinutes:
+      typeof data.tz_offset_minutes === 'number' ? (data.tz_offset_minutes as number) : 0,
+    timeZone: normalizeTimeZone(data.time_zone ?? data.timezone),
+  };
+  return {
+    intros:
+      !data.engagement_first_time_scheduled && config.engagement.firstTimeEnabled
+        ? planIntroDocs(userId, zone, config, now)
+        : [],
+    recurring:
+      !data.engagement_recurring_scheduled && config.engagement.recurringEnabled
+        ? planRecurringDocs(userId, zone, config, now)
+        : [],
+  };
+}
+
+/** Users the scheduler looks at: the most recent token registrations. */
+export function recentEngagementUsersQuery(db: admin.firestore.Firestore, limit: number) {
+  return db.collection('users').orderBy('fcm_token_updated_at', 'desc').limit(limit);
+}
+
+async function commitPlannedDocs(
+  db: admin.firestore.Firestore,
+  userId: string,
+  docs: PlannedQueueDoc[],
+  userFields: Record<string, unknown>
+) {
+  const batch = db.batch();
+  for (const doc of docs) {
+    batch.set(
+      db.collection('notification_queue').doc(doc.id),
+      {
+        ...doc.data,
+        created_at: admin.firestore.FieldValue.serverTimestamp(),
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+  }
+  batch.set(db.collection('users').doc(userId), userFields, { merge: true });
+  await batch.commit();
+}
+
 export async function ensureEngagementSchedulesForRecentUsers(params: {
   db: admin.firestore.Firestore;
   limit: number;
@@ -815,263 +1648,30 @@ export async function ensureEngagementSchedulesForRecentUsers(params: {
     return { scanned: 0, scheduled: 0, disabled: true as const };
   }
 
-  const snap = await db
-    .collection('users')
-    .orderBy('fcm_token_updated_at', 'desc')
-    .limit(limit)
-    .get();
+  const snap = await recentEngagementUsersQuery(db, limit).get();
 
   let scheduled = 0;
   for (const userDoc of snap.docs) {
     const data = userDoc.data() || {};
     const userId = userDoc.id;
-    const token = (data.fcm_token || data.fcmToken || data.device_token) as string | undefined;
-    if (!token) continue;
+    if (userDevicesFromDoc(data).length === 0) continue;
 
-    const tzOffsetMinutes =
-      typeof data.tz_offset_minutes === 'number' ? (data.tz_offset_minutes as number) : 0;
-    const firstTimeDone = Boolean(data.engagement_first_time_scheduled);
-    const recurringDone = Boolean(data.engagement_recurring_scheduled);
-
-    if (!firstTimeDone && config.engagement.firstTimeEnabled) {
-      const now = new Date();
-      const welcomeAt = new Date(now.getTime() + 2 * 60_000);
-
-      const schedule = config.engagement.schedule;
-      const introTpl = config.engagement.templates.intro;
-      const intros = [
-        {
-          id: 'welcome_intro',
-          type: 'iki_home',
-          title: 'Welcome to IKI!',
-          body: "Let's build healthy habits together. We'll introduce you to some amazing features!",
-          atUtc: welcomeAt,
-        },
-        {
-          id: 'water_intro',
-          type: 'water_general',
-          title: introTpl.water.title,
-          body: introTpl.water.body,
-          atUtc: computeNextUtcForLocalTime({
-            now,
-            tzOffsetMinutes,
-            hour: schedule.water.hour,
-            minute: schedule.water.minute,
-          }),
-        },
-        {
-          id: 'daily_checkin_intro',
-          type: 'wellsphere_general',
-          title: introTpl.daily_checkin.title,
-          body: introTpl.daily_checkin.body,
-          atUtc: computeNextUtcForLocalTime({
-            now,
-            tzOffsetMinutes,
-            hour: schedule.daily_checkin.hour,
-            minute: schedule.daily_checkin.minute,
-          }),
-        },
-        {
-          id: 'mood_intro',
-          type: 'mindscape_mood',
-          title: introTpl.mood.title,
-          body: introTpl.mood.body,
-          atUtc: computeNextUtcForLocalTime({
-            now,
-            tzOffsetMinutes,
-            hour: schedule.mood.hour,
-            minute: schedule.mood.minute,
-          }),
-        },
-        {
-          id: 'meal_tracking_intro',
-          type: 'nutrition_general',
-          title: introTpl.meal_tracking.title,
-          body: introTpl.meal_tracking.body,
-          atUtc: computeNextUtcForLocalTime({
-            now,
-            tzOffsetMinutes,
-            hour: schedule.meal_tracking.hour,
-            minute: schedule.meal_tracking.minute,
-          }),
-        },
-        {
-          id: 'journal_intro',
-          type: 'mindscape_journal',
-          title: introTpl.journal.title,
-          body: introTpl.journal.body,
-          atUtc: computeNextUtcForLocalTime({
-            now,
-            tzOffsetMinutes,
-            hour: schedule.journal.hour,
-            minute: schedule.journal.minute,
-          }),
-        },
-        {
-          id: 'gratitude_intro',
-          type: 'mindscape_gratitude',
-          title: introTpl.gratitude.title,
-          body: introTpl.gratitude.body,
-          atUtc: computeNextUtcForLocalTime({
-            now,
-            tzOffsetMinutes,
-            hour: schedule.gratitude.hour,
-            minute: schedule.gratitude.minute,
-          }),
-        },
-      ];
-
-      const batch = db.batch();
-      for (const intro of intros) {
-        const docId = `intro_${userId}_${intro.id}`;
-        const ref = db.collection('notification_queue').doc(docId);
-        batch.set(
-          ref,
-          {
-            category: 'engagement',
-            type: intro.type,
-            title: intro.title,
-            body: intro.body,
-            recipient_id: userId,
-            status: 'pending',
-            scheduled_at: admin.firestore.Timestamp.fromDate(intro.atUtc),
-            created_at: admin.firestore.FieldValue.serverTimestamp(),
-            updated_at: admin.firestore.FieldValue.serverTimestamp(),
-            dedupe_key: `intro:${userId}:${intro.id}`,
-            // "send once" effectively
-            dedupe_window_ms: 10 * 365 * 24 * 60 * 60_000,
-          },
-          { merge: true }
-        );
-      }
-      batch.set(
-        db.collection('users').doc(userId),
-        {
-          engagement_first_time_scheduled: true,
-          engagement_first_time_scheduled_at: admin.firestore.FieldValue.serverTimestamp(),
-        },
-        { merge: true }
-      );
-      await batch.commit();
+    const plan = planEngagementQueueDocs(userId, data, config, new Date());
+    if (plan.intros.length > 0) {
+      await commitPlannedDocs(db, userId, plan.intros, {
+        engagement_first_time_scheduled: true,
+        engagement_first_time_scheduled_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
       scheduled++;
     }
-
-    if (!recurringDone && config.engagement.recurringEnabled) {
-      const now = new Date();
-      const schedule = config.engagement.schedule;
-      const recurringTpl = config.engagement.templates.recurring;
-      const recurringRules = config.engagement.recurringRules;
-      const recurring = [
-        {
-          id: 'water_advertisement',
-          type: 'water_general',
-          title: recurringTpl.water.title,
-          body: recurringTpl.water.body,
-          key: 'water' as const,
-        },
-        {
-          id: 'daily_checkin_advertisement',
-          type: 'wellsphere_general',
-          title: recurringTpl.daily_checkin.title,
-          body: recurringTpl.daily_checkin.body,
-          key: 'daily_checkin' as const,
-        },
-        {
-          id: 'mood_advertisement',
-          type: 'mindscape_mood',
-          title: recurringTpl.mood.title,
-          body: recurringTpl.mood.body,
-          key: 'mood' as const,
-        },
-        {
-          id: 'meal_tracking_advertisement',
-          type: 'nutrition_general',
-          title: recurringTpl.meal_tracking.title,
-          body: recurringTpl.meal_tracking.body,
-          key: 'meal_tracking' as const,
-        },
-        {
-          id: 'journal_advertisement',
-          type: 'mindscape_journal',
-          title: recurringTpl.journal.title,
-          body: recurringTpl.journal.body,
-          key: 'journal' as const,
-        },
-        {
-          id: 'gratitude_advertisement',
-          type: 'mindscape_gratitude',
-          title: recurringTpl.gratitude.title,
-          body: recurringTpl.gratitude.body,
-          key: 'gratitude' as const,
-        },
-      ];
-
-      const batch = db.batch();
-      for (const r of recurring) {
-        const rule = recurringRules[r.key] || { repeat: 'daily' };
-        const hour = schedule[r.key].hour;
-        const minute = schedule[r.key].minute;
-
-        let at: Date;
-        if (rule.repeat === 'weekdays') {
-          at = computeNextUtcForWeekdays({
-            now,
-            tzOffsetMinutes,
-            hour,
-            minute,
-            daysOfWeek: normalizeDayOfWeekList(rule.daysOfWeek),
-          });
-        } else {
-          at = computeNextUtcForLocalTime({ now, tzOffsetMinutes, hour, minute });
-        }
-
-        const docId = `recurring_${userId}_${r.id}`;
-        const ref = db.collection('notification_queue').doc(docId);
-        const docPayload: any = {
-          category: 'engagement',
-          type: r.type,
-          title: r.title,
-          body: r.body,
-          recipient_id: userId,
-          status: 'pending',
-          repeat: rule.repeat,
-          hour,
-          minute,
-          tz_offset_minutes: tzOffsetMinutes,
-          scheduled_at: admin.firestore.Timestamp.fromDate(at),
-          created_at: admin.firestore.FieldValue.serverTimestamp(),
-          updated_at: admin.firestore.FieldValue.serverTimestamp(),
-          dedupe_key: `recurring:${userId}:${r.id}`,
-          // avoid duplicates from overlapping cron runs, allow daily repeats
-          dedupe_window_ms: 2 * 60_000,
-        };
-
-        if (rule.repeat === 'every_n_days') {
-          docPayload.interval_days =
-            typeof rule.intervalDays === 'number' ? Math.max(1, Math.floor(rule.intervalDays)) : 1;
-        }
-        if (rule.repeat === 'weekdays') {
-          docPayload.days_of_week = normalizeDayOfWeekList(rule.daysOfWeek);
-        }
-        if (typeof rule.occurrences === 'number' && Number.isFinite(rule.occurrences)) {
-          docPayload.remaining_occurrences = Math.max(1, Math.floor(rule.occurrences));
-        }
-
-        batch.set(ref, docPayload, { merge: true });
-      }
-      batch.set(
-        db.collection('users').doc(userId),
-        {
-          engagement_recurring_scheduled: true,
-          engagement_recurring_scheduled_at: admin.firestore.FieldValue.serverTimestamp(),
-        },
-        { merge: true }
-      );
-      await batch.commit();
+    if (plan.recurring.length > 0) {
+      await commitPlannedDocs(db, userId, plan.recurring, {
+        engagement_recurring_scheduled: true,
+        engagement_recurring_scheduled_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
       scheduled++;
     }
   }
 
   return { scanned: snap.size, scheduled, disabled: false as const };
 }
-
@@ -0,0 +1,172 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  type ScheduleZone,
+  localDateTimeToUtc,
+  nextLocalOccurrenceUtc,
+  normalizeTimeZone,
+  scheduleZoneFromDoc,
+  toLocalDateTime,
+} from './notification_schedule';
+
+const NEW_YORK = { timeZone: 'America/New_York', tzOffsetMinutes: -300 };
+const LONDON = { timeZone: 'Europe/London', tzOffsetMinutes: 0 };
+const SYDNEY = { timeZone: 'Australia/Sydney', tzOffsetMinutes: 660 };
+
+// 2026 transitions: New York Mar 8 / Nov 1, London Mar 29 / Oct 25, Sydney Apr 5 / Oct 4.
+
+function next(now: string, zone: ScheduleZone, options: Record<string, unknown> = {}) {
+  return nextLocalOccurrenceUtc({
+    now: new Date(now),
+    zone,
+    hour: 8,
+    minute: 0,
+    ...options,
+  }).toISOString();
+}
+
+/** Follow a recurring schedule the way the router does: each send computes the next slot. */
+function chain(start: string, count: number, step: (now: string) => string) {
+  const out: string[] = [];
+  let now = start;
+  for (let i = 0; i < count; i++) {
+    now = step(now);
+    out.push(now);
+  }
+  return out;
+}
+
+describe('zone resolution', () => {
+  it('accepts IANA names and rejects unknown ones', () => {
+    assert.equal(normalizeTimeZone('Europe/London'), 'Europe/London');
+    assert.equal(normalizeTimeZone('Mars/Olympus_Mons'), null);
+    assert.equal(normalizeTimeZone(''), null);
+    assert.equal(normalizeTimeZone(undefined), null);
+  });
+
+  it('reads time_zone, then timezone, with the offset as fallback', () => {
+    assert.deepEqual(scheduleZoneFromDoc({ time_zone: 'Asia/Tokyo', tz_offset_minutes: 540 }), {
+      timeZone: 'Asia/Tokyo',
+      tzOffsetMinutes: 540,
+    });
+    assert.equal(scheduleZoneFromDoc({ timezone: 'Asia/Tokyo' }).timeZone, 'Asia/Tokyo');
+    assert.deepEqual(scheduleZoneFromDoc({ tz_offset_minutes: 60 }), {
+      timeZone: null,
+      tzOffsetMinutes: 60,
+    });
+  });
+
+  it('falls back to the fixed offset when no valid zone is known', () => {
+    const zone = { timeZone: 'Not/AZone', tzOffsetMinutes: -300 };
+    // Offset-only scheduling ignores DST: 08:00 at -05:00 is 13:00Z all year.
+    assert.equal(next('2026-07-01T00:00:00Z', zone), '2026-07-01T13:00:00.000Z');
+    assert.equal(
+      next('2026-07-01T00:00:00Z', { tzOffsetMinutes: -300 }),
+      '2026-07-01T13:00:00.000Z'
+    );
+  });
+});
+
+describe('local wall time conversion', () => {
+  it('moves a time inside the spring-forward gap past the gap', () => {
+    const at = localDateTimeToUtc({ year: 2026, month: 3, day: 8, hour: 2, minute: 30 }, NEW_YORK);
+    assert.equal(at.toISOString(), '2026-03-08T07:30:00.000Z');
+    assert.equal(toLocalDateTime(at, NEW_YORK).hour, 3);
+  });
+
+  it('resolves a repeated fall-back time to its first occurrence', () => {
+    const at = localDateTimeToUtc({ year: 2026, month: 11, day: 1, hour: 1, minute: 30 }, NEW_YORK);
+    assert.equal(at.toISOString(), '2026-11-01T05:30:00.000Z');
+  });
+});
+
+describe('daily repeats', () => {
+  it('keeps 08:00 local across the US spring-forward', () => {
+    const sends = chain('2026-03-06T14:00:00Z', 4, (now) => next(now, NEW_YORK));
+    assert.deepEqual(sends, [
+      '2026-03-07T13:00:00.000Z',
+      '2026-03-08T12:00:00.000Z',
+      '2026-03-09T12:00:00.000Z',
+      '2026-03-10T12:00:00.000Z',
+    ]);
+  });
+
+  it('keeps 08:00 local across the US fall-back', () => {
+    const sends = chain('2026-10-30T13:00:00Z', 3, (now) => next(now, NEW_YORK));
+    assert.deepEqual(sends, [
+      '2026-10-31T12:00:00.000Z',
+      '2026-11-01T13:00:00.000Z',
+      '2026-11-02T13:00:00.000Z',
+    ]);
+  });
+
+  it('keeps local time across the London and Sydney changes', () => {
+    assert.deepEqual(
+      chain('2026-03-28T09:00:00Z', 2, (now) => next(now, LONDON)),
+      ['2026-03-29T07:00:00.000Z', '2026-03-30T07:00:00.000Z']
+    );
+    // Sydney leaves DST on Apr 5 (+11:00 -> +10:00).
+    assert.deepEqual(
+      chain('2026-04-03T20:00:00Z', 2, (now) => next(now, SYDNEY)),
+      ['2026-04-03T21:00:00.000Z', '2026-04-04T22:00:00.000Z']
+    );
+  });
+
+  it('lands after the gap when the slot falls inside it', () => {
+    const sends = chain('2026-03-07T08:00:00Z', 2, (now) =>
+      next(now, NEW_YORK, { hour: 2, minute: 30 })
+    );
+    assert.deepEqual(sends, ['2026-03-08T07:30:00.000Z', '2026-03-09T06:30:00.000Z']);
+  });
+
+  it('sends once on the fall-back day when the slot repeats', () => {
+    const sends = chain('2026-10-31T06:00:00Z', 2, (now) =>
+      next(now, NEW_YORK, { hour: 1, minute: 30 })
+    );
+    assert.deepEqual(sends, ['2026-11-01T05:30:00.000Z', '2026-11-02T06:30:00.000Z']);
+  });
+});
+
+describe('every_n_days repeats', () => {
+  it('counts local calendar days across the US spring-forward', () => {
+    const sends = chain('2026-03-04T14:00:00Z', 3, (now) =>
+      next(now, NEW_YORK, { intervalDays: 3 })
+    );
+    assert.deepEqual(sends, [
+      '2026-03-07T13:00:00.000Z',
+      '2026-03-10T12:00:00.000Z',
+      '2026-03-13T12:00:00.000Z',
+    ]);
+  });
+
+  it('counts local calendar days across the London fall-back', () => {
+    const sends = chain('2026-10-22T08:00:00Z', 2, (now) => next(now, LONDON, { intervalDays: 2 }));
+    assert.deepEqual(sends, ['2026-10-24T07:00:00.000Z', '2026-10-26T08:00:00.000Z']);
+  });
+});
+
+describe('weekdays repeats', () => {
+  it('keeps Monday/Wednesday 08:00 local across the US spring-forward', () => {
+    const sends = chain('2026-03-03T00:00:00Z', 4, (now) =>
+      next(now, NEW_YORK, { daysOfWeek: [1, 3] })
+    );
+    assert.deepEqual(sends, [
+      '2026-03-04T13:00:00.000Z',
+      '2026-03-09T12:00:00.000Z',
+      '2026-03-11T12:00:00.000Z',
+      '2026-03-16T12:00:00.000Z',
+    ]);
+  });
+
+  it('keeps Sunday 08:00 local when the change happens that Sunday', () => {
+    const sends = chain('2026-10-18T12:00:00Z', 2, (now) => next(now, LONDON, { daysOfWeek: [0] }));
+    assert.deepEqual(sends, ['2026-10-25T08:00:00.000Z', '2026-11-01T08:00:00.000Z']);
+  });
+
+  it('treats an empty weekday list as daily', () => {
+    assert.equal(
+      next('2026-03-07T14:00:00Z', NEW_YORK, { daysOfWeek: [] }),
+      '2026-03-08T12:00:00.000Z'
+    );
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Local-clock scheduling for notifications. A recipient's zone is an IANA name
+ * when the app reports one (DST-aware), otherwise the fixed `tz_offset_minutes`.
+ * Kept free of Firebase imports so it can be unit tested and shared by routes.
+ */
+
+export type ScheduleZone = {
+  timeZone?: string | null;
+  tzOffsetMinutes?: number | null;
+};
+
+export type LocalDateTime = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+};
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Canonical IANA zone name, or null when missing or unknown to the runtime. */
+export function normalizeTimeZone(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  try {
+    return formatterFor(value.trim()).resolvedOptions().timeZone;
+  } catch {
+    return null;
+  }
+}
+
+/** Zone fields as stored on user and queue docs (`time_zone`, `timezone`, `tz_offset_minutes`). */
+export function scheduleZoneFromDoc(data: Record<string, unknown>): ScheduleZone {
+  return {
+    timeZone: normalizeTimeZone(data.time_zone ?? data.timezone),
+    tzOffsetMinutes: typeof data.tz_offset_minutes === 'number' ? data.tz_offset_minutes : 0,
+  };
+}
+
+/** Minutes to add to UTC to get the zone's wall clock at `at`. */
+export function zoneOffsetMinutes(at: Date, zone: ScheduleZone): number {
+  const timeZone = normalizeTimeZone(zone.timeZone);
+  if (!timeZone) return zone.tzOffsetMinutes ?? 0;
+
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(at)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  const wallMs = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  const atMs = Math.floor(at.getTime() / 1000) * 1000;
+  return Math.round((wallMs - atMs) / MINUTE_MS);
+}
+
+/** Wall-clock date and time in the zone at `at` (weekday 0=Sun..6=Sat). */
+export function toLocalDateTime(at: Date, zone: ScheduleZone): LocalDateTime & { weekday: number } {
+  const local = new Date(at.getTime() + zoneOffsetMinutes(at, zone) * MINUTE_MS);
+  return {
+    year: local.getUTCFullYear(),
+    month: local.getUTCMonth() + 1,
+    day: local.getUTCDate(),
+    hour: local.getUTCHours(),
+    minute: local.getUTCMinutes(),
+    weekday: local.getUTCDay(),
+  };
+}
+
+/**
+ * UTC instant of a local wall-clock time. A time skipped by a spring-forward gap
+ * lands after the gap (02:30 becomes 03:30); a time repeated by a fall-back
+ * resolves to its first occurrence.
+ */
+export function localDateTimeToUtc(local: LocalDateTime, zone: ScheduleZone): Date {
+  const wallMs = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  // Zone transitions are never a day apart, so these bracket any transition near wallMs.
+  const offsetBefore = zoneOffsetMinutes(new Date(wallMs - DAY_MS), zone);
+  const offsetAfter = zoneOffsetMinutes(new Date(wallMs + DAY_MS), zone);
+
+  const valid = [offsetBefore, offsetAfter]
+    .map((offset) => wallMs - offset * MINUTE_MS)
+    .filter((ms) => toWallMs(ms, zone) === wallMs)
+    .sort((a, b) => a - b);
+
+  return new Date(valid[0] ?? wallMs - offsetBefore * MINUTE_MS);
+}
+
+function toWallMs(utcMs: number, zone: ScheduleZone) {
+  return utcMs + zoneOffsetMinutes(new Date(utcMs), zone) * MINUTE_MS;
+}
+
+function addLocalDays(local: LocalDateTime, days: number): LocalDateTime {
+  const date = new Date(Date.UTC(local.year, local.month - 1, local.day + days));
+  return {
+    ...local,
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  };
+}
+
+function weekdayOf(local: LocalDateTime) {
+  return new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay();
+}
+
+/**
+ * Next instant after `now` at local `hour:minute`. With `daysOfWeek`, only those
+ * weekdays (0=Sun..6=Sat) qualify; `intervalDays` > 1 then moves that many local
+ * calendar days past the next slot, so the clock time holds across DST changes.
+ */
+export function nextLocalOccurrenceUtc(params: {
+  now: Date;
+  zone: ScheduleZone;
+  hour: number;
+  minute: number;
+  intervalDays?: number;
+  daysOfWeek?: number[];
+}): Date {
+  const { now, zone, hour, minute, intervalDays = 1, daysOfWeek = [] } = params;
+  const today = toLocalDateTime(now, zone);
+
+  let slot: LocalDateTime = { year: today.year, month: today.month, day: today.day, hour, minute };
+  if (localDateTimeToUtc(slot, zone).getTime() <= now.getTime()) {
+    slot = addLocalDays(slot, 1);
+  }
+  if (daysOfWeek.length > 0) {
+    for (let i = 0; i < 7 && !daysOfWeek.includes(weekdayOf(slot)); i++) {
+      slot = addLocalDays(slot, 1);
+    }
+  }
+  if (intervalDays > 1) {
+    slot = addLocalDays(slot, intervalDays - 1);
+  }
+  return localDateTimeToUtc(slot, zone);
+}
@@ -0,0 +1,339 @@
+import admin from 'firebase-admin';
+
+/**
+ * Saved audience filters over `users` docs (plus onboarding tags from `userTags`).
+ * Every filter is optional; a user must match all of the ones that are set.
+ */
+export type SegmentFilters = {
+  countries?: string[];
+  activityLevels?: string[];
+  signedUpAfter?: string | null; // ISO date, compared to users.time
+  signedUpBefore?: string | null;
+  pointsMin?: number | null;
+  pointsMax?: number | null;
+  tags?: string[]; // any of these selected userTags interests
+  activeWithinDays?: number | null; // users.lastSeen within N days
+  inactiveForDays?: number | null; // no users.lastSeen in the last N days
+};
+
+export type SegmentEstimate = {
+  estimated: number;
+  matched: number;
+  scanned: number;
+  total: number;
+  exact: boolean;
+  at: string;
+};
+
+export type NotificationSegment = {
+  id: string;
+  name: string;
+  description: string;
+  filters: SegmentFilters;
+  created_by: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+  last_estimate: SegmentEstimate | null;
+};
+
+const SEGMENTS_COLLECTION = 'notification_segments';
+
+// Users scanned for an estimate; larger bases are extrapolated from this sample.
+const ESTIMATE_SCAN_LIMIT = 5000;
+const ESTIMATE_PAGE_SIZE = 500;
+
+const DAY_MS = 24 * 60 * 60_000;
+
+function tsToIso(value: unknown): string | null {
+  const ts = value as admin.firestore.Timestamp | undefined;
+  if (!ts || typeof ts.toDate !== 'function') return null;
+  return ts.toDate().toISOString();
+}
+
+function toMillis(value: unknown): number | null {
+  if (!value) return null;
+  const ts = value as admin.firestore.Timestamp;
+  if (typeof ts.toMillis === 'function') return ts.toMillis();
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string' || typeof value === 'number') {
+    const ms = new Date(value).getTime();
+    return Number.isNaN(ms) ? null : ms;
+  }
+  return null;
+}
+
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const items = value.map((v) => String(v ?? '').trim()).filter(Boolean);
+  return Array.from(new Set(items));
+}
+
+function optionalNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : Number.NaN;
+}
+
+function optionalDate(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  const ms = new Date(String(value)).getTime();
+  return Number.isNaN(ms) ? 'invalid' : new Date(ms).toISOString();
+}
+
+/** Validate and clean filters from a request body. */
+export function normalizeSegmentFilters(
+  raw: unknown
+): { filters: SegmentFilters } | { error: string } {
+  const input = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+
+  const signedUpAfter = optionalDate(input.signedUpAfter);
+  const signedUpBefore = optionalDate(input.signedUpBefore);
+  if (signedUpAfter === 'invalid' || signedUpBefore === 'invalid') {
+    return { error: 'signedUpAfter and signedUpBefore must be dates' };
+  }
+
+  const pointsMin = optionalNumber(input.pointsMin);
+  const pointsMax = optionalNumber(input.pointsMax);
+  if (Number.isNaN(pointsMin) || Number.isNaN(pointsMax)) {
+    return { error: 'pointsMin and pointsMax must be numbers' };
+  }
+  if (pointsMin !== null && pointsMax !== null && pointsMin > pointsMax) {
+    return { error: 'pointsMin must not exceed pointsMax' };
+  }
+
+  const activeWithinDays = optionalNumber(input.activeWithinDays);
+  const inactiveForDays = optionalNumber(input.inactiveForDays);
+  for (const days of [activeWithinDays, inactiveForDays]) {
+    if (days !== null && !(days > 0)) {
+      return { error: 'activeWithinDays and inactiveForDays must be positive numbers' };
+    }
+  }
+
+  return {
+    filters: {
+      countries: stringList(input.countries),
+      activityLevels: stringList(input.activityLevels),
+      signedUpAfter,
+      signedUpBefore,
+      pointsMin,
+      pointsMax,
+      tags: stringList(input.tags),
+      activeWithinDays,
+      inactiveForDays,
+    },
+  };
+}
+
+export function segmentNeedsTags(filters: SegmentFilters): boolean {
+  return (filters.tags?.length ?? 0) > 0;
+}
+
+/** Selected interest names (lowercased) from a `userTags` doc. */
+export function selectedTagNames(data: unknown): string[] {
+  if (!data || typeof data !== 'object') return [];
+  const names: string[] = [];
+  for (const [key, value] of Object.entries(data as Record<string, unknown>)) {
+    if (key === 'initialize' || !value || typeof value !== 'object') continue;
+    const tag = value as { name?: unknown; selected?: unknown };
+    if (!tag.selected) continue;
+    names.push(String(tag.name || key).toLowerCase());
+  }
+  return names;
+}
+
+function matchesAny(value: unknown, allowed: string[] | undefined): boolean {
+  if (!allowed?.length) return true;
+  const v = String(value ?? '').toLowerCase();
+  return allowed.some((a) => a.toLowerCase() === v);
+}
+
+function inRange(value: number | null, min: number | null, max: number | null): boolean {
+  if (min === null && max === null) return true;
+  if (value === null) return false;
+  return (min === null || value >= min) && (max === null || value <= max);
+}
+
+function matchesActivity(lastSeen: number | null, filters: SegmentFilters, now: Date): boolean {
+  if (filters.activeWithinDays != null) {
+    const since = now.getTime() - filters.activeWithinDays * DAY_MS;
+    if (lastSeen === null || lastSeen < since) return false;
+  }
+  if (filters.inactiveForDays != null) {
+    const since = now.getTime() - filters.inactiveForDays * DAY_MS;
+    if (lastSeen !== null && lastSeen >= since) return false;
+  }
+  return true;
+}
+
+/**
+ * Whether one user matches. `tags` is the user's selected interest names and
+ * only needs to be supplied when the segment filters on tags.
+ */
+export function matchesSegment(
+  user: Record<string, unknown>,
+  tags: string[] | null,
+  filters: SegmentFilters,
+  now: Date = new Date()
+): boolean {
+  if (!matchesAny(user.country, filters.countries)) return false;
+  if (!matchesAny(user.activityLevel, filters.activityLevels)) return false;
+
+  const signedUp = toMillis(user.time);
+  const after = toMillis(filters.signedUpAfter);
+  const before = toMillis(filters.signedUpBefore);
+  if (!inRange(signedUp, after, before)) return false;
+
+  const points = typeof user.points === 'number' ? user.points : 0;
+  if (!inRange(points, filters.pointsMin ?? null, filters.pointsMax ?? null)) return false;
+
+  if (!matchesActivity(toMillis(user.lastSeen), filters, now)) return false;
+
+  if (segmentNeedsTags(filters)) {
+    const wanted = (filters.tags ?? []).map((t) => t.toLowerCase());
+    if (!tags?.some((t) => wanted.includes(t))) return false;
+  }
+
+  return true;
+}
+
+async function loadTagsByUser(
+  db: admin.firestore.Firestore,
+  userIds: string[]
+): Promise<Map<string, string[]>> {
+  const byUser = new Map<string, string[]>();
+  if (userIds.length === 0) return byUser;
+  const snaps = await db.getAll(...userIds.map((id) => db.collection('userTags').doc(id)));
+  for (const snap of snaps) {
+    if (snap.exists) byUser.set(snap.id, selectedTagNames(snap.data()));
+  }
+  return byUser;
+}
+
+/**
+ * The users from one page of the broadcast cursor that belong to the segment.
+ * Membership is evaluated at send time, against the users' current data.
+ */
+export async function filterUsersBySegment(
+  db: admin.firestore.Firestore,
+  users: admin.firestore.QueryDocumentSnapshot[],
+  filters: SegmentFilters,
+  now: Date = new Date()
+): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+  const tagsByUser = segmentNeedsTags(filters)
+    ? await loadTagsByUser(
+        db,
+        users.map((u) => u.id)
+      )
+    : null;
+  return users.filter((u) =>
+    matchesSegment(u.data() || {}, tagsByUser?.get(u.id) ?? null, filters, now)
+  );
+}
+
+async function countUsers(db: admin.firestore.Firestore): Promise<number | null> {
+  try {
+    const snap = await db.collection('users').count().get();
+    return snap.data().count;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Scan users in the same order the broadcast expands them. Exact for bases up
+ * to ESTIMATE_SCAN_LIMIT users, extrapolated from that sample above it.
+ */
+export async function estimateSegmentSize(
+  db: admin.firestore.Firestore,
+  filters: SegmentFilters
+): Promise<SegmentEstimate> {
+  const now = new Date();
+  let matched = 0;
+  let scanned = 0;
+  let last: admin.firestore.QueryDocumentSnapshot | null = null;
+  let exhausted = false;
+
+  while (scanned < ESTIMATE_SCAN_LIMIT) {
+    let query = db.collection('users').orderBy('time', 'desc').limit(ESTIMATE_PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const snap = await query.get();
+    scanned += snap.size;
+    matched += (await filterUsersBySegment(db, snap.docs, filters, now)).length;
+    if (snap.size < ESTIMATE_PAGE_SIZE) {
+      exhausted = true;
+      break;
+    }
+    last = snap.docs[snap.docs.length - 1];
+  }
+
+  const total = exhausted ? scanned : ((await countUsers(db)) ?? scanned);
+  const exact = exhausted || total <= scanned;
+  return {
+    estimated: exact || scanned === 0 ? matched : Math.round((matched / scanned) * total),
+    matched,
+    scanned,
+    total,
+    exact,
+    at: now.toISOString(),
+  };
+}
+
+function segmentDocToItem(d: admin.firestore.DocumentSnapshot): NotificationSegment {
+  const data = d.data() || {};
+  return {
+    id: d.id,
+    name: data.name || '',
+    description: data.description || '',
+    filters: data.filters || {},
+    created_by: data.created_by || null,
+    created_at: tsToIso(data.created_at),
+    updated_at: tsToIso(data.updated_at),
+    last_estimate: data.last_estimate || null,
+  };
+}
+
+export function segmentsRef(db: admin.firestore.Firestore) {
+  return db.collection(SEGMENTS_COLLECTION);
+}
+
+export async function listSegments(db: admin.firestore.Firestore) {
+  const snap = await segmentsRef(db).orderBy('name', 'asc').limit(200).get();
+  return snap.docs.map(segmentDocToItem);
+}
+
+export async function getSegment(
+  db: admin.firestore.Firestore,
+  segmentId: string
+): Promise<NotificationSegment | null> {
+  const snap = await segmentsRef(db).doc(segmentId).get();
+  return snap.exists ? segmentDocToItem(snap) : null;
+}
+
+export async function saveSegment(
+  db: admin.firestore.Firestore,
+  params: {
+    segmentId?: string;
+    name: string;
+    description?: string;
+    filters: SegmentFilters;
+    userId: string;
+    estimate?: SegmentEstimate | null;
+  }
+): Promise<NotificationSegment> {
+  const ref = params.segmentId ? segmentsRef(db).doc(params.segmentId) : segmentsRef(db).doc();
+  const payload: Record<string, unknown> = {
+    name: params.name,
+    description: params.description || '',
+    filters: params.filters,
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+    updated_by: params.userId,
+  };
+  if (!params.segmentId) {
+    payload.created_at = admin.firestore.FieldValue.serverTimestamp();
+    payload.created_by = params.userId;
+  }
+  if (params.estimate !== undefined) payload.last_estimate = params.estimate;
+
+  await ref.set(payload, { merge: true });
+  return segmentDocToItem(await ref.get());
+}
@@ -0,0 +1,237 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import admin from 'firebase-admin';
+import {
+  DEFAULT_NOTIFICATION_ROUTER_CONFIG,
+  type NotificationRouterConfig,
+} from './notification_router';
+import { simulateNotificationRun } from './notification_simulation';
+
+type Collections = Record<string, Record<string, admin.firestore.DocumentData>>;
+type Filter = { field: string; op: string; value: unknown };
+
+const NOW = new Date('2026-03-02T12:30:00Z');
+
+function at(iso: string) {
+  return admin.firestore.Timestamp.fromDate(new Date(iso));
+}
+
+function comparable(value: unknown) {
+  const ts = value as admin.firestore.Timestamp | undefined;
+  return ts && typeof ts.toMillis === 'function' ? ts.toMillis() : value;
+}
+
+function matches(data: admin.firestore.DocumentData, { field, op, value }: Filter) {
+  const actual = comparable(data[field]) as number;
+  if (op === '==') return actual === comparable(value);
+  if (op === 'in') return (value as unknown[]).includes(actual);
+  if (op === '<=') return actual <= (comparable(value) as number);
+  throw new Error(`Unsupported operator ${op}`);
+}
+
+/** Just enough Firestore for reads; any write fails the test. */
+function fakeFirestore(collections: Collections) {
+  const write = () => {
+    throw new Error('dry run must not write');
+  };
+  const snapshot = (id: string, data: admin.firestore.DocumentData | undefined) => ({
+    id,
+    exists: data !== undefined,
+    data: () => data,
+    get: (field: string) => data?.[field],
+  });
+
+  function query(
+    name: string,
+    filters: Filter[] = [],
+    order: { field: string; dir: string } | null = null,
+    max = Number.POSITIVE_INFINITY
+  ) {
+    return {
+      where: (field: string, op: string, value: unknown) =>
+        query(name, [...filters, { field, op, value }], order, max),
+      orderBy: (field: string, dir = 'asc') => query(name, filters, { field, dir }, max),
+      limit: (n: number) => query(name, filters, order, n),
+      doc: (id: string) => ({
+        get: async () => snapshot(id, collections[name]?.[id]),
+        set: write,
+        update: write,
+        delete: write,
+      }),
+      get: async () => {
+        let entries = Object.entries(collections[name] || {}).filter(([, data]) =>
+          filters.every((f) => matches(data, f))
+        );
+        if (order) {
+          const sign = order.dir === 'desc' ? -1 : 1;
+          entries = entries.sort(
+            ([, a], [, b]) =>
+              sign *
+              ((comparable(a[order.field]) as number) - (comparable(b[order.field]) as number))
+          );
+        }
+        const docs = entries.slice(0, max).map(([id, data]) => snapshot(id, data));
+        return { docs, size: docs.length, empty: docs.length === 0 };
+      },
+    };
+  }
+
+  return {
+    collection: (name: string) => query(name),
+    batch: write,
+    runTransaction: write,
+  } as unknown as admin.firestore.Firestore;
+}
+
+function configWith(patch: (config: NotificationRouterConfig) => void) {
+  const config = structuredClone(DEFAULT_NOTIFICATION_ROUTER_CONFIG);
+  patch(config);
+  return config;
+}
+
+const USER = {
+  time_zone: 'UTC',
+  fcm_devices: { phone: { token: 'token-phone-1234567890', platform: 'ios' } },
+  fcm_token_updated_at: at('2026-03-01T00:00:00Z'),
+};
+
+function queued(fields: admin.firestore.DocumentData) {
+  return { status: 'pending', title: 'Hello', body: 'World', recipient_id: 'u1', ...fields };
+}
+
+describe('simulateNotificationRun', () => {
+  it('reports sends and skip reasons without writing', async () => {
+    const db = fakeFirestore({
+      users: { u1: USER, u2: { time_zone: 'UTC' } },
+      notification_dedupe: { seen: { sent_at: at('2026-03-02T12:20:00Z') } },
+      notification_queue: {
+        overdue: queued({
+          category: 'admin',
+          type: 'admin_general',
+          scheduled_at: at('2026-03-02T11:00:00Z'),
+        }),
+        friend1: queued({
+          category: 'connect',
+          type: 'connect_friend_request',
+          sender_id: 's1',
+          scheduled_at: at('2026-03-02T12:31:00Z'),
+        }),
+        friend2: queued({
+          category: 'connect',
+          type: 'connect_friend_request',
+          sender_id: 's1',
+          scheduled_at: at('2026-03-02T12:35:00Z'),
+        }),
+        blocked: queued({
+          category: 'connect',
+          type: 'connect_general',
+          sender_id: 'spammer',
+          scheduled_at: at('2026-03-02T13:00:00Z'),
+        }),
+        stored_dedupe: queued({
+          type: 'admin_general',
+          dedupe_key: 'seen',
+          dedupe_window_ms: 60 * 60_000,
+          scheduled_at: at('2026-03-02T13:00:00Z'),
+        }),
+        first: queued({
+          type: 'admin_general',
+          dedupe_key: 'fresh',
+          dedupe_window_ms: 60 * 60_000,
+          scheduled_at: at('2026-03-02T13:10:00Z'),
+        }),
+        repeat: queued({
+          type: 'admin_general',
+          dedupe_key: 'fresh',
+          dedupe_window_ms: 60 * 60_000,
+          scheduled_at: at('2026-03-02T13:20:00Z'),
+        }),
+        no_device: queued({
+          type: 'admin_general',
+          recipient_id: 'u2',
+          scheduled_at: at('2026-03-02T14:00:00Z'),
+        }),
+        later: queued({ type: 'admin_general', scheduled_at: at('2026-03-04T00:00:00Z') }),
+        done: queued({
+          type: 'admin_general',
+          status: 'sent',
+          scheduled_at: at('2026-03-02T13:00:00Z'),
+        }),
+      },
+    });
+    const config = configWith((c) => {
+      c.engagement.enabled = false;
+      c.connect.blockedSenders = ['spammer'];
+    });
+
+    const report = await simulateNotificationRun({ db, config, hours: 24, limit: 100, now: NOW });
+
+    const outcomes = Object.fromEntries(
+      report.deliveries.map((d) => [d.id, [d.outcome, d.reason, d.at]])
+    );
+    assert.deepEqual(outcomes, {
+      overdue: ['send', null, '2026-03-02T12:30:00.000Z'],
+      friend1: ['send', null, '2026-03-02T12:31:00.000Z'],
+      friend2: ['skip', 'rate_limited', '2026-03-02T12:35:00.000Z'],
+      blocked: ['skip', 'blocked_sender', '2026-03-02T13:00:00.000Z'],
+      stored_dedupe: ['skip', 'deduped', '2026-03-02T13:00:00.000Z'],
+      first: ['send', null, '2026-03-02T13:10:00.000Z'],
+      repeat: ['skip', 'deduped', '2026-03-02T13:20:00.000Z'],
+      no_device: ['fail', 'no_token', '2026-03-02T14:00:00.000Z'],
+    });
+    assert.equal(report.deliveries[0].devices, 1);
+    assert.equal(report.recipients, 1);
+    assert.deepEqual(report.engagement, { scanned: 0, users: 0, docs: 0, disabled: true });
+  });
+
+  it('expands engagement schedules and recurring items against frequency caps', async () => {
+    const db = fakeFirestore({ users: { u1: USER } });
+    const config = configWith((c) => {
+      c.engagement.firstTimeEnabled = false;
+      c.frequencyCaps.enabled = true;
+      c.frequencyCaps.perDay = 3;
+    });
+
+    const report = await simulateNotificationRun({ db, config, hours: 48, limit: 100, now: NOW });
+
+    assert.deepEqual(report.engagement, { scanned: 1, users: 1, docs: 6, disabled: false });
+    const water = report.deliveries.filter((d) => d.id === 'recurring_u1_water_advertisement');
+    assert.deepEqual(
+      water.map((d) => [d.outcome, d.at]),
+      [
+        ['send', '2026-03-03T08:00:00.000Z'],
+        ['send', '2026-03-04T08:00:00.000Z'],
+      ]
+    );
+    // Mar 2: journal + gratitude; Mar 3 and 4: water, check-in, mood, then the cap.
+    assert.equal(report.totals.send, 8);
+    assert.equal(report.totals.cap, 4);
+    assert.deepEqual(
+      report.deliveries.filter((d) => d.outcome === 'cap').map((d) => d.reason),
+      ['daily_cap', 'daily_cap', 'daily_cap', 'daily_cap']
+    );
+  });
+
+  it('defers quiet-hours items to the end of the window', async () => {
+    const db = fakeFirestore({
+      users: { u1: USER },
+      notification_queue: {
+        late: queued({ type: 'admin_general', scheduled_at: at('2026-03-02T23:00:00Z') }),
+      },
+    });
+    const config = configWith((c) => {
+      c.engagement.enabled = false;
+      c.quietHours.enabled = true;
+    });
+
+    const report = await simulateNotificationRun({ db, config, hours: 24, limit: 100, now: NOW });
+
+    assert.deepEqual(
+      report.deliveries.map((d) => [d.outcome, d.at, d.deferred_until]),
+      [
+        ['defer', '2026-03-02T23:00:00.000Z', '2026-03-03T08:00:00.000Z'],
+        ['send', '2026-03-03T08:00:00.000Z', null],
+      ]
+    );
+  });
+});
@@ -0,0 +1,399 @@
+import admin from 'firebase-admin';
+import { userDevicesFromDoc } from './notification_devices';
+import {
+  type NotificationRouterConfig,
+  PRIORITY_RANK,
+  type QueueDoc,
+  type QueueGateDecision,
+  type QueueGateState,
+  counterUsage,
+  evaluateQueueGates,
+  frequencyCapReason,
+  frequencyPeriodKeys,
+  nextOccurrenceAfterSend,
+  nextOccurrenceBeforeEnd,
+  planEngagementQueueDocs,
+  priorityForCategory,
+  queueDocZone,
+  recentEngagementUsersQuery,
+  userCounterRef,
+} from './notification_router';
+import { scheduleZoneFromDoc } from './notification_schedule';
+import {
+  type NotificationTemplate,
+  type RenderedTemplate,
+  renderTemplateForUser,
+} from './notification_templates';
+
+/**
+ * Dry run of the notification cron: replays the next `hours` of the queue, plus
+ * the docs `ensureEngagementSchedulesForRecentUsers` would create, through the
+ * router's own `evaluateQueueGates`. Only reads Firestore and never calls FCM;
+ * dedupe keys, rate limits and frequency caps are tracked in memory so later
+ * items see the effect of earlier simulated sends.
+ *
+ * Items are assumed to go out at their `scheduled_at` (overdue ones at `now`);
+ * the real send lands on the first cron tick after that. Pending broadcasts are
+ * not expanded, and FCM rejections cannot be predicted.
+ */
+
+export type SimulatedOutcome = 'send' | 'defer' | 'skip' | 'cap' | 'fail' | 'hold';
+
+export type SimulatedDelivery = {
+  id: string;
+  // `engagement` docs do not exist yet; the scheduler would create them.
+  source: 'queue' | 'engagement';
+  at: string;
+  outcome: SimulatedOutcome;
+  reason: string | null;
+  recipient_id: string | null;
+  category: string | null;
+  type: string | null;
+  title: string;
+  body: string;
+  template_locale: string | null;
+  devices: number;
+  deferred_until: string | null;
+};
+
+export type NotificationSimulation = {
+  now: string;
+  until: string;
+  hours: number;
+  // Processing is switched off: nothing below goes out until it is re-enabled.
+  paused: boolean;
+  queue: { scanned: number; truncated: boolean };
+  engagement: { scanned: number; users: number; docs: number; disabled: boolean };
+  totals: Record<SimulatedOutcome, number>;
+  recipients: number;
+  deliveries: SimulatedDelivery[];
+};
+
+type SimEvent = {
+  id: string;
+  source: SimulatedDelivery['source'];
+  payload: QueueDoc;
+  at: Date;
+};
+
+type SimState = {
+  db: admin.firestore.Firestore;
+  config: NotificationRouterConfig;
+  users: Map<string, admin.firestore.DocumentData | null>;
+  dedupe: Map<string, Date | null>;
+  rateLimits: Map<string, Record<string, Date>>;
+  counters: Map<string, admin.firestore.DocumentData>;
+  templateCache: Map<string, NotificationTemplate | null>;
+};
+
+type Evaluation = Pick<SimulatedDelivery, 'outcome' | 'reason'> &
+  Partial<Pick<SimulatedDelivery, 'title' | 'body' | 'template_locale' | 'devices'>> & {
+    deferredUntil?: Date;
+    // Follow-up occurrence of a recurring item (after a send or a capped slot).
+    next?: SimEvent;
+  };
+
+// Longest window a dry run covers; recurring items expand once per occurrence.
+export const MAX_SIMULATION_HOURS = 7 * 24;
+
+/** `hours` from a request: defaults to a day, clamped to 1..MAX_SIMULATION_HOURS. */
+export function parseSimulationHours(value: unknown) {
+  const hours = Number.parseFloat(String(value ?? ''));
+  if (!Number.isFinite(hours)) return 24;
+  return Math.min(Math.max(hours, 1), MAX_SIMULATION_HOURS);
+}
+
+function tsToDate(value: unknown): Date | null {
+  const ts = value as admin.firestore.Timestamp | undefined;
+  return ts && typeof ts.toDate === 'function' ? ts.toDate() : null;
+}
+
+async function loadUser(state: SimState, userId: string) {
+  if (!state.users.has(userId)) {
+    const snap = await state.db.collection('users').doc(userId).get();
+    state.users.set(userId, snap.exists ? snap.data() || {} : null);
+  }
+  return state.users.get(userId) ?? null;
+}
+
+async function loadDedupe(state: SimState, key: string) {
+  if (!state.dedupe.has(key)) {
+    const snap = await state.db.collection('notification_dedupe').doc(key).get();
+    state.dedupe.set(key, snap.exists ? tsToDate(snap.get('sent_at')) : null);
+  }
+  return state.dedupe.get(key) ?? null;
+}
+
+async function loadRateLimits(state: SimState, key: string) {
+  let limits = state.rateLimits.get(key);
+  if (!limits) {
+    const snap = await state.db.collection('connect_notification_rate_limits').doc(key).get();
+    limits = {};
+    for (const [field, value] of Object.entries(snap.data() || {})) {
+      const date = tsToDate(value);
+      if (date) limits[field] = date;
+    }
+    state.rateLimits.set(key, limits);
+  }
+  return limits;
+}
+
+async function loadCounter(state: SimState, recipientId: string) {
+  let counter = state.counters.get(recipientId);
+  if (!counter) {
+    counter = (await userCounterRef(state.db, recipientId).get()).data() || {};
+    state.counters.set(recipientId, counter);
+  }
+  return counter;
+}
+
+// In-memory stand-ins for the router's Firestore reads and reservations: rate
+// limits, caps and dedupe keys taken here are seen by later simulated items.
+function simulatedGateState(
+  state: SimState,
+  payload: QueueDoc,
+  user: admin.firestore.DocumentData | null
+): QueueGateState {
+  return {
+    recipientZone: async () => queueDocZone(payload) ?? scheduleZoneFromDoc(user || {}),
+    dedupeSentAt: (key) => loadDedupe(state, key),
+    takeConnectSlot: async ({ senderId, recipientId, type, cooldownMs, now }) => {
+      const limits = await loadRateLimits(state, `${senderId}-${recipientId}`);
+      const last = limits[type];
+      const diff = last ? now.getTime() - last.getTime() : Number.POSITIVE_INFINITY;
+      if (diff < cooldownMs) return { allowed: false, retryAfterMs: cooldownMs - diff };
+      limits[type] = now;
+      return { allowed: true };
+    },
+    deviceTokens: async () => (user ? userDevicesFromDoc(user).map((d) => d.token) : []),
+    reserveFrequencySlot: async ({ recipientId, zone, now, enforce }) => {
+      const keys = frequencyPeriodKeys(now, zone);
+      const usage = counterUsage(await loadCounter(state, recipientId), keys);
+      const reason = enforce ? frequencyCapReason(usage, state.config.frequencyCaps) : null;
+      if (reason) return { allowed: false, reason };
+      state.counters.set(recipientId, {
+        day_key: keys.day,
+        day_count: usage.dayCount + 1,
+        week_key: keys.week,
+        week_count: usage.weekCount + 1,
+      });
+      return { allowed: true, keys };
+    },
+  };
+}
+
+function followUp(event: SimEvent, at: Date | null, payload: QueueDoc = event.payload) {
+  return at ? { ...event, payload, at } : undefined;
+}
+
+// How the router would record each closed gate, in dry-run terms.
+function closedGateEvaluation(
+  event: SimEvent,
+  decision: Exclude<QueueGateDecision, { gate: 'open' }>
+): Evaluation {
+  switch (decision.gate) {
+    case 'held':
+      return { outcome: 'hold', reason: decision.message };
+    case 'blocked_sender':
+    case 'deduped':
+    case 'rate_limited':
+      return { outcome: 'skip', reason: decision.gate };
+    case 'missing_fields':
+    case 'no_token':
+      return { outcome: 'fail', reason: decision.gate };
+    case 'quiet_hours':
+      return {
+        outcome: 'defer',
+        reason: 'quiet_hours',
+        deferredUntil: decision.resumeAt,
+        next: followUp(event, decision.resumeAt),
+      };
+    case 'capped':
+      return {
+        outcome: 'cap',
+        reason: decision.reason,
+        next: followUp(event, nextOccurrenceBeforeEnd(event.payload, event.at)),
+      };
+  }
+}
+
+function sendEvaluation(
+  event: SimEvent,
+  devices: number,
+  rendered: RenderedTemplate | null
+): Evaluation {
+  const next = nextOccurrenceAfterSend(event.payload, event.at);
+  return {
+    outcome: 'send',
+    reason: null,
+    title: rendered?.title,
+    body: rendered?.body,
+    template_locale: rendered?.locale ?? null,
+    devices,
+    next: next
+      ? followUp(event, next.at, {
+          ...event.payload,
+          ...(next.remaining != null ? { remaining_occurrences: next.remaining } : {}),
+        })
+      : undefined,
+  };
+}
+
+// The router's own gates, run against the simulated state at the item's send time.
+async function evaluate(state: SimState, event: SimEvent): Promise<Evaluation> {
+  const { config } = state;
+  const { payload, at } = event;
+  const recipientId = String(payload.recipient_id || '');
+  const user = recipientId ? await loadUser(state, recipientId) : null;
+
+  const decision = await evaluateQueueGates({
+    config,
+    payload,
+    now: at,
+    state: simulatedGateState(state, payload, user),
+  });
+  if (decision.gate !== 'open') return closedGateEvaluation(event, decision);
+
+  const rendered = payload.template_id
+    ? await renderTemplateForUser(state.db, payload.template_id, recipientId, state.templateCache)
+    : null;
+  if (decision.dedupe) state.dedupe.set(decision.dedupe.key, at);
+  return sendEvaluation(event, decision.tokens.length, rendered);
+}
+
+function toDelivery(event: SimEvent, result: Evaluation): SimulatedDelivery {
+  const { payload } = event;
+  return {
+    id: event.id,
+    source: event.source,
+    at: event.at.toISOString(),
+    outcome: result.outcome,
+    reason: result.reason,
+    recipient_id: payload.recipient_id || null,
+    category: payload.category || null,
+    type: payload.type || null,
+    title: result.title ?? String(payload.title || ''),
+    body: result.body ?? String(payload.body || ''),
+    template_locale: result.template_locale ?? null,
+    devices: result.devices ?? 0,
+    deferred_until: result.deferredUntil?.toISOString() ?? null,
+  };
+}
+
+// Earliest first; at the same instant higher priorities take the cap slots, like a batch does.
+function takeNext(events: SimEvent[], config: NotificationRouterConfig) {
+  let best = 0;
+  const rank = (e: SimEvent) =>
+    PRIORITY_RANK[priorityForCategory(config, e.payload.category || '')];
+  for (let i = 1; i < events.length; i++) {
+    const diff = events[i].at.getTime() - events[best].at.getTime();
+    if (diff < 0 || (diff === 0 && rank(events[i]) < rank(events[best]))) best = i;
+  }
+  return events.splice(best, 1)[0];
+}
+
+async function plannedEngagementEvents(
+  state: SimState,
+  now: Date,
+  limit: number
+): Promise<{ events: SimEvent[]; summary: NotificationSimulation['engagement'] }> {
+  const { db, config } = state;
+  if (!config.globalEnabled || !config.engagement.enabled) {
+    return { events: [], summary: { scanned: 0, users: 0, docs: 0, disabled: true } };
+  }
+
+  const snap = await recentEngagementUsersQuery(db, limit).get();
+  const events: SimEvent[] = [];
+  let users = 0;
+  for (const userDoc of snap.docs) {
+    const data = userDoc.data() || {};
+    state.users.set(userDoc.id, data);
+    if (userDevicesFromDoc(data).length === 0) continue;
+
+    const plan = planEngagementQueueDocs(userDoc.id, data, config, now);
+    const docs = [...plan.intros, ...plan.recurring];
+    if (docs.length > 0) users++;
+    for (const doc of docs) {
+      const at = tsToDate(doc.data.scheduled_at) ?? now;
+      events.push({ id: doc.id, source: 'engagement', payload: doc.data as QueueDoc, at });
+    }
+  }
+  return { events, summary: { scanned: snap.size, users, docs: events.length, disabled: false } };
+}
+
+export async function simulateNotificationRun(params: {
+  db: admin.firestore.Firestore;
+  config: NotificationRouterConfig;
+  hours: number;
+  limit: number;
+  engagementLimit?: number;
+  now?: Date;
+}): Promise<NotificationSimulation> {
+  const { db, config, limit, engagementLimit = Math.min(limit, 200), now = new Date() } = params;
+  const hours = Math.min(Math.max(params.hours, 0), MAX_SIMULATION_HOURS);
+  const until = new Date(now.getTime() + hours * 60 * 60_000);
+  const state: SimState = {
+    db,
+    config,
+    users: new Map(),
+    dedupe: new Map(),
+    rateLimits: new Map(),
+    counters: new Map(),
+    templateCache: new Map(),
+  };
+
+  const snap = await db
+    .collection('notification_queue')
+    .where('status', 'in', ['pending', 'deferred'])
+    .where('scheduled_at', '<=', admin.firestore.Timestamp.fromDate(until))
+    .orderBy('scheduled_at', 'asc')
+    .limit(limit)
+    .get();
+
+  const byId = new Map<string, SimEvent>();
+  for (const doc of snap.docs) {
+    const payload = doc.data() as QueueDoc;
+    const scheduled = tsToDate(payload.scheduled_at) ?? now;
+    const at = scheduled < now ? now : scheduled;
+    byId.set(doc.id, { id: doc.id, source: 'queue', payload, at });
+  }
+  // The scheduler writes with merge, so a planned doc replaces a queued one with the same id.
+  const engagement = await plannedEngagementEvents(state, now, engagementLimit);
+  for (const event of engagement.events) {
+    if (event.at < now) event.at = now;
+    byId.set(event.id, event);
+  }
+
+  const events = Array.from(byId.values()).filter((e) => e.at <= until);
+  const deliveries: SimulatedDelivery[] = [];
+  const totals: Record<SimulatedOutcome, number> = {
+    send: 0,
+    defer: 0,
+    skip: 0,
+    cap: 0,
+    fail: 0,
+    hold: 0,
+  };
+  const recipients = new Set<string>();
+
+  while (events.length > 0) {
+    const event = takeNext(events, config);
+    const result = await evaluate(state, event);
+    deliveries.push(toDelivery(event, result));
+    totals[result.outcome]++;
+    if (result.outcome === 'send') recipients.add(String(event.payload.recipient_id));
+    if (result.next && result.next.at <= until) events.push(result.next);
+  }
+
+  return {
+    now: now.toISOString(),
+    until: until.toISOString(),
+    hours,
+    paused: !config.globalEnabled || !config.processingEnabled,
+    queue: { scanned: snap.size, truncated: snap.size >= limit },
+    engagement: engagement.summary,
+    totals,
+    recipients: recipients.size,
+    deliveries,
+  };
+}
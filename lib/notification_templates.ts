@@ -0,0 +1,279 @@
+import admin from 'firebase-admin';
+
+/** Title/body copy for one locale. */
+export type TemplateCopy = { title: string; body: string };
+
+export type NotificationTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  // Default navigation `type` for sends that use this template.
+  type: string;
+  defaultLocale: string;
+  locales: Record<string, TemplateCopy>;
+  created_by: string | null;
+  created_at: string | null;
+  updated_by: string | null;
+  updated_at: string | null;
+};
+
+export type NotificationTemplateInput = Pick<
+  NotificationTemplate,
+  'name' | 'description' | 'type' | 'defaultLocale' | 'locales'
+>;
+
+export type RenderedTemplate = TemplateCopy & { locale: string };
+
+const TEMPLATES_COLLECTION = 'notification_templates';
+
+/**
+ * Per-recipient variables, read from the user doc at send time. Write them as
+ * `{firstName}`; `{firstName|there}` supplies a fallback for missing values.
+ */
+export const TEMPLATE_VARIABLES: {
+  name: string;
+  label: string;
+  resolve: (user: Record<string, unknown>) => unknown;
+}[] = [
+  { name: 'firstName', label: 'First name', resolve: (u) => u.firstname ?? u.firstName },
+  { name: 'lastName', label: 'Last name', resolve: (u) => u.lastname ?? u.lastName },
+  { name: 'username', label: 'Username', resolve: (u) => u.username },
+  { name: 'points', label: 'Points', resolve: (u) => u.points ?? 0 },
+  {
+    name: 'streak',
+    label: 'Current streak (days)',
+    resolve: (u) => u.streak ?? u.current_streak ?? u.currentStreak ?? 0,
+  },
+  { name: 'country', label: 'Country', resolve: (u) => u.country },
+];
+
+const VARIABLE_NAMES = new Set(TEMPLATE_VARIABLES.map((v) => v.name));
+
+// `{name}` or `{name|fallback}`; identifier-only so stray braces in copy are left alone.
+const VARIABLE_PATTERN = /\{([A-Za-z_][A-Za-z0-9_]*)(?:\|([^{}]*))?\}/g;
+
+// User doc fields tried, in order, for the recipient's language.
+const LOCALE_FIELDS = ['language', 'locale', 'lang'];
+
+export function normalizeLocale(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const locale = value.trim().replace('_', '-');
+  if (!/^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(locale)) return null;
+  const [language, ...rest] = locale.split('-');
+  return [language.toLowerCase(), ...rest.map((p) => (p.length === 2 ? p.toUpperCase() : p))].join(
+    '-'
+  );
+}
+
+export function userLocale(user: Record<string, unknown>): string | null {
+  for (const field of LOCALE_FIELDS) {
+    const locale = normalizeLocale(user[field]);
+    if (locale) return locale;
+  }
+  return null;
+}
+
+/** Variable values for one recipient; missing values are empty strings. */
+export function templateVariablesFor(user: Record<string, unknown>): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const variable of TEMPLATE_VARIABLES) {
+    const value = variable.resolve(user);
+    values[variable.name] = value == null ? '' : String(value).trim();
+  }
+  return values;
+}
+
+/** Variable names used in `text` that the store does not know about. */
+export function unknownTemplateVariables(text: string): string[] {
+  const names = Array.from(text.matchAll(VARIABLE_PATTERN), (m) => m[1]);
+  return Array.from(new Set(names.filter((name) => !VARIABLE_NAMES.has(name))));
+}
+
+export function renderTemplateText(text: string, values: Record<string, string>): string {
+  return (
+    text
+      .replace(VARIABLE_PATTERN, (match, name: string, fallback?: string) => {
+        if (!VARIABLE_NAMES.has(name)) return match;
+        return values[name] || (fallback ?? '').trim();
+      })
+      // "Hi {firstName}, ..." with no name and no fallback should read "Hi, ..."
+      .replace(/[ \t]+([,.!?])/g, '$1')
+      .replace(/[ \t]{2,}/g, ' ')
+      .trim()
+  );
+}
+
+/** Exact locale, then its language, then any region of that language, then the default. */
+export function pickTemplateLocale(template: NotificationTemplate, locale: string | null): string {
+  const available = Object.keys(template.locales);
+  if (locale) {
+    if (template.locales[locale]) return locale;
+    const language = locale.split('-')[0];
+    if (template.locales[language]) return language;
+    const regional = available.find((l) => l.split('-')[0] === language);
+    if (regional) return regional;
+  }
+  return template.locales[template.defaultLocale] ? template.defaultLocale : available[0];
+}
+
+export function renderTemplate(
+  template: NotificationTemplate,
+  user: Record<string, unknown>,
+  locale: string | null = userLocale(user)
+): RenderedTemplate {
+  const chosen = pickTemplateLocale(template, locale);
+  const copy = template.locales[chosen];
+  const values = templateVariablesFor(user);
+  return {
+    locale: chosen,
+    title: renderTemplateText(copy.title, values),
+    body: renderTemplateText(copy.body, values),
+  };
+}
+
+function parseLocaleCopy(locale: string, value: unknown): TemplateCopy | string {
+  const copy = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  const title = String(copy.title ?? '').trim();
+  const body = String(copy.body ?? '').trim();
+  if (!title || !body) return `Locale ${locale} needs a title and body`;
+  const unknown = unknownTemplateVariables(`${title} ${body}`);
+  if (unknown.length > 0) {
+    return `Unknown variables in ${locale}: ${unknown.map((n) => `{${n}}`).join(', ')}`;
+  }
+  return { title, body };
+}
+
+function parseLocales(raw: unknown): Record<string, TemplateCopy> | string {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return 'locales must be an object of { title, body } keyed by locale';
+  }
+  const locales: Record<string, TemplateCopy> = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    const locale = normalizeLocale(key);
+    if (!locale) return `Invalid locale "${key}"`;
+    const copy = parseLocaleCopy(locale, value);
+    if (typeof copy === 'string') return copy;
+    locales[locale] = copy;
+  }
+  if (Object.keys(locales).length === 0) return 'At least one locale is required';
+  return locales;
+}
+
+/** Validate a create/update body. */
+export function normalizeTemplateInput(
+  raw: unknown
+): { template: NotificationTemplateInput } | { error: string } {
+  const input = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const name = String(input.name ?? '').trim();
+  if (!name) return { error: 'name is required' };
+
+  const locales = parseLocales(input.locales);
+  if (typeof locales === 'string') return { error: locales };
+
+  const defaultLocale = normalizeLocale(input.defaultLocale) ?? Object.keys(locales)[0];
+  if (!locales[defaultLocale]) {
+    return { error: `defaultLocale ${defaultLocale} has no copy` };
+  }
+
+  return {
+    template: {
+      name,
+      description: String(input.description ?? '').trim(),
+      type: String(input.type ?? '').trim(),
+      defaultLocale,
+      locales,
+    },
+  };
+}
+
+function tsToIso(value: unknown): string | null {
+  const ts = value as admin.firestore.Timestamp | undefined;
+  if (!ts || typeof ts.toDate !== 'function') return null;
+  return ts.toDate().toISOString();
+}
+
+function templateDocToItem(d: admin.firestore.DocumentSnapshot): NotificationTemplate {
+  const data = d.data() || {};
+  return {
+    id: d.id,
+    name: data.name || '',
+    description: data.description || '',
+    type: data.type || '',
+    defaultLocale: data.default_locale || 'en',
+    locales: data.locales && typeof data.locales === 'object' ? data.locales : {},
+    created_by: data.created_by || null,
+    created_at: tsToIso(data.created_at),
+    updated_by: data.updated_by || null,
+    updated_at: tsToIso(data.updated_at),
+  };
+}
+
+export function templatesRef(db: admin.firestore.Firestore) {
+  return db.collection(TEMPLATES_COLLECTION);
+}
+
+export async function listTemplates(db: admin.firestore.Firestore) {
+  const snap = await templatesRef(db).orderBy('name', 'asc').limit(200).get();
+  return snap.docs.map(templateDocToItem);
+}
+
+export async function getTemplate(
+  db: admin.firestore.Firestore,
+  templateId: string
+): Promise<NotificationTemplate | null> {
+  const snap = await templatesRef(db).doc(templateId).get();
+  return snap.exists ? templateDocToItem(snap) : null;
+}
+
+/**
+ * Create a template (templateId null) or replace an existing one. Updates
+ * replace `locales` wholesale, so removed translations do not linger.
+ */
+export async function saveTemplate(
+  db: admin.firestore.Firestore,
+  templateId: string | null,
+  input: NotificationTemplateInput,
+  userId: string
+): Promise<NotificationTemplate> {
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  const fields = {
+    name: input.name,
+    description: input.description,
+    type: input.type,
+    default_locale: input.defaultLocale,
+    locales: input.locales,
+    updated_by: userId,
+    updated_at: now,
+  };
+  const ref = templateId ? templatesRef(db).doc(templateId) : templatesRef(db).doc();
+  if (templateId) {
+    await ref.update(fields);
+  } else {
+    await ref.set({ ...fields, created_by: userId, created_at: now });
+  }
+  return templateDocToItem(await ref.get());
+}
+
+export async function deleteTemplate(db: admin.firestore.Firestore, templateId: string) {
+  await templatesRef(db).doc(templateId).delete();
+}
+
+/**
+ * Render a queue doc's template for its recipient. Returns null when the
+ * template no longer exists, so the stored title/body are sent instead.
+ */
+export async function renderTemplateForUser(
+  db: admin.firestore.Firestore,
+  templateId: string,
+  userId: string,
+  cache?: Map<string, NotificationTemplate | null>
+): Promise<RenderedTemplate | null> {
+  let template = cache?.get(templateId);
+  if (template === undefined) {
+    template = await getTemplate(db, templateId);
+    cache?.set(templateId, template);
+  }
+  if (!template) return null;
+  const userDoc = await db.collection('users').doc(userId).get();
+  return renderTemplate(template, userDoc.data() || {});
+}
@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  type PermissionCondition,
+  evaluatePermissionCondition,
+  parsePermissionConditions,
+} from './permissionConditions';
+
+function parse(raw: unknown): PermissionCondition {
+  const result = parsePermissionConditions(raw);
+  if ('error' in result) throw new Error(result.error);
+  assert.ok(result.conditions);
+  return result.conditions;
+}
+
+function parseError(raw: unknown) {
+  const result = parsePermissionConditions(raw);
+  return 'error' in result ? result.error : null;
+}
+
+describe('parsePermissionConditions', () => {
+  it('treats empty input as no conditions and arrays as all', () => {
+    assert.deepEqual(parsePermissionConditions(null), { conditions: null });
+    assert.deepEqual(parsePermissionConditions({}), { conditions: null });
+    assert.deepEqual(parsePermissionConditions([]), { conditions: null });
+    assert.deepEqual(parse([{ attr: 'user.country', op: 'eq', value: 'KE' }]), {
+      all: [{ attr: 'user.country', op: 'eq', value: 'KE' }],
+    });
+  });
+
+  it('reports the path of the first invalid clause', () => {
+    assert.equal(
+      parseError({
+        all: [
+          { attr: 'user.country', op: 'eq', value: 'KE' },
+          { attr: 'x', op: 'gt' },
+        ],
+      }),
+      'conditions.all[1].op must be one of eq, neq, in, notIn, startsWith, endsWith, contains, exists'
+    );
+    assert.equal(
+      parseError({ attr: 'user.country', op: 'in', value: 'KE' }),
+      'conditions.value must be a non-empty list for in'
+    );
+    assert.equal(
+      parseError({ attr: 'user..country', op: 'exists' })?.startsWith('conditions.attr'),
+      true
+    );
+    assert.equal(
+      parseError({ time: { from: '8:00', to: '18:00' } }),
+      'conditions.time.from must be HH:MM'
+    );
+    assert.equal(
+      parseError({ time: { from: '08:00', to: '18:00', timeZone: 'Mars/Olympus' } }),
+      'conditions.time.timeZone must be an IANA time zone such as Africa/Nairobi'
+    );
+    assert.equal(
+      parseError({ time: { from: '08:00', to: '18:00' }, attr: 'a' }),
+      'conditions must only contain "time"'
+    );
+  });
+
+  it('limits nesting depth', () => {
+    let node: unknown = { attr: 'a', op: 'exists' };
+    for (let i = 0; i < 6; i++) node = { not: node };
+    assert.match(parseError(node) || '', /nested more than 5 levels/);
+  });
+});
+
+describe('evaluatePermissionCondition', () => {
+  const kenyan = { user: { country: 'KE' }, collection: 'wellsphere_profiles', action: 'read' };
+
+  it('matches attributes and fails closed when they are missing', () => {
+    const country = parse({ attr: 'user.country', op: 'eq', value: 'KE' });
+    assert.equal(evaluatePermissionCondition(country, kenyan), true);
+    assert.equal(evaluatePermissionCondition(country, { user: { country: 'UG' } }), false);
+    assert.equal(evaluatePermissionCondition(country, {}), false);
+
+    const notUganda = parse({ attr: 'user.country', op: 'neq', value: 'UG' });
+    assert.equal(evaluatePermissionCondition(notUganda, {}), false);
+
+    const prefixed = parse({ attr: 'collection', op: 'startsWith', value: 'wellsphere_' });
+    assert.equal(evaluatePermissionCondition(prefixed, kenyan), true);
+    assert.equal(evaluatePermissionCondition(prefixed, { collection: 'users' }), false);
+  });
+
+  it('combines clauses with all, any and not', () => {
+    const condition = parse({
+      all: [
+        {
+          any: [
+            { attr: 'user.country', op: 'in', value: ['KE', 'TZ'] },
+            { attr: 'vip', op: 'eq', value: true },
+          ],
+        },
+        { not: { attr: 'action', op: 'eq', value: 'delete' } },
+      ],
+    });
+    assert.equal(evaluatePermissionCondition(condition, kenyan), true);
+    assert.equal(evaluatePermissionCondition(condition, { ...kenyan, action: 'delete' }), false);
+    assert.equal(
+      evaluatePermissionCondition(condition, { user: { country: 'US' }, vip: true }),
+      true
+    );
+  });
+
+  it('checks time windows in the given zone, including overnight windows', () => {
+    const office = parse({
+      time: { from: '08:00', to: '18:00', timeZone: 'Africa/Nairobi', days: [1, 2, 3, 4, 5] },
+    });
+    // Nairobi is UTC+3.
+    assert.equal(evaluatePermissionCondition(office, {}, new Date('2026-03-02T05:00:00Z')), true);
+    assert.equal(evaluatePermissionCondition(office, {}, new Date('2026-03-02T04:59:00Z')), false);
+    assert.equal(evaluatePermissionCondition(office, {}, new Date('2026-03-02T15:00:00Z')), false);
+    // Saturday
+    assert.equal(evaluatePermissionCondition(office, {}, new Date('2026-03-07T09:00:00Z')), false);
+
+    const night = parse({ time: { from: '22:00', to: '06:00', days: [5] } });
+    // Friday 23:00 and Saturday 02:00 UTC both belong to Friday's shift.
+    assert.equal(evaluatePermissionCondition(night, {}, new Date('2026-03-06T23:00:00Z')), true);
+    assert.equal(evaluatePermissionCondition(night, {}, new Date('2026-03-07T02:00:00Z')), true);
+    assert.equal(evaluatePermissionCondition(night, {}, new Date('2026-03-08T02:00:00Z')), false);
+  });
+});
@@ -0,0 +1,253 @@
+import { normalizeTimeZone, toLocalDateTime } from './notification_schedule';
+
+/**
+ * Conditions on `resourcePermission` grants (attribute-based access control).
+ *
+ * A grant with conditions only applies when they hold for the request. Conditions
+ * are JSON, combined with `all` / `any` / `not` (a top-level array means `all`):
+ *
+ *   { "attr": "user.country", "op": "eq", "value": "KE" }
+ *   { "attr": "collection", "op": "startsWith", "value": "wellsphere_" }
+ *   { "time": { "from": "08:00", "to": "18:00", "timeZone": "Africa/Nairobi" } }
+ *
+ * Attributes come from the context the route passes to `requirePermission`, plus
+ * `resourceType`, `resourceId` and `action`. A clause on a missing attribute is
+ * false, so grants fail closed unless the clause is wrapped in `not`.
+ * Kept free of server imports so the RBAC dashboard can validate with it too.
+ */
+
+export const CONDITION_OPERATORS = [
+  'eq',
+  'neq',
+  'in',
+  'notIn',
+  'startsWith',
+  'endsWith',
+  'contains',
+  'exists',
+] as const;
+
+export type ConditionOperator = (typeof CONDITION_OPERATORS)[number];
+
+type ConditionValue = string | number | boolean;
+
+export type PermissionCondition =
+  | { attr: string; op: ConditionOperator; value?: ConditionValue | ConditionValue[] }
+  | { time: { from: string; to: string; timeZone?: string; days?: number[] } }
+  | { all: PermissionCondition[] }
+  | { any: PermissionCondition[] }
+  | { not: PermissionCondition };
+
+export type ConditionAttributes = Record<string, unknown>;
+
+const MAX_DEPTH = 5;
+const MAX_NODES = 50;
+
+const ATTRIBUTE_PATH = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/;
+const CLOCK_TIME = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const LIST_OPERATORS: ConditionOperator[] = ['in', 'notIn'];
+
+type ParseState = { nodes: number };
+
+function isScalar(value: unknown): value is ConditionValue {
+  return ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function parseAttribute(
+  input: Record<string, unknown>,
+  path: string
+): PermissionCondition | string {
+  const { attr, op, value } = input;
+  if (typeof attr !== 'string' || !ATTRIBUTE_PATH.test(attr)) {
+    return `${path}.attr must be an attribute name such as user.country`;
+  }
+  if (!CONDITION_OPERATORS.includes(op as ConditionOperator)) {
+    return `${path}.op must be one of ${CONDITION_OPERATORS.join(', ')}`;
+  }
+  const operator = op as ConditionOperator;
+  if (operator === 'exists') return { attr, op: operator };
+  if (LIST_OPERATORS.includes(operator)) {
+    if (!Array.isArray(value) || value.length === 0 || !value.every(isScalar)) {
+      return `${path}.value must be a non-empty list for ${operator}`;
+    }
+    return { attr, op: operator, value };
+  }
+  if (!isScalar(value)) return `${path}.value must be a string, number or boolean`;
+  return { attr, op: operator, value };
+}
+
+function parseTime(input: unknown, path: string): PermissionCondition | string {
+  const time = input && typeof input === 'object' ? (input as Record<string, unknown>) : {};
+  const { from, to, timeZone, days } = time;
+  if (typeof from !== 'string' || !CLOCK_TIME.test(from)) return `${path}.from must be HH:MM`;
+  if (typeof to !== 'string' || !CLOCK_TIME.test(to)) return `${path}.to must be HH:MM`;
+  if (from === to) return `${path}.from and ${path}.to must differ`;
+  const zone = timeZone === undefined ? 'UTC' : normalizeTimeZone(timeZone);
+  if (!zone) return `${path}.timeZone must be an IANA time zone such as Africa/Nairobi`;
+  if (
+    days !== undefined &&
+    !(Array.isArray(days) && days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6))
+  ) {
+    return `${path}.days must list weekdays from 0 (Sunday) to 6 (Saturday)`;
+  }
+  return {
+    time: { from, to, timeZone: zone, ...(days ? { days: Array.from(new Set(days)) } : {}) },
+  };
+}
+
+function parseGroup(
+  items: unknown,
+  path: string,
+  depth: number,
+  state: ParseState
+): PermissionCondition[] | string {
+  if (!Array.isArray(items) || items.length === 0) return `${path} must be a non-empty list`;
+  const parsed: PermissionCondition[] = [];
+  for (const [i, item] of items.entries()) {
+    const result = parseNode(item, `${path}[${i}]`, depth + 1, state);
+    if (typeof result === 'string') return result;
+    parsed.push(result);
+  }
+  return parsed;
+}
+
+// Keys that make a clause something other than an attribute comparison
+const CLAUSE_KEYS = ['all', 'any', 'not', 'time'] as const;
+
+function parseClause(
+  key: (typeof CLAUSE_KEYS)[number],
+  input: unknown,
+  path: string,
+  depth: number,
+  state: ParseState
+): PermissionCondition | string {
+  if (key === 'time') return parseTime(input, `${path}.time`);
+  if (key === 'not') {
+    const inner = parseNode(input, `${path}.not`, depth + 1, state);
+    return typeof inner === 'string' ? inner : { not: inner };
+  }
+  const items = parseGroup(input, `${path}.${key}`, depth, state);
+  if (typeof items === 'string') return items;
+  return key === 'all' ? { all: items } : { any: items };
+}
+
+function parseNode(
+  input: unknown,
+  path: string,
+  depth: number,
+  state: ParseState
+): PermissionCondition | string {
+  state.nodes++;
+  if (depth > MAX_DEPTH) return `${path} is nested more than ${MAX_DEPTH} levels deep`;
+  if (state.nodes > MAX_NODES) return `Conditions may have at most ${MAX_NODES} clauses`;
+  const value = Array.isArray(input) ? { all: input } : input;
+  if (!value || typeof value !== 'object') return `${path} must be an object`;
+
+  const node = value as Record<string, unknown>;
+  const key = CLAUSE_KEYS.find((k) => k in node);
+  if (!key) {
+    return 'attr' in node
+      ? parseAttribute(node, path)
+      : `${path} must have one of attr, time, all, any or not`;
+  }
+  if (Object.keys(node).length !== 1) return `${path} must only contain "${key}"`;
+  return parseClause(key, node[key], path, depth, state);
+}
+
+/**
+ * Validate conditions from a request body or the database. Empty input means
+ * "no conditions" and yields null.
+ */
+export function parsePermissionConditions(
+  raw: unknown
+): { conditions: PermissionCondition | null } | { error: string } {
+  if (raw === null || raw === undefined || raw === '') return { conditions: null };
+  if (Array.isArray(raw) && raw.length === 0) return { conditions: null };
+  if (
+    raw &&
+    typeof raw === 'object' &&
+    !Array.isArray(raw) &&
+    Object.keys(raw as object).length === 0
+  ) {
+    return { conditions: null };
+  }
+  const result = parseNode(raw, 'conditions', 1, { nodes: 0 });
+  return typeof result === 'string' ? { error: result } : { conditions: result };
+}
+
+function lookup(attributes: ConditionAttributes, path: string): unknown {
+  let value: unknown = attributes;
+  for (const key of path.split('.')) {
+    if (!value || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function sameValue(a: unknown, b: ConditionValue) {
+  return isScalar(a) && String(a) === String(b);
+}
+
+function compare(actual: unknown, op: ConditionOperator, expected: unknown): boolean {
+  if (op === 'exists') return actual !== undefined && actual !== null && actual !== '';
+  if (actual === undefined || actual === null) return false;
+  const list = Array.isArray(expected) ? (expected as ConditionValue[]) : [];
+  switch (op) {
+    case 'eq':
+      return sameValue(actual, expected as ConditionValue);
+    case 'neq':
+      return !sameValue(actual, expected as ConditionValue);
+    case 'in':
+      return list.some((v) => sameValue(actual, v));
+    case 'notIn':
+      return !list.some((v) => sameValue(actual, v));
+    case 'startsWith':
+      return typeof actual === 'string' && actual.startsWith(String(expected));
+    case 'endsWith':
+      return typeof actual === 'string' && actual.endsWith(String(expected));
+    case 'contains':
+      return Array.isArray(actual)
+        ? actual.some((v) => sameValue(v, expected as ConditionValue))
+        : typeof actual === 'string' && actual.includes(String(expected));
+    default:
+      return false;
+  }
+}
+
+function minutesOf(clock: string) {
+  const [hours, minutes] = clock.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// `from` is inclusive and `to` exclusive; a window such as 22:00–06:00 crosses midnight.
+function withinWindow(
+  window: { from: string; to: string; timeZone?: string; days?: number[] },
+  now: Date
+) {
+  const local = toLocalDateTime(now, { timeZone: window.timeZone || 'UTC' });
+  const minute = local.hour * 60 + local.minute;
+  const from = minutesOf(window.from);
+  const to = minutesOf(window.to);
+  const overnight = from > to;
+  const inside = overnight ? minute >= from || minute < to : minute >= from && minute < to;
+  if (!inside || !window.days) return inside;
+  // Past midnight, an overnight window still belongs to the day it started on.
+  const day = overnight && minute < to ? (local.weekday + 6) % 7 : local.weekday;
+  return window.days.includes(day);
+}
+
+export function evaluatePermissionCondition(
+  condition: PermissionCondition,
+  attributes: ConditionAttributes,
+  now = new Date()
+): boolean {
+  if ('all' in condition) {
+    return condition.all.every((c) => evaluatePermissionCondition(c, attributes, now));
+  }
+  if ('any' in condition) {
+    return condition.any.some((c) => evaluatePermissionCondition(c, attributes, now));
+  }
+  if ('not' in condition) return !evaluatePermissionCondition(condition.not, attributes, now);
+  if ('time' in condition) return withinWindow(condition.time, now);
+  return compare(lookup(attributes, condition.attr), condition.op, condition.value);
+}
@@ -0,0 +1,34 @@
+import { initFirebase } from '@/lib/firebase';
+import type { PermissionContext } from '@/lib/rbac';
+import admin from 'firebase-admin';
+
+/**
+ * Condition attributes for routes that act on one app user: the Firestore
+ * collections the route reads (`collections`, plus `collection` when it reads
+ * exactly one) and fields of the user's `users` doc (`user.country`,
+ * `user.activityLevel`, `user.gender`). A route reading several collections has
+ * no `collection`, so a clause such as `startsWith wellsphere_` fails closed
+ * there; scope those with `collections` + `contains`. The doc is only read when
+ * a conditional grant needs it.
+ */
+export function appUserPermissionContext(
+  userId: string,
+  collections: string | string[]
+): PermissionContext {
+  const list = Array.isArray(collections) ? collections : [collections];
+  return async () => {
+    initFirebase();
+    const doc = await admin.firestore().collection('users').doc(userId).get();
+    const data = doc.data() || {};
+    return {
+      ...(list.length === 1 ? { collection: list[0] } : {}),
+      collections: list,
+      user: {
+        id: userId,
+        country: data.country || null,
+        activityLevel: data.activityLevel || null,
+        gender: data.gender || null,
+      },
+    };
+  };
+}
@@ -0,0 +1,105 @@
+import type { GenerationConfig } from './types';
+
+/**
+ * Placeholders filled in by the generator itself:
+ * - `{count}`: items requested from this call
+ * - `{existing_names}`: names already in the target collection
+ * - `{seed}`: this batch's entry from `config.seeds`
+ * - `{batch}`: 1-based batch number
+ *
+ * Any other `{name}` must be supplied in `config.variables`.
+ */
+export const BUILTIN_PROMPT_VARIABLES = ['count', 'existing_names', 'seed', 'batch'];
+
+export const MAX_SEEDS = 500;
+
+// Cap on names substituted for {existing_names}, to keep the prompt bounded.
+export const MAX_EXISTING_NAMES = 300;
+
+// Item fields tried, in order, when listing existing names.
+const NAME_FIELDS = ['name', 'condition_name', 'exercise_name', 'title'];
+
+// Identifier-only, so JSON examples like {"a": 1} in a prompt are left alone.
+const VARIABLE_PATTERN = /\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+/** Variable names used in `template`, in order of first appearance. */
+export function promptVariablesIn(template: string): string[] {
+  const names = Array.from(template.matchAll(VARIABLE_PATTERN), (m) => m[1]);
+  return Array.from(new Set(names));
+}
+
+/** Replace known placeholders; unknown ones are kept verbatim. */
+export function renderPrompt(template: string, values: Record<string, string>): string {
+  return template.replace(VARIABLE_PATTERN, (match, name: string) =>
+    Object.hasOwn(values, name) ? values[name] : match
+  );
+}
+
+/** Placeholders in the user prompt that nothing will fill in. */
+export function missingPromptVariables(config: GenerationConfig): string[] {
+  return promptVariablesIn(config.userPrompt).filter((name) => {
+    if (name === 'seed') return !config.seeds?.length;
+    if (BUILTIN_PROMPT_VARIABLES.includes(name)) return false;
+    return config.variables?.[name] === undefined;
+  });
+}
+
+/**
+ * Coerce `variables` to strings and drop blank seeds, in place. With seeds,
+ * each seed gets one batch, so `count` is derived from them. Returns an error
+ * message for too many seeds or placeholders that have no value.
+ */
+export function normalizePromptOptions(config: GenerationConfig): string | null {
+  const variables =
+    config.variables && typeof config.variables === 'object' ? config.variables : {};
+  config.variables = Object.fromEntries(
+    Object.entries(variables)
+      .filter(([name]) => !BUILTIN_PROMPT_VARIABLES.includes(name))
+      .map(([name, value]) => [name, String(value ?? '')])
+  );
+
+  const seeds = Array.isArray(config.seeds)
+    ? config.seeds.map((seed) => String(seed ?? '').trim()).filter(Boolean)
+    : [];
+  if (seeds.length > MAX_SEEDS) return `At most ${MAX_SEEDS} seeds per run`;
+  config.seeds = seeds.length > 0 ? seeds : undefined;
+  if (config.seeds) config.count = config.seeds.length * config.batchSize;
+
+  const missing = missingPromptVariables(config);
+  return missing.length > 0
+    ? `No value for prompt variables: ${missing.map((name) => `{${name}}`).join(', ')}`
+    : null;
+}
+
+export function usesExistingNames(config: GenerationConfig): boolean {
+  return promptVariablesIn(config.userPrompt).includes('existing_names');
+}
+
+export function itemNameOf(item: unknown): string | null {
+  if (!item || typeof item !== 'object') return null;
+  for (const field of NAME_FIELDS) {
+    const value = (item as Record<string, unknown>)[field];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return null;
+}
+
+/** Deduplicated, capped, comma-separated list for the {existing_names} placeholder. */
+export function formatExistingNames(names: string[]): string {
+  const unique = Array.from(new Set(names)).slice(0, MAX_EXISTING_NAMES);
+  return unique.length > 0 ? unique.join(', ') : '(none)';
+}
+
+/** Values for one batch: config variables plus the per-run and per-batch built-ins. */
+export function batchVariables(
+  config: GenerationConfig,
+  batch: number,
+  runValues: Record<string, string> = {}
+): Record<string, string> {
+  return {
+    ...config.variables,
+    ...runValues,
+    batch: String(batch),
+    ...(config.seeds?.length ? { seed: config.seeds[batch - 1] ?? '' } : {}),
+  };
+}
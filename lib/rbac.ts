@@ -1,49 +1,46 @@
-import { and, eq, inArray, or } from 'drizzle-orm';
+import { and, eq, gt, inArray, isNull, or } from 'drizzle-orm';
 import { NextRequest } from 'next/server';
 import { auth } from './auth';
 import { db } from './db';
 import { permission, resourcePermission, role, rolePermission, user, userRole } from './db/schema';
+import {
+  type ConditionAttributes,
+  evaluatePermissionCondition,
+  parsePermissionConditions,
+} from './permissionConditions';
+import { ACTIONS, RESOURCE_TYPES, ROLES } from './rbacConstants';
+import { getCachedSecuritySettings } from './security';
+
+export { ACTIONS, RESOURCE_TYPES, ROLES };
+
+// Resources a legacy `user.role = 'admin'` reaches without any RBAC role
+export const LEGACY_ADMIN_RESOURCES: string[] = [
+  RESOURCE_TYPES.ADMIN,
+  RESOURCE_TYPES.PROVIDERS,
+  RESOURCE_TYPES.USERS,
+  RESOURCE_TYPES.POSTS,
+  RESOURCE_TYPES.STORIES,
+  RESOURCE_TYPES.ANALYTICS,
+  RESOURCE_TYPES.GENERATE,
+  RESOURCE_TYPES.EXPLORE,
+  RESOURCE_TYPES.UPLOAD,
+];
+
+// The legacy `user.role` that still grants access; null once the
+// `legacyRoleAccessEnabled` security setting is turned off
+export async function getLegacyRole(userId: string): Promise<string | null> {
+  const { legacyRoleAccessEnabled } = await getCachedSecuritySettings();
+  if (!legacyRoleAccessEnabled) return null;
+  const userData = await db.query.user.findFirst({
+    where: eq(user.id, userId),
+  });
+  return userData?.role || null;
+}
 
-// Resource types in the system
-export const RESOURCE_TYPES = {
-  USERS: 'users',
-  POSTS: 'posts',
-  STORIES: 'stories',
-  ANALYTICS: 'analytics',
-  GENERATE: 'generate',
-  EXPLORE: 'explore',
-  UPLOAD: 'upload',
-  ADMIN: 'admin',
-  PROVIDERS: 'providers',
-  FINANCE: 'finance',
-  FITNESS: 'fitness',
-  MINDFULNESS: 'mindfulness',
-  MOOD: 'mood',
-  NUTRITION: 'nutrition',
-  WATER: 'water',
-  WELLSPHERE: 'wellsphere',
-  FCM: 'fcm',
-  POINTS: 'points',
-  ONBOARDING: 'onboarding',
-  SECURITY: 'security',
-} as const;
-
-// Actions
-export const ACTIONS = {
-  READ: 'read',
-  WRITE: 'write',
-  DELETE: 'delete',
-  MANAGE: 'manage', // Full control
-} as const;
-
-// Predefined roles
-export const ROLES = {
-  SUPERADMIN: 'superadmin',
-  ADMIN: 'admin',
-  MODERATOR: 'moderator',
-  VIEWER: 'viewer',
-  EDITOR: 'editor',
-} as const;
+export function legacyRoleAllows(legacyRole: string | null, resource: string) {
+  if (legacyRole === ROLES.SUPERADMIN) return true;
+  return legacyRole === ROLES.ADMIN && LEGACY_ADMIN_RESOURCES.includes(resource);
+}
 
 // Get user's session and roles
 export async function getUserSession(request: NextRequest) {
@@ -58,17 +55,23 @@ export async function getUserSession(request: NextRequest) {
   }
 }
 
-// Get all roles for a user
+// Role grants that have not expired; grants without `expiresAt` never do
+export function activeRoleGrant(now = new Date()) {
+  return or(isNull(userRole.expiresAt), gt(userRole.expiresAt, now));
+}
+
+// Get all active roles for a user, with when each grant expires (null = permanent)
 export async function getUserRoles(userId: string) {
   const userRoles = await db
     .select({
       role: role,
+      expiresAt: userRole.expiresAt,
     })
     .from(userRole)
     .innerJoin(role, eq(userRole.roleId, role.id))
-    .where(eq(userRole.userId, userId));
+    .where(and(eq(userRole.userId, userId), activeRoleGrant()));
 
-  return userRoles.map((ur) => ur.role);
+  return userRoles.map((ur) => ({ ...ur.role, grantExpiresAt: ur.expiresAt }));
 }
 
 // Get all permissions for a user (from roles + direct resource permissions)
@@ -101,42 +104,57 @@ export async function getUserPermissions(userId: string) {
   };
 }
 
+// Request attributes for resource permission conditions. A loader is only called
+// when a matching grant has conditions, so routes can pass lookups that cost a read.
+export type PermissionContext = ConditionAttributes | (() => Promise<ConditionAttributes>);
+
+type ResourcePermissionRow = typeof resourcePermission.$inferSelect;
+
+// Whether any of the user's resource-specific grants allows the action, with conditions met
+async function resourcePermissionAllows(
+  grants: ResourcePermissionRow[],
+  check: { resource: string; action: string; resourceId?: string; context?: PermissionContext }
+) {
+  const { resource, action, resourceId, context } = check;
+  const matching = grants.filter((rp) => {
+    if (rp.resourceType !== resource) return false;
+    if (rp.resourceId && rp.resourceId !== resourceId) return false;
+    const allowedActions = rp.permissions as string[];
+    return allowedActions.includes(action) || allowedActions.includes(ACTIONS.MANAGE);
+  });
+
+  let attributes: ConditionAttributes | null = null;
+  for (const rp of matching) {
+    const parsed = parsePermissionConditions(rp.conditions);
+    if ('error' in parsed) {
+      console.warn(
+        `Ignoring resource permission ${rp.id} with invalid conditions: ${parsed.error}`
+      );
+      continue;
+    }
+    if (!parsed.conditions) return true;
+
+    if (!attributes) {
+      const loaded = typeof context === 'function' ? await context() : context;
+      attributes = { ...loaded, resourceType: resource, resourceId: resourceId ?? null, action };
+    }
+    if (evaluatePermissionCondition(parsed.conditions, attributes)) return true;
+  }
+  return false;
+}
+
 // Check if user has permission for a resource and action
 export async function hasPermission(
   userId: string,
   resource: string,
   action: string,
-  resourceId?: string
+  resourceId?: string,
+  context?: PermissionContext
 ): Promise<boolean> {
-  // First check legacy role system (for backward compatibility)
-  const userData = await db.query.user.findFirst({
-    where: eq(user.id, userId),
-  });
-
-  if (userData) {
-    // Legacy role check - if user has superadmin or admin in old system, grant access
-    // This allows transition period before RBAC is fully initialized
-    if (userData.role === 'superadmin') {
-      return true; // Superadmin has all permissions
-    }
-    // Legacy admin can access admin resources and most other resources
-    if (userData.role === 'admin') {
-      // Admin can access admin, users, and most resources (except sensitive ones)
-      const adminAccessibleResources = [
-        RESOURCE_TYPES.ADMIN,
-      RESOURCE_TYPES.PROVIDERS,
-        RESOURCE_TYPES.USERS,
-        RESOURCE_TYPES.POSTS,
-        RESOURCE_TYPES.STORIES,
-        RESOURCE_TYPES.ANALYTICS,
-        RESOURCE_TYPES.GENERATE,
-        RESOURCE_TYPES.EXPLORE,
-        RESOURCE_TYPES.UPLOAD,
-      ];
-      if (adminAccessibleResources.includes(resource as any)) {
-        return true;
-      }
-    }
+  // First check legacy role system (for backward compatibility) until it is turned off.
+  // Superadmin has all permissions; admin has LEGACY_ADMIN_RESOURCES.
+  if (legacyRoleAllows(await getLegacyRole(userId), resource)) {
+    return true;
   }
 
   // Get user's roles from RBAC system
@@ -161,12 +179,16 @@ export async function hasPermission(
   }
 
   // Check resource-specific permissions
-  if (resourceId) {
-    const hasResourcePermission = resourcePermissions.some((rp) => {
-      if (rp.resourceType !== resource) return false;
-      if (rp.resourceId && rp.resourceId !== resourceId) return false;
-      const allowedActions = rp.permissions as string[];
-      return allowedActions.includes(action) || allowedActions.includes(ACTIONS.MANAGE);
+  if (resourceId || context) {
+    const hasResourcePermission = await resourcePermissionAllows(resourcePermissions, {
+      resource,
+      action,
+      resourceId,
+      context,
+    }).catch((error: unknown) => {
+      // A failed context lookup denies rather than grants
+      console.error('Error evaluating resource permission conditions:', error);
+      return false;
     });
 
     if (hasResourcePermission) {
@@ -182,14 +204,15 @@ export async function requirePermission(
   request: NextRequest,
   resource: string,
   action: string,
-  resourceId?: string
+  resourceId?: string,
+  context?: PermissionContext
 ) {
   const session = await getUserSession(request);
   if (!session) {
     return { authorized: false, error: 'Unauthorized', status: 401 };
   }
 
-  const hasAccess = await hasPermission(session.user.id, resource, action, resourceId);
+  const hasAccess = await hasPermission(session.user.id, resource, action, resourceId, context);
   if (!hasAccess) {
     return { authorized: false, error: 'Forbidden', status: 403 };
   }
@@ -197,13 +220,40 @@ export async function requirePermission(
   return { authorized: true, userId: session.user.id };
 }
 
+/**
+ * `requirePermission` for an action spanning several collections: it has to be
+ * allowed for each one. Every check sees `collection` (the one being checked)
+ * and `collections` (all of them), so grants can match on either.
+ */
+export async function requireCollectionsPermission(
+  request: NextRequest,
+  resource: string,
+  action: string,
+  collections: string[]
+) {
+  const [first, ...rest] = collections;
+  const contextFor = (collection: string) => ({ collection, collections });
+  const authCheck = await requirePermission(
+    request,
+    resource,
+    action,
+    undefined,
+    first ? contextFor(first) : undefined
+  );
+  if (!authCheck.authorized) return authCheck;
+
+  for (const collection of rest) {
+    const userId = authCheck.userId as string;
+    if (!(await hasPermission(userId, resource, action, undefined, contextFor(collection)))) {
+      return { authorized: false, error: 'Forbidden', status: 403 };
+    }
+  }
+  return authCheck;
+}
+
 export async function isSuperadminUser(userId: string): Promise<boolean> {
   // Legacy role check first (bootstrap-friendly)
-  const userData = await db.query.user.findFirst({
-    where: eq(user.id, userId),
-  });
-
-  if (userData?.role === 'superadmin') {
+  if ((await getLegacyRole(userId)) === ROLES.SUPERADMIN) {
     return true;
   }
 
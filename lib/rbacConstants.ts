@@ -0,0 +1,43 @@
+// RBAC names shared by the server modules. Kept free of imports so modules that
+// lib/rbac.ts itself depends on (lib/security.ts) can use them without a cycle.
+
+// Resource types in the system
+export const RESOURCE_TYPES = {
+  USERS: 'users',
+  POSTS: 'posts',
+  STORIES: 'stories',
+  ANALYTICS: 'analytics',
+  GENERATE: 'generate',
+  EXPLORE: 'explore',
+  UPLOAD: 'upload',
+  ADMIN: 'admin',
+  PROVIDERS: 'providers',
+  FINANCE: 'finance',
+  FITNESS: 'fitness',
+  MINDFULNESS: 'mindfulness',
+  MOOD: 'mood',
+  NUTRITION: 'nutrition',
+  WATER: 'water',
+  WELLSPHERE: 'wellsphere',
+  FCM: 'fcm',
+  POINTS: 'points',
+  ONBOARDING: 'onboarding',
+  SECURITY: 'security',
+} as const;
+
+// Actions
+export const ACTIONS = {
+  READ: 'read',
+  WRITE: 'write',
+  DELETE: 'delete',
+  MANAGE: 'manage', // Full control
+} as const;
+
+// Predefined roles
+export const ROLES = {
+  SUPERADMIN: 'superadmin',
+  ADMIN: 'admin',
+  MODERATOR: 'moderator',
+  VIEWER: 'viewer',
+  EDITOR: 'editor',
+} as const;
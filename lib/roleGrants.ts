@@ -0,0 +1,460 @@
+import { logAuditEvent } from '@/lib/audit';
+import { db } from '@/lib/db';
+import { role, roleRequest, user, userRole } from '@/lib/db/schema';
+import { sendRoleExpiryEmail } from '@/lib/email';
+import { activeRoleGrant } from '@/lib/rbac';
+import { and, desc, eq, gt, isNull, lte } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+
+/**
+ * Time-bound role grants and just-in-time elevation.
+ *
+ * A grant with `userRole.expiresAt` stops counting in permission checks the
+ * moment it expires (see `activeRoleGrant`). The sweep then removes it, records
+ * the expiry in the audit log, and warns holders shortly before their grants end.
+ */
+
+export const ROLE_REQUEST_MAX_HOURS = 72;
+export const MAX_JUSTIFICATION_LENGTH = 1000;
+
+// Holders are warned a quarter of the grant's length before it ends, within these bounds.
+const MIN_EXPIRY_NOTICE_MS = 15 * 60_000;
+const MAX_EXPIRY_NOTICE_MS = 24 * 60 * 60_000;
+const HOUR_MS = 60 * 60_000;
+
+export type RoleRequestStatus = 'pending' | 'approved' | 'denied' | 'cancelled';
+
+export const ROLE_REQUEST_STATUSES: RoleRequestStatus[] = [
+  'pending',
+  'approved',
+  'denied',
+  'cancelled',
+];
+
+export type RoleRequestItem = {
+  id: string;
+  userId: string;
+  userName: string | null;
+  userEmail: string | null;
+  roleId: string;
+  roleName: string | null;
+  durationHours: number;
+  justification: string;
+  status: RoleRequestStatus;
+  reviewedBy: string | null;
+  reviewedAt: number | null;
+  reviewNote: string | null;
+  grantExpiresAt: number | null;
+  createdAt: number;
+};
+
+type RoleRequestRow = typeof roleRequest.$inferSelect;
+
+function toRoleRequestItem(
+  row: RoleRequestRow,
+  joined: { userName?: string | null; userEmail?: string | null; roleName?: string | null } = {}
+): RoleRequestItem {
+  return {
+    id: row.id,
+    userId: row.userId,
+    userName: joined.userName ?? null,
+    userEmail: joined.userEmail ?? null,
+    roleId: row.roleId,
+    roleName: joined.roleName ?? null,
+    durationHours: row.durationHours,
+    justification: row.justification,
+    status: row.status as RoleRequestStatus,
+    reviewedBy: row.reviewedBy,
+    reviewedAt: row.reviewedAt?.getTime() ?? null,
+    reviewNote: row.reviewNote,
+    grantExpiresAt: row.grantExpiresAt?.getTime() ?? null,
+    createdAt: row.createdAt.getTime(),
+  };
+}
+
+/** Audit trail for any role grant, permanent or time-bound. */
+export async function auditRoleGrant(params: {
+  grantedBy: string | null;
+  userId: string;
+  roleId: string;
+  roleName: string;
+  expiresAt: Date | null;
+  requestId?: string;
+}) {
+  const { grantedBy, userId, roleId, roleName, expiresAt, requestId } = params;
+  await logAuditEvent({
+    userId: grantedBy,
+    action: 'ROLE_GRANTED',
+    severity: roleName === 'superadmin' ? 'high' : 'medium',
+    message: expiresAt
+      ? `Granted ${roleName} to ${userId} until ${expiresAt.toISOString()}`
+      : `Granted ${roleName} to ${userId}`,
+    metadata: {
+      targetUserId: userId,
+      roleId,
+      roleName,
+      expiresAt: expiresAt?.toISOString() ?? null,
+      requestId: requestId ?? null,
+    },
+  });
+}
+
+export async function listRoleRequests(filters: {
+  userId?: string;
+  status?: RoleRequestStatus;
+  limit: number;
+}) {
+  const where = [];
+  if (filters.userId) where.push(eq(roleRequest.userId, filters.userId));
+  if (filters.status) where.push(eq(roleRequest.status, filters.status));
+
+  const rows = await db
+    .select({
+      request: roleRequest,
+      userName: user.name,
+      userEmail: user.email,
+      roleName: role.name,
+    })
+    .from(roleRequest)
+    .innerJoin(user, eq(roleRequest.userId, user.id))
+    .innerJoin(role, eq(roleRequest.roleId, role.id))
+    .where(and(...where))
+    .orderBy(desc(roleRequest.createdAt))
+    .limit(filters.limit);
+
+  return rows.map(({ request, ...joined }) => toRoleRequestItem(request, joined));
+}
+
+async function activeGrantFor(userId: string, roleId: string) {
+  const [grant] = await db
+    .select({ expiresAt: userRole.expiresAt })
+    .from(userRole)
+    .where(and(eq(userRole.userId, userId), eq(userRole.roleId, roleId), activeRoleGrant()))
+    .limit(1);
+  return grant ?? null;
+}
+
+export async function createRoleRequest(params: {
+  userId: string;
+  roleId: string;
+  durationHours: number;
+  justification: string;
+}) {
+  const { userId, roleId, durationHours } = params;
+  const justification = params.justification.trim();
+  if (
+    !Number.isInteger(durationHours) ||
+    durationHours < 1 ||
+    durationHours > ROLE_REQUEST_MAX_HOURS
+  ) {
+    return {
+      error: `Duration must be between 1 and ${ROLE_REQUEST_MAX_HOURS} hours`,
+      status: 400,
+    } as const;
+  }
+  if (!justification || justification.length > MAX_JUSTIFICATION_LENGTH) {
+    return {
+      error: `A justification of up to ${MAX_JUSTIFICATION_LENGTH} characters is required`,
+      status: 400,
+    } as const;
+  }
+
+  const [roleData] = await db.select().from(role).where(eq(role.id, roleId)).limit(1);
+  if (!roleData) return { error: 'Role not found', status: 404 } as const;
+
+  const grant = await activeGrantFor(userId, roleId);
+  if (grant) {
+    return {
+      error: grant.expiresAt
+        ? `You already have this role until ${grant.expiresAt.toISOString()}`
+        : 'You already have this role',
+      status: 409,
+    } as const;
+  }
+  const [pending] = await db
+    .select({ id: roleRequest.id })
+    .from(roleRequest)
+    .where(
+      and(
+        eq(roleRequest.userId, userId),
+        eq(roleRequest.roleId, roleId),
+        eq(roleRequest.status, 'pending')
+      )
+    )
+    .limit(1);
+  if (pending) return { error: 'A request for this role is already pending', status: 409 } as const;
+
+  const now = new Date();
+  const [row] = await db
+    .insert(roleRequest)
+    .values({
+      id: nanoid(),
+      userId,
+      roleId,
+      durationHours,
+      justification,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+
+  await logAuditEvent({
+    userId,
+    action: 'ROLE_REQUESTED',
+    severity: 'low',
+    message: `Requested ${roleData.name} for ${durationHours}h`,
+    metadata: { requestId: row.id, roleId, roleName: roleData.name, durationHours, justification },
+  });
+
+  return { request: toRoleRequestItem(row, { roleName: roleData.name }) };
+}
+
+async function pendingRequest(requestId: string) {
+  const [found] = await db
+    .select({ request: roleRequest, roleName: role.name })
+    .from(roleRequest)
+    .innerJoin(role, eq(roleRequest.roleId, role.id))
+    .where(eq(roleRequest.id, requestId))
+    .limit(1);
+  if (!found) return { error: 'Request not found', status: 404 } as const;
+  if (found.request.status !== 'pending') {
+    return { error: `Request is already ${found.request.status}`, status: 409 } as const;
+  }
+  return found;
+}
+
+// Reviews race each other (approve vs deny, deny vs cancel), so every status
+// change is conditioned on the request still being pending when it lands.
+const stillPending = (requestId: string) =>
+  and(eq(roleRequest.id, requestId), eq(roleRequest.status, 'pending'));
+
+const NO_LONGER_PENDING = { error: 'Request is no longer pending', status: 409 } as const;
+
+/**
+ * Grant the requested role until `durationHours` from now. A lapsed grant of
+ * the same role is replaced; a permanent one is left alone and the request fails.
+ */
+export async function approveRoleRequest(requestId: string, reviewerId: string, note?: string) {
+  const found = await pendingRequest(requestId);
+  if ('error' in found) return found;
+  const { request, roleName } = found;
+  if (request.userId === reviewerId) {
+    return { error: 'You cannot approve your own request', status: 403 } as const;
+  }
+  const grant = await activeGrantFor(request.userId, request.roleId);
+  if (grant && !grant.expiresAt) {
+    return { error: 'The user already has this role permanently', status: 409 } as const;
+  }
+
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + request.durationHours * HOUR_MS);
+  const row = await db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(roleRequest)
+      .set({
+        status: 'approved',
+        reviewedBy: reviewerId,
+        reviewedAt: now,
+        reviewNote: note || null,
+        grantExpiresAt: expiresAt,
+        updatedAt: now,
+      })
+      .where(stillPending(requestId))
+      .returning();
+    if (!updated) return null;
+    await tx
+      .insert(userRole)
+      .values({
+        userId: request.userId,
+        roleId: request.roleId,
+        assignedBy: reviewerId,
+        assignedAt: now,
+        expiresAt,
+      })
+      .onConflictDoUpdate({
+        target: [userRole.userId, userRole.roleId],
+        set: { assignedBy: reviewerId, assignedAt: now, expiresAt, expiryNotifiedAt: null },
+      });
+    return updated;
+  });
+  if (!row) return NO_LONGER_PENDING;
+
+  await logAuditEvent({
+    userId: reviewerId,
+    action: 'ROLE_REQUEST_APPROVED',
+    severity: 'high',
+    message: `Approved ${roleName} for ${request.userId} for ${request.durationHours}h`,
+    metadata: {
+      requestId,
+      targetUserId: request.userId,
+      roleId: request.roleId,
+      roleName,
+      durationHours: request.durationHours,
+      expiresAt: expiresAt.toISOString(),
+      note: note || null,
+    },
+  });
+  await auditRoleGrant({
+    grantedBy: reviewerId,
+    userId: request.userId,
+    roleId: request.roleId,
+    roleName,
+    expiresAt,
+    requestId,
+  });
+
+  return { request: toRoleRequestItem(row, { roleName }) };
+}
+
+/** Close a pending request without a grant: denied by a superadmin, or withdrawn by its requester. */
+export async function closeRoleRequest(
+  requestId: string,
+  actorId: string,
+  status: 'denied' | 'cancelled',
+  note?: string
+) {
+  const found = await pendingRequest(requestId);
+  if ('error' in found) return found;
+  const { request, roleName } = found;
+  if (status === 'cancelled' && request.userId !== actorId) {
+    return { error: 'Only the requester can cancel a request', status: 403 } as const;
+  }
+
+  const now = new Date();
+  const [row] = await db
+    .update(roleRequest)
+    .set({
+      status,
+      reviewedBy: actorId,
+      reviewedAt: now,
+      reviewNote: note || null,
+      updatedAt: now,
+    })
+    .where(stillPending(requestId))
+    .returning();
+  if (!row) return NO_LONGER_PENDING;
+
+  await logAuditEvent({
+    userId: actorId,
+    action: status === 'denied' ? 'ROLE_REQUEST_DENIED' : 'ROLE_REQUEST_CANCELLED',
+    severity: 'low',
+    message: `${status === 'denied' ? 'Denied' : 'Cancelled'} request for ${roleName}`,
+    metadata: {
+      requestId,
+      targetUserId: request.userId,
+      roleId: request.roleId,
+      roleName,
+      note: note || null,
+    },
+  });
+
+  return { request: toRoleRequestItem(row, { roleName }) };
+}
+
+function expiryNoticeMs(assignedAt: Date, expiresAt: Date) {
+  const quarter = (expiresAt.getTime() - assignedAt.getTime()) / 4;
+  return Math.min(Math.max(quarter, MIN_EXPIRY_NOTICE_MS), MAX_EXPIRY_NOTICE_MS);
+}
+
+const grantColumns = {
+  userId: userRole.userId,
+  roleId: userRole.roleId,
+  assignedAt: userRole.assignedAt,
+  expiresAt: userRole.expiresAt,
+  roleName: role.name,
+  userName: user.name,
+  userEmail: user.email,
+};
+
+async function removeExpiredGrants(now: Date) {
+  const expired = await db
+    .select(grantColumns)
+    .from(userRole)
+    .innerJoin(role, eq(userRole.roleId, role.id))
+    .innerJoin(user, eq(userRole.userId, user.id))
+    .where(lte(userRole.expiresAt, now));
+
+  for (const grant of expired) {
+    await db
+      .delete(userRole)
+      .where(
+        and(
+          eq(userRole.userId, grant.userId),
+          eq(userRole.roleId, grant.roleId),
+          lte(userRole.expiresAt, now)
+        )
+      );
+    await logAuditEvent({
+      userId: grant.userId,
+      action: 'ROLE_GRANT_EXPIRED',
+      severity: 'medium',
+      message: `${grant.roleName} grant for ${grant.userEmail} expired`,
+      metadata: {
+        roleId: grant.roleId,
+        roleName: grant.roleName,
+        expiresAt: grant.expiresAt?.toISOString() ?? null,
+      },
+    });
+  }
+  return expired.length;
+}
+
+async function notifyExpiringGrants(now: Date) {
+  const candidates = await db
+    .select(grantColumns)
+    .from(userRole)
+    .innerJoin(role, eq(userRole.roleId, role.id))
+    .innerJoin(user, eq(userRole.userId, user.id))
+    .where(
+      and(
+        gt(userRole.expiresAt, now),
+        lte(userRole.expiresAt, new Date(now.getTime() + MAX_EXPIRY_NOTICE_MS)),
+        isNull(userRole.expiryNotifiedAt)
+      )
+    );
+
+  let notified = 0;
+  for (const grant of candidates) {
+    const expiresAt = grant.expiresAt as Date;
+    if (expiresAt.getTime() - now.getTime() > expiryNoticeMs(grant.assignedAt, expiresAt)) {
+      continue;
+    }
+    try {
+      await sendRoleExpiryEmail({
+        to: grant.userEmail,
+        name: grant.userName,
+        roleName: grant.roleName,
+        expiresAt,
+      });
+    } catch (error: unknown) {
+      // Retried on the next sweep.
+      console.error('Failed to send role expiry email', error);
+      continue;
+    }
+    await db
+      .update(userRole)
+      .set({ expiryNotifiedAt: now })
+      .where(and(eq(userRole.userId, grant.userId), eq(userRole.roleId, grant.roleId)));
+    await logAuditEvent({
+      userId: grant.userId,
+      action: 'ROLE_GRANT_EXPIRING',
+      severity: 'info',
+      message: `Warned ${grant.userEmail} that ${grant.roleName} expires at ${expiresAt.toISOString()}`,
+      metadata: {
+        roleId: grant.roleId,
+        roleName: grant.roleName,
+        expiresAt: expiresAt.toISOString(),
+      },
+    });
+    notified++;
+  }
+  return notified;
+}
+
+/** Remove lapsed grants and warn holders of ones about to lapse. Meant to run every few minutes. */
+export async function sweepRoleGrants(now = new Date()) {
+  const expired = await removeExpiredGrants(now);
+  const notified = await notifyExpiringGrants(now);
+  return { expired, notified };
+}
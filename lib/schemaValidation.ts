@@ -0,0 +1,157 @@
+/**
+ * Minimal JSON Schema validator for generated content.
+ *
+ * Covers the subset our templates and the structured-output API use: `type`
+ * (incl. type arrays and `null`), `properties`, `required`,
+ * `additionalProperties`, `items`, `enum`, `const`, string/number/array bounds
+ * and `anyOf`/`oneOf`. Unknown keywords are ignored rather than rejected.
+ */
+
+export type SchemaIssue = {
+  path: string;
+  message: string;
+};
+
+/** The keywords `validateAgainstSchema` understands; anything else is carried along untouched. */
+export type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  [keyword: string]: unknown;
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, expected: string): boolean {
+  const actual = typeOf(value);
+  if (expected === 'number') return actual === 'number' || actual === 'integer';
+  return actual === expected;
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+// biome-ignore lint/complexity/noExcessiveCognitiveComplexity: one branch per supported keyword
+function validateNode(value: unknown, schema: JsonSchema, path: string, issues: SchemaIssue[]) {
+  if (!schema || typeof schema !== 'object') return;
+  const at = path || '(root)';
+
+  const options = schema.anyOf ?? schema.oneOf;
+  if (Array.isArray(options)) {
+    const matching = options.filter((option) => validateAgainstSchema(value, option).length === 0);
+    if (matching.length === 0) {
+      issues.push({ path: at, message: 'does not match any allowed schema' });
+      return;
+    }
+  }
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      issues.push({ path: at, message: `expected ${types.join(' | ')}, got ${typeOf(value)}` });
+      return;
+    }
+  }
+
+  if ('const' in schema && value !== schema.const) {
+    issues.push({ path: at, message: `must equal ${JSON.stringify(schema.const)}` });
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    issues.push({
+      path: at,
+      message: `must be one of ${schema.enum.map((v: unknown) => JSON.stringify(v)).join(', ')}`,
+    });
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      issues.push({ path: at, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      issues.push({ path: at, message: `must be at most ${schema.maxLength} characters` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      issues.push({ path: at, message: `must be >= ${schema.minimum}` });
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      issues.push({ path: at, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      issues.push({ path: at, message: `must have at least ${schema.minItems} items` });
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      issues.push({ path: at, message: `must have at most ${schema.maxItems} items` });
+    }
+    const itemSchema = schema.items;
+    if (itemSchema && typeof itemSchema === 'object') {
+      value.forEach((item, i) => validateNode(item, itemSchema, joinPath(path, i), issues));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const obj = value as Record<string, unknown>;
+    const properties: Record<string, JsonSchema> = schema.properties || {};
+
+    for (const key of Array.isArray(schema.required) ? schema.required : []) {
+      if (!(key in obj) || obj[key] === undefined) {
+        issues.push({ path: joinPath(path, key), message: 'is required' });
+      }
+    }
+
+    for (const [key, child] of Object.entries(obj)) {
+      if (key in properties) {
+        validateNode(child, properties[key], joinPath(path, key), issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: joinPath(path, key), message: 'is not allowed' });
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        validateNode(child, schema.additionalProperties, joinPath(path, key), issues);
+      }
+    }
+  }
+}
+
+export function validateAgainstSchema(value: unknown, schema: JsonSchema): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  validateNode(value, schema, '', issues);
+  return issues;
+}
+
+/**
+ * Generation schemas describe the whole response (usually an array of items),
+ * but validation and repair happen per item.
+ */
+export function itemSchemaOf(schema: JsonSchema): JsonSchema {
+  if (schema?.type === 'array' && schema.items && typeof schema.items === 'object') {
+    return schema.items;
+  }
+  return schema;
+}
+
+export function formatSchemaIssues(issues: SchemaIssue[]): string[] {
+  return issues.map((issue) => `${issue.path} ${issue.message}`);
+}
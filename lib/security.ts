@@ -1,7 +1,9 @@
+import { logAuditEvent } from '@/lib/audit';
 import { db } from '@/lib/db';
-import { permission, role, rolePermission, securitySettings } from '@/lib/db/schema';
-import { ACTIONS, RESOURCE_TYPES } from '@/lib/rbac';
-import { and, eq, inArray } from 'drizzle-orm';
+import { permission, role, rolePermission, securitySettings, session } from '@/lib/db/schema';
+import { type CompiledAllowlist, compileAllowlist } from '@/lib/ipAllowlist';
+import { ACTIONS, RESOURCE_TYPES } from '@/lib/rbacConstants';
+import { and, desc, eq, gt, inArray } from 'drizzle-orm';
 
 export type SecuritySettings = {
   id: string;
@@ -17,6 +19,7 @@ export type SecuritySettings = {
   passwordExpirationDays: number;
   forcePasswordChangeOnFirstLogin: boolean;
   maxActiveSessionsPerUser: number;
+  legacyRoleAccessEnabled: boolean;
   createdAt: Date;
   updatedAt: Date;
 };
@@ -34,6 +37,7 @@ export type SecuritySettingsInput = Partial<{
   passwordExpirationDays: number;
   forcePasswordChangeOnFirstLogin: boolean;
   maxActiveSessionsPerUser: number;
+  legacyRoleAccessEnabled: boolean;
 }>;
 
 export type PasswordValidationResult = {
@@ -44,10 +48,7 @@ export type PasswordValidationResult = {
 const GLOBAL_ID = 'global';
 
 // Reasonable defaults if no row exists yet.
-const DEFAULT_SECURITY_SETTINGS: Omit<
-  SecuritySettings,
-  'id' | 'createdAt' | 'updatedAt'
-> = {
+const DEFAULT_SECURITY_SETTINGS: Omit<SecuritySettings, 'id' | 'createdAt' | 'updatedAt'> = {
   enforceTwoFactorForAll: false,
   loginAlertEnabled: false,
   loginAlertEmails: [],
@@ -60,10 +61,49 @@ const DEFAULT_SECURITY_SETTINGS: Omit<
   passwordExpirationDays: 0,
   forcePasswordChangeOnFirstLogin: false,
   maxActiveSessionsPerUser: 0,
+  legacyRoleAccessEnabled: true,
 };
 
 let securityPermissionsEnsured = false;
 
+// The proxy reads the settings on every request, so they are cached per process.
+// Saves clear the cache here; other processes (e.g. the proxy bundle) pick changes
+// up within the TTL.
+const SETTINGS_CACHE_TTL_MS = 30_000;
+
+export type IpAllowlistSettings = {
+  enabled: boolean;
+  allowlist: CompiledAllowlist;
+};
+
+type CachedSecuritySettings = {
+  settings: SecuritySettings;
+  allowlist: CompiledAllowlist;
+};
+
+let settingsCache: { value: CachedSecuritySettings; expiresAt: number } | null = null;
+
+/**
+ * What a signed-in user must do before using the admin, most urgent first.
+ * Password changes come before 2FA enrollment, which asks for the password.
+ */
+export type AccountRequirement = 'password_change' | 'password_expired' | 'two_factor_enrollment';
+
+export type AccountSecurityState = {
+  createdAt?: Date | string | null;
+  twoFactorEnabled?: boolean | null;
+  mustChangePassword?: boolean | null;
+  passwordChangedAt?: Date | string | null;
+};
+
+export const ACCOUNT_REQUIREMENT_MESSAGES: Record<AccountRequirement, string> = {
+  password_change: 'Your administrator requires you to change your password before continuing.',
+  password_expired: 'Your password has expired. Choose a new one to continue.',
+  two_factor_enrollment: 'Two-factor authentication is required. Set it up to continue.',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 function coerceStringArray(value: unknown): string[] {
   if (Array.isArray(value)) {
     return value.map((v) => String(v)).filter((v) => v.trim().length > 0);
@@ -126,10 +166,7 @@ export async function ensureSecurityPermissions() {
 
   // Attach to core roles where they exist.
   const coreRoleIds = ['role_superadmin', 'role_admin'];
-  const coreRoles = await db
-    .select()
-    .from(role)
-    .where(inArray(role.id, coreRoleIds));
+  const coreRoles = await db.select().from(role).where(inArray(role.id, coreRoleIds));
 
   if (coreRoles.length > 0) {
     const existingRolePerms = await db
@@ -145,9 +182,7 @@ export async function ensureSecurityPermissions() {
         )
       );
 
-    const existingPairs = new Set(
-      existingRolePerms.map((rp) => `${rp.roleId}:${rp.permissionId}`)
-    );
+    const existingPairs = new Set(existingRolePerms.map((rp) => `${rp.roleId}:${rp.permissionId}`));
 
     const rolePermValues: { roleId: string; permissionId: string; createdAt: Date }[] = [];
     const now = new Date();
@@ -206,6 +241,7 @@ export async function getSecuritySettings(): Promise<SecuritySettings> {
     passwordExpirationDays: DEFAULT_SECURITY_SETTINGS.passwordExpirationDays,
     forcePasswordChangeOnFirstLogin: DEFAULT_SECURITY_SETTINGS.forcePasswordChangeOnFirstLogin,
     maxActiveSessionsPerUser: DEFAULT_SECURITY_SETTINGS.maxActiveSessionsPerUser,
+    legacyRoleAccessEnabled: DEFAULT_SECURITY_SETTINGS.legacyRoleAccessEnabled,
     createdAt: now,
     updatedAt: now,
   });
@@ -257,13 +293,104 @@ export async function updateSecuritySettings(
       passwordExpirationDays: patch.passwordExpirationDays,
       forcePasswordChangeOnFirstLogin: patch.forcePasswordChangeOnFirstLogin,
       maxActiveSessionsPerUser: patch.maxActiveSessionsPerUser,
+      legacyRoleAccessEnabled: patch.legacyRoleAccessEnabled,
       updatedAt: patch.updatedAt,
     })
     .where(eq(securitySettings.id, GLOBAL_ID));
 
+  settingsCache = null;
   return patch as SecuritySettings;
 }
 
+/**
+ * Settings for per-request enforcement, cached for a short TTL.
+ *
+ * If the database is unreachable, the last known settings keep applying; with
+ * none yet, this throws and the caller decides.
+ */
+async function loadCachedSecuritySettings(): Promise<CachedSecuritySettings> {
+  if (settingsCache && Date.now() < settingsCache.expiresAt) {
+    return settingsCache.value;
+  }
+  try {
+    const settings = await getSecuritySettings();
+    const value = { settings, allowlist: compileAllowlist(settings.ipAllowlist as string[]) };
+    settingsCache = { value, expiresAt: Date.now() + SETTINGS_CACHE_TTL_MS };
+    return value;
+  } catch (error: unknown) {
+    if (settingsCache) {
+      console.error('Failed to refresh security settings; using cached settings', error);
+      return settingsCache.value;
+    }
+    throw error;
+  }
+}
+
+export async function getCachedSecuritySettings(): Promise<SecuritySettings> {
+  return (await loadCachedSecuritySettings()).settings;
+}
+
+export async function getIpAllowlistSettings(): Promise<IpAllowlistSettings> {
+  const { settings, allowlist } = await loadCachedSecuritySettings();
+  return { enabled: settings.ipAllowlistEnabled, allowlist };
+}
+
+/**
+ * When the password expires under `passwordExpirationDays`, counted from the last
+ * change (or account creation); null when it never does.
+ */
+export function passwordExpiresAt(
+  state: AccountSecurityState,
+  settings: Pick<SecuritySettings, 'passwordExpirationDays'>
+): Date | null {
+  if (settings.passwordExpirationDays <= 0) return null;
+  const since = state.passwordChangedAt || state.createdAt;
+  if (!since) return null;
+  return new Date(new Date(since).getTime() + settings.passwordExpirationDays * DAY_MS);
+}
+
+export function pendingAccountRequirement(
+  state: AccountSecurityState,
+  settings: Pick<SecuritySettings, 'passwordExpirationDays' | 'enforceTwoFactorForAll'>,
+  now = new Date()
+): AccountRequirement | null {
+  if (state.mustChangePassword) return 'password_change';
+  const expiresAt = passwordExpiresAt(state, settings);
+  if (expiresAt && expiresAt <= now) return 'password_expired';
+  if (settings.enforceTwoFactorForAll && !state.twoFactorEnabled) return 'two_factor_enrollment';
+  return null;
+}
+
+/**
+ * Revoke the user's oldest active sessions so that, with `keepSessionId`, no more
+ * than `maxActiveSessionsPerUser` remain. Called when a session is created.
+ */
+export async function enforceSessionCap(userId: string, keepSessionId: string) {
+  const { maxActiveSessionsPerUser: cap } = await getSecuritySettings();
+  if (cap <= 0) return [];
+
+  const active = await db
+    .select({ id: session.id })
+    .from(session)
+    .where(and(eq(session.userId, userId), gt(session.expiresAt, new Date())))
+    .orderBy(desc(session.createdAt));
+  const evicted = active
+    .filter((s) => s.id !== keepSessionId)
+    .slice(cap - 1)
+    .map((s) => s.id);
+  if (evicted.length === 0) return [];
+
+  await db.delete(session).where(inArray(session.id, evicted));
+  await logAuditEvent({
+    userId,
+    action: 'SESSIONS_EVICTED',
+    severity: 'medium',
+    message: `Signed out ${evicted.length} older session(s) to stay within the limit of ${cap}`,
+    metadata: { sessionIds: evicted, cap },
+  });
+  return evicted;
+}
+
 export function validatePassword(
   password: string,
   settings: Pick<
@@ -301,4 +428,3 @@ export function validatePassword(
     errors,
   };
 }
-
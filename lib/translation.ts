@@ -0,0 +1,170 @@
+import type { GeneratedDoc } from './generatedDocs';
+import { templates } from './templates';
+import type { GenerationConfig, TranslationOptions } from './types';
+
+// Source docs snapshotted into a single translation job.
+export const MAX_TRANSLATION_DOCS = 5000;
+
+// BCP 47-ish: `es`, `pt-BR`, `zh_Hant`.
+const LOCALE_PATTERN = /^[a-z]{2,3}([-_][A-Za-z0-9]{2,8})*$/;
+
+type Schema = Record<string, unknown>;
+
+function getPath(obj: unknown, path: string): unknown {
+  let current: unknown = obj;
+  for (const key of path.split('.')) {
+    if (current == null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function setPath(obj: Record<string, unknown>, path: string, value: unknown) {
+  const keys = path.split('.');
+  let current = obj;
+  for (const key of keys.slice(0, -1)) {
+    const next = current[key];
+    current[key] = next && typeof next === 'object' && !Array.isArray(next) ? { ...next } : {};
+    current = current[key] as Record<string, unknown>;
+  }
+  current[keys[keys.length - 1]] = value;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+/**
+ * Collections translate mode may read: the built-in template collections plus
+ * `TRANSLATION_SOURCE_COLLECTIONS` (comma-separated). Source docs are sent to
+ * the LLM provider, so collections holding user data never belong here.
+ */
+export function translationSourceCollections(): string[] {
+  const extra = (process.env.TRANSLATION_SOURCE_COLLECTIONS || '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  const builtin = templates
+    .map((t) => t.config.collection)
+    .filter((name): name is string => !!name);
+  return Array.from(new Set([...builtin, ...extra]));
+}
+
+/** Why a collection can't be a translation source, or null when it can. */
+export function translationSourceError(collection: string): string | null {
+  if (collection.split('/')[0] === 'users') {
+    return 'User data cannot be translated';
+  }
+  const allowed = translationSourceCollections();
+  if (!allowed.includes(collection)) {
+    return `translation.sourceCollection must be one of: ${allowed.join(', ')}`;
+  }
+  return null;
+}
+
+/** Sibling collection used when `target` is `collection` and none is given. */
+export function defaultTargetCollection(sourceCollection: string, locale: string) {
+  return `${sourceCollection}_${locale.toLowerCase().replace(/-/g, '_')}`;
+}
+
+export function isValidLocale(locale: string): boolean {
+  return LOCALE_PATTERN.test(locale);
+}
+
+/**
+ * The allowlisted fields of a source doc that can be translated: strings and
+ * string arrays. Keyed by field path; everything else is left untouched.
+ */
+export function translatableFields(
+  data: unknown,
+  fields: string[]
+): Record<string, string | string[]> {
+  const picked: Record<string, string | string[]> = {};
+  for (const field of fields) {
+    const value = getPath(data, field);
+    if ((typeof value === 'string' && value.trim()) || isStringArray(value)) {
+      picked[field] = value;
+    }
+  }
+  return picked;
+}
+
+/** Strict output schema mirroring the shape of the picked fields. */
+export function translationSchema(picked: Record<string, string | string[]>): Schema {
+  const properties = Object.fromEntries(
+    Object.entries(picked).map(([field, value]) => [
+      field,
+      Array.isArray(value)
+        ? {
+            type: 'array',
+            items: { type: 'string' },
+            minItems: value.length,
+            maxItems: value.length,
+          }
+        : { type: 'string' },
+    ])
+  );
+  return {
+    type: 'object',
+    properties,
+    required: Object.keys(properties),
+    additionalProperties: false,
+  };
+}
+
+export function translationSystemPrompt(options: TranslationOptions): string {
+  return [
+    `You are a professional translator localizing app content into the "${options.locale}" locale.`,
+    'Translate every value faithfully and naturally. Keep the meaning, tone, formatting, placeholders and list lengths.',
+    'Do not translate keys. Return only the JSON object.',
+    options.instructions?.trim() ? `Additional instructions:\n${options.instructions.trim()}` : '',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+export function translationPrompt(
+  options: TranslationOptions,
+  picked: Record<string, string | string[]>
+): string {
+  return `Translate these fields into ${options.locale}:\n${JSON.stringify(picked, null, 2)}`;
+}
+
+/**
+ * The doc to write for one translated source doc: a full copy with the
+ * translated fields swapped in (sibling collection), or just the
+ * `translations.{locale}` map to merge into the source doc.
+ */
+export function localizedDoc(
+  options: TranslationOptions,
+  sourceId: string,
+  sourceData: unknown,
+  translated: Record<string, unknown>
+): GeneratedDoc {
+  if (options.target === 'map') {
+    const fields: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(translated)) setPath(fields, field, value);
+    return { id: sourceId, data: { translations: { [options.locale]: fields } } };
+  }
+
+  const data: Record<string, unknown> =
+    sourceData && typeof sourceData === 'object' ? { ...(sourceData as object) } : {};
+  for (const [field, value] of Object.entries(translated)) setPath(data, field, value);
+  return { id: sourceId, data };
+}
+
+/**
+ * For `map` targets only `translations.{locale}` is written, so that is all the
+ * write plan should compare against.
+ */
+export function existingTranslation(data: unknown, locale: string): unknown {
+  const current = getPath(data, `translations.${locale}`);
+  return { translations: { [locale]: current ?? null } };
+}
+
+/** Source doc ids for a 1-based batch. */
+export function translationBatchIds(config: GenerationConfig, batch: number): string[] {
+  const ids = config.translation?.docIds ?? [];
+  const start = (batch - 1) * config.batchSize;
+  return ids.slice(start, start + config.batchSize);
+}
@@ -1,15 +1,84 @@
-export type SinkType = 'firestore' | 'file';
+/**
+ * Where generated docs go. `staging` holds them in a review queue until an
+ * editor approves them into the Firestore collection.
+ */
+export type SinkType = 'firestore' | 'file' | 'staging';
+
+/**
+ * How generated docs get their ids. `auto` keeps the historical behaviour
+ * (slug of id / name / condition_name / exercise_name).
+ */
+export type IdStrategy =
+  | { type: 'auto' }
+  | { type: 'field'; fieldPath: string }
+  | { type: 'hash' }
+  | { type: 'uuid' };
+
+/**
+ * What to do when a generated doc id already exists in the target:
+ * - `skip-existing`: only write new docs
+ * - `merge`: merge fields into the existing doc
+ * - `overwrite`: replace the existing doc
+ */
+export type WriteMode = 'skip-existing' | 'merge' | 'overwrite';
+
+/** `translate` localizes an existing collection instead of generating new items. */
+export type GenerationMode = 'generate' | 'translate';
+
+export interface TranslationOptions {
+  sourceCollection: string;
+  /** Target locale, e.g. `es` or `pt-BR`. */
+  locale: string;
+  /** Field paths to translate; only string and string-array values are sent. */
+  fields: string[];
+  /**
+   * `collection`: full localized copies in `targetCollection`;
+   * `map`: merged into the source docs under `translations.{locale}`.
+   */
+  target: 'collection' | 'map';
+  targetCollection?: string;
+  /** Extra guidance for the translator, e.g. tone or a glossary. */
+  instructions?: string;
+  /** Source doc ids, snapshotted when the job is created. */
+  docIds?: string[];
+}
 
 export interface GenerationConfig {
+  mode?: GenerationMode;
+  translation?: TranslationOptions;
   jobName: string;
   count: number;
   batchSize: number;
   systemPrompt: string;
+  /** Supports `{count}`, `{existing_names}`, `{seed}`, `{batch}` and custom `variables`. */
   userPrompt: string;
+  /** Values for custom `{name}` placeholders in the user prompt. */
+  variables?: Record<string, string>;
+  /** One batch per seed (`{seed}` in the prompt); `count` becomes seeds x batch size. */
+  seeds?: string[];
   jsonSchema: JSONSchema;
   collection: string;
   sink: SinkType;
+  /** LLM provider id (see lib/llm); defaults to `LLM_PROVIDER` or `openai`. */
+  provider?: string;
+  /** Passed to the provider verbatim, never remapped. */
   model: string;
+  /** Only sent when the provider advertises the capability. */
+  temperature?: number;
+  maxTokens?: number;
+  /**
+   * How many times an item that fails schema validation is sent back to the
+   * model for repair (and how many times a bad batch is regenerated).
+   */
+  maxRepairAttempts?: number;
+  /** Batches generated in parallel (1-8). */
+  concurrency?: number;
+  /** Retries per provider call on rate limits / 5xx before a batch is abandoned. */
+  maxBatchRetries?: number;
+  idStrategy?: IdStrategy;
+  writeMode?: WriteMode;
+  /** Generate and diff against the target without writing anything. */
+  dryRun?: boolean;
 }
 
 export interface JSONSchema {
@@ -18,15 +87,66 @@ export interface JSONSchema {
   strict?: boolean;
 }
 
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/** Token usage and estimated cost (USD, from the configured price table). */
+export interface GenerationUsage {
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
 export interface GenerationJob {
   id: string;
-  status: 'queued' | 'running' | 'completed' | 'failed';
+  jobName: string;
+  status: GenerationJobStatus;
   completed: number;
   total: number;
+  batchesCompleted: number;
+  batchesTotal: number;
+  attempts: number;
+  provider: string;
+  model: string;
+  usage: GenerationUsage;
+  collection: string;
+  sink: SinkType;
   message?: string;
   error?: string;
+  createdBy?: string | null;
   createdAt: number;
   updatedAt: number;
+  finishedAt?: number | null;
+}
+
+/**
+ * Event sent over the generation SSE stream. `seq` is monotonically increasing
+ * per job so a reattaching client can resume from the last event it saw.
+ */
+export interface GenerationJobEvent {
+  seq: number;
+  type: string;
+  jobId: string;
+  [key: string]: unknown;
+}
+
+export type StagedItemStatus = 'pending' | 'approved' | 'rejected';
+
+/** A generated doc waiting in (or processed through) the staging review queue. */
+export interface StagedItem {
+  id: string;
+  jobId: string | null;
+  jobName?: string | null;
+  collection: string;
+  docId: string;
+  data: unknown;
+  writeMode: WriteMode;
+  status: StagedItemStatus;
+  editedBy: string | null;
+  editedAt: number | null;
+  reviewedBy: string | null;
+  reviewedAt: number | null;
+  rejectReason: string | null;
+  createdAt: number;
 }
 
 export interface Template {
@@ -35,6 +155,35 @@ export interface Template {
   description: string;
   icon: TemplateIcon;
   config: Partial<GenerationConfig>;
+  /** `builtin` templates come from lib/templates.ts, `library` ones from Postgres. */
+  source?: 'builtin' | 'library';
+  visibility?: TemplateVisibility;
+  version?: number;
+  ownerId?: string | null;
+  ownerName?: string | null;
+  sourceTemplateId?: string | null;
+  updatedAt?: number;
+}
+
+export type TemplateVisibility = 'private' | 'shared';
+
+export interface TemplateVersion {
+  version: number;
+  name: string;
+  description: string;
+  config: Partial<GenerationConfig>;
+  changeNote: string | null;
+  authorId: string | null;
+  authorName: string | null;
+  createdAt: number;
+}
+
+/** One difference between two template versions, addressed by dot path. */
+export interface TemplateChange {
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
 }
 
 export type TemplateIcon = 'conditions' | 'fitness' | 'nutrition' | 'mindfulness' | 'custom';
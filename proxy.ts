@@ -1,12 +1,175 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { logAuditEvent } from './lib/audit';
 import { auth } from './lib/auth';
+import {
+  BREAK_GLASS_COOKIE,
+  getClientIp,
+  hasBreakGlassToken,
+  isIpAllowed,
+} from './lib/ipAllowlist';
+import { isSuperadminUser } from './lib/rbac';
+import {
+  ACCOUNT_REQUIREMENT_MESSAGES,
+  type AccountSecurityState,
+  getCachedSecuritySettings,
+  getIpAllowlistSettings,
+  pendingAccountRequirement,
+} from './lib/security';
+
+// Routes that stay open while an account requirement is pending, so it can be met.
+// Sign-in, 2FA setup and password changes live under the public `/api/auth`.
+const ACCOUNT_SETUP_ROUTES = ['/account', '/api/account', '/api/admin/security/log-login'];
+
+// Break-glass use is audited at most once per user and address in this window,
+// and blocked requests at most once per address.
+const ALLOWLIST_AUDIT_INTERVAL_MS = 10 * 60_000;
+// Bounds the throttle maps when traffic comes from many addresses.
+const MAX_AUDIT_THROTTLE_KEYS = 10_000;
+const breakGlassAudited = new Map<string, number>();
+const blockedAudited = new Map<string, number>();
+
+function auditDue(audited: Map<string, number>, key: string) {
+  const now = Date.now();
+  if (now - (audited.get(key) || 0) < ALLOWLIST_AUDIT_INTERVAL_MS) return false;
+  if (audited.size >= MAX_AUDIT_THROTTLE_KEYS) {
+    for (const [k, at] of audited) {
+      if (now - at >= ALLOWLIST_AUDIT_INTERVAL_MS) audited.delete(k);
+    }
+    if (audited.size >= MAX_AUDIT_THROTTLE_KEYS) audited.clear();
+  }
+  audited.set(key, now);
+  return true;
+}
+
+async function auditBreakGlass(request: NextRequest, userId: string, ip: string | null) {
+  if (!auditDue(breakGlassAudited, `${userId}:${ip}`)) return;
+  await logAuditEvent({
+    userId,
+    action: 'IP_ALLOWLIST_BREAK_GLASS',
+    severity: 'critical',
+    message: `Superadmin bypassed the IP allowlist from ${ip || 'an unknown address'}`,
+    ipAddress: ip,
+    userAgent: request.headers.get('user-agent'),
+    metadata: { path: request.nextUrl.pathname },
+  });
+}
+
+async function auditBlocked(request: NextRequest, ip: string | null) {
+  if (!auditDue(blockedAudited, ip || 'unknown')) return;
+  await logAuditEvent({
+    action: 'IP_ALLOWLIST_BLOCKED',
+    severity: 'high',
+    message: `Blocked request from ${ip || 'an unknown address'} by the IP allowlist`,
+    ipAddress: ip,
+    userAgent: request.headers.get('user-agent'),
+    metadata: {
+      path: request.nextUrl.pathname,
+      method: request.method,
+      forwardedFor: request.headers.get('x-forwarded-for'),
+    },
+  });
+}
+
+// A superadmin session presenting the break-glass token may pass; sign-in routes
+// only need the token, so the superadmin can get a session in the first place.
+async function breakGlassAllowed(request: NextRequest, isPublicRoute: boolean, ip: string | null) {
+  if (!hasBreakGlassToken(request.headers, request.cookies.get(BREAK_GLASS_COOKIE)?.value)) {
+    return false;
+  }
+  if (isPublicRoute) return true;
+  const session = await auth.api.getSession({ headers: request.headers }).catch(() => null);
+  const userId = session?.user?.id;
+  if (!userId || !(await isSuperadminUser(userId).catch(() => false))) return false;
+  await auditBreakGlass(request, userId, ip);
+  return true;
+}
+
+function blockedResponse(request: NextRequest, message: string, status: number) {
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    return NextResponse.json({ error: message }, { status });
+  }
+  return new NextResponse(message, { status });
+}
+
+/** A 403 response when the allowlist is on and the client address is not on it. */
+async function enforceIpAllowlist(request: NextRequest, isPublicRoute: boolean) {
+  const ip = getClientIp(request.headers);
+  let settings: Awaited<ReturnType<typeof getIpAllowlistSettings>>;
+  try {
+    settings = await getIpAllowlistSettings();
+  } catch (error: unknown) {
+    // Last known settings keep applying through an outage; with none loaded yet it is
+    // unknown whether the allowlist is on, so fail closed and leave break-glass as the way in.
+    console.error('IP allowlist lookup failed with no cached settings; blocking request:', error);
+    if (await breakGlassAllowed(request, isPublicRoute, ip)) return null;
+    return blockedResponse(request, 'Security settings are unavailable, try again shortly', 503);
+  }
+  if (!settings.enabled) return null;
+
+  if (isIpAllowed(ip, settings.allowlist)) return null;
+  if (await breakGlassAllowed(request, isPublicRoute, ip)) return null;
+
+  await auditBlocked(request, ip);
+  return blockedResponse(request, 'Access from this IP address is not allowed', 403);
+}
+
+/** Sends users with an expired password or missing 2FA to their account page first. */
+async function enforceAccountRequirements(request: NextRequest, user: AccountSecurityState) {
+  const { pathname } = request.nextUrl;
+  if (
+    ACCOUNT_SETUP_ROUTES.some((route) => pathname === route || pathname.startsWith(`${route}/`))
+  ) {
+    return null;
+  }
+
+  let settings: Awaited<ReturnType<typeof getCachedSecuritySettings>>;
+  try {
+    settings = await getCachedSecuritySettings();
+  } catch (error: unknown) {
+    console.error('Security settings lookup failed; skipping account requirements:', error);
+    return null;
+  }
+  const requirement = pendingAccountRequirement(user, settings);
+  if (!requirement) return null;
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json(
+      { error: ACCOUNT_REQUIREMENT_MESSAGES[requirement], requirement },
+      { status: 403 }
+    );
+  }
+  const accountUrl = new URL('/account', request.url);
+  accountUrl.searchParams.set('required', requirement);
+  return NextResponse.redirect(accountUrl);
+}
+
+async function isSuperadminRequest(request: NextRequest) {
+  const response = await fetch(new URL('/api/admin/check-role', request.url), {
+    headers: request.headers,
+  });
+  if (!response.ok) return false;
+  const data = await response.json();
+  return data.role === 'superadmin';
+}
 
 export async function proxy(request: NextRequest) {
-  // Public routes that don't require authentication
-  const publicRoutes = ['/login', '/api/auth'];
+  // Public routes that don't require authentication. The sweeps are called by a
+  // scheduler and check their cron secret themselves.
+  const publicRoutes = [
+    '/login',
+    '/api/auth',
+    '/api/rbac/role-grants/sweep',
+    '/api/generate/jobs/sweep',
+  ];
   const isPublicRoute = publicRoutes.some((route) => request.nextUrl.pathname.startsWith(route));
 
+  // The allowlist covers sign-in too: blocked addresses never reach a login form.
+  const blocked = await enforceIpAllowlist(request, isPublicRoute);
+  if (blocked) {
+    return blocked;
+  }
+
   if (isPublicRoute) {
     return NextResponse.next();
   }
@@ -20,7 +183,7 @@ export async function proxy(request: NextRequest) {
     );
 
     const session = (await Promise.race([sessionPromise, timeoutPromise])) as {
-      user?: { id: string };
+      user?: { id: string } & AccountSecurityState;
     } | null;
 
     if (!session?.user) {
@@ -30,21 +193,17 @@ export async function proxy(request: NextRequest) {
       return NextResponse.redirect(loginUrl);
     }
 
+    const required = await enforceAccountRequirements(request, session.user);
+    if (required) {
+      return required;
+    }
+
     // Check if accessing superadmin page
-    if (request.nextUrl.pathname.startsWith('/superadmin')) {
-      // Verify user is superadmin
-      const response = await fetch(new URL('/api/admin/check-role', request.url), {
-        headers: request.headers,
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.role !== 'superadmin') {
-          return NextResponse.redirect(new URL('/', request.url));
-        }
-      } else {
-        return NextResponse.redirect(new URL('/', request.url));
-      }
+    if (
+      request.nextUrl.pathname.startsWith('/superadmin') &&
+      !(await isSuperadminRequest(request))
+    ) {
+      return NextResponse.redirect(new URL('/', request.url));
     }
 
     return NextResponse.next();